@@ -0,0 +1,141 @@
+// Run with npm test. Email goes to a local SMTP server started here, so nothing leaves the
+// machine.
+const { after, before, describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const { SMTPServer } = require("smtp-server");
+const { CHANNELS, getChannel, getPreferredChannel } = require("../channels");
+const { MessageError, buildQueuedMessages } = require("../messages");
+
+const booking = {
+  performanceType: "solo",
+  participantDetails: {
+    fullName: "Asha",
+    phoneNumber: "98765 43210",
+    email: "Asha@Example.com",
+  },
+};
+
+describe("email channel", () => {
+  const received = [];
+  let server;
+  let config;
+
+  before(async () => {
+    server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ["STARTTLS"],
+      logger: false,
+      onRcptTo(address, session, callback) {
+        const replies = { "gone@example.com": 550, "busy@example.com": 451 };
+        const responseCode = replies[address.address];
+        if (responseCode) {
+          const error = new Error(`Refused ${address.address}`);
+          error.responseCode = responseCode;
+          return callback(error);
+        }
+        return callback();
+      },
+      onData(stream, session, callback) {
+        let raw = "";
+        stream.on("data", (chunk) => {
+          raw += chunk;
+        });
+        stream.on("end", () => {
+          received.push({ to: session.envelope.rcptTo.map((rcpt) => rcpt.address), raw });
+          callback();
+        });
+      },
+    });
+    await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+    config = { host: "127.0.0.1", port: server.server.address().port, from: "desk@example.com" };
+  });
+
+  after(() => new Promise((resolve) => server.close(resolve)));
+
+  it("sends the subject and text to the address", async () => {
+    const result = await CHANNELS.email.send(config, {
+      to: "asha@example.com",
+      subject: "Your slot is confirmed",
+      body: "Hi Asha, see you at 10:00 AM",
+    });
+
+    assert.ok(result.emailMessageId);
+    const [email] = received;
+    assert.deepEqual(email.to, ["asha@example.com"]);
+    assert.match(email.raw, /^Subject: Your slot is confirmed$/m);
+    assert.match(email.raw, /Hi Asha, see you at 10:00 AM/);
+  });
+
+  it("fails a refused mailbox for good and retries a busy one", async () => {
+    const send = (to) => CHANNELS.email.send(config, { to, subject: "Hello", body: "Hello" });
+
+    const gone = await send("gone@example.com").catch((error) => error);
+    assert.equal(CHANNELS.email.classifyError(gone), "permanent");
+    const busy = await send("busy@example.com").catch((error) => error);
+    assert.equal(CHANNELS.email.classifyError(busy), "retry");
+  });
+
+  it("retries when the server can't be reached", async () => {
+    const error = await CHANNELS.email
+      .send({ ...config, port: 1 }, { to: "asha@example.com", subject: "Hello", body: "Hello" })
+      .catch((sendError) => sendError);
+    assert.equal(CHANNELS.email.classifyError(error), "retry");
+  });
+});
+
+describe("choosing a channel", () => {
+  it("uses the booking's choice when it has an address there", () => {
+    const prefersEmail = {
+      ...booking,
+      participantDetails: { ...booking.participantDetails, contactChannel: "email" },
+    };
+    assert.equal(getPreferredChannel(prefersEmail).id, "email");
+    assert.equal(CHANNELS.email.getAddress(prefersEmail), "asha@example.com");
+    assert.equal(getPreferredChannel(booking).id, "whatsapp");
+    assert.equal(CHANNELS.whatsapp.getAddress(booking), "919876543210");
+
+    const noEmail = {
+      ...prefersEmail,
+      participantDetails: { ...prefersEmail.participantDetails, email: "not an address" },
+    };
+    assert.equal(getPreferredChannel(noEmail).id, "whatsapp");
+  });
+
+  it("treats messages without a channel as WhatsApp", () => {
+    assert.equal(getChannel(undefined).id, "whatsapp");
+    assert.equal(getChannel("pigeon"), null);
+    assert.equal(getChannel("toString"), null);
+  });
+});
+
+describe("queueing email", () => {
+  const bookingsById = { b1: booking };
+  const queue = (message) =>
+    buildQueuedMessages({ messages: [{ bookingId: "b1", ...message }] }, bookingsById, "x", "desk");
+
+  it("only emails the booking's own address, with a subject", () => {
+    const [queued] = queue({
+      channel: "email",
+      to: " ASHA@example.com",
+      subject: "Schedule",
+      body: "Hi",
+    });
+    assert.equal(queued.channel, "email");
+    assert.equal(queued.to, "asha@example.com");
+    assert.equal(queued.subject, "Schedule");
+
+    assert.throws(
+      () => queue({ channel: "email", to: "someone@example.com", subject: "Hi", body: "Hi" }),
+      MessageError
+    );
+    assert.throws(() => queue({ channel: "email", to: "asha@example.com", body: "Hi" }), {
+      message: /need a subject/,
+    });
+  });
+
+  it("keeps WhatsApp as the default channel", () => {
+    const [queued] = queue({ to: "9876543210", body: "Hi" });
+    assert.equal(queued.channel, "whatsapp");
+    assert.equal(queued.to, "919876543210");
+  });
+});
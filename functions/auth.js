@@ -0,0 +1,39 @@
+// Admin checks for HTTP functions. The admin panel sends the signed-in user's Firebase ID token
+// as "Authorization: Bearer <token>"; roles come from admins/{uid}, same as firestore.rules.
+const admin = require("firebase-admin");
+
+// Thrown when the caller is not signed in or lacks the required role
+class AuthError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.name = "AuthError";
+    this.status = status;
+  }
+}
+
+// Resolve the calling admin, or throw AuthError (401 no/invalid token, 403 wrong role)
+const requireAdmin = async (req, allowedRoles) => {
+  const header = req.headers.authorization || "";
+  const match = /^Bearer (.+)$/.exec(header);
+  if (!match) {
+    throw new AuthError("Sign in required", 401);
+  }
+
+  let decoded;
+  try {
+    decoded = await admin.auth().verifyIdToken(match[1]);
+  } catch (error) {
+    console.error("❌ Invalid ID token:", error.message);
+    throw new AuthError("Invalid or expired sign-in", 401);
+  }
+
+  const adminDoc = await admin.firestore().doc(`admins/${decoded.uid}`).get();
+  const role = adminDoc.exists ? adminDoc.data().role : null;
+  if (!role || !allowedRoles.includes(role)) {
+    throw new AuthError("You do not have permission to do this", 403);
+  }
+
+  return { uid: decoded.uid, email: decoded.email || null, role };
+};
+
+module.exports = { AuthError, requireAdmin };
@@ -0,0 +1,274 @@
+// Booking documents. bookings/{bookingId} is the source of truth for a registration
+// (participants, slots, payment, status); the per-slot flatBookings rows used by the admin
+// table, CSV export and scheduling, and the public bookingStatus/{bookingId} document, are
+// derived from it by the syncFlatBookings trigger.
+const admin = require("firebase-admin");
+const { eventConfig } = require("./eventConfig");
+const { getParticipantNames } = require("./pricing");
+
+// "Asha & Meera" for one field per dancer, "Asha, Meera, Ravi" for members
+const getParticipantName = (performanceType, participantDetails) => {
+  const type = eventConfig.performanceTypes.find((t) => t.id === performanceType);
+  const separator = type?.participants?.mode === "members" ? ", " : " & ";
+  return getParticipantNames(performanceType, participantDetails).join(separator);
+};
+
+// "Asha (12), Meera (14)" from the members sub-form, or undefined when there are none
+const getMemberNames = (participantDetails) => {
+  const members = Array.isArray(participantDetails.members) ? participantDetails.members : [];
+  if (members.length === 0) {
+    return undefined;
+  }
+  return members.map((member) => `${member.name} (${member.age})`).join(", ");
+};
+
+// Filter out undefined values to prevent Firestore errors
+const withoutUndefined = (data) =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+// The canonical document for a registration that is waiting for payment
+const buildPendingBooking = (request, pricing, { bookingId, orderId, holdOwner, currency }) => {
+  const { eventId, date, timeSlots, performanceType, participantDetails } = request;
+  const { amount, participantCount, eventName, performanceTypeName, breakdown } = pricing;
+  const { couponCode, discount } = pricing;
+
+  return {
+    bookingId,
+    orderId,
+    holdOwner,
+    eventId,
+    eventName,
+    date,
+    timeSlots,
+    performanceType,
+    performanceTypeName,
+    participantDetails: withoutUndefined(participantDetails),
+    participantCount,
+    amount,
+    breakdown,
+    // The discount code used, if any; amount and breakdown are after the discount
+    ...(couponCode ? { couponCode, discount } : {}),
+    paymentData: {
+      orderId,
+      amount,
+      currency,
+      status: "pending",
+      webhookProcessed: false,
+    },
+    status: "pending",
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+};
+
+// One row per slot, with document IDs `${bookingId}_${index}`
+const buildFlatBookingRows = (booking) => {
+  const { bookingId, performanceType, timeSlots = [], breakdown = [] } = booking;
+  const participantDetails = booking.participantDetails || {};
+  const paymentData = booking.paymentData || {};
+  const refund = booking.refund || {};
+  const participantName = getParticipantName(performanceType, participantDetails);
+  const memberNames = getMemberNames(participantDetails);
+
+  return timeSlots.map((timeSlot, index) => {
+    const slotPrice = breakdown.find((item) => item.slot === timeSlot) || {};
+
+    return {
+      id: `${bookingId}_${index}`,
+      data: withoutUndefined({
+        bookingId,
+        orderId: booking.orderId,
+        eventId: booking.eventId,
+        eventName: booking.eventName,
+        date: booking.date,
+        timeSlot,
+        performanceType,
+        performanceTypeName: booking.performanceTypeName || "",
+        pricePerPerson: slotPrice.pricePerPerson || 0,
+        participantName,
+        participantCount: booking.participantCount,
+        // Solo fields
+        participantAge: participantDetails.age,
+        // Duet fields
+        participant1Name: participantDetails.participant1Name,
+        participant2Name: participantDetails.participant2Name,
+        participant1Phone: participantDetails.participant1Phone,
+        participant2Phone: participantDetails.participant2Phone,
+        // Group fields. Bookings made before the members sub-form kept the names in one
+        // participantNames field.
+        groupName: participantDetails.participantNames || (memberNames && participantName),
+        memberNames: participantDetails.participantNames || memberNames,
+        // Common fields
+        fullName: participantDetails.fullName,
+        phoneNumber: participantDetails.phoneNumber,
+        email: participantDetails.email,
+        contactChannel: participantDetails.contactChannel,
+        cityResidence: participantDetails.cityResidence,
+        rulesRead: participantDetails.rulesRead,
+        guruName: participantDetails.guruName,
+        performanceCategory: participantDetails.performanceCategory,
+        representativePhone: participantDetails.representativePhone,
+        danceStyle: participantDetails.performanceCategory || "",
+        screenshotUrl: booking.screenshotUrl,
+        // Payment details
+        paymentId: paymentData.paymentId,
+        paymentStatus: paymentData.status,
+        paymentAmount: booking.amount,
+        paymentCurrency: paymentData.currency,
+        timestamp: booking.createdAt,
+        totalSlots: timeSlots.length,
+        amountPerSlot: slotPrice.amount || 0,
+        couponCode: booking.couponCode,
+        discountPerSlot: slotPrice.discount,
+        bookingStatus: booking.status,
+        // Running-late estimate, set from the admin Running order tab
+        estimatedTime: booking.delay?.estimatedTimes?.[timeSlot],
+        delayMinutes: booking.delay?.minutes || undefined,
+        // Refund details
+        refundId: refund.id,
+        refundAmount: refund.amount,
+        refundStatus: refund.status,
+        refundReason: refund.reason,
+        refundedBy: refund.refundedBy,
+        refundedAt: refund.refundedAt,
+      }),
+    };
+  });
+};
+
+// Mirrors getBookingStatus in src/services/firebaseService.ts
+const getBookingStatus = (booking) => {
+  if (booking.status === "confirmed" || booking.status === "cancelled") {
+    return booking.status;
+  }
+  if (booking.paymentData?.status === "success") {
+    return "confirmed";
+  }
+  if (booking.paymentData?.status === "failed") {
+    return "cancelled";
+  }
+  return "pending";
+};
+
+// Phone fields of forms from before performance types named their contact field
+const LEGACY_PHONE_FIELDS = ["phoneNumber", "participant1Phone", "representativePhone"];
+
+// The last 10 digits, so "+91 98765 43210" and "9876543210" match
+const normalizePhone = (phone) =>
+  String(phone || "")
+    .replace(/\D/g, "")
+    .slice(-10);
+
+// Whether phone is one the booking was registered with: the performance type's contact field,
+// an older form's phone field or a group member's phone
+const isBookingPhone = (booking, phone) => {
+  const participantDetails = booking.participantDetails || {};
+  const type = eventConfig.performanceTypes.find((t) => t.id === booking.performanceType);
+  const members = Array.isArray(participantDetails.members) ? participantDetails.members : [];
+  const phones = [
+    ...[type?.participants?.phoneField, ...LEGACY_PHONE_FIELDS].map(
+      (field) => field && participantDetails[field]
+    ),
+    ...members.map((member) => member?.phone),
+  ].map(normalizePhone);
+
+  const wanted = normalizePhone(phone);
+  return wanted.length === 10 && phones.includes(wanted);
+};
+
+// The number to message about a booking: the performance type's contact field, or an older
+// form's phone field. Null when none holds a 10 digit number.
+const getContactPhone = (booking) => {
+  const participantDetails = booking.participantDetails || {};
+  const type = eventConfig.performanceTypes.find((t) => t.id === booking.performanceType);
+  const phone = [type?.participants?.phoneField, ...LEGACY_PHONE_FIELDS]
+    .map((field) => field && participantDetails[field])
+    .find((candidate) => normalizePhone(candidate).length === 10);
+  return phone ? String(phone) : null;
+};
+
+// Registration forms collect an email address in their "email" field
+const normalizeEmail = (email) =>
+  String(email || "")
+    .trim()
+    .toLowerCase();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// The address to email about a booking, or null when the form had none or it is malformed
+const getContactEmail = (booking) => {
+  const email = normalizeEmail(booking.participantDetails?.email);
+  return EMAIL_PATTERN.test(email) ? email : null;
+};
+
+// Whether email is the address the booking was registered with
+const isBookingEmail = (booking, email) => {
+  const contactEmail = getContactEmail(booking);
+  return !!contactEmail && contactEmail === normalizeEmail(email);
+};
+
+// What a dancer sees when they look up their booking: no contact details, only what they need
+// to find their slots, quote their payment and print their receipt. slotChange is the booking's
+// latest slot change request, if any.
+const buildBookingSummary = (booking, slotChange) => {
+  const participantDetails = booking.participantDetails || {};
+  const paymentData = booking.paymentData || {};
+  return withoutUndefined({
+    bookingId: booking.bookingId,
+    eventId: booking.eventId,
+    eventName: booking.eventName,
+    date: booking.date,
+    timeSlots: booking.timeSlots || [],
+    performanceType: booking.performanceType,
+    performanceTypeName: booking.performanceTypeName || booking.performanceType,
+    participantName:
+      getParticipantName(booking.performanceType, participantDetails) ||
+      participantDetails.participantNames,
+    participantNames: getParticipantNames(booking.performanceType, participantDetails),
+    participantCount: booking.participantCount,
+    status: getBookingStatus(booking),
+    amount: booking.amount,
+    breakdown: booking.breakdown,
+    couponCode: booking.couponCode,
+    discount: booking.discount,
+    paymentId: paymentData.paymentId,
+    orderId: booking.orderId || paymentData.orderId,
+    refund: booking.refund
+      ? { amount: booking.refund.amount, status: booking.refund.status }
+      : undefined,
+    slotChange: slotChange
+      ? withoutUndefined({
+          changeId: slotChange.changeId,
+          status: slotChange.status,
+          toSlots: slotChange.toSlots,
+          amountDue: slotChange.amountDue,
+          reason: slotChange.reason,
+        })
+      : undefined,
+  });
+};
+
+// What the dancer's browser may read about a booking while it waits for the payment to be
+// confirmed: bookingStatus/{bookingId} is public to anyone with the booking ID, so it carries
+// the status only, never participant or contact details
+const buildBookingStatus = (booking) =>
+  withoutUndefined({
+    status: getBookingStatus(booking),
+    errorReason: booking.paymentData?.errorReason,
+    webhookProcessed: !!booking.paymentData?.webhookProcessed,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+module.exports = {
+  getParticipantName,
+  getBookingStatus,
+  buildPendingBooking,
+  buildFlatBookingRows,
+  isBookingPhone,
+  getContactPhone,
+  normalizeEmail,
+  getContactEmail,
+  isBookingEmail,
+  buildBookingSummary,
+  buildBookingStatus,
+};
@@ -0,0 +1,192 @@
+// The ways a queued message reaches a dancer. Each channel is a NotificationChannel:
+//   id                       stored on messages/{messageId} as channel
+//   getConfig()              its credentials, from functions config or the environment
+//   isConfigured(config)     whether it can send at all; its messages wait in the queue if not
+//   getAddress(booking)      the booking's number or address on this channel, or null
+//   isBookingAddress(booking, to)  whether to is one the booking was registered with
+//   normalizeAddress(to)     the form to store and send to
+//   send(config, message)    deliver a queued message; resolves to the fields to record on it
+//   classifyError(error)     "rate_limited" pauses the channel until the next run, "retry" tries
+//                            the message again later and "permanent" fails it at once
+// WhatsApp goes out through the Cloud API and email through any SMTP server. A new provider
+// only needs an entry in CHANNELS.
+const functions = require("firebase-functions");
+const nodemailer = require("nodemailer");
+const {
+  getContactEmail,
+  getContactPhone,
+  isBookingEmail,
+  isBookingPhone,
+  normalizeEmail,
+} = require("./bookings");
+
+const GRAPH_API_VERSION = "v21.0";
+// Graph API errors for throughput, spam and per-recipient rate limits
+const RATE_LIMIT_CODES = [4, 80007, 130429, 131048, 131056];
+// SMTP replies for too many connections or messages
+const SMTP_RATE_LIMIT_CODES = [421, 454];
+
+// Thrown by the WhatsApp channel with what the Graph API said
+class WhatsAppSendError extends Error {
+  constructor(message, httpStatus, code) {
+    super(message);
+    this.name = "WhatsAppSendError";
+    this.httpStatus = httpStatus;
+    this.code = code;
+  }
+}
+
+const getWhatsAppConfig = () => {
+  const config = functions.config().whatsapp || {};
+  return {
+    accessToken: config.access_token || process.env.WHATSAPP_ACCESS_TOKEN,
+    phoneNumberId: config.phone_number_id || process.env.WHATSAPP_PHONE_NUMBER_ID,
+    appSecret: config.app_secret || process.env.WHATSAPP_APP_SECRET,
+    verifyToken: config.verify_token || process.env.WHATSAPP_VERIFY_TOKEN,
+  };
+};
+
+const getSmtpConfig = () => {
+  const config = functions.config().smtp || {};
+  return {
+    host: config.host || process.env.SMTP_HOST,
+    port: Number(config.port || process.env.SMTP_PORT || 587),
+    user: config.user || process.env.SMTP_USER,
+    password: config.password || process.env.SMTP_PASSWORD,
+    from: config.from || process.env.SMTP_FROM,
+  };
+};
+
+// Digits only, with India's country code added to 10 digit numbers
+const toWhatsAppNumber = (phone) => {
+  const digits = String(phone || "").replace(/\D/g, "");
+  return digits.length === 10 ? `91${digits}` : digits;
+};
+
+// The Graph API payload for a queued message: its approved template, or plain text
+const buildMessagePayload = (message) => {
+  const payload = { messaging_product: "whatsapp", to: message.to };
+  if (message.template) {
+    return {
+      ...payload,
+      type: "template",
+      template: {
+        name: message.template.name,
+        language: { code: message.template.language },
+        components: message.template.components,
+      },
+    };
+  }
+  return { ...payload, type: "text", text: { body: message.body } };
+};
+
+const sendWhatsAppMessage = async (config, message) => {
+  let response;
+  try {
+    response = await fetch(
+      `https://graph.facebook.com/${GRAPH_API_VERSION}/${config.phoneNumberId}/messages`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${config.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(buildMessagePayload(message)),
+      }
+    );
+  } catch (networkError) {
+    throw new WhatsAppSendError(networkError.message, 0);
+  }
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new WhatsAppSendError(
+      result.error?.message || `WhatsApp API returned ${response.status}`,
+      response.status,
+      result.error?.code
+    );
+  }
+  return { wamid: result.messages?.[0]?.id || null };
+};
+
+const createSmtpTransport = (config) =>
+  nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.port === 465,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+  });
+
+const sendEmailMessage = async (config, message) => {
+  const info = await createSmtpTransport(config).sendMail({
+    from: config.from,
+    to: message.to,
+    subject: message.subject || "",
+    text: message.body,
+  });
+  return { emailMessageId: info.messageId || null };
+};
+
+const CHANNELS = {
+  whatsapp: {
+    id: "whatsapp",
+    getConfig: getWhatsAppConfig,
+    isConfigured: (config) => !!(config.accessToken && config.phoneNumberId),
+    getAddress: (booking) => {
+      const phone = getContactPhone(booking);
+      return phone ? toWhatsAppNumber(phone) : null;
+    },
+    isBookingAddress: isBookingPhone,
+    normalizeAddress: toWhatsAppNumber,
+    send: sendWhatsAppMessage,
+    classifyError: (error) => {
+      if (error.httpStatus === 429 || RATE_LIMIT_CODES.includes(error.code)) {
+        return "rate_limited";
+      }
+      if (!error.httpStatus || error.httpStatus >= 500) {
+        return "retry";
+      }
+      return "permanent";
+    },
+  },
+  email: {
+    id: "email",
+    getConfig: getSmtpConfig,
+    isConfigured: (config) => !!(config.host && config.from),
+    getAddress: getContactEmail,
+    isBookingAddress: isBookingEmail,
+    normalizeAddress: normalizeEmail,
+    send: sendEmailMessage,
+    // A 5xx reply (no such mailbox, rejected as spam) won't change on a retry; connection
+    // errors, 4xx replies and a login the server refused might
+    classifyError: (error) => {
+      if (SMTP_RATE_LIMIT_CODES.includes(error.responseCode)) {
+        return "rate_limited";
+      }
+      if (!error.responseCode || error.responseCode < 500 || error.code === "EAUTH") {
+        return "retry";
+      }
+      return "permanent";
+    },
+  },
+};
+
+// The channel with this id, or null. Messages queued before email existed have no channel and
+// went by WhatsApp.
+const getChannel = (id = "whatsapp") => (Object.hasOwn(CHANNELS, id) ? CHANNELS[id] : null);
+
+// The channel a booking asked for updates on, when it has an address there; WhatsApp otherwise
+const getPreferredChannel = (booking) => {
+  const preferred = getChannel(booking.participantDetails?.contactChannel);
+  return preferred && preferred.getAddress(booking) ? preferred : CHANNELS.whatsapp;
+};
+
+module.exports = {
+  CHANNELS,
+  WhatsAppSendError,
+  getWhatsAppConfig,
+  toWhatsAppNumber,
+  buildMessagePayload,
+  getChannel,
+  getPreferredChannel,
+};
@@ -0,0 +1,103 @@
+// Discount codes. coupons/{CODE} holds
+// { code, discountType: "percent" | "flat", value, maxUses?, usedCount, expiresOn?,
+//   performanceTypes?, tiers?, active }. Organizers manage them from the admin Coupons tab;
+// a use is counted when a pending booking is created with the code and given back if that
+// booking is replaced or expires unpaid.
+const admin = require("firebase-admin");
+
+// Thrown when a code cannot be used for an order
+class CouponError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "CouponError";
+  }
+}
+
+const normalizeCouponCode = (code) =>
+  String(code || "")
+    .trim()
+    .toUpperCase();
+
+const getCouponRef = (code) => admin.firestore().doc(`coupons/${normalizeCouponCode(code)}`);
+
+// Codes run until the end of expiresOn in India
+const isExpired = (coupon, now = Date.now()) =>
+  !!coupon.expiresOn && new Date(`${coupon.expiresOn}T23:59:59.999+05:30`).getTime() < now;
+
+// Check the code may be used for this order; usesToIgnore are uses of the code by pending
+// bookings the order replaces
+const checkCouponUsable = (coupon, performanceType, usesToIgnore = 0) => {
+  if (!coupon || !coupon.active) {
+    throw new CouponError("This code is not valid");
+  }
+  if (isExpired(coupon)) {
+    throw new CouponError("This code has expired");
+  }
+  if (coupon.maxUses && (coupon.usedCount || 0) - usesToIgnore >= coupon.maxUses) {
+    throw new CouponError("This code has been used up");
+  }
+  if (coupon.performanceTypes?.length && !coupon.performanceTypes.includes(performanceType)) {
+    throw new CouponError("This code does not apply to this performance type");
+  }
+};
+
+// Take the discount off the eligible slots of a priced order. Each breakdown item keeps the
+// amount charged for it and the discount taken off.
+const applyCoupon = (coupon, pricing) => {
+  const isEligible = (item) => !coupon.tiers?.length || coupon.tiers.includes(item.tier);
+  if (!pricing.breakdown.some(isEligible)) {
+    throw new CouponError("This code does not apply to the selected time slots");
+  }
+
+  let flatRemaining = coupon.discountType === "flat" ? coupon.value : 0;
+  const breakdown = pricing.breakdown.map((item) => {
+    if (!isEligible(item)) {
+      return { ...item, discount: 0 };
+    }
+    const discount =
+      coupon.discountType === "percent"
+        ? Math.round((item.amount * Math.min(coupon.value, 100)) / 100)
+        : Math.min(flatRemaining, item.amount);
+    flatRemaining -= coupon.discountType === "flat" ? discount : 0;
+    return { ...item, amount: item.amount - discount, discount };
+  });
+
+  const discount = breakdown.reduce((total, item) => total + item.discount, 0);
+  const amount = pricing.amount - discount;
+  if (amount < 1) {
+    throw new CouponError("This code cannot cover the whole amount");
+  }
+
+  return { ...pricing, amount, discount, couponCode: coupon.code, breakdown };
+};
+
+// Read a code and price the order with it, or throw CouponError
+const priceWithCoupon = async (code, pricing, performanceType, usesToIgnore = 0) => {
+  const couponSnap = await getCouponRef(code).get();
+  const coupon = couponSnap.exists ? couponSnap.data() : null;
+  checkCouponUsable(coupon, performanceType, usesToIgnore);
+  return applyCoupon(coupon, pricing);
+};
+
+// Give back the use of a code by a pending booking that was replaced or expired unpaid.
+// writer is a WriteBatch or Transaction.
+const writeCouponRelease = (writer, booking) => {
+  if (booking.couponCode) {
+    // Merge rather than update so a deleted code does not fail the caller's writes
+    writer.set(
+      getCouponRef(booking.couponCode),
+      { usedCount: admin.firestore.FieldValue.increment(-1) },
+      { merge: true }
+    );
+  }
+};
+
+module.exports = {
+  CouponError,
+  normalizeCouponCode,
+  getCouponRef,
+  checkCouponUsable,
+  applyCoupon,
+  priceWithCoupon,
+  writeCouponRelease,
+};
@@ -0,0 +1,114 @@
+// Server-side copy of the pricing and notification parts of src/config/eventConfig.ts.
+// Cloud Functions are deployed from this folder only, so they cannot import the
+// frontend config. These are the defaults; settings saved from the admin panel
+// (config/event in Firestore) replace them through loadEventConfig.
+const admin = require("firebase-admin");
+
+const defaultEventConfig = {
+  eventName: "Natanam Foundation",
+  events: [
+    {
+      id: "shyamotsava-2025",
+      name: "Shyamotsava 2025",
+      // date: YYYY-MM-DD, startTime/endTime: HH:MM (24-hour)
+      days: [{ date: "2025-08-16", startTime: "09:00", endTime: "20:00" }],
+    },
+  ],
+  slotDuration: 10, // in minutes
+  slotHoldMinutes: 10,
+  waitlistOfferMinutes: 30,
+  slotChangesNeedApproval: false,
+  // Automatic notifications are off until they are set up in the admin panel, except the
+  // waitlist offer, without which dancers never hear about the slot held for them
+  whatsAppTemplates: [],
+  notifications: {
+    waitlistOffer: {
+      enabled: true,
+      channel: "preferred",
+      template: "",
+      subject: "A slot at {event_name} is free for you",
+      message:
+        "Hello {name}, the {event_time} slot on {event_date} at {event_name} is free and held for you until {offer_expires_at}. Book it here: {waitlist_link}",
+    },
+  },
+
+  timePricing: {
+    enabled: true,
+    timeRanges: {
+      offPeak: { start: "09:00", end: "12:00", displayName: "Early Bird" },
+      midPeak: { start: "12:00", end: "17:00", displayName: "Regular" },
+      onPeak: { start: "17:00", end: "20:00", displayName: "Prime Time" },
+    },
+  },
+
+  // Only the fields used for pricing and naming participants; form fields live on the client
+  performanceTypes: [
+    {
+      id: "solo",
+      name: "Solo",
+      pricePerPerson: 1500,
+      tierPrices: { offPeak: 1200, midPeak: 1500, onPeak: 1800 },
+      minParticipants: 1,
+      maxParticipants: 1,
+      participants: { mode: "fields", nameFields: ["fullName"], phoneField: "phoneNumber" },
+    },
+    {
+      id: "duet",
+      name: "Duet",
+      pricePerPerson: 800,
+      tierPrices: { offPeak: 650, midPeak: 800, onPeak: 950 },
+      minParticipants: 2,
+      maxParticipants: 2,
+      participants: {
+        mode: "fields",
+        nameFields: ["participant1Name", "participant2Name"],
+        phoneField: "participant1Phone",
+      },
+    },
+    {
+      id: "group",
+      name: "Group",
+      pricePerPerson: 500,
+      tierPrices: { offPeak: 400, midPeak: 500, onPeak: 600 },
+      minParticipants: 3,
+      maxParticipants: 12,
+      participants: { mode: "members", nameFields: [], phoneField: "representativePhone" },
+    },
+  ],
+};
+
+const eventConfig = { ...defaultEventConfig };
+
+// How long a function instance reuses the settings it read from Firestore
+const CONFIG_CACHE_MS = 60 * 1000;
+let configLoadedAt = 0;
+
+// Refresh eventConfig from config/event. Call at the start of any function that prices
+// or validates slots so organizers' changes apply within a minute.
+const loadEventConfig = async () => {
+  if (Date.now() - configLoadedAt < CONFIG_CACHE_MS) {
+    return eventConfig;
+  }
+
+  const configSnap = await admin.firestore().doc("config/event").get();
+  const data = configSnap.exists ? configSnap.data() : null;
+  // Settings saved before performance types described their participants fail validation in
+  // the browser too, which then keeps the defaults
+  const usable = data?.performanceTypes?.every((type) => type.participants);
+  if (data && !usable) {
+    console.warn("⚠️ Saved event settings are out of date, using the defaults");
+  }
+  // A saved config without timePricing means time-based pricing is off
+  const saved = usable ? { timePricing: undefined, ...data } : {};
+  Object.assign(eventConfig, defaultEventConfig, saved);
+  // Settings saved before a notification existed keep its default rule
+  eventConfig.notifications = { ...defaultEventConfig.notifications, ...saved.notifications };
+  configLoadedAt = Date.now();
+  return eventConfig;
+};
+
+const getEvent = (eventId) => eventConfig.events.find((event) => event.id === eventId);
+
+const getEventDay = (eventId, date) => getEvent(eventId)?.days.find((day) => day.date === date);
+
+module.exports = { eventConfig, loadEventConfig, getEvent, getEventDay };
@@ -3,6 +3,58 @@ const { onSchedule } = require("firebase-functions/v2/scheduler");
 const admin = require("firebase-admin");
 const cryptoLib = require("crypto");
 const Razorpay = require("razorpay");
+const { eventConfig, loadEventConfig } = require("./eventConfig");
+const { calculateOrderAmount, validateTimeSlots, PricingError } = require("./pricing");
+const {
+  SlotConflictError,
+  claimSlotsInTransaction,
+  writeSlotRelease,
+  releaseExpiredHolds,
+  parseSlotDocId,
+} = require("./slots");
+const {
+  getParticipantName,
+  getBookingStatus,
+  buildPendingBooking,
+  buildFlatBookingRows,
+  isBookingPhone,
+  buildBookingSummary,
+  buildBookingStatus,
+} = require("./bookings");
+const {
+  CouponError,
+  normalizeCouponCode,
+  getCouponRef,
+  checkCouponUsable,
+  priceWithCoupon,
+  writeCouponRelease,
+} = require("./coupons");
+const { getOfferEntryQuery, buildWaitlistEntry, offerFreedSlots } = require("./waitlist");
+const {
+  SlotChangeError,
+  OPEN_STATUSES,
+  getSlotChangesRef,
+  priceSlotChange,
+  holdSlotChangeInTransaction,
+  applySlotChangeInTransaction,
+  settleSlotChangeInTransaction,
+  releaseSlotChangeHoldInTransaction,
+} = require("./slotChanges");
+const { AuthError, requireAdmin } = require("./auth");
+const {
+  MessageError,
+  buildQueuedMessages,
+  processMessageQueue,
+  verifyWhatsAppSignature,
+  applyDeliveryStatus,
+} = require("./messages");
+const { getWhatsAppConfig } = require("./channels");
+const {
+  queueNotification,
+  getBookingChangeNotifications,
+  getBookingDeleteNotifications,
+  queueSlotReminders,
+} = require("./notifications");
 
 admin.initializeApp();
 
@@ -17,101 +69,250 @@ const verifyWebhookSignature = (body, signature, secret) => {
   }
 };
 
-// Function to release booked slots
-const releaseBookedSlots = async (booking) => {
+// Function to verify the signature Razorpay Checkout returns to the browser after payment.
+// Unlike webhooks, checkout signs "<order_id>|<payment_id>" with the API key secret.
+const verifyCheckoutSignature = (orderId, paymentId, signature, secret) => {
   try {
-    const { date, timeSlots } = booking;
-    const slotsRef = admin.firestore().doc(`slots/${date}`);
+    const expectedSignature = cryptoLib
+      .createHmac("sha256", secret)
+      .update(`${orderId}|${paymentId}`)
+      .digest("hex");
+    return cryptoLib.timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature));
+  } catch (error) {
+    console.error("Checkout signature verification error:", error);
+    return false;
+  }
+};
+
+// Function to mark a booking as paid and confirmed.
+// Idempotent: verifyPayment normally confirms first and the webhook repeats it as a backup.
+// notFound means the booking was deleted after it was looked up (expired, or by an admin).
+const confirmBookingPayment = async (bookingId, paymentId, orderId, confirmedBy) => {
+  const bookingRef = admin.firestore().doc(`bookings/${bookingId}`);
+
+  return admin.firestore().runTransaction(async (transaction) => {
+    const bookingSnap = await transaction.get(bookingRef);
+    if (!bookingSnap.exists) {
+      console.log("⚠️ Booking no longer exists; not confirming:", bookingId);
+      return { alreadyConfirmed: false, cancelled: false, notFound: true };
+    }
+    const booking = bookingSnap.data();
+
+    // Never revive a booking that was cancelled and refunded (e.g. a replayed webhook)
+    if (booking.status === "cancelled") {
+      console.log("⚠️ Booking was cancelled; not confirming again:", bookingId);
+      return { alreadyConfirmed: false, cancelled: true, notFound: false };
+    }
+
+    const alreadyConfirmed = booking.status === "confirmed";
+    const updates = {
+      status: "confirmed",
+      "paymentData.status": "success",
+      "paymentData.paymentId": paymentId,
+      "paymentData.orderId": orderId,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    if (confirmedBy === "webhook") {
+      updates["paymentData.webhookProcessed"] = true;
+    } else {
+      updates["paymentData.signatureVerified"] = true;
+    }
+
+    if (!alreadyConfirmed) {
+      updates["paymentData.capturedAt"] = admin.firestore.FieldValue.serverTimestamp();
+    }
+
+    transaction.update(bookingRef, updates);
+    return { alreadyConfirmed, cancelled: false, notFound: false };
+  });
+};
+
+// Function to find a booking by its Razorpay order ID. createPendingBooking writes the
+// booking before checkout opens, so a single indexed lookup is enough.
+const findBookingByOrderId = async (orderId) => {
+  if (!orderId) {
+    return null;
+  }
+
+  const query = await admin
+    .firestore()
+    .collection("bookings")
+    .where("orderId", "==", orderId)
+    .limit(1)
+    .get();
+
+  if (query.empty) {
+    console.log("❌ No booking found for order ID:", orderId);
+    return null;
+  }
+
+  const bookingDoc = query.docs[0];
+  const bookingData = bookingDoc.data();
+  console.log("✅ Booking found for order ID:", orderId);
+  return { bookingDoc, bookingData, bookingId: bookingDoc.id };
+};
+
+// Razorpay client from the configured API keys, or null when they are missing. headers are sent
+// with every request (e.g. X-Refund-Idempotency).
+const getRazorpayClient = (headers) => {
+  const keyId = functions.config().razorpay?.key_id || process.env.RAZORPAY_KEY_ID;
+  const keySecret = functions.config().razorpay?.key_secret || process.env.RAZORPAY_KEY_SECRET;
+  return keyId && keySecret
+    ? new Razorpay({ key_id: keyId, key_secret: keySecret, headers })
+    : null;
+};
+
+// Refund what was paid for a slot change that was not applied. Returns the refund to record on
+// the change.
+const refundSlotChange = async (changeId, paymentId, amount, reason) => {
+  const razorpay = getRazorpayClient();
+  if (!razorpay) {
+    throw new Error("Server not configured for Razorpay");
+  }
+
+  const refund = await razorpay.payments.refund(paymentId, {
+    amount: Math.round(amount * 100), // paise
+    speed: "normal",
+    receipt: `refund_${changeId}`.slice(0, 40),
+    notes: { change_id: changeId, reason },
+  });
+  console.log("💸 Slot change refund created:", refund.id, "Amount:", amount);
+
+  return {
+    id: refund.id,
+    amount,
+    status: refund.status === "processed" ? "processed" : "pending",
+    reason,
+    refundedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+};
 
-    // Update each slot back to available
-    const updates = {};
-    timeSlots.forEach((slot) => {
-      updates[slot] = "available";
+// Refund a payment whose order no longer has a booking, e.g. one completed after
+// cleanupExpiredBookings removed the pending booking. It is recorded in unmatchedPayments so
+// verifyPayment and the webhook refund it only once; a refund Razorpay refuses stays there as
+// "refund_failed" for an organizer to settle by hand. Returns the record's status.
+const refundUnmatchedPayment = async (orderId, paymentId) => {
+  const recordRef = admin.firestore().doc(`unmatchedPayments/${paymentId}`);
+  const claimed = await admin.firestore().runTransaction(async (transaction) => {
+    const recordSnap = await transaction.get(recordRef);
+    if (recordSnap.exists) {
+      return recordSnap.data().status;
+    }
+    transaction.set(recordRef, {
+      orderId,
+      paymentId,
+      status: "refunding",
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
     });
+    return null;
+  });
+  if (claimed) {
+    return claimed;
+  }
 
-    await slotsRef.update(updates);
-    console.log("✅ Released slots:", timeSlots);
+  const reason = "No booking for this payment";
+  try {
+    const razorpay = getRazorpayClient();
+    if (!razorpay) {
+      throw new Error("Server not configured for Razorpay");
+    }
+    const refund = await razorpay.payments.refund(paymentId, {
+      speed: "normal",
+      receipt: `refund_${paymentId}`.slice(0, 40),
+      notes: { order_id: orderId, reason },
+    });
+    console.log("💸 Refunded payment with no booking:", paymentId, "Refund:", refund.id);
+    // The refund webhook may already have recorded the final outcome; keep it
+    return await admin.firestore().runTransaction(async (transaction) => {
+      const recordSnap = await transaction.get(recordRef);
+      const recorded = recordSnap.data().refund;
+      const settled = ["processed", "failed"].includes(recorded?.status);
+      transaction.update(recordRef, {
+        ...(settled ? {} : { status: "refunded" }),
+        refund: {
+          id: refund.id,
+          amount: refund.amount / 100,
+          status: settled ? recorded.status : refund.status,
+          reason,
+        },
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return settled ? recordSnap.data().status : "refunded";
+    });
   } catch (error) {
-    console.error("❌ Error releasing slots:", error);
-    throw error; // Re-throw to handle in calling function
+    console.error("❌ Could not refund payment with no booking:", paymentId, error);
+    await recordRef.update({
+      status: "refund_failed",
+      error: error.error?.description || error.message,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return "refund_failed";
   }
 };
 
-// Function to find booking by payment ID or order ID with retry logic
-// Timing Strategy:
-// - Option 1: Initial 2-second delay to allow frontend to create booking
-// - Option 2: 5 retry attempts with 3-second gaps (total 15 seconds wait time)
-// - Total maximum wait: 17 seconds (2s initial + 15s retries)
-const findBookingByIds = async (paymentId, orderId) => {
-  const flatBookingsRef = admin.firestore().collection("flatBookings");
-
-  // Option 1: Initial delay to allow frontend to create booking
-  console.log("⏳ Initial delay: Waiting 2 seconds for frontend to create booking...");
-  await new Promise((resolve) => setTimeout(resolve, 2000));
+// Settle the slot change paid for with a Razorpay order. Returns null when the order is not a
+// slot change's. Idempotent like confirmBookingPayment: verifyPayment normally gets here first
+// and the webhook repeats it. A payment that can no longer move the booking is refunded.
+const completeSlotChangePayment = async (orderId, paymentId) => {
+  if (!orderId) {
+    return null;
+  }
 
-  // Option 2: Retry logic with 15 seconds total and 3-second gaps
-  const maxRetries = 5; // 5 attempts with 3-second gaps = 15 seconds total
-  const delayMs = 3000; // 3 seconds between attempts
+  const changeQuery = await getSlotChangesRef().where("orderId", "==", orderId).limit(1).get();
+  if (changeQuery.empty) {
+    return null;
+  }
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    console.log(
-      `🔍 Attempt ${attempt}/${maxRetries} to find booking (${
-        attempt * delayMs + 2000
-      }ms total wait time)...`
-    );
+  const changeRef = changeQuery.docs[0].ref;
+  const bookingRef = admin.firestore().doc(`bookings/${changeQuery.docs[0].data().bookingId}`);
+  await loadEventConfig();
 
-    // Try to find by payment ID first
-    if (paymentId) {
-      let query = await flatBookingsRef.where("paymentId", "==", paymentId).get();
-      if (!query.empty) {
-        const bookingDoc = query.docs[0];
-        const bookingData = bookingDoc.data();
-        console.log(`✅ Booking found by payment ID on attempt ${attempt}:`, paymentId);
-        return {
-          bookingDoc,
-          bookingData,
-          searchMethod: "paymentId",
-          bookingId: bookingData.bookingId,
-        };
+  let failure = null;
+  let status;
+  try {
+    status = await admin.firestore().runTransaction(async (transaction) => {
+      const change = (await transaction.get(changeRef)).data();
+      if (change.paymentId || !["awaiting_payment", "expired"].includes(change.status)) {
+        return change.status;
+      }
+      // A request the dancer replaced or left unpaid still got paid; give the money back
+      if (change.status === "expired") {
+        throw new SlotChangeError("This slot change request was replaced or ran out of time");
       }
-    }
 
-    // Fallback: Try to find by order ID
-    if (orderId) {
-      let query = await flatBookingsRef
-        .where("originalBookingData.paymentData.orderId", "==", orderId)
-        .get();
-      if (!query.empty) {
-        const bookingDoc = query.docs[0];
-        const bookingData = bookingDoc.data();
-        console.log(`✅ Booking found by order ID on attempt ${attempt}:`, orderId);
-        return {
-          bookingDoc,
-          bookingData,
-          searchMethod: "orderId",
-          bookingId: bookingData.bookingId,
-        };
+      const bookingSnap = await transaction.get(bookingRef);
+      const booking = { ...bookingSnap.data(), bookingId: bookingSnap.id };
+      if (getBookingStatus(booking) !== "confirmed") {
+        throw new SlotChangeError("The booking is no longer confirmed");
       }
+      return settleSlotChangeInTransaction(transaction, bookingRef, booking, changeRef, {
+        ...change,
+        paymentId,
+      });
+    });
+  } catch (error) {
+    if (!(error instanceof SlotConflictError) && !(error instanceof SlotChangeError)) {
+      throw error;
     }
+    failure = error;
+  }
 
-    // If this is not the last attempt, wait before retrying
-    if (attempt < maxRetries) {
-      console.log(
-        `⏳ Booking not found on attempt ${attempt}, waiting ${delayMs}ms before retry...`
-      );
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
-    }
+  if (failure) {
+    console.error("❌ Paid slot change could not be applied:", changeRef.id, failure.message);
+    const amount = changeQuery.docs[0].data().amountDue;
+    await changeRef.update({
+      status: "expired",
+      paymentId,
+      reason: failure.message,
+      refund: await refundSlotChange(changeRef.id, paymentId, amount, failure.message),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    status = "expired";
   }
 
-  console.log(
-    `❌ No booking found after ${maxRetries} attempts (${
-      maxRetries * delayMs + 2000
-    }ms total wait time) for payment ID:`,
-    paymentId,
-    "or order ID:",
-    orderId
-  );
-  return null;
+  console.log(`🔁 Slot change ${changeRef.id} paid; status ${status}`);
+  return { changeId: changeRef.id, status };
 };
 
 exports.razorpayWebhook = functions.https.onRequest(async (req, res) => {
@@ -170,52 +371,65 @@ exports.razorpayWebhook = functions.https.onRequest(async (req, res) => {
       );
 
       try {
-        console.log("⏱️ Starting booking search with retry logic (up to 17 seconds total)...");
-        // Find booking using helper function with retry logic
-        const bookingResult = await findBookingByIds(payment.id, orderId);
+        const bookingResult = await findBookingByOrderId(orderId);
 
         if (bookingResult) {
-          const { bookingDoc, bookingData, searchMethod, bookingId } = bookingResult;
-
-          // Update all flat bookings with this bookingId
-          const flatBookingsRef = admin.firestore().collection("flatBookings");
-          const flatQuery = await flatBookingsRef.where("bookingId", "==", bookingId).get();
-
-          const batch = admin.firestore().batch();
-          flatQuery.forEach((docSnap) => {
-            batch.update(docSnap.ref, {
-              paymentStatus: "success",
-              paymentId: payment.id,
-              bookingStatus: "confirmed",
-              "originalBookingData.paymentData.status": "success",
-              "originalBookingData.paymentData.capturedAt":
-                admin.firestore.FieldValue.serverTimestamp(),
-              "originalBookingData.paymentData.webhookProcessed": true,
-              "originalBookingData.paymentData.paymentId": payment.id,
-              "originalBookingData.paymentData.orderId": orderId,
-              updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          const { bookingId } = bookingResult;
+
+          // Confirm all flat bookings with this bookingId (no-op if verifyPayment already did)
+          const { alreadyConfirmed, cancelled, notFound } = await confirmBookingPayment(
+            bookingId,
+            payment.id,
+            orderId,
+            "webhook"
+          );
+
+          if (notFound) {
+            const refundStatus = await refundUnmatchedPayment(orderId, payment.id);
+            return res.status(200).json({
+              message: `Payment captured with no booking; refund ${refundStatus}`,
+              payment_id: payment.id,
+              order_id: orderId,
             });
-          });
+          }
 
-          await batch.commit();
+          if (cancelled) {
+            return res.status(200).json({
+              message: "Payment captured; booking was already cancelled",
+              payment_id: payment.id,
+              order_id: orderId,
+              booking_id: bookingId,
+            });
+          }
 
           console.log(
-            `✅ Booking confirmed for ${searchMethod}:`,
-            searchMethod === "paymentId" ? payment.id : orderId
+            alreadyConfirmed
+              ? "✅ Booking was already confirmed by verifyPayment"
+              : "✅ Booking status updated to 'confirmed'"
           );
-          console.log("✅ Booking status updated to 'confirmed'");
 
           return res.status(200).json({
-            message: "Payment captured and booking confirmed",
+            message: alreadyConfirmed
+              ? "Payment captured; booking was already confirmed"
+              : "Payment captured and booking confirmed",
             payment_id: payment.id,
             order_id: orderId,
             booking_id: bookingId,
-            search_method: searchMethod,
           });
         } else {
-          console.log("❌ No booking found for payment ID:", payment.id, "or order ID:", orderId);
-          return res.status(404).json({
-            error: "Booking not found",
+          const changeResult = await completeSlotChangePayment(orderId, payment.id);
+          if (changeResult) {
+            return res.status(200).json({
+              message: `Payment captured; slot change ${changeResult.status}`,
+              payment_id: payment.id,
+              order_id: orderId,
+              change_id: changeResult.changeId,
+            });
+          }
+          // Paid after the booking expired; acknowledge so Razorpay stops retrying
+          const refundStatus = await refundUnmatchedPayment(orderId, payment.id);
+          return res.status(200).json({
+            message: `Payment captured with no booking; refund ${refundStatus}`,
             payment_id: payment.id,
             order_id: orderId,
           });
@@ -240,54 +454,32 @@ exports.razorpayWebhook = functions.https.onRequest(async (req, res) => {
       );
 
       try {
-        // Find booking using helper function
-        const bookingResult = await findBookingByIds(payment.id, orderId);
+        const bookingResult = await findBookingByOrderId(orderId);
 
         if (bookingResult) {
-          const { bookingDoc, bookingData, searchMethod, bookingId } = bookingResult;
-          console.log(
-            `🗑️ Cleaning up failed booking found by ${searchMethod}:`,
-            searchMethod === "paymentId" ? payment.id : orderId
-          );
-
-          // Release the booked slots using the original booking data
-          if (bookingData.originalBookingData) {
-            await releaseBookedSlots(bookingData.originalBookingData);
-          } else {
-            // Fallback: release slots for this specific time slot
-            const slotsRef = admin.firestore().doc(`slots/${bookingData.date}`);
-            const updates = {};
-            updates[bookingData.timeSlot] = "available";
-            await slotsRef.update(updates);
+          const { bookingDoc, bookingData, bookingId } = bookingResult;
+
+          // The order stays open after a failed attempt and the dancer can retry in the same
+          // checkout, so keep the booking and its slots. Pending bookings that never get paid
+          // are released by cleanupExpiredBookings.
+          if (bookingData.status === "pending") {
+            await bookingDoc.ref.update({
+              "paymentData.failedPaymentId": payment.id,
+              "paymentData.errorReason":
+                payment.error_description || payment.error_reason || "Payment failed",
+              updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
           }
-          console.log("✅ Slots released for failed payment");
-
-          // Delete all flat bookings with this bookingId
-          const flatBookingsRef = admin.firestore().collection("flatBookings");
-          const flatQuery = await flatBookingsRef.where("bookingId", "==", bookingId).get();
-          const batch = admin.firestore().batch();
-          flatQuery.forEach((docSnap) => batch.delete(docSnap.ref));
 
-          await batch.commit();
-
-          console.log("✅ Failed booking and related flat bookings deleted");
-          console.log("✅ Slots freed up for new bookings");
+          console.log("📝 Failed attempt recorded; booking kept until the order expires");
 
           return res.status(200).json({
-            message: "Payment failed. Booking and slots cleaned up.",
+            message: "Payment failed. Attempt recorded on the pending booking.",
             payment_id: payment.id,
             order_id: orderId,
-            booking_id: bookingDoc.id,
-            search_method: searchMethod,
-            slots_freed: bookingData.timeSlots?.length || 0,
+            booking_id: bookingId,
           });
         } else {
-          console.log(
-            "❌ No booking found for failed payment ID:",
-            payment.id,
-            "or order ID:",
-            orderId
-          );
           return res.status(404).json({
             error: "Booking not found",
             payment_id: payment.id,
@@ -300,6 +492,108 @@ exports.razorpayWebhook = functions.https.onRequest(async (req, res) => {
       }
     }
 
+    // Handle refund.processed / refund.failed events for refunds started by refundBooking,
+    // slot changes and refundUnmatchedPayment
+    if (event.event === "refund.processed" || event.event === "refund.failed") {
+      const refund = event.payload.refund.entity;
+      const refundStatus = event.event === "refund.processed" ? "processed" : "failed";
+      console.log(
+        "💸 Refund update:",
+        refund.id,
+        "Status:",
+        refundStatus,
+        "Payment ID:",
+        refund.payment_id
+      );
+
+      try {
+        const refundQuery = await admin
+          .firestore()
+          .collection("bookings")
+          .where("refund.id", "==", refund.id)
+          .limit(1)
+          .get();
+        // refundBooking may not have recorded the refund's ID yet; its notes name the booking
+        const notedBookingId = refund.notes?.booking_id;
+        const notedBookingSnap =
+          refundQuery.empty && notedBookingId
+            ? await admin.firestore().doc(`bookings/${notedBookingId}`).get()
+            : null;
+        const bookingDoc = refundQuery.empty ? notedBookingSnap : refundQuery.docs[0];
+
+        if (!bookingDoc?.exists) {
+          // Refunds of slot change payments are recorded on the change
+          const changeQuery = await getSlotChangesRef()
+            .where("refund.id", "==", refund.id)
+            .limit(1)
+            .get();
+          if (!changeQuery.empty) {
+            await changeQuery.docs[0].ref.update({
+              "refund.status": refundStatus,
+              updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+            console.log(
+              `✅ Refund ${refundStatus} recorded on slot change ${changeQuery.docs[0].id}`
+            );
+            return res.status(200).json({
+              message: `Refund ${refundStatus}`,
+              refund_id: refund.id,
+              change_id: changeQuery.docs[0].id,
+            });
+          }
+
+          // Refunds of payments with no booking are recorded under the payment's ID
+          const unmatchedRef = admin.firestore().doc(`unmatchedPayments/${refund.payment_id}`);
+          const unmatchedSnap = await unmatchedRef.get();
+          if (unmatchedSnap.exists) {
+            await unmatchedRef.update({
+              status: refundStatus === "failed" ? "refund_failed" : "refunded",
+              "refund.id": refund.id,
+              "refund.status": refundStatus,
+              "refund.amount": refund.amount / 100,
+              updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+            console.log(
+              `✅ Refund ${refundStatus} recorded on unmatched payment ${unmatchedSnap.id}`
+            );
+            return res.status(200).json({
+              message: `Refund ${refundStatus}`,
+              refund_id: refund.id,
+              payment_id: refund.payment_id,
+            });
+          }
+
+          // Not one of ours (e.g. made from the Razorpay dashboard); a 404 would be retried
+          console.log("⚠️ No booking found for refund ID:", refund.id);
+          return res.status(200).json({ message: "Refund not tracked", refund_id: refund.id });
+        }
+
+        // The booking is cancelled and its slots freed only once the money has gone back
+        const booking = bookingDoc.data();
+        const batch = admin.firestore().batch();
+        batch.update(bookingDoc.ref, {
+          "refund.id": refund.id,
+          "refund.status": refundStatus,
+          "refund.amount": refund.amount / 100,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        if (refundStatus === "processed" && booking.status === "confirmed") {
+          writeRefundCancellation(batch, bookingDoc.ref, booking);
+        }
+        await batch.commit();
+
+        console.log(`✅ Refund ${refundStatus} recorded on booking ${bookingDoc.id}`);
+        return res.status(200).json({
+          message: `Refund ${refundStatus}`,
+          refund_id: refund.id,
+          booking_id: bookingDoc.id,
+        });
+      } catch (dbError) {
+        console.error("❌ Error recording refund status:", dbError);
+        return res.status(500).json({ error: "Database update failed" });
+      }
+    }
+
     // Handle payment.authorized event (payment initiated but not captured yet)
     if (event.event === "payment.authorized") {
       const payment = event.payload.payment.entity;
@@ -315,9 +609,10 @@ exports.razorpayWebhook = functions.https.onRequest(async (req, res) => {
 
       // Find and update booking status to show payment is processing
       try {
-        const bookingResult = await findBookingByIds(payment.id, orderId);
-        if (bookingResult) {
-          const { bookingDoc, bookingData, searchMethod } = bookingResult;
+        const bookingResult = await findBookingByOrderId(orderId);
+        // Events can arrive out of order; don't overwrite a capture that was already recorded
+        if (bookingResult && bookingResult.bookingData.status === "pending") {
+          const { bookingDoc } = bookingResult;
 
           await bookingDoc.ref.update({
             "paymentData.status": "authorized",
@@ -328,7 +623,7 @@ exports.razorpayWebhook = functions.https.onRequest(async (req, res) => {
             updatedAt: admin.firestore.FieldValue.serverTimestamp(),
           });
 
-          console.log(`✅ Booking updated to authorized status via ${searchMethod}`);
+          console.log("✅ Booking updated to authorized status");
         }
       } catch (dbError) {
         console.error("❌ Error updating authorized status:", dbError);
@@ -346,216 +641,1324 @@ exports.razorpayWebhook = functions.https.onRequest(async (req, res) => {
   }
 });
 
-// Create Razorpay order with auto-capture
-exports.createRazorpayOrder = functions.https.onRequest(async (req, res) => {
+// Hold slots for a dancer while they fill in payment details. Holds expire after
+// eventConfig.slotHoldMinutes and are freed by cleanupExpiredBookings.
+exports.holdSlots = functions.https.onRequest(async (req, res) => {
   try {
-    console.log("🚀 createRazorpayOrder function called");
-    console.log("📡 Request method:", req.method);
-    console.log("📡 Request headers:", req.headers);
-    console.log("📡 Request body:", req.body);
-
     // CORS
     res.set("Access-Control-Allow-Origin", "*");
     res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
     res.set("Access-Control-Allow-Headers", "Content-Type");
     if (req.method === "OPTIONS") {
-      console.log("✅ CORS preflight request handled");
       return res.status(204).send("");
     }
 
     if (req.method !== "POST") {
-      console.error("❌ Invalid method:", req.method);
       return res.status(405).json({ error: "Method Not Allowed" });
     }
 
-    const keyId = functions.config().razorpay?.key_id || process.env.RAZORPAY_KEY_ID;
-    const keySecret = functions.config().razorpay?.key_secret || process.env.RAZORPAY_KEY_SECRET;
-
-    console.log("🔑 Razorpay credentials check:");
-    console.log("🔑 Key ID exists:", !!keyId);
-    console.log("🔑 Key Secret exists:", !!keySecret);
-
-    if (!keyId || !keySecret) {
-      console.error("❌ Missing Razorpay credentials");
-      console.error("❌ Key ID:", keyId ? "SET" : "MISSING");
-      console.error("❌ Key Secret:", keySecret ? "SET" : "MISSING");
-      console.error("❌ Functions config:", functions.config().razorpay);
-      console.error("❌ Environment vars:", {
-        RAZORPAY_KEY_ID: !!process.env.RAZORPAY_KEY_ID,
-        RAZORPAY_KEY_SECRET: !!process.env.RAZORPAY_KEY_SECRET,
-      });
-      return res.status(500).json({ error: "Server not configured for Razorpay" });
+    const { eventId, date, timeSlots, holdOwner } = req.body || {};
+    if (!holdOwner) {
+      return res.status(400).json({ error: "holdOwner is required" });
     }
 
-    const { amount, currency = "INR", receipt, notes } = req.body || {};
-    console.log("💰 Order parameters:");
-    console.log("💰 Amount:", amount, "Type:", typeof amount);
-    console.log("💰 Currency:", currency);
-    console.log("💰 Receipt:", receipt);
-    console.log("💰 Notes:", notes);
-
-    if (!amount || typeof amount !== "number") {
-      console.error("❌ Invalid amount:", amount, "Type:", typeof amount);
-      return res.status(400).json({ error: "Invalid amount" });
+    await loadEventConfig();
+    try {
+      validateTimeSlots(eventId, date, timeSlots);
+    } catch (validationError) {
+      if (validationError instanceof PricingError) {
+        return res.status(400).json({ error: validationError.message });
+      }
+      throw validationError;
     }
 
-    console.log("🔧 Initializing Razorpay instance...");
-    const razorpay = new Razorpay({ key_id: keyId, key_secret: keySecret });
+    const expiresAt = Date.now() + eventConfig.slotHoldMinutes * 60 * 1000;
 
-    const orderParams = {
-      amount: Math.round(amount),
-      currency,
-      receipt: receipt || `receipt_${Date.now()}`,
-      payment_capture: 1,
-      notes: notes || {},
-    };
+    try {
+      await admin.firestore().runTransaction((transaction) =>
+        claimSlotsInTransaction(transaction, eventId, date, timeSlots, holdOwner, "held", {
+          expiresAt,
+        })
+      );
+    } catch (claimError) {
+      if (claimError instanceof SlotConflictError) {
+        return res
+          .status(409)
+          .json({ error: claimError.message, lostSlots: claimError.lostSlots });
+      }
+      throw claimError;
+    }
 
-    console.log("📋 Creating Razorpay order with params:", orderParams);
+    console.log(
+      `⏳ Held slots for ${holdOwner} until ${new Date(expiresAt).toISOString()}:`,
+      timeSlots
+    );
+    return res.status(200).json({ expiresAt });
+  } catch (error) {
+    console.error("💥 Error holding slots:", error);
+    return res.status(500).json({ error: "Failed to hold slots", details: error.message });
+  }
+});
 
-    const order = await razorpay.orders.create(orderParams);
+// Uses of a code by the dancer's own pending bookings, which the next order replaces
+const countPendingCouponUses = async (holdOwner, couponCode) => {
+  const pendingSnapshot = await admin
+    .firestore()
+    .collection("bookings")
+    .where("holdOwner", "==", holdOwner)
+    .where("status", "==", "pending")
+    .get();
+  return pendingSnapshot.docs.filter((docSnap) => docSnap.data().couponCode === couponCode).length;
+};
 
-    console.log("✅ Razorpay order created successfully:");
-    console.log("✅ Order ID:", order.id);
-    console.log("✅ Order amount:", order.amount);
-    console.log("✅ Order currency:", order.currency);
-    console.log("✅ Order status:", order.status);
-    console.log("✅ Payment capture:", orderParams.payment_capture);
+// Price a registration with a discount code so the payment summary can show it before the
+// dancer pays. Nothing is reserved; createPendingBooking checks the code again.
+exports.previewCoupon = functions.https.onRequest(async (req, res) => {
+  try {
+    // CORS
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
+    res.set("Access-Control-Allow-Headers", "Content-Type");
+    if (req.method === "OPTIONS") {
+      return res.status(204).send("");
+    }
 
-    return res.status(200).json({ order });
-  } catch (error) {
-    console.error("💥 Error creating Razorpay order:", error);
-    console.error("💥 Error name:", error.name);
-    console.error("💥 Error message:", error.message);
-    console.error("💥 Error stack:", error.stack);
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method Not Allowed" });
+    }
 
-    // Check if it's a Razorpay API error
-    if (error.error) {
-      console.error("💥 Razorpay API error details:", error.error);
+    const { eventId, date, timeSlots, performanceType, participantDetails, holdOwner } =
+      req.body || {};
+    const couponCode = normalizeCouponCode(req.body?.couponCode);
+    if (!couponCode || !holdOwner) {
+      return res.status(400).json({ error: "couponCode and holdOwner are required" });
     }
 
-    return res.status(500).json({
-      error: "Failed to create order",
-      details: error.message,
-      timestamp: new Date().toISOString(),
-    });
+    await loadEventConfig();
+    try {
+      const pricing = calculateOrderAmount({
+        eventId,
+        date,
+        timeSlots,
+        performanceType,
+        participantDetails,
+      });
+      const discounted = await priceWithCoupon(
+        couponCode,
+        pricing,
+        performanceType,
+        await countPendingCouponUses(holdOwner, couponCode)
+      );
+      const { amount, discount, breakdown } = discounted;
+      console.log(`🏷️ Coupon ${couponCode} previewed: ₹${discount} off, ₹${amount} to pay`);
+      return res.status(200).json({ couponCode, amount, discount, breakdown });
+    } catch (pricingError) {
+      if (pricingError instanceof PricingError || pricingError instanceof CouponError) {
+        return res.status(400).json({ error: pricingError.message });
+      }
+      throw pricingError;
+    }
+  } catch (error) {
+    console.error("💥 Error previewing coupon:", error);
+    return res.status(500).json({ error: "Failed to check coupon", details: error.message });
   }
 });
 
-// Simple endpoint to check webhook status
-exports.webhookStatus = functions.https.onRequest((req, res) => {
-  res.status(200).json({
-    message: "Webhook endpoint is active",
-    timestamp: new Date().toISOString(),
-  });
-});
-
-// Test endpoint for createRazorpayOrder function
-exports.testCreateOrder = functions.https.onRequest(async (req, res) => {
+// "Find my booking": return a booking's slots, status and payment reference to a dancer who
+// gives both its booking ID and a phone number it was registered with. Unknown IDs and wrong
+// phone numbers get the same answer so the lookup can't be used to probe for bookings.
+exports.lookupBooking = functions.https.onRequest(async (req, res) => {
   try {
-    console.log("🧪 Test endpoint called");
-
-    // Set CORS
+    // CORS
     res.set("Access-Control-Allow-Origin", "*");
-    res.set("Access-Control-Allow-Methods", "GET, OPTIONS");
+    res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
     res.set("Access-Control-Allow-Headers", "Content-Type");
-
     if (req.method === "OPTIONS") {
       return res.status(204).send("");
     }
 
-    if (req.method !== "GET") {
+    if (req.method !== "POST") {
       return res.status(405).json({ error: "Method Not Allowed" });
     }
 
-    const keyId = functions.config().razorpay?.key_id || process.env.RAZORPAY_KEY_ID;
-    const keySecret = functions.config().razorpay?.key_secret || process.env.RAZORPAY_KEY_SECRET;
+    const bookingId = String(req.body?.bookingId || "").trim();
+    const phone = String(req.body?.phone || "");
+    // Firestore document IDs cannot contain slashes
+    if (!bookingId || bookingId.includes("/") || !phone) {
+      return res.status(400).json({ error: "Booking ID and phone number are required" });
+    }
 
-    return res.status(200).json({
-      message: "Test endpoint is working",
-      timestamp: new Date().toISOString(),
-      function: "testCreateOrder",
-      razorpayConfigured: !!(keyId && keySecret),
-      keyIdExists: !!keyId,
-      keySecretExists: !!keySecret,
-      configKeys: Object.keys(functions.config().razorpay || {}),
-      envVars: {
-        RAZORPAY_KEY_ID: !!process.env.RAZORPAY_KEY_ID,
-        RAZORPAY_KEY_SECRET: !!process.env.RAZORPAY_KEY_SECRET,
-      },
-    });
+    const bookingSnap = await admin.firestore().doc(`bookings/${bookingId}`).get();
+    await loadEventConfig();
+    if (!bookingSnap.exists || !isBookingPhone(bookingSnap.data(), phone)) {
+      console.log("🔎 Booking lookup did not match:", bookingId);
+      return res
+        .status(404)
+        .json({ error: "No booking matches this booking ID and phone number" });
+    }
+
+    // Only a handful of changes per booking, so pick the latest here rather than in the query
+    const changesSnapshot = await getSlotChangesRef().where("bookingId", "==", bookingId).get();
+    const latestChange = changesSnapshot.docs
+      .map((docSnap) => ({ ...docSnap.data(), changeId: docSnap.id }))
+      .sort((a, b) => (b.createdAt?.toMillis() || 0) - (a.createdAt?.toMillis() || 0))[0];
+
+    console.log("🔎 Booking looked up:", bookingId);
+    return res
+      .status(200)
+      .json(
+        buildBookingSummary({ ...bookingSnap.data(), bookingId: bookingSnap.id }, latestChange)
+      );
   } catch (error) {
-    console.error("Test endpoint error:", error);
-    return res.status(500).json({ error: "Test failed", details: error.message });
+    console.error("💥 Error looking up booking:", error);
+    return res.status(500).json({ error: "Failed to look up booking", details: error.message });
   }
 });
 
-// Scheduled cleanup for stuck pending bookings (webhook missed / user abandoned) - Gen 2
-exports.cleanupExpiredBookings = onSchedule(
-  {
-    schedule: "every 5 minutes",
-    timeZone: "Etc/UTC",
-    region: "us-central1",
-  },
-  async () => {
-    try {
-      const now = admin.firestore.Timestamp.now();
-      const thresholdMinutes = 5; // consider pending beyond 5 minutes as expired
-      const cutoff = admin.firestore.Timestamp.fromMillis(
-        now.toMillis() - thresholdMinutes * 60 * 1000
-      );
+// Move a confirmed booking to other slots of the same day, for a dancer verified the same way
+// as lookupBooking. Body: { bookingId, phone, timeSlots }. When the new slots cost more, the
+// new slots are held and a Razorpay order for the difference is returned; the change is settled
+// once verifyPayment or the webhook sees the payment. Otherwise it is settled right away.
+exports.requestSlotChange = functions.https.onRequest(async (req, res) => {
+  try {
+    // CORS
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
+    res.set("Access-Control-Allow-Headers", "Content-Type");
+    if (req.method === "OPTIONS") {
+      return res.status(204).send("");
+    }
 
-      const flatBookingsRef = admin.firestore().collection("flatBookings");
-      const pendingSnapshot = await flatBookingsRef.where("bookingStatus", "==", "pending").get();
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method Not Allowed" });
+    }
 
-      if (pendingSnapshot.empty) {
-        return null;
-      }
+    const bookingId = String(req.body?.bookingId || "").trim();
+    const phone = String(req.body?.phone || "");
+    const timeSlots = req.body?.timeSlots;
+    if (!bookingId || bookingId.includes("/") || !phone) {
+      return res.status(400).json({ error: "Booking ID and phone number are required" });
+    }
 
-      // Group by bookingId to avoid duplicate cleanup
-      const processedBookingIds = new Set();
+    const bookingRef = admin.firestore().doc(`bookings/${bookingId}`);
+    const bookingSnap = await bookingRef.get();
+    await loadEventConfig();
+    if (!bookingSnap.exists || !isBookingPhone(bookingSnap.data(), phone)) {
+      return res
+        .status(404)
+        .json({ error: "No booking matches this booking ID and phone number" });
+    }
 
-      for (const docSnap of pendingSnapshot.docs) {
-        const booking = docSnap.data();
-        const createdAt = booking.timestamp;
-        const bookingId = booking.bookingId;
+    const booking = { ...bookingSnap.data(), bookingId };
+    if (getBookingStatus(booking) !== "confirmed") {
+      return res.status(400).json({ error: "Only confirmed bookings can change slots" });
+    }
 
-        // Skip if already processed this bookingId
-        if (processedBookingIds.has(bookingId)) {
-          continue;
-        }
+    let pricing;
+    try {
+      pricing = priceSlotChange(booking, timeSlots);
+    } catch (pricingError) {
+      if (pricingError instanceof SlotChangeError) {
+        return res.status(400).json({ error: pricingError.message });
+      }
+      throw pricingError;
+    }
 
-        if (!createdAt || createdAt.toMillis() > cutoff.toMillis()) {
-          continue;
+    const { breakdown, amountDue } = pricing;
+    const changeRef = getSlotChangesRef().doc();
+    const change = {
+      bookingId,
+      eventId: booking.eventId || null,
+      date: booking.date,
+      fromSlots: booking.timeSlots,
+      toSlots: timeSlots,
+      breakdown,
+      amountDue,
+      participantName:
+        getParticipantName(booking.performanceType, booking.participantDetails || {}) || "",
+      status: "awaiting_payment",
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    let order = null;
+    if (amountDue > 0) {
+      const razorpay = getRazorpayClient();
+      if (!razorpay) {
+        console.error("❌ Missing Razorpay credentials");
+        return res.status(500).json({ error: "Server not configured for Razorpay" });
+      }
+      order = await razorpay.orders.create({
+        amount: Math.round(amountDue * 100), // paise
+        currency: "INR",
+        receipt: `change_${changeRef.id}`.slice(0, 40),
+        payment_capture: 1,
+        notes: {
+          type: "slot_change",
+          booking_id: bookingId,
+          change_id: changeRef.id,
+          time_slots: timeSlots.join(", "),
+        },
+      });
+      change.orderId = order.id;
+    }
+
+    let status = "awaiting_payment";
+    try {
+      status = await admin.firestore().runTransaction(async (transaction) => {
+        const openSnapshot = await transaction.get(
+          getSlotChangesRef()
+            .where("bookingId", "==", bookingId)
+            .where("status", "in", OPEN_STATUSES)
+        );
+        if (openSnapshot.docs.some((docSnap) => docSnap.data().status === "pending_approval")) {
+          throw new SlotChangeError(
+            "A slot change for this booking is already waiting for approval"
+          );
+        }
+        const currentSnap = await transaction.get(bookingRef);
+        const current = { ...currentSnap.data(), bookingId };
+
+        // Claiming the new slots for the booking's owner also frees the slots an earlier unpaid
+        // request was holding, so that request only needs closing
+        let newStatus = "awaiting_payment";
+        if (amountDue > 0) {
+          await holdSlotChangeInTransaction(
+            transaction,
+            current,
+            change,
+            Date.now() + eventConfig.slotHoldMinutes * 60 * 1000
+          );
+          transaction.set(changeRef, change);
+        } else {
+          newStatus = await settleSlotChangeInTransaction(
+            transaction,
+            bookingRef,
+            current,
+            changeRef,
+            change
+          );
         }
+        openSnapshot.docs.forEach((docSnap) =>
+          transaction.update(docSnap.ref, {
+            status: "expired",
+            reason: "Replaced by a newer request",
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          })
+        );
+        return newStatus;
+      });
+    } catch (claimError) {
+      if (claimError instanceof SlotConflictError) {
+        return res
+          .status(409)
+          .json({ error: claimError.message, lostSlots: claimError.lostSlots });
+      }
+      if (claimError instanceof SlotChangeError) {
+        return res.status(409).json({ error: claimError.message });
+      }
+      throw claimError;
+    }
 
-        if (
-          booking.bookingStatus === "confirmed" ||
-          booking.originalBookingData?.paymentData?.status === "success"
-        ) {
-          continue;
+    console.log(`🔁 Slot change ${changeRef.id} for ${bookingId}:`, timeSlots, status);
+    return res.status(200).json({ changeId: changeRef.id, status, amountDue, order });
+  } catch (error) {
+    console.error("💥 Error requesting slot change:", error);
+    if (error.error) {
+      console.error("💥 Razorpay API error details:", error.error);
+    }
+    return res
+      .status(500)
+      .json({ error: "Failed to request slot change", details: error.message });
+  }
+});
+
+// Approve or reject a slot change waiting for an organizer. A rejected change gives back the
+// slots held for it and has any difference paid for it refunded.
+// Body: { changeId, approve, reason? }
+exports.reviewSlotChange = functions.https.onRequest(async (req, res) => {
+  try {
+    // CORS
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
+    res.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    if (req.method === "OPTIONS") {
+      return res.status(204).send("");
+    }
+
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const caller = await requireAdmin(req, ["desk", "organizer"]);
+
+    const { changeId, approve, reason } = req.body || {};
+    if (!changeId || String(changeId).includes("/")) {
+      return res.status(400).json({ error: "changeId is required" });
+    }
+
+    const changeRef = getSlotChangesRef().doc(String(changeId));
+    const changeSnap = await changeRef.get();
+    if (!changeSnap.exists) {
+      return res.status(404).json({ error: "Slot change not found" });
+    }
+    const bookingRef = admin.firestore().doc(`bookings/${changeSnap.data().bookingId}`);
+    const review = {
+      reviewedBy: caller.email || caller.uid,
+      reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    await loadEventConfig();
+    let change;
+    try {
+      change = await admin.firestore().runTransaction(async (transaction) => {
+        const current = (await transaction.get(changeRef)).data();
+        if (current.status !== "pending_approval") {
+          throw new SlotChangeError("This slot change is not waiting for approval");
         }
+        const bookingSnap = await transaction.get(bookingRef);
+        const booking = { ...bookingSnap.data(), bookingId: bookingSnap.id };
 
-        // Release slots using the original booking data
-        if (booking.originalBookingData) {
-          await releaseBookedSlots(booking.originalBookingData);
+        if (approve) {
+          await applySlotChangeInTransaction(transaction, bookingRef, booking, changeRef, {
+            ...current,
+            ...review,
+          });
         } else {
-          // Fallback: release slot for this specific time slot
-          const slotsRef = admin.firestore().doc(`slots/${booking.date}`);
-          const updates = {};
-          updates[booking.timeSlot] = "available";
-          await slotsRef.update(updates);
+          await releaseSlotChangeHoldInTransaction(transaction, booking, current);
+          transaction.update(changeRef, {
+            ...review,
+            status: "rejected",
+            reason: reason || "",
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
         }
+        return current;
+      });
+    } catch (reviewError) {
+      if (reviewError instanceof SlotConflictError) {
+        return res
+          .status(409)
+          .json({ error: reviewError.message, lostSlots: reviewError.lostSlots });
+      }
+      if (reviewError instanceof SlotChangeError) {
+        return res.status(409).json({ error: reviewError.message });
+      }
+      throw reviewError;
+    }
 
-        // Delete all flat bookings with this bookingId
-        const batch = admin.firestore().batch();
-        const allFlatBookings = await flatBookingsRef.where("bookingId", "==", bookingId).get();
-        allFlatBookings.forEach((f) => batch.delete(f.ref));
-        await batch.commit();
+    if (!approve && change.paymentId) {
+      const refund = await refundSlotChange(
+        changeRef.id,
+        change.paymentId,
+        change.amountDue,
+        reason || "Slot change rejected by organizer"
+      );
+      await changeRef.update({ refund, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    }
+
+    console.log(`🔁 Slot change ${changeRef.id} ${approve ? "approved" : "rejected"}`);
+    return res
+      .status(200)
+      .json({ changeId: changeRef.id, status: approve ? "applied" : "rejected" });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    console.error("💥 Error reviewing slot change:", error);
+    return res.status(500).json({
+      error: error.error?.description || "Failed to review slot change",
+      details: error.message,
+    });
+  }
+});
+
+// Put a dancer on the waitlist for a booked-out slot, or for any slot in a pricing tier, with
+// their registration details. Returns the entry ID, which is the key to their waitlist link.
+exports.joinWaitlist = functions.https.onRequest(async (req, res) => {
+  try {
+    // CORS
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
+    res.set("Access-Control-Allow-Headers", "Content-Type");
+    if (req.method === "OPTIONS") {
+      return res.status(204).send("");
+    }
+
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    await loadEventConfig();
+    let entry;
+    try {
+      entry = buildWaitlistEntry(req.body || {});
+    } catch (validationError) {
+      if (validationError instanceof PricingError) {
+        return res.status(400).json({ error: validationError.message });
+      }
+      throw validationError;
+    }
+
+    const entryRef = await admin.firestore().collection("waitlist").add(entry);
+    console.log(
+      `📝 ${entry.contact.name} joined the waitlist for ${entry.eventId} ${entry.date}`,
+      entry.slot || entry.tier
+    );
+    return res.status(200).json({ entryId: entryRef.id });
+  } catch (error) {
+    console.error("💥 Error joining waitlist:", error);
+    return res.status(500).json({ error: "Failed to join waitlist", details: error.message });
+  }
+});
+
+// Create the pending booking for a registration and the Razorpay order to pay for it.
+// Called when the dancer clicks Pay: the amount is priced here, the dancer's held slots are
+// booked, and the booking document is written keyed by the order ID before checkout opens.
+exports.createPendingBooking = functions.https.onRequest(async (req, res) => {
+  try {
+    console.log("🚀 createPendingBooking function called");
+    console.log("📡 Request method:", req.method);
+
+    // CORS
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
+    res.set("Access-Control-Allow-Headers", "Content-Type");
+    if (req.method === "OPTIONS") {
+      console.log("✅ CORS preflight request handled");
+      return res.status(204).send("");
+    }
+
+    if (req.method !== "POST") {
+      console.error("❌ Invalid method:", req.method);
+      return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const keyId = functions.config().razorpay?.key_id || process.env.RAZORPAY_KEY_ID;
+    const keySecret = functions.config().razorpay?.key_secret || process.env.RAZORPAY_KEY_SECRET;
+
+    console.log("🔑 Razorpay credentials check:");
+    console.log("🔑 Key ID exists:", !!keyId);
+    console.log("🔑 Key Secret exists:", !!keySecret);
+
+    if (!keyId || !keySecret) {
+      console.error("❌ Missing Razorpay credentials");
+      console.error("❌ Key ID:", keyId ? "SET" : "MISSING");
+      console.error("❌ Key Secret:", keySecret ? "SET" : "MISSING");
+      console.error("❌ Functions config:", functions.config().razorpay);
+      console.error("❌ Environment vars:", {
+        RAZORPAY_KEY_ID: !!process.env.RAZORPAY_KEY_ID,
+        RAZORPAY_KEY_SECRET: !!process.env.RAZORPAY_KEY_SECRET,
+      });
+      return res.status(500).json({ error: "Server not configured for Razorpay" });
+    }
+
+    // The amount is always computed here from the registration details; any amount the
+    // browser sends is ignored.
+    const { eventId, date, timeSlots, performanceType, participantDetails, holdOwner, receipt } =
+      req.body || {};
+    const couponCode = normalizeCouponCode(req.body?.couponCode);
+    if (!holdOwner) {
+      return res.status(400).json({ error: "holdOwner is required" });
+    }
+
+    console.log("💰 Order parameters:");
+    console.log("💰 Event:", eventId);
+    console.log("💰 Date:", date);
+    console.log("💰 Time slots:", timeSlots);
+    console.log("💰 Performance type:", performanceType);
+    console.log("💰 Coupon code:", couponCode || "none");
+
+    await loadEventConfig();
+    let pricing;
+    try {
+      pricing = calculateOrderAmount({
+        eventId,
+        date,
+        timeSlots,
+        performanceType,
+        participantDetails,
+      });
+      if (couponCode) {
+        pricing = await priceWithCoupon(
+          couponCode,
+          pricing,
+          performanceType,
+          await countPendingCouponUses(holdOwner, couponCode)
+        );
+      }
+    } catch (pricingError) {
+      if (pricingError instanceof PricingError || pricingError instanceof CouponError) {
+        console.error("❌ Invalid order request:", pricingError.message);
+        return res.status(400).json({ error: pricingError.message });
+      }
+      throw pricingError;
+    }
+
+    const { amount, participantCount, breakdown } = pricing;
+    console.log("💰 Calculated amount (INR):", amount, "Participants:", participantCount);
+
+    console.log("🔧 Initializing Razorpay instance...");
+    const razorpay = new Razorpay({ key_id: keyId, key_secret: keySecret });
+
+    const orderParams = {
+      amount: Math.round(amount * 100), // paise
+      currency: "INR",
+      receipt: receipt || `receipt_${Date.now()}`,
+      payment_capture: 1,
+      notes: {
+        event_id: eventId,
+        event_date: date,
+        performance_type: performanceType,
+        time_slots: timeSlots.join(", "),
+        participant_count: participantCount.toString(),
+        hold_owner: holdOwner,
+        coupon_code: couponCode || "",
+      },
+    };
+
+    console.log("📋 Creating Razorpay order with params:", orderParams);
+
+    const order = await razorpay.orders.create(orderParams);
+
+    console.log("✅ Razorpay order created successfully:");
+    console.log("✅ Order ID:", order.id);
+    console.log("✅ Order amount:", order.amount);
+    console.log("✅ Order currency:", order.currency);
+    console.log("✅ Order status:", order.status);
+    console.log("✅ Payment capture:", orderParams.payment_capture);
+
+    // Book the slots and write the pending booking in one transaction. A pending booking
+    // this dancer created earlier (checkout closed, then Pay again) is replaced.
+    const bookingId = order.id;
+    const bookingsRef = admin.firestore().collection("bookings");
+    const booking = buildPendingBooking(
+      { eventId, date, timeSlots, performanceType, participantDetails: participantDetails || {} },
+      pricing,
+      { bookingId, orderId: order.id, holdOwner, currency: order.currency }
+    );
+
+    try {
+      await admin.firestore().runTransaction(async (transaction) => {
+        const previousSnapshot = await transaction.get(
+          bookingsRef.where("holdOwner", "==", holdOwner).where("status", "==", "pending")
+        );
+        const previousBookings = previousSnapshot.docs.map((docSnap) => docSnap.data());
+        const isSameDay = (previous) => previous.eventId === eventId && previous.date === date;
+
+        // Check the code's limit again now that other dancers can no longer use it meanwhile
+        const couponRef = couponCode ? getCouponRef(couponCode) : null;
+        if (couponRef) {
+          const couponSnap = await transaction.get(couponRef);
+          const ownUses = previousBookings.filter(
+            (previous) => previous.couponCode === couponCode
+          ).length;
+          checkCouponUsable(couponSnap.exists ? couponSnap.data() : null, performanceType, ownUses);
+        }
+
+        // Slots offered from the waitlist are held for the entry; booking them closes it
+        const waitlistQuery = getOfferEntryQuery(holdOwner);
+        const [waitlistSnap] = waitlistQuery ? (await transaction.get(waitlistQuery)).docs : [];
+
+        await claimSlotsInTransaction(transaction, eventId, date, timeSlots, holdOwner, "booked", {
+          release: previousBookings.filter(isSameDay).flatMap((previous) => previous.timeSlots),
+        });
+
+        // The dancer may have gone back and picked another day; free those slots too
+        previousBookings
+          .filter((previous) => !isSameDay(previous))
+          .forEach((previous) =>
+            writeSlotRelease(transaction, previous.eventId, previous.date, previous.timeSlots)
+          );
+        previousBookings.forEach((previous) => writeCouponRelease(transaction, previous));
+        previousSnapshot.docs.forEach((docSnap) => transaction.delete(docSnap.ref));
+        if (couponRef) {
+          transaction.update(couponRef, { usedCount: admin.firestore.FieldValue.increment(1) });
+        }
+        if (waitlistSnap) {
+          transaction.update(waitlistSnap.ref, {
+            status: "booked",
+            bookingId,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        }
+        transaction.set(bookingsRef.doc(bookingId), booking);
+        // Written here too so the dancer's browser finds it before syncFlatBookings runs
+        transaction.set(
+          admin.firestore().doc(`bookingStatus/${bookingId}`),
+          buildBookingStatus(booking)
+        );
+      });
+    } catch (claimError) {
+      if (claimError instanceof SlotConflictError) {
+        console.error("❌ Slots taken before checkout:", claimError.lostSlots);
+        return res
+          .status(409)
+          .json({ error: claimError.message, lostSlots: claimError.lostSlots });
+      }
+      if (claimError instanceof CouponError) {
+        console.error("❌ Coupon no longer usable:", claimError.message);
+        return res.status(409).json({ error: claimError.message });
+      }
+      throw claimError;
+    }
+
+    console.log("✅ Pending booking created:", bookingId, "Slots:", timeSlots);
+
+    return res.status(200).json({
+      order,
+      amount,
+      participantCount,
+      breakdown,
+      bookingId,
+      discount: pricing.discount || 0,
+    });
+  } catch (error) {
+    console.error("💥 Error creating pending booking:", error);
+    console.error("💥 Error name:", error.name);
+    console.error("💥 Error message:", error.message);
+    console.error("💥 Error stack:", error.stack);
+
+    // Check if it's a Razorpay API error
+    if (error.error) {
+      console.error("💥 Razorpay API error details:", error.error);
+    }
+
+    return res.status(500).json({
+      error: "Failed to create booking",
+      details: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Verify the checkout signature the browser received and confirm the booking right away.
+// The razorpayWebhook stays as an idempotent backup for when this call never arrives.
+exports.verifyPayment = functions.https.onRequest(async (req, res) => {
+  try {
+    // CORS
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
+    res.set("Access-Control-Allow-Headers", "Content-Type");
+    if (req.method === "OPTIONS") {
+      return res.status(204).send("");
+    }
+
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const {
+      razorpay_order_id: orderId,
+      razorpay_payment_id: paymentId,
+      razorpay_signature: signature,
+    } = req.body || {};
+
+    if (!orderId || !paymentId || !signature) {
+      return res.status(400).json({ verified: false, error: "Missing payment details" });
+    }
+
+    const keySecret = functions.config().razorpay?.key_secret || process.env.RAZORPAY_KEY_SECRET;
+    if (!keySecret) {
+      console.error("❌ Missing Razorpay key secret");
+      return res.status(500).json({ error: "Server not configured for Razorpay" });
+    }
+
+    if (!verifyCheckoutSignature(orderId, paymentId, signature, keySecret)) {
+      console.error("❌ Invalid checkout signature for payment:", paymentId);
+      return res.status(400).json({ verified: false, error: "Invalid signature" });
+    }
+
+    console.log("🔐 Checkout signature verified for payment:", paymentId, "Order ID:", orderId);
+
+    const bookingResult = await findBookingByOrderId(orderId);
+    if (!bookingResult) {
+      // The order may pay for a slot change on an existing booking instead
+      const changeResult = await completeSlotChangePayment(orderId, paymentId);
+      if (changeResult) {
+        return res.status(200).json({ verified: true, ...changeResult });
+      }
+      // The booking expired before the payment went through; give the money back
+      const refundStatus = await refundUnmatchedPayment(orderId, paymentId);
+      return res.status(200).json({ verified: true, status: "not_found", refundStatus });
+    }
+
+    const { bookingId } = bookingResult;
+    const { cancelled, notFound } = await confirmBookingPayment(
+      bookingId,
+      paymentId,
+      orderId,
+      "checkout"
+    );
+    if (notFound) {
+      const refundStatus = await refundUnmatchedPayment(orderId, paymentId);
+      return res.status(200).json({ verified: true, status: "not_found", refundStatus });
+    }
+    if (cancelled) {
+      return res.status(200).json({ verified: true, status: "cancelled", bookingId });
+    }
+
+    console.log("✅ Booking confirmed via checkout signature:", bookingId);
+    return res.status(200).json({ verified: true, status: "confirmed", bookingId });
+  } catch (error) {
+    console.error("💥 Error verifying payment:", error);
+    return res.status(500).json({ error: "Failed to verify payment", details: error.message });
+  }
+});
+
+// How long a refund claim may wait for Razorpay's answer before another request may finish it
+// (the request that claimed it died in between)
+const REFUND_CLAIM_TIMEOUT_MS = 60 * 1000;
+
+// Thrown when a booking cannot be refunded, with the HTTP status to answer with
+class RefundError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.name = "RefundError";
+    this.status = status;
+  }
+}
 
-        processedBookingIds.add(bookingId);
+// Cancel a refunded booking and give its slots back. writer is a WriteBatch or Transaction.
+const writeRefundCancellation = (writer, bookingRef, booking) => {
+  writer.update(bookingRef, {
+    status: "cancelled",
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  writeSlotRelease(writer, booking.eventId, booking.date, booking.timeSlots);
+};
+
+// Cancel a paid booking and refund it through Razorpay, in full or in part. Organizers only.
+// The booking stays confirmed with its slots until Razorpay has processed the refund; a failed
+// refund can be tried again. Body: { bookingId, amount? (rupees, defaults to the full payment),
+// reason? }
+exports.refundBooking = functions.https.onRequest(async (req, res) => {
+  try {
+    // CORS
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
+    res.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    if (req.method === "OPTIONS") {
+      return res.status(204).send("");
+    }
+
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const caller = await requireAdmin(req, ["organizer"]);
+
+    const { bookingId, amount, reason } = req.body || {};
+    if (!bookingId) {
+      return res.status(400).json({ error: "bookingId is required" });
+    }
+
+    if (!getRazorpayClient()) {
+      console.error("❌ Missing Razorpay credentials");
+      return res.status(500).json({ error: "Server not configured for Razorpay" });
+    }
+
+    // Claim the refund before calling Razorpay so a second click cannot start another one
+    const bookingRef = admin.firestore().doc(`bookings/${bookingId}`);
+    let booking;
+    let claim;
+    try {
+      ({ booking, claim } = await admin.firestore().runTransaction(async (transaction) => {
+        const bookingSnap = await transaction.get(bookingRef);
+        if (!bookingSnap.exists) {
+          throw new RefundError("Booking not found", 404);
+        }
+
+        const current = bookingSnap.data();
+        const paymentId = current.paymentData?.paymentId;
+        if (!paymentId || current.status !== "confirmed") {
+          throw new RefundError("Only confirmed, paid bookings can be refunded", 400);
+        }
+
+        const previous = current.refund;
+        const unanswered =
+          previous?.status === "requested" &&
+          (previous.unanswered ||
+            previous.requestedAt?.toMillis() <= Date.now() - REFUND_CLAIM_TIMEOUT_MS);
+        // Finish a claim whose request died before Razorpay answered, with the same key
+        if (unanswered) {
+          return { booking: current, claim: previous };
+        }
+        if (previous && previous.status !== "failed") {
+          throw new RefundError(
+            previous.status === "requested"
+              ? "A refund for this booking is already in progress"
+              : "This booking has already been refunded",
+            409
+          );
+        }
+
+        const paidAmount = current.amount;
+        const refundAmount = amount === undefined || amount === null ? paidAmount : Number(amount);
+        if (!(refundAmount > 0) || refundAmount > paidAmount) {
+          throw new RefundError(`Refund amount must be between 1 and ${paidAmount}`, 400);
+        }
+
+        const attempt = (previous?.attempt || 0) + 1;
+        const newClaim = {
+          status: "requested",
+          attempt,
+          idempotencyKey: `${bookingId}_${attempt}`,
+          amount: refundAmount,
+          reason: reason || "",
+          refundedBy: caller.email || caller.uid,
+          requestedAt: admin.firestore.Timestamp.now(),
+        };
+        transaction.update(bookingRef, {
+          refund: newClaim,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return { booking: current, claim: newClaim };
+      }));
+    } catch (claimError) {
+      if (claimError instanceof RefundError) {
+        return res.status(claimError.status).json({ error: claimError.message });
+      }
+      throw claimError;
+    }
+
+    // The key makes Razorpay return the same refund if this attempt is sent again
+    let refund;
+    try {
+      refund = await getRazorpayClient({
+        "X-Refund-Idempotency": claim.idempotencyKey,
+      }).payments.refund(booking.paymentData.paymentId, {
+        amount: Math.round(claim.amount * 100), // paise
+        speed: "normal",
+        receipt: `refund_${bookingId}`.slice(0, 40),
+        notes: {
+          booking_id: bookingId,
+          reason: claim.reason || "Cancelled by organizer",
+        },
+      });
+    } catch (refundError) {
+      // Only a 4xx means Razorpay refused it. After a timeout or a 5xx the refund may exist, so
+      // the claim stays "requested" and the next attempt resends it with the same key.
+      const refused = refundError.statusCode >= 400 && refundError.statusCode < 500;
+      await bookingRef.update({
+        ...(refused ? { "refund.status": "failed" } : { "refund.unanswered": true }),
+        "refund.error": refundError.error?.description || refundError.message,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      throw refundError;
+    }
+
+    console.log("💸 Refund created:", refund.id, "Amount:", claim.amount, "Status:", refund.status);
+
+    // The booking is cancelled and its slots freed once the money is on its way back; a pending
+    // refund is finished by the refund.processed webhook. That webhook may have run first, so a
+    // processed or failed refund is never taken back to pending.
+    const refundStatus = await admin.firestore().runTransaction(async (transaction) => {
+      const currentSnap = await transaction.get(bookingRef);
+      const current = currentSnap.exists ? currentSnap.data() : null;
+      const recorded = current?.refund?.id === refund.id ? current.refund.status : null;
+      const status = ["processed", "failed"].includes(recorded)
+        ? recorded
+        : refund.status === "processed"
+          ? "processed"
+          : "pending";
+      if (!current) {
+        return status;
+      }
+
+      transaction.update(bookingRef, {
+        "refund.id": refund.id,
+        "refund.status": status,
+        "refund.refundedAt": admin.firestore.FieldValue.serverTimestamp(),
+        "refund.unanswered": admin.firestore.FieldValue.delete(),
+        "refund.error": admin.firestore.FieldValue.delete(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      if (status === "processed" && current.status === "confirmed") {
+        writeRefundCancellation(transaction, bookingRef, current);
+      }
+      return status;
+    });
+
+    return res.status(200).json({ refundId: refund.id, refundAmount: claim.amount, refundStatus });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    console.error("💥 Error refunding booking:", error);
+    if (error.error) {
+      console.error("💥 Razorpay API error details:", error.error);
+    }
+    return res.status(500).json({
+      error: error.error?.description || "Failed to refund booking",
+      details: error.message,
+    });
+  }
+});
+
+// Queue WhatsApp and email messages from the admin panel (batch messages, running-late
+// updates). Body: { messages: [{ bookingId, channel?, to, subject?, body, template? }], kind? }.
+// Returns { batchId, queued }; the batch's
+// messages/{messageId} documents then follow each message through sending and delivery.
+exports.queueMessages = functions.https.onRequest(async (req, res) => {
+  try {
+    // CORS
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
+    res.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    if (req.method === "OPTIONS") {
+      return res.status(204).send("");
+    }
+
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const caller = await requireAdmin(req, ["desk", "organizer"]);
+
+    const messages = Array.isArray(req.body?.messages) ? req.body.messages : [];
+    const bookingIds = [...new Set(messages.map((message) => String(message?.bookingId || "")))];
+    if (bookingIds.some((bookingId) => !bookingId || bookingId.includes("/"))) {
+      return res.status(400).json({ error: "Every message needs a bookingId" });
+    }
+
+    // Contact numbers are checked against the performance type's phone field, addresses
+    // against the booking's email
+    await loadEventConfig();
+    const bookingSnaps = bookingIds.length
+      ? await admin
+          .firestore()
+          .getAll(...bookingIds.map((bookingId) => admin.firestore().doc(`bookings/${bookingId}`)))
+      : [];
+    const bookingsById = Object.fromEntries(
+      bookingSnaps
+        .filter((docSnap) => docSnap.exists)
+        .map((docSnap) => [docSnap.id, docSnap.data()])
+    );
+
+    const batchRef = admin.firestore().collection("messageBatches").doc();
+    let queued;
+    try {
+      queued = buildQueuedMessages(req.body, bookingsById, batchRef.id, caller.email || caller.uid);
+    } catch (queueError) {
+      if (queueError instanceof MessageError) {
+        return res.status(400).json({ error: queueError.message });
+      }
+      throw queueError;
+    }
+
+    // Firestore batches take 500 writes. The batch document goes last: creating it starts
+    // sendQueuedMessages, which should find every message already queued.
+    for (let start = 0; start < queued.length; start += 400) {
+      const batch = admin.firestore().batch();
+      queued.slice(start, start + 400).forEach((message) => {
+        batch.set(admin.firestore().collection("messages").doc(), message);
+      });
+      await batch.commit();
+    }
+    await batchRef.set({
+      kind: req.body.kind || "broadcast",
+      total: queued.length,
+      queuedBy: caller.email || caller.uid,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    console.log(`📨 Queued ${queued.length} message(s) in batch ${batchRef.id}`);
+    return res.status(200).json({ batchId: batchRef.id, queued: queued.length });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    console.error("💥 Error queueing messages:", error);
+    return res.status(500).json({
+      error: "Failed to queue messages",
+      details: error.message,
+    });
+  }
+});
+
+// WhatsApp Cloud API webhook. GET is Meta's subscription check; POST carries delivery statuses
+// (sent, delivered, read, failed) for the messages sent from the queue.
+exports.whatsappWebhook = functions.https.onRequest(async (req, res) => {
+  const config = getWhatsAppConfig();
+
+  if (req.method === "GET") {
+    if (
+      req.query["hub.mode"] === "subscribe" &&
+      config.verifyToken &&
+      req.query["hub.verify_token"] === config.verifyToken
+    ) {
+      return res.status(200).send(req.query["hub.challenge"]);
+    }
+    return res.status(403).send("Forbidden");
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const signature = req.headers["x-hub-signature-256"];
+  if (
+    !signature ||
+    !config.appSecret ||
+    !verifyWhatsAppSignature(req.rawBody, signature, config.appSecret)
+  ) {
+    console.error("Invalid WhatsApp webhook signature");
+    return res.status(400).json({ error: "Invalid signature" });
+  }
+
+  try {
+    const statuses = (req.body?.entry || []).flatMap((entry) =>
+      (entry.changes || []).flatMap((change) => change.value?.statuses || [])
+    );
+    for (const statusEvent of statuses) {
+      await applyDeliveryStatus(statusEvent);
+    }
+    return res.status(200).json({ received: statuses.length });
+  } catch (error) {
+    // Meta retries non-2xx deliveries, which is what we want for a failed write
+    console.error("💥 Error processing WhatsApp webhook:", error);
+    return res.status(500).json({ error: "Failed to process webhook", details: error.message });
+  }
+});
+
+// Simple endpoint to check webhook status
+exports.webhookStatus = functions.https.onRequest((req, res) => {
+  res.status(200).json({
+    message: "Webhook endpoint is active",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// Test endpoint for the Razorpay configuration used by createPendingBooking
+exports.testCreateOrder = functions.https.onRequest(async (req, res) => {
+  try {
+    console.log("🧪 Test endpoint called");
+
+    // Set CORS
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Access-Control-Allow-Methods", "GET, OPTIONS");
+    res.set("Access-Control-Allow-Headers", "Content-Type");
+
+    if (req.method === "OPTIONS") {
+      return res.status(204).send("");
+    }
+
+    if (req.method !== "GET") {
+      return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const keyId = functions.config().razorpay?.key_id || process.env.RAZORPAY_KEY_ID;
+    const keySecret = functions.config().razorpay?.key_secret || process.env.RAZORPAY_KEY_SECRET;
+
+    return res.status(200).json({
+      message: "Test endpoint is working",
+      timestamp: new Date().toISOString(),
+      function: "testCreateOrder",
+      razorpayConfigured: !!(keyId && keySecret),
+      keyIdExists: !!keyId,
+      keySecretExists: !!keySecret,
+      configKeys: Object.keys(functions.config().razorpay || {}),
+      envVars: {
+        RAZORPAY_KEY_ID: !!process.env.RAZORPAY_KEY_ID,
+        RAZORPAY_KEY_SECRET: !!process.env.RAZORPAY_KEY_SECRET,
+      },
+    });
+  } catch (error) {
+    console.error("Test endpoint error:", error);
+    return res.status(500).json({ error: "Test failed", details: error.message });
+  }
+});
+
+// Keep the per-slot flatBookings rows and the public bookingStatus/{bookingId} document in step
+// with bookings/{bookingId}. Rows are rewritten from the booking on every change, and rows for
+// removed slots (or legacy rows with other IDs) are deleted.
+exports.syncFlatBookings = functions.firestore
+  .document("bookings/{bookingId}")
+  .onWrite(async (change, context) => {
+    const { bookingId } = context.params;
+    const flatBookingsRef = admin.firestore().collection("flatBookings");
+    const statusRef = admin.firestore().doc(`bookingStatus/${bookingId}`);
+    const existingRows = await flatBookingsRef.where("bookingId", "==", bookingId).get();
+    const batch = admin.firestore().batch();
+
+    if (!change.after.exists) {
+      existingRows.forEach((docSnap) => batch.delete(docSnap.ref));
+      batch.delete(statusRef);
+      await batch.commit();
+      console.log(`🗑️ Removed ${existingRows.size} row(s) for deleted booking ${bookingId}`);
+      return null;
+    }
+
+    // Participant names are joined according to the performance type's settings
+    await loadEventConfig();
+    const rows = buildFlatBookingRows({ ...change.after.data(), bookingId });
+    const rowIds = new Set(rows.map((row) => row.id));
+
+    rows.forEach((row) => batch.set(flatBookingsRef.doc(row.id), row.data));
+    existingRows.forEach((docSnap) => {
+      if (!rowIds.has(docSnap.id)) {
+        batch.delete(docSnap.ref);
+      }
+    });
+    batch.set(statusRef, buildBookingStatus(change.after.data()));
+    await batch.commit();
+
+    return null;
+  });
+
+// Tell the dancer when their booking is confirmed, cancelled or moved to other slots, or a
+// payment attempt fails, whichever function or admin edit changed it. The trigger's event ID
+// keeps a retried run from sending a slot change twice.
+exports.notifyBookingChanges = functions.firestore
+  .document("bookings/{bookingId}")
+  .onUpdate(async (change, context) => {
+    const { bookingId } = context.params;
+    // Rules, templates and contact fields come from the saved settings
+    await loadEventConfig();
+    const notifications = getBookingChangeNotifications(
+      { ...change.before.data(), bookingId },
+      { ...change.after.data(), bookingId },
+      context.eventId
+    );
+    for (const notification of notifications) {
+      await queueNotification(notification);
+    }
+    return null;
+  });
+
+// Tell the dancer their booking is cancelled when an admin deletes it while it is confirmed
+exports.notifyBookingDeleted = functions.firestore
+  .document("bookings/{bookingId}")
+  .onDelete(async (snapshot, context) => {
+    const { bookingId } = context.params;
+    await loadEventConfig();
+    const notifications = getBookingDeleteNotifications({ ...snapshot.data(), bookingId });
+    for (const notification of notifications) {
+      await queueNotification(notification);
+    }
+    return null;
+  });
+
+// Offer slots to the waitlist whenever they become available again, whatever freed them: a
+// deleted or refunded booking, a pending booking that expired unpaid, or a hold (including an
+// earlier waitlist offer) that ran out
+exports.offerFreedSlots = functions.firestore
+  .document("slots/{slotDocId}")
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    const freedSlots = Object.keys(after).filter(
+      (slot) => after[slot] === "available" && before[slot] && before[slot] !== "available"
+    );
+    const day = parseSlotDocId(context.params.slotDocId);
+    if (freedSlots.length === 0 || !day) {
+      return null;
+    }
+
+    await loadEventConfig();
+    await offerFreedSlots(day.eventId, day.date, freedSlots);
+    return null;
+  });
+
+// Scheduled cleanup for expired slot holds and stuck pending bookings
+// (webhook missed / user abandoned) - Gen 2
+exports.cleanupExpiredBookings = onSchedule(
+  {
+    schedule: "every 5 minutes",
+    timeZone: "Etc/UTC",
+    region: "us-central1",
+  },
+  async () => {
+    try {
+      // Free slots held for dancers who never completed checkout
+      await releaseExpiredHolds();
+      await loadEventConfig();
+
+      const now = admin.firestore.Timestamp.now();
+      // Pending bookings are created when checkout opens; give the dancer the hold time plus
+      // a few minutes to finish paying before treating the booking as abandoned
+      const thresholdMinutes = eventConfig.slotHoldMinutes + 5;
+      const cutoff = admin.firestore.Timestamp.fromMillis(
+        now.toMillis() - thresholdMinutes * 60 * 1000
+      );
+
+      // Slot change requests never paid for; their held slots were freed with the holds above
+      const unpaidChanges = await getSlotChangesRef()
+        .where("status", "==", "awaiting_payment")
+        .get();
+      const staleChanges = unpaidChanges.docs.filter(
+        (docSnap) => docSnap.data().createdAt?.toMillis() <= cutoff.toMillis()
+      );
+      let expiredChanges = 0;
+      for (const docSnap of staleChanges) {
+        // Re-read in the transaction so a payment that just arrived is never overwritten
+        const expired = await admin.firestore().runTransaction(async (transaction) => {
+          const changeSnap = await transaction.get(docSnap.ref);
+          if (!changeSnap.exists || changeSnap.data().status !== "awaiting_payment") {
+            return false;
+          }
+          transaction.update(docSnap.ref, {
+            status: "expired",
+            reason: "Not paid in time",
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          return true;
+        });
+        expiredChanges += expired ? 1 : 0;
+      }
+      if (expiredChanges > 0) {
+        console.log(`Expired ${expiredChanges} unpaid slot change request(s)`);
+      }
+
+      const bookingsRef = admin.firestore().collection("bookings");
+      const pendingSnapshot = await bookingsRef.where("status", "==", "pending").get();
+
+      if (pendingSnapshot.empty) {
+        return null;
+      }
+
+      for (const docSnap of pendingSnapshot.docs) {
+        const createdAt = docSnap.data().createdAt;
+
+        if (!createdAt || createdAt.toMillis() > cutoff.toMillis()) {
+          continue;
+        }
+
+        // Re-read in the transaction: verifyPayment or the webhook may have confirmed the
+        // booking since the query. syncFlatBookings removes the derived rows.
+        const booking = await admin.firestore().runTransaction(async (transaction) => {
+          const bookingSnap = await transaction.get(docSnap.ref);
+          if (!bookingSnap.exists) {
+            return null;
+          }
+          const current = bookingSnap.data();
+          // A payment is going through; the webhook will confirm the booking
+          if (
+            current.status !== "pending" ||
+            ["success", "authorized"].includes(current.paymentData?.status)
+          ) {
+            return null;
+          }
+          writeSlotRelease(transaction, current.eventId, current.date, current.timeSlots || []);
+          writeCouponRelease(transaction, current);
+          transaction.delete(docSnap.ref);
+          return current;
+        });
+        if (!booking) {
+          continue;
+        }
+
+        await queueNotification({
+          event: "bookingExpired",
+          booking: { ...booking, bookingId: docSnap.id },
+        });
 
         console.log(
-          `Cleaned up expired pending booking ${bookingId} (older than ${thresholdMinutes} min)`
+          `Cleaned up expired pending booking ${docSnap.id} (older than ${thresholdMinutes} min)`
         );
       }
 
@@ -566,3 +1969,53 @@ exports.cleanupExpiredBookings = onSchedule(
     }
   }
 );
+
+// Send a newly queued batch straight away
+exports.sendQueuedMessages = functions
+  .runWith({ timeoutSeconds: 540 })
+  .firestore.document("messageBatches/{batchId}")
+  .onCreate(async () => {
+    await processMessageQueue();
+    return null;
+  });
+
+// Retries that have come due, and batches left over when a run hit the rate limit or its
+// per-run cap - Gen 2
+exports.retryQueuedMessages = onSchedule(
+  {
+    schedule: "every 1 minutes",
+    timeZone: "Etc/UTC",
+    region: "us-central1",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    try {
+      await processMessageQueue();
+    } catch (error) {
+      console.error("retryQueuedMessages error:", error);
+    }
+    return null;
+  }
+);
+
+// Reminders before each confirmed booking's first slot, when the slotReminder notification is
+// on - Gen 2
+exports.sendSlotReminders = onSchedule(
+  {
+    schedule: "every 15 minutes",
+    timeZone: "Etc/UTC",
+    region: "us-central1",
+  },
+  async () => {
+    try {
+      await loadEventConfig();
+      const queued = await queueSlotReminders();
+      if (queued > 0) {
+        console.log(`⏰ Queued ${queued} slot reminder(s)`);
+      }
+    } catch (error) {
+      console.error("sendSlotReminders error:", error);
+    }
+    return null;
+  }
+);
@@ -0,0 +1,361 @@
+// Outgoing WhatsApp and email messages. The admin panel queues them with queueMessages as
+// messages/{messageId} documents:
+//   { batchId, bookingId, channel, to, subject?, body, template?, kind, status, attempts,
+//     nextAttemptAt, wamid?, emailMessageId?, error? }
+// and they are sent from here through their channel (see channels.js), never from the browser,
+// so the Graph API token and SMTP password stay on the server. With a template
+// ({ name, language, components }) the approved WhatsApp template is sent and body is only the
+// preview shown in the admin panel. status moves queued -> sending -> sent -> delivered -> read,
+// or ends at failed; delivered and read come from the WhatsApp status webhook, emails stop at
+// sent. Failed attempts are retried with backoff until MAX_ATTEMPTS.
+const admin = require("firebase-admin");
+const cryptoLib = require("crypto");
+const { CHANNELS, getChannel } = require("./channels");
+
+const MAX_ATTEMPTS = 5;
+// Wait before attempt 2, 3, ...; the last entry repeats
+const RETRY_DELAYS_SECONDS = [30, 120, 600, 1800];
+// Stay well under the Cloud API's per-number throughput
+const SEND_INTERVAL_MS = 100;
+const MAX_PER_RUN = 300;
+const MAX_MESSAGES_PER_REQUEST = 1000;
+// WhatsApp's limit for a text message, kept for emails too
+const MAX_BODY_LENGTH = 4096;
+const MAX_SUBJECT_LENGTH = 200;
+// WhatsApp's limit for one template parameter
+const MAX_PARAMETER_LENGTH = 1024;
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9_]{1,512}$/;
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(_[A-Z]{2})?$/;
+const HEADER_MEDIA_TYPES = ["image", "document", "video"];
+// A message left in "sending" this long was interrupted mid-send
+const STALE_SENDING_MINUTES = 10;
+// Webhook statuses only move a message forward; they can arrive out of order
+const STATUS_RANK = { queued: 0, sending: 1, sent: 2, delivered: 3, read: 4 };
+
+// Thrown when a queue request is invalid
+class MessageError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "MessageError";
+  }
+}
+
+const getMessagesRef = () => admin.firestore().collection("messages");
+
+// A messages/{messageId} document waiting for its first attempt
+const newQueuedMessage = (message) => ({
+  ...message,
+  status: "queued",
+  attempts: 0,
+  nextAttemptAt: admin.firestore.Timestamp.now(),
+  createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+});
+
+// Check a queued template against what the Cloud API accepts, so a bad one is refused when
+// it is queued rather than failing on every attempt. Returns an error message or null.
+const getTemplateError = (template) => {
+  if (!template || typeof template !== "object") {
+    return "template must be an object";
+  }
+  if (!TEMPLATE_NAME_PATTERN.test(template.name || "")) {
+    return "template name must be lower case letters, digits and underscores";
+  }
+  if (!LANGUAGE_PATTERN.test(template.language || "")) {
+    return `template language ${template.language} is not a language code like en or en_US`;
+  }
+  const components = template.components || [];
+  if (!Array.isArray(components) || components.length > 2) {
+    return "template components must be a list of at most a header and a body";
+  }
+  for (const component of components) {
+    if (!["header", "body"].includes(component?.type) || !Array.isArray(component.parameters)) {
+      return "template components must be a header or a body with parameters";
+    }
+    for (const parameter of component.parameters) {
+      if (parameter?.type === "text") {
+        const text = String(parameter.text || "");
+        if (!text.trim() || text.length > MAX_PARAMETER_LENGTH) {
+          return `template parameters must be 1 to ${MAX_PARAMETER_LENGTH} characters`;
+        }
+      } else if (HEADER_MEDIA_TYPES.includes(parameter?.type) && component.type === "header") {
+        if (!/^https:\/\//.test(parameter[parameter.type]?.link || "")) {
+          return "template header media must be an https link";
+        }
+      } else {
+        return `template parameter type ${parameter?.type} is not supported`;
+      }
+    }
+  }
+  return null;
+};
+
+// The messages/{messageId} documents for a queueMessages request
+// ({ messages: [{ bookingId, channel?, to, subject?, body, template? }], kind? }). Each number
+// or address must be one its booking was registered with, so the queue can't be used to
+// message anyone else. The same text to the same recipient for a booking (one row per slot) is
+// queued once.
+const buildQueuedMessages = (request, bookingsById, batchId, queuedBy) => {
+  const { messages, kind } = request;
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new MessageError("messages must be a non-empty list");
+  }
+  if (messages.length > MAX_MESSAGES_PER_REQUEST) {
+    throw new MessageError(`Send at most ${MAX_MESSAGES_PER_REQUEST} messages at a time`);
+  }
+
+  const seen = new Set();
+  const queued = [];
+  messages.forEach((message, index) => {
+    const booking = bookingsById[message?.bookingId];
+    const body = String(message?.body || "").trim();
+    if (!booking) {
+      throw new MessageError(`Message ${index + 1}: booking ${message?.bookingId} not found`);
+    }
+    const channel = getChannel(message.channel);
+    if (!channel) {
+      throw new MessageError(`Message ${index + 1}: unknown channel ${message.channel}`);
+    }
+    if (!channel.isBookingAddress(booking, message.to)) {
+      throw new MessageError(
+        `Message ${index + 1}: ${message.to} is not on booking ${message.bookingId}`
+      );
+    }
+    const subject = String(message.subject || "").trim();
+    if (channel.id === "email" && (message.template || !subject)) {
+      throw new MessageError(
+        `Message ${index + 1}: emails need a subject and are sent as text, not a template`
+      );
+    }
+    if (subject.length > MAX_SUBJECT_LENGTH) {
+      throw new MessageError(
+        `Message ${index + 1}: subject must be at most ${MAX_SUBJECT_LENGTH} characters`
+      );
+    }
+    if (message.template) {
+      const templateError = getTemplateError(message.template);
+      if (templateError) {
+        throw new MessageError(`Message ${index + 1}: ${templateError}`);
+      }
+    } else if (!body || body.length > MAX_BODY_LENGTH) {
+      throw new MessageError(
+        `Message ${index + 1}: text must be 1 to ${MAX_BODY_LENGTH} characters`
+      );
+    }
+
+    const to = channel.normalizeAddress(message.to);
+    const template = message.template
+      ? {
+          name: message.template.name,
+          language: message.template.language,
+          components: message.template.components || [],
+        }
+      : null;
+    const key = [channel.id, message.bookingId, to, subject, body, JSON.stringify(template)].join(
+      "|"
+    );
+    if (seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+    queued.push(
+      newQueuedMessage({
+        batchId,
+        bookingId: message.bookingId,
+        channel: channel.id,
+        to,
+        ...(subject ? { subject } : {}),
+        body: body.slice(0, MAX_BODY_LENGTH),
+        ...(template ? { template } : {}),
+        kind: kind || "broadcast",
+        queuedBy,
+      })
+    );
+  });
+  return queued;
+};
+
+const getRetryDelaySeconds = (attempts) =>
+  RETRY_DELAYS_SECONDS[Math.min(attempts, RETRY_DELAYS_SECONDS.length) - 1];
+
+// Take a due message for this run; false if another run got it first
+const claimMessage = (messageRef) =>
+  admin.firestore().runTransaction(async (transaction) => {
+    const message = (await transaction.get(messageRef)).data();
+    if (message?.status !== "queued" || message.nextAttemptAt.toMillis() > Date.now()) {
+      return false;
+    }
+    transaction.update(messageRef, {
+      status: "sending",
+      attempts: (message.attempts || 0) + 1,
+      sendingAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+// The update after a failed attempt: back to the queue with backoff, or failed for good
+const buildFailureUpdate = (attempts, error, kind) => {
+  const update = {
+    error: error.message,
+    errorCode: error.code || null,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  if (kind === "permanent" || attempts >= MAX_ATTEMPTS) {
+    return { ...update, status: "failed" };
+  }
+  return {
+    ...update,
+    status: "queued",
+    nextAttemptAt: admin.firestore.Timestamp.fromMillis(
+      Date.now() + getRetryDelaySeconds(attempts) * 1000
+    ),
+  };
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Send every due message, oldest first, paced to SEND_INTERVAL_MS. A rate limit pauses its
+// channel for the rest of the run; what is left waits for the next one, as do messages for a
+// channel without credentials.
+const processMessageQueue = async () => {
+  const configs = {};
+  Object.values(CHANNELS).forEach((channel) => {
+    const config = channel.getConfig();
+    if (channel.isConfigured(config)) {
+      configs[channel.id] = config;
+    }
+  });
+  if (Object.keys(configs).length === 0) {
+    console.error("❌ WhatsApp and SMTP credentials missing; messages stay queued");
+    return { sent: 0, failed: 0 };
+  }
+
+  const now = Date.now();
+  const [queuedSnapshot, sendingSnapshot] = await Promise.all([
+    getMessagesRef().where("status", "==", "queued").get(),
+    getMessagesRef().where("status", "==", "sending").get(),
+  ]);
+
+  // The run that claimed these stopped before recording the result. The message may have
+  // gone out, so don't risk sending it twice.
+  const staleBefore = now - STALE_SENDING_MINUTES * 60 * 1000;
+  await Promise.all(
+    sendingSnapshot.docs
+      .filter((docSnap) => docSnap.data().sendingAt?.toMillis() < staleBefore)
+      .map((docSnap) =>
+        docSnap.ref.update({
+          status: "failed",
+          error: "Sending was interrupted; check with the dancer before sending again",
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        })
+      )
+  );
+
+  const isSendable = (docSnap) => !!configs[getChannel(docSnap.data().channel)?.id];
+  const waiting = queuedSnapshot.docs.filter(
+    (docSnap) => docSnap.data().nextAttemptAt.toMillis() <= now
+  );
+  const due = waiting
+    .filter(isSendable)
+    .sort((a, b) => a.data().nextAttemptAt.toMillis() - b.data().nextAttemptAt.toMillis())
+    .slice(0, MAX_PER_RUN);
+  const unsendable = waiting.filter((docSnap) => !isSendable(docSnap)).length;
+  if (unsendable > 0) {
+    console.error(`❌ ${unsendable} message(s) wait for their channel's credentials`);
+  }
+
+  let sent = 0;
+  let failed = 0;
+  const paused = new Set();
+  for (const docSnap of due) {
+    const message = docSnap.data();
+    const channel = getChannel(message.channel);
+    if (paused.has(channel.id) || !(await claimMessage(docSnap.ref))) {
+      continue;
+    }
+    const attempts = (message.attempts || 0) + 1;
+
+    try {
+      const result = await channel.send(configs[channel.id], message);
+      await docSnap.ref.update({
+        status: "sent",
+        ...result,
+        error: admin.firestore.FieldValue.delete(),
+        sentAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      sent++;
+    } catch (error) {
+      const kind = channel.classifyError(error);
+      const update = buildFailureUpdate(attempts, error, kind);
+      await docSnap.ref.update(update);
+      if (update.status === "failed") {
+        failed++;
+      }
+      console.error(`❌ Message ${docSnap.id} attempt ${attempts} (${kind}):`, error.message);
+      if (kind === "rate_limited") {
+        console.log(`🐢 ${channel.id} rate limit reached; pausing it until the next run`);
+        paused.add(channel.id);
+      }
+    }
+    await sleep(SEND_INTERVAL_MS);
+  }
+
+  console.log(`📨 Message queue run: ${sent} sent, ${failed} failed, ${due.length} due`);
+  return { sent, failed };
+};
+
+// Checks X-Hub-Signature-256 ("sha256=<hex>") over the raw request body
+const verifyWhatsAppSignature = (rawBody, signature, appSecret) => {
+  try {
+    const expected = `sha256=${cryptoLib
+      .createHmac("sha256", appSecret)
+      .update(rawBody)
+      .digest("hex")}`;
+    return cryptoLib.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  } catch (error) {
+    console.error("WhatsApp signature verification error:", error);
+    return false;
+  }
+};
+
+// Record one entry of a status webhook ({ id: wamid, status, timestamp, errors? })
+const applyDeliveryStatus = async (statusEvent) => {
+  const snapshot = await getMessagesRef().where("wamid", "==", statusEvent.id).limit(1).get();
+  if (snapshot.empty) {
+    console.log("ℹ️ Status for a message not in the queue:", statusEvent.id);
+    return;
+  }
+
+  const messageRef = snapshot.docs[0].ref;
+  const at = admin.firestore.Timestamp.fromMillis(Number(statusEvent.timestamp) * 1000);
+  await admin.firestore().runTransaction(async (transaction) => {
+    const message = (await transaction.get(messageRef)).data();
+    const update = {
+      [`statusTimes.${statusEvent.status}`]: at,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    if (statusEvent.status === "failed") {
+      const error = statusEvent.errors?.[0];
+      update.status = "failed";
+      update.error = error?.error_data?.details || error?.title || "Delivery failed";
+      update.errorCode = error?.code || null;
+    } else if ((STATUS_RANK[statusEvent.status] ?? -1) > (STATUS_RANK[message.status] ?? -1)) {
+      update.status = statusEvent.status;
+    }
+    transaction.update(messageRef, update);
+  });
+};
+
+module.exports = {
+  MAX_BODY_LENGTH,
+  MAX_SUBJECT_LENGTH,
+  MessageError,
+  getMessagesRef,
+  newQueuedMessage,
+  buildQueuedMessages,
+  processMessageQueue,
+  verifyWhatsAppSignature,
+  applyDeliveryStatus,
+};
@@ -0,0 +1,353 @@
+// Automatic messages to dancers about their booking, set up under Automatic Notifications in
+// the admin panel (eventConfig.notifications). They are queued here, never from the browser,
+// as messages/{messageId} documents of kind "notification" and sent like any other queued
+// message (see messages.js):
+//   bookingConfirmed  the booking's payment is confirmed (verifyPayment or razorpayWebhook)
+//   paymentFailed     a payment attempt on a pending booking fails (razorpayWebhook)
+//   bookingExpired    cleanupExpiredBookings deletes a booking that was never paid
+//   slotChanged       a confirmed booking moves to other slots or another day
+//   bookingCancelled  a confirmed booking is cancelled (refundBooking) or deleted from the
+//                     admin panel
+//   slotReminder      hoursBefore the booking's first slot
+//   waitlistOffer     a freed slot is held for a waitlist entry (offerFreedSlots); the entry
+//                     stands in for the booking
+// A rule sends by WhatsApp, by email, or by whichever of the two each booking chose
+// (channel "preferred"). Each notification is a messageBatches/{batchId} document whose ID names the event and the
+// booking, created together with its messages, so a retried trigger never sends one twice.
+const admin = require("firebase-admin");
+const { eventConfig } = require("./eventConfig");
+const { slotToMinutes } = require("./pricing");
+const { buildFlatBookingRows, getBookingStatus } = require("./bookings");
+const { getChannel, getPreferredChannel } = require("./channels");
+const { MAX_BODY_LENGTH, MAX_SUBJECT_LENGTH, newQueuedMessage } = require("./messages");
+
+// Event dates and slot times are Indian Standard Time
+const EVENT_UTC_OFFSET_MINUTES = 330;
+// Firestore's error code for creating a document that already exists
+const ALREADY_EXISTS = 6;
+
+const formatSlots = (timeSlots) => (timeSlots || []).join(", ");
+
+// Mirrors WhatsAppService.replacePlaceholders in src/services/whatsAppService.ts, for a
+// flatBookings row, plus the placeholders only notifications have
+const getPlaceholderValues = (booking, row, extra = {}) => ({
+  "{name}": row.participantName || row.fullName || row.participant1Name || row.groupName || "N/A",
+  "{email}": row.email || "N/A",
+  "{phone}": row.phoneNumber || row.participant1Phone || row.representativePhone || "N/A",
+  "{booking_id}": row.bookingId || "N/A",
+  "{event_name}": row.eventName || eventConfig.eventName,
+  "{event_date}": row.date || "N/A",
+  "{event_time}": row.timeSlot || "N/A",
+  "{performance_type}": row.performanceTypeName || row.performanceType || "N/A",
+  "{city}": row.cityResidence || "N/A",
+  "{guru_name}": row.guruName || "N/A",
+  "{category}": row.performanceCategory || "N/A",
+  "{price}": row.pricePerPerson?.toString() || "N/A",
+  "{amount}": row.amountPerSlot?.toString() || "N/A",
+  "{created_at}": row.timestamp?.toDate
+    ? row.timestamp.toDate().toLocaleDateString("en-IN")
+    : "N/A",
+  "{participant_age}": row.participantAge || "N/A",
+  "{participant1_name}": row.participant1Name || "N/A",
+  "{participant2_name}": row.participant2Name || "N/A",
+  "{participant1_phone}": row.participant1Phone || "N/A",
+  "{participant2_phone}": row.participant2Phone || "N/A",
+  "{group_name}": row.groupName || "N/A",
+  "{member_names}": row.memberNames || "N/A",
+  "{representative_phone}": row.representativePhone || "N/A",
+  "{payment_id}": row.paymentId || "N/A",
+  "{status}": row.paymentStatus || "N/A",
+  "{estimated_time}": row.estimatedTime || row.timeSlot || "N/A",
+  "{delay_minutes}": row.delayMinutes?.toString() || "0",
+  "{time_slots}": formatSlots(booking.timeSlots) || "N/A",
+  "{previous_time_slots}": "N/A",
+  "{previous_date}": "N/A",
+  "{refund_amount}": "0",
+  "{payment_error}": "N/A",
+  "{waitlist_link}": "N/A",
+  "{offer_expires_at}": "N/A",
+  ...extra,
+});
+
+const replacePlaceholders = (text, values) =>
+  Object.keys(values).reduce(
+    (message, placeholder) => message.split(placeholder).join(values[placeholder]),
+    text
+  );
+
+// Template parameters may not contain new lines, tabs or more than four spaces in a row
+const toParameterText = (value) => value.replace(/[\n\t]+/g, " ").replace(/ {5,}/g, "    ");
+
+// Mirrors WhatsAppService.buildTemplateMessage and previewTemplate: the template in its default
+// language, and the preview kept as the message body
+const buildTemplateContent = (template, values) => {
+  const parameters = template.bodyParameters || [];
+  const parameterValues = parameters.map((parameter) =>
+    replacePlaceholders(parameter.value, values)
+  );
+
+  const components = [];
+  if (template.header) {
+    const { type, link } = template.header;
+    components.push({ type: "header", parameters: [{ type, [type]: { link } }] });
+  }
+  if (parameters.length > 0) {
+    components.push({
+      type: "body",
+      parameters: parameters.map((parameter, index) => ({
+        type: "text",
+        text: toParameterText(parameterValues[index]),
+        ...(parameter.name ? { parameter_name: parameter.name } : {}),
+      })),
+    });
+  }
+
+  const body = template.text
+    ? template.text.replace(/\{\{\s*([a-z0-9_]+)\s*\}\}/g, (variable, key) => {
+        const index = parameters.findIndex((parameter, position) =>
+          parameter.name ? parameter.name === key : String(position + 1) === key
+        );
+        return index >= 0 ? parameterValues[index] : variable;
+      })
+    : `[${template.name}] ${parameterValues.join(" | ")}`;
+
+  return {
+    body,
+    template: { name: template.name, language: template.languages[0], components },
+  };
+};
+
+// The messages for a notification ({ event, booking, extra? }) under its rule, or none when
+// the rule is off or the booking has no number or address on the rule's channel
+const buildNotificationMessages = (notification, batchId) => {
+  const { event, booking, extra } = notification;
+  const rule = eventConfig.notifications?.[event];
+  if (!rule?.enabled) {
+    return [];
+  }
+
+  const channel =
+    rule.channel === "preferred" ? getPreferredChannel(booking) : getChannel(rule.channel);
+  const to = channel?.getAddress(booking);
+  const [row] = buildFlatBookingRows(booking);
+  if (!to || !row) {
+    console.log(`ℹ️ Nowhere to send the ${event} notification for ${booking.bookingId}`);
+    return [];
+  }
+
+  const template =
+    rule.template && (eventConfig.whatsAppTemplates || []).find((t) => t.name === rule.template);
+  if (rule.template && !template) {
+    console.error(`❌ ${event} notification uses template ${rule.template}, which is not set up`);
+    return [];
+  }
+
+  // Templates are WhatsApp's; an email takes the message text, or the template's wording when
+  // the rule has no text
+  const values = getPlaceholderValues(booking, row.data, extra);
+  const templateContent = template ? buildTemplateContent(template, values) : null;
+  const text = replacePlaceholders(rule.message || "", values);
+  const content =
+    channel.id === "email"
+      ? {
+          subject: replacePlaceholders(rule.subject || "{event_name}", values)
+            .trim()
+            .slice(0, MAX_SUBJECT_LENGTH),
+          body: text.trim() ? text : templateContent?.body || "",
+        }
+      : templateContent || { body: text };
+  if (!content.body.trim()) {
+    return [];
+  }
+
+  return [
+    newQueuedMessage({
+      batchId,
+      bookingId: booking.bookingId,
+      channel: channel.id,
+      to,
+      ...content,
+      body: content.body.slice(0, MAX_BODY_LENGTH),
+      kind: "notification",
+      event,
+      queuedBy: "system",
+    }),
+  ];
+};
+
+// Events that can happen more than once to a booking pass a key to tell them apart
+const getNotificationBatchId = ({ event, booking, key }) =>
+  [event, booking.bookingId, key].filter(Boolean).join("_");
+
+// Queue a notification unless it was queued before. Never throws: a notification must not fail
+// the payment, cleanup or edit that caused it. Returns whether anything was queued.
+const queueNotification = async (notification) => {
+  const { event, booking } = notification;
+  try {
+    const batchId = getNotificationBatchId(notification);
+    const messages = buildNotificationMessages(notification, batchId);
+    if (messages.length === 0) {
+      return false;
+    }
+
+    // The batch document goes in the same write: creating it starts sendQueuedMessages
+    const batch = admin.firestore().batch();
+    messages.forEach((message, index) => {
+      batch.create(admin.firestore().doc(`messages/${batchId}_${index}`), message);
+    });
+    batch.create(admin.firestore().doc(`messageBatches/${batchId}`), {
+      kind: "notification",
+      event,
+      bookingId: booking.bookingId,
+      total: messages.length,
+      queuedBy: "system",
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await batch.commit();
+
+    console.log(`🔔 Queued the ${event} notification for ${booking.bookingId}`);
+    return true;
+  } catch (error) {
+    if (error.code === ALREADY_EXISTS) {
+      console.log(`ℹ️ The ${event} notification for ${booking.bookingId} was already queued`);
+      return false;
+    }
+    console.error(`❌ Could not queue the ${event} notification for ${booking.bookingId}:`, error);
+    return false;
+  }
+};
+
+const getCancelledNotification = (booking) => ({
+  event: "bookingCancelled",
+  booking,
+  extra: { "{refund_amount}": String(booking.refund?.amount || 0) },
+});
+
+// The notifications due for an update of bookings/{bookingId}, whichever function or admin
+// edit made it. changeKey tells apart slot changes of the same booking.
+const getBookingChangeNotifications = (before, after, changeKey) => {
+  const previousStatus = getBookingStatus(before);
+  const status = getBookingStatus(after);
+  const notifications = [];
+
+  if (status === "confirmed" && previousStatus !== "confirmed") {
+    notifications.push({ event: "bookingConfirmed", booking: after });
+  }
+  if (status === "cancelled" && previousStatus === "confirmed") {
+    notifications.push(getCancelledNotification(after));
+  }
+
+  const moved =
+    before.date !== after.date || formatSlots(before.timeSlots) !== formatSlots(after.timeSlots);
+  if (status === "confirmed" && previousStatus === "confirmed" && moved) {
+    notifications.push({
+      event: "slotChanged",
+      booking: after,
+      key: changeKey,
+      extra: {
+        "{previous_time_slots}": formatSlots(before.timeSlots) || "N/A",
+        "{previous_date}": before.date || "N/A",
+      },
+    });
+  }
+
+  // Once per booking, however many attempts fail before the dancer pays or gives up
+  const failedPaymentId = after.paymentData?.failedPaymentId;
+  if (
+    status === "pending" &&
+    failedPaymentId &&
+    failedPaymentId !== before.paymentData?.failedPaymentId
+  ) {
+    notifications.push({
+      event: "paymentFailed",
+      booking: after,
+      extra: { "{payment_error}": after.paymentData.errorReason || "Payment failed" },
+    });
+  }
+
+  return notifications;
+};
+
+// The notifications due when bookings/{bookingId} is deleted. Only a confirmed booking loses
+// slots it was promised; cleanupExpiredBookings tells pending ones itself (bookingExpired).
+const getBookingDeleteNotifications = (booking) =>
+  getBookingStatus(booking) === "confirmed" ? [getCancelledNotification(booking)] : [];
+
+// "YYYY-MM-DD" of a moment, in the event's time zone
+const toEventDate = (millis) =>
+  new Date(millis + EVENT_UTC_OFFSET_MINUTES * 60 * 1000).toISOString().slice(0, 10);
+
+// When the booking's first slot starts, in milliseconds since the epoch; null without slots
+const getFirstSlotStart = (booking) => {
+  const minutes = (booking.timeSlots || []).map(slotToMinutes).filter((value) => value !== null);
+  if (!booking.date || minutes.length === 0) {
+    return null;
+  }
+  const midnight = Date.parse(`${booking.date}T00:00:00Z`);
+  return midnight + (Math.min(...minutes) - EVENT_UTC_OFFSET_MINUTES) * 60 * 1000;
+};
+
+// Whether a booking's reminder is due: its first slot starts within hoursBefore from now
+const isReminderDue = (booking, hoursBefore, now = Date.now()) => {
+  const start = getFirstSlotStart(booking);
+  return start !== null && start > now && start - hoursBefore * 60 * 60 * 1000 <= now;
+};
+
+// Queue the reminder for every confirmed booking whose first slot is coming up. Returns how
+// many were queued.
+const queueSlotReminders = async (now = Date.now()) => {
+  const rule = eventConfig.notifications?.slotReminder;
+  if (!rule?.enabled || !(rule.hoursBefore > 0)) {
+    return 0;
+  }
+
+  const firstDate = toEventDate(now);
+  const lastDate = toEventDate(now + rule.hoursBefore * 60 * 60 * 1000);
+  const dates = [
+    ...new Set(
+      eventConfig.events
+        .flatMap((event) => event.days.map((day) => day.date))
+        .filter((date) => date >= firstDate && date <= lastDate)
+    ),
+  ];
+  if (dates.length === 0) {
+    return 0;
+  }
+
+  const snapshot = await admin.firestore().collection("bookings").where("date", "in", dates).get();
+  const due = snapshot.docs
+    .map((docSnap) => ({ ...docSnap.data(), bookingId: docSnap.id }))
+    .filter(
+      (booking) =>
+        getBookingStatus(booking) === "confirmed" && isReminderDue(booking, rule.hoursBefore, now)
+    )
+    .map((booking) => ({ event: "slotReminder", booking }));
+  if (due.length === 0) {
+    return 0;
+  }
+
+  // Skip the ones already sent on an earlier run
+  const sentSnaps = await admin
+    .firestore()
+    .getAll(
+      ...due.map((notification) =>
+        admin.firestore().doc(`messageBatches/${getNotificationBatchId(notification)}`)
+      )
+    );
+  let queued = 0;
+  for (const [index, notification] of due.entries()) {
+    if (!sentSnaps[index].exists && (await queueNotification(notification))) {
+      queued++;
+    }
+  }
+  return queued;
+};
+
+module.exports = {
+  buildNotificationMessages,
+  queueNotification,
+  getBookingChangeNotifications,
+  getBookingDeleteNotifications,
+  isReminderDue,
+  queueSlotReminders,
+};
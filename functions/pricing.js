@@ -0,0 +1,219 @@
+// Server-side pricing. Mirrors getPriceForSlot in src/utils/timeUtils.ts and the participant
+// helpers in src/utils/participantUtils.ts so the amount charged never depends on what the
+// browser sends.
+const { eventConfig, getEvent, getEventDay } = require("./eventConfig");
+
+// Thrown when an order request cannot be priced (unknown type, bad slot, wrong date...)
+class PricingError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "PricingError";
+  }
+}
+
+const convertTimeToMinutes = (time) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// "09:10 AM" -> minutes since midnight, or null if the slot label is malformed
+const slotToMinutes = (timeSlot) => {
+  const match = /^(\d{1,2}):(\d{2})\s*(AM|PM)$/i.exec(String(timeSlot).trim());
+  if (!match) {
+    return null;
+  }
+
+  let hour = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const period = match[3].toUpperCase();
+
+  if (period === "PM" && hour !== 12) {
+    hour += 12;
+  } else if (period === "AM" && hour === 12) {
+    hour = 0;
+  }
+
+  return hour * 60 + minutes;
+};
+
+const isTimeInRange = (minutes, start, end) =>
+  minutes >= convertTimeToMinutes(start) && minutes < convertTimeToMinutes(end);
+
+const getPricingTier = (timeSlot) => {
+  if (!eventConfig.timePricing?.enabled) {
+    return null;
+  }
+
+  const minutes = slotToMinutes(timeSlot);
+  const { timeRanges } = eventConfig.timePricing;
+
+  for (const tier of ["offPeak", "midPeak", "onPeak"]) {
+    const range = timeRanges[tier];
+    if (range && isTimeInRange(minutes, range.start, range.end)) {
+      return tier;
+    }
+  }
+
+  return null;
+};
+
+const getPerformanceType = (performanceTypeId) =>
+  eventConfig.performanceTypes.find((type) => type.id === performanceTypeId);
+
+// The type's price for the slot's tier, falling back to its flat per-person price when time
+// pricing is off or the type has no price for that tier
+const getPriceForSlot = (timeSlot, performanceTypeId) => {
+  const type = getPerformanceType(performanceTypeId);
+  if (!type) {
+    return 0;
+  }
+
+  const tier = getPricingTier(timeSlot);
+  return (tier && type.tierPrices?.[tier]) ?? type.pricePerPerson;
+};
+
+// Entries of the members sub-form, each stored as { name, age, phone? }
+const getMembers = (participantDetails = {}) =>
+  Array.isArray(participantDetails.members) ? participantDetails.members : [];
+
+// Same checks as the registration form: a name, an age from 3 to 90 and an optional 10 digit phone
+const validateMembers = (participantDetails) => {
+  getMembers(participantDetails).forEach((member, index) => {
+    const { name, age, phone } = member || {};
+    if (typeof name !== "string" || !name.trim()) {
+      throw new PricingError(`Member ${index + 1} needs a name`);
+    }
+    if (!Number.isInteger(age) || age < 3 || age > 90) {
+      throw new PricingError(`Member ${index + 1} needs an age between 3 and 90`);
+    }
+    if (phone !== undefined && !/^\d{10}$/.test(String(phone))) {
+      throw new PricingError(`Member ${index + 1} phone number must be exactly 10 digits`);
+    }
+  });
+};
+
+// Names of the dancers entered on the form, in order
+const getParticipantNames = (performanceTypeId, participantDetails = {}) => {
+  const type = getPerformanceType(performanceTypeId);
+  if (!type?.participants) {
+    return [];
+  }
+
+  const { mode, nameFields } = type.participants;
+  const names =
+    mode === "members"
+      ? getMembers(participantDetails).map((member) => String(member?.name || ""))
+      : nameFields.map((field) => String(participantDetails[field] || ""));
+  return names.map((name) => name.trim()).filter(Boolean);
+};
+
+// Dancers charged for. Until the names are entered this is the type's minimum.
+const getParticipantCount = (performanceTypeId, participantDetails = {}) => {
+  const type = getPerformanceType(performanceTypeId);
+  if (!type) {
+    return 1;
+  }
+  return Math.max(
+    getParticipantNames(performanceTypeId, participantDetails).length,
+    type.minParticipants || 1
+  );
+};
+
+// Check that the event day exists and every slot is a real slot of that day's grid
+const validateTimeSlots = (eventId, date, timeSlots) => {
+  const day = getEventDay(eventId, date);
+  if (!day) {
+    throw new PricingError(`Invalid event date: ${eventId} ${date}`);
+  }
+
+  if (!Array.isArray(timeSlots) || timeSlots.length === 0) {
+    throw new PricingError("At least one time slot is required");
+  }
+
+  const start = convertTimeToMinutes(day.startTime);
+  const end = convertTimeToMinutes(day.endTime);
+
+  timeSlots.forEach((slot) => {
+    const minutes = slotToMinutes(slot);
+    if (
+      minutes === null ||
+      minutes < start ||
+      minutes >= end ||
+      (minutes - start) % eventConfig.slotDuration !== 0
+    ) {
+      throw new PricingError(`Invalid time slot: ${slot}`);
+    }
+  });
+
+  if (new Set(timeSlots).size !== timeSlots.length) {
+    throw new PricingError("Duplicate time slots in request");
+  }
+};
+
+// Check the performance type exists and the right number of participants are filled in.
+// Returns the performance type.
+const validateParticipants = (performanceType, participantDetails) => {
+  const type = getPerformanceType(performanceType);
+  if (!type) {
+    throw new PricingError(`Invalid performance type: ${performanceType}`);
+  }
+
+  if (type.participants?.mode === "members") {
+    validateMembers(participantDetails);
+  }
+
+  const nameCount = getParticipantNames(performanceType, participantDetails).length;
+  const { minParticipants = 1, maxParticipants = Infinity } = type;
+  if (nameCount < minParticipants || nameCount > maxParticipants) {
+    const expected =
+      minParticipants === maxParticipants
+        ? `exactly ${minParticipants}`
+        : `${minParticipants} to ${maxParticipants}`;
+    throw new PricingError(`${type.name} needs ${expected} participants, got ${nameCount}`);
+  }
+
+  return type;
+};
+
+// Price a registration from its details. Returns the amount in rupees plus a per-slot breakdown.
+const calculateOrderAmount = (request) => {
+  const { eventId, date, timeSlots, performanceType, participantDetails } = request;
+  const type = validateParticipants(performanceType, participantDetails);
+  validateTimeSlots(eventId, date, timeSlots);
+
+  const participantCount = getParticipantCount(performanceType, participantDetails);
+  const breakdown = timeSlots.map((slot) => {
+    const pricePerPerson = getPriceForSlot(slot, performanceType);
+    return {
+      slot,
+      tier: getPricingTier(slot),
+      pricePerPerson,
+      amount: pricePerPerson * participantCount,
+    };
+  });
+
+  const amount = breakdown.reduce((total, item) => total + item.amount, 0);
+  if (amount <= 0) {
+    throw new PricingError("Calculated amount is zero; check the pricing configuration");
+  }
+
+  return {
+    amount,
+    participantCount,
+    eventName: getEvent(eventId).name,
+    performanceTypeName: type.name,
+    breakdown,
+  };
+};
+
+module.exports = {
+  PricingError,
+  slotToMinutes,
+  getPricingTier,
+  getPriceForSlot,
+  getParticipantNames,
+  getParticipantCount,
+  validateParticipants,
+  validateTimeSlots,
+  calculateOrderAmount,
+};
@@ -0,0 +1,154 @@
+// One-off migration: build a bookings/{bookingId} document for every registration that only
+// exists as flatBookings rows. Deploy the functions (syncFlatBookings) first so the rows are
+// rewritten from the new documents as they are created.
+//
+// Usage (from functions/, with application default credentials for the project):
+//   npm run migrate:bookings -- --dry-run
+//   npm run migrate:bookings
+const admin = require("firebase-admin");
+
+admin.initializeApp();
+
+const dryRun = process.argv.includes("--dry-run");
+const BATCH_LIMIT = 400;
+
+const withoutUndefined = (data) =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+const toMillis = (timestamp) => (timestamp?.toMillis ? timestamp.toMillis() : 0);
+
+// Participant details from the rows, for bookings written before originalBookingData existed
+const participantDetailsFromRow = (row) =>
+  withoutUndefined({
+    fullName: row.fullName,
+    phoneNumber: row.phoneNumber,
+    email: row.email,
+    cityResidence: row.cityResidence,
+    guruName: row.guruName,
+    performanceCategory: row.performanceCategory,
+    rulesRead: row.rulesRead,
+    age: row.participantAge,
+    participant1Name: row.participant1Name,
+    participant2Name: row.participant2Name,
+    participant1Phone: row.participant1Phone,
+    participant2Phone: row.participant2Phone,
+    participantNames: row.groupName || row.memberNames,
+    representativePhone: row.representativePhone,
+  });
+
+const buildBookingFromRows = (bookingId, rows) => {
+  const sortedRows = [...rows].sort((a, b) => toMillis(a.timestamp) - toMillis(b.timestamp));
+  const first = sortedRows[0];
+  const original = first.originalBookingData || {};
+  const originalPayment = original.paymentData || {};
+
+  const timeSlots = original.timeSlots || sortedRows.map((row) => row.timeSlot);
+  const breakdown = sortedRows.map((row) => ({
+    slot: row.timeSlot,
+    tier: null,
+    pricePerPerson: row.pricePerPerson || 0,
+    amount: row.amountPerSlot || 0,
+  }));
+  const amount = first.paymentAmount ?? breakdown.reduce((total, item) => total + item.amount, 0);
+  const orderId = first.orderId || originalPayment.orderId;
+
+  const refund = first.refundId
+    ? withoutUndefined({
+        id: first.refundId,
+        amount: first.refundAmount,
+        status: first.refundStatus,
+        reason: first.refundReason,
+        refundedBy: first.refundedBy,
+        refundedAt: first.refundedAt,
+      })
+    : undefined;
+
+  return withoutUndefined({
+    bookingId,
+    orderId,
+    holdOwner: first.holdOwner,
+    date: original.date || first.date,
+    timeSlots,
+    performanceType: original.performanceType || first.performanceType,
+    performanceTypeName: first.performanceTypeName,
+    participantDetails: original.participantDetails || participantDetailsFromRow(first),
+    participantCount: first.participantCount,
+    amount,
+    breakdown,
+    screenshotUrl: first.screenshotUrl || original.screenshotUrl,
+    paymentData: withoutUndefined({
+      ...originalPayment,
+      paymentId: first.paymentId || originalPayment.paymentId,
+      orderId,
+      amount,
+      currency: first.paymentCurrency || originalPayment.currency || "INR",
+      status: first.paymentStatus || originalPayment.status,
+    }),
+    status: first.bookingStatus || (first.paymentId ? "confirmed" : "pending"),
+    refund,
+    createdAt: first.timestamp || admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+};
+
+const migrate = async () => {
+  const db = admin.firestore();
+  const rowsSnapshot = await db.collection("flatBookings").get();
+
+  const rowsByBooking = new Map();
+  rowsSnapshot.forEach((docSnap) => {
+    const row = docSnap.data();
+    const bookingId = row.bookingId || docSnap.id;
+    if (!rowsByBooking.has(bookingId)) {
+      rowsByBooking.set(bookingId, []);
+    }
+    rowsByBooking.get(bookingId).push(row);
+  });
+
+  console.log(`📋 ${rowsSnapshot.size} row(s) across ${rowsByBooking.size} booking(s)`);
+
+  let batch = db.batch();
+  let pendingWrites = 0;
+  let created = 0;
+  let skipped = 0;
+
+  for (const [bookingId, rows] of rowsByBooking) {
+    const bookingRef = db.doc(`bookings/${bookingId}`);
+    if ((await bookingRef.get()).exists) {
+      skipped++;
+      continue;
+    }
+
+    const booking = buildBookingFromRows(bookingId, rows);
+    console.log(`➕ ${bookingId}: ${booking.timeSlots.length} slot(s), ${booking.status}`);
+    created++;
+
+    if (dryRun) {
+      continue;
+    }
+
+    batch.set(bookingRef, booking);
+    pendingWrites++;
+    if (pendingWrites === BATCH_LIMIT) {
+      await batch.commit();
+      batch = db.batch();
+      pendingWrites = 0;
+    }
+  }
+
+  if (pendingWrites > 0) {
+    await batch.commit();
+  }
+
+  console.log(
+    `✅ ${dryRun ? "Would create" : "Created"} ${created} booking(s); ` +
+      `${skipped} already existed`
+  );
+};
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("💥 Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,187 @@
+// Slot changes requested by dancers from "Find my booking". slotChanges/{changeId} holds
+// { bookingId, eventId, date, fromSlots, toSlots, amountDue, participantName, status,
+//   orderId?, paymentId?, refund?, reviewedBy?, reason? } with status
+// "awaiting_payment" | "pending_approval" | "applied" | "rejected" | "expired".
+// The new slots are held under the booking's slot owner until the change is applied. A move to
+// dearer slots is paid for first; when eventConfig.slotChangesNeedApproval is set the change then
+// waits for an organizer, and a rejected change has its payment refunded.
+const admin = require("firebase-admin");
+const { eventConfig } = require("./eventConfig");
+const {
+  PricingError,
+  getPricingTier,
+  getPriceForSlot,
+  getParticipantCount,
+  validateTimeSlots,
+} = require("./pricing");
+const { getSlotDocId, claimSlotsInTransaction, writeSlotRelease } = require("./slots");
+
+// Thrown when a booking's slots cannot be changed as asked
+class SlotChangeError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "SlotChangeError";
+  }
+}
+
+const OPEN_STATUSES = ["awaiting_payment", "pending_approval"];
+
+const getSlotChangesRef = () => admin.firestore().collection("slotChanges");
+
+// Owner of a booking's slots in slotOwners. Bookings added from the admin panel are owned by
+// their booking ID.
+const getBookingSlotOwner = (booking) => booking.holdOwner || booking.bookingId;
+
+// Slots the change adds to the booking and slots it gives up; slots in both stay booked
+const getAddedSlots = (change) => change.toSlots.filter((slot) => !change.fromSlots.includes(slot));
+const getDroppedSlots = (change) =>
+  change.fromSlots.filter((slot) => !change.toSlots.includes(slot));
+
+// Check a requested move and price it. Returns the new breakdown and the amount to pay, which is
+// the difference in list price; moving to cheaper slots is free and not refunded.
+const priceSlotChange = (booking, toSlots) => {
+  const fromSlots = booking.timeSlots || [];
+  if (!Array.isArray(toSlots) || toSlots.length !== fromSlots.length) {
+    throw new SlotChangeError(`Choose ${fromSlots.length} slot(s), the same number as booked`);
+  }
+  if ([...toSlots].sort().join() === [...fromSlots].sort().join()) {
+    throw new SlotChangeError("These are the slots you already have");
+  }
+  try {
+    validateTimeSlots(booking.eventId, booking.date, toSlots);
+  } catch (error) {
+    if (error instanceof PricingError) {
+      throw new SlotChangeError(error.message);
+    }
+    throw error;
+  }
+
+  const participantCount =
+    booking.participantCount ||
+    getParticipantCount(booking.performanceType, booking.participantDetails);
+  const listPrice = (slots) =>
+    slots.reduce((total, slot) => total + getPriceForSlot(slot, booking.performanceType), 0);
+
+  // Slots the booking keeps stay at the price paid for them
+  const breakdown = toSlots.map((slot) => {
+    const kept = (booking.breakdown || []).find((item) => item.slot === slot);
+    if (kept) {
+      return kept;
+    }
+    const pricePerPerson = getPriceForSlot(slot, booking.performanceType);
+    return {
+      slot,
+      tier: getPricingTier(slot),
+      pricePerPerson,
+      amount: pricePerPerson * participantCount,
+    };
+  });
+  const amountDue = Math.max(0, listPrice(toSlots) - listPrice(fromSlots)) * participantCount;
+
+  return { breakdown, amountDue };
+};
+
+// Hold the slots a change adds for the booking's owner; without expiresAt the hold lasts until
+// the change is applied or rejected
+const holdSlotChangeInTransaction = (transaction, booking, change, expiresAt) =>
+  claimSlotsInTransaction(
+    transaction,
+    change.eventId,
+    change.date,
+    getAddedSlots(change),
+    getBookingSlotOwner(booking),
+    "held",
+    expiresAt ? { expiresAt } : {}
+  );
+
+// Move the booking to its new slots and record the change as applied. Call after every other
+// read of the transaction; change is written in full, so it may be a new change.
+const applySlotChangeInTransaction = async (
+  transaction,
+  bookingRef,
+  booking,
+  changeRef,
+  change
+) => {
+  await claimSlotsInTransaction(
+    transaction,
+    change.eventId,
+    change.date,
+    getAddedSlots(change),
+    getBookingSlotOwner(booking),
+    "booked"
+  );
+  writeSlotRelease(transaction, change.eventId, change.date, getDroppedSlots(change));
+
+  transaction.update(bookingRef, {
+    timeSlots: change.toSlots,
+    breakdown: change.breakdown,
+    amount: (booking.amount || 0) + (change.paymentId ? change.amountDue : 0),
+    slotChangeIds: admin.firestore.FieldValue.arrayUnion(changeRef.id),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  transaction.set(
+    changeRef,
+    {
+      ...change,
+      status: "applied",
+      appliedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+};
+
+// Once nothing is left to pay: apply the change, or hold its slots without expiry and queue it
+// for an organizer's approval. Returns the change's new status.
+const settleSlotChangeInTransaction = async (
+  transaction,
+  bookingRef,
+  booking,
+  changeRef,
+  change
+) => {
+  if (!eventConfig.slotChangesNeedApproval) {
+    await applySlotChangeInTransaction(transaction, bookingRef, booking, changeRef, change);
+    return "applied";
+  }
+
+  await holdSlotChangeInTransaction(transaction, booking, change);
+  transaction.set(
+    changeRef,
+    {
+      ...change,
+      status: "pending_approval",
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+  return "pending_approval";
+};
+
+// Give back the slots an open change is holding, leaving any that went to someone else after
+// the hold ran out. Call after every other read of the transaction.
+const releaseSlotChangeHoldInTransaction = async (transaction, booking, change) => {
+  const ownersRef = admin
+    .firestore()
+    .doc(`slotOwners/${getSlotDocId(change.eventId, change.date)}`);
+  const ownersSnap = await transaction.get(ownersRef);
+  const owners = ownersSnap.exists ? ownersSnap.data() : {};
+  const heldSlots = getAddedSlots(change).filter(
+    (slot) => owners[slot]?.owner === getBookingSlotOwner(booking)
+  );
+  if (heldSlots.length > 0) {
+    writeSlotRelease(transaction, change.eventId, change.date, heldSlots);
+  }
+};
+
+module.exports = {
+  SlotChangeError,
+  OPEN_STATUSES,
+  getSlotChangesRef,
+  priceSlotChange,
+  holdSlotChangeInTransaction,
+  applySlotChangeInTransaction,
+  settleSlotChangeInTransaction,
+  releaseSlotChangeHoldInTransaction,
+};
@@ -0,0 +1,157 @@
+// Slot reservation on the server. Mirrors claimSlots in src/services/firebaseService.ts:
+// slots/{eventId}_{date} maps each slot to "available" | "held" | "booked" and
+// slotOwners/{eventId}_{date} records who holds or booked it as { owner, expiresAt? }.
+const admin = require("firebase-admin");
+
+// Mirrors getSlotDocId in src/utils/timeUtils.ts. Bookings made before events were introduced
+// have no eventId and use slots/{date}.
+const getSlotDocId = (eventId, date) => (eventId ? `${eventId}_${date}` : date);
+
+// The event day a slot document belongs to, or null for legacy slots/{date} documents
+const parseSlotDocId = (slotDocId) => {
+  const match = /^(.+)_(\d{4}-\d{2}-\d{2})$/.exec(slotDocId);
+  return match ? { eventId: match[1], date: match[2] } : null;
+};
+
+// Thrown when some of the requested slots were taken by someone else
+class SlotConflictError extends Error {
+  constructor(lostSlots) {
+    super(`These time slots are no longer available: ${lostSlots.join(", ")}`);
+    this.name = "SlotConflictError";
+    this.lostSlots = lostSlots;
+  }
+}
+
+// A slot can be claimed when it is free, held by us, or its hold has run out. A booked slot
+// stays with its booking, even for the owner that booked it.
+const isSlotClaimable = (status, ownership, owner, now = Date.now()) => {
+  if (status === "available") {
+    return true;
+  }
+  if (status !== "held") {
+    return false;
+  }
+  return ownership?.owner === owner || (!!ownership?.expiresAt && ownership.expiresAt <= now);
+};
+
+// Claim every requested slot for owner inside an existing transaction, or throw SlotConflictError.
+// Slots owner still holds but no longer wants are released, as are any slots listed in
+// options.release (e.g. the slots of a pending booking this claim replaces). Those released
+// slots may be claimed again even though they are booked.
+const claimSlotsInTransaction = async (
+  transaction,
+  eventId,
+  date,
+  timeSlots,
+  owner,
+  status,
+  options = {}
+) => {
+  const { expiresAt, release = [] } = options;
+  const slotsRef = admin.firestore().doc(`slots/${getSlotDocId(eventId, date)}`);
+  const ownersRef = admin.firestore().doc(`slotOwners/${getSlotDocId(eventId, date)}`);
+
+  const slotsSnap = await transaction.get(slotsRef);
+  const ownersSnap = await transaction.get(ownersRef);
+  const slots = slotsSnap.exists ? slotsSnap.data() : {};
+  const owners = ownersSnap.exists ? ownersSnap.data() : {};
+
+  const isReleased = (slot) => release.includes(slot) && owners[slot]?.owner === owner;
+  const lostSlots = timeSlots.filter(
+    (slot) => !isReleased(slot) && !isSlotClaimable(slots[slot], owners[slot], owner)
+  );
+  if (lostSlots.length > 0) {
+    throw new SlotConflictError(lostSlots);
+  }
+
+  const slotUpdates = {};
+  const ownerUpdates = {};
+
+  Object.entries(owners).forEach(([slot, ownership]) => {
+    const unwanted = ownership.owner === owner && !timeSlots.includes(slot);
+    if (unwanted && (slots[slot] === "held" || release.includes(slot))) {
+      slotUpdates[slot] = "available";
+      ownerUpdates[slot] = admin.firestore.FieldValue.delete();
+    }
+  });
+
+  timeSlots.forEach((slot) => {
+    slotUpdates[slot] = status;
+    ownerUpdates[slot] = expiresAt ? { owner, expiresAt } : { owner };
+  });
+
+  transaction.update(slotsRef, slotUpdates);
+  transaction.set(ownersRef, ownerUpdates, { merge: true });
+};
+
+// Mark slots available again and clear their owners. writer is a WriteBatch or Transaction.
+const writeSlotRelease = (writer, eventId, date, timeSlots) => {
+  const slotUpdates = {};
+  const ownerUpdates = {};
+  timeSlots.forEach((slot) => {
+    slotUpdates[slot] = "available";
+    ownerUpdates[slot] = admin.firestore.FieldValue.delete();
+  });
+
+  const slotDocId = getSlotDocId(eventId, date);
+  writer.update(admin.firestore().doc(`slots/${slotDocId}`), slotUpdates);
+  writer.set(admin.firestore().doc(`slotOwners/${slotDocId}`), ownerUpdates, { merge: true });
+};
+
+// Function to mark slots available again and clear their owners in slotOwners
+const releaseSlots = async (eventId, date, timeSlots) => {
+  const batch = admin.firestore().batch();
+  writeSlotRelease(batch, eventId, date, timeSlots);
+  await batch.commit();
+};
+
+// Function to free slots whose payment hold has run out.
+// Holds live in slotOwners/{slotDocId} as { owner, expiresAt } while slots/{slotDocId} marks
+// them "held".
+const releaseExpiredHolds = async () => {
+  const now = Date.now();
+  const ownersSnapshot = await admin.firestore().collection("slotOwners").get();
+  let released = 0;
+
+  for (const ownersDoc of ownersSnapshot.docs) {
+    const slotsRef = admin.firestore().doc(`slots/${ownersDoc.id}`);
+
+    released += await admin.firestore().runTransaction(async (transaction) => {
+      const slotsSnap = await transaction.get(slotsRef);
+      const ownersSnap = await transaction.get(ownersDoc.ref);
+      const slots = slotsSnap.exists ? slotsSnap.data() : {};
+      const owners = ownersSnap.exists ? ownersSnap.data() : {};
+
+      const slotUpdates = {};
+      const ownerUpdates = {};
+      Object.entries(owners).forEach(([slot, ownership]) => {
+        if (slots[slot] === "held" && ownership.expiresAt && ownership.expiresAt <= now) {
+          slotUpdates[slot] = "available";
+          ownerUpdates[slot] = admin.firestore.FieldValue.delete();
+        }
+      });
+
+      const expiredCount = Object.keys(slotUpdates).length;
+      if (expiredCount > 0) {
+        transaction.update(slotsRef, slotUpdates);
+        transaction.set(ownersDoc.ref, ownerUpdates, { merge: true });
+      }
+      return expiredCount;
+    });
+  }
+
+  if (released > 0) {
+    console.log(`⏳ Released ${released} expired slot hold(s)`);
+  }
+};
+
+module.exports = {
+  getSlotDocId,
+  parseSlotDocId,
+  SlotConflictError,
+  isSlotClaimable,
+  claimSlotsInTransaction,
+  writeSlotRelease,
+  releaseSlots,
+  releaseExpiredHolds,
+};
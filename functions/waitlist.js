@@ -0,0 +1,197 @@
+// Waitlist for booked-out slots. waitlist/{entryId} holds
+// { eventId, date, slot? | tier?, performanceType, participantDetails, contact, status,
+//   offer?: { slot, holdOwner, expiresAt } } with status
+// "waiting" | "offered" | "booked" | "lapsed" | "cancelled".
+// A dancer waits for one slot or for any slot in a pricing tier. When a slot of their day is
+// freed, the earliest matching entry gets it held for eventConfig.waitlistOfferMinutes, is sent
+// the waitlistOffer notification and can book it from their waitlist link; if the hold runs
+// out, the slot is offered to the next entry.
+const crypto = require("crypto");
+const admin = require("firebase-admin");
+const functions = require("firebase-functions");
+const { eventConfig, getEvent, getEventDay } = require("./eventConfig");
+const {
+  PricingError,
+  getPricingTier,
+  validateParticipants,
+  validateTimeSlots,
+} = require("./pricing");
+const { getParticipantName } = require("./bookings");
+const { getSlotDocId } = require("./slots");
+const { queueNotification } = require("./notifications");
+
+const OFFER_OWNER_PREFIX = "waitlist_";
+
+// Slots offered to an entry are held under a random owner, which only the entry records and
+// the dancer books with. It must not be derivable from the entry ID or anything public.
+const createOfferOwner = () => `${OFFER_OWNER_PREFIX}${crypto.randomBytes(16).toString("hex")}`;
+
+// The entry a hold owner was offered to, as a query, or null for an ordinary registration's holds
+const getOfferEntryQuery = (holdOwner) =>
+  typeof holdOwner === "string" && holdOwner.startsWith(OFFER_OWNER_PREFIX)
+    ? admin.firestore().collection("waitlist").where("offer.holdOwner", "==", holdOwner).limit(1)
+    : null;
+
+// Mirrors getWaitlistLink in src/services/waitlistService.ts. The site's address comes from
+// functions config (app.url) or APP_URL; null when neither is set.
+const getWaitlistLink = (entryId) => {
+  const siteUrl = functions.config().app?.url || process.env.APP_URL;
+  return siteUrl ? `${siteUrl.replace(/\/+$/, "")}/?waitlist=${entryId}` : null;
+};
+
+// Check a request to join the waitlist and build the entry to store
+const buildWaitlistEntry = (request) => {
+  const { eventId, date, slot, tier, performanceType, participantDetails = {} } = request;
+  if (!getEventDay(eventId, date)) {
+    throw new PricingError(`Invalid event date: ${eventId} ${date}`);
+  }
+  if (slot) {
+    validateTimeSlots(eventId, date, [slot]);
+  } else if (!eventConfig.timePricing?.enabled || !eventConfig.timePricing.timeRanges[tier]) {
+    throw new PricingError("Choose a time slot or a pricing tier to wait for");
+  }
+
+  const type = validateParticipants(performanceType, participantDetails);
+  const phone = String(participantDetails[type.participants.phoneField] || "").trim();
+  if (!phone) {
+    throw new PricingError("A phone number is needed to join the waitlist");
+  }
+
+  return {
+    eventId,
+    date,
+    ...(slot ? { slot } : { tier }),
+    performanceType,
+    participantDetails,
+    contact: {
+      name: getParticipantName(performanceType, participantDetails),
+      phone,
+      email: participantDetails.email || "",
+    },
+    status: "waiting",
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+};
+
+const matchesSlot = (entry, slot) =>
+  entry.slot ? entry.slot === slot : !!entry.tier && getPricingTier(slot) === entry.tier;
+
+const byCreatedAt = (a, b) =>
+  (a.data().createdAt?.toMillis() || 0) - (b.data().createdAt?.toMillis() || 0);
+
+// Offers for freed slots are over, whether their hold ran out or the slot was released
+const lapseOffers = async (eventId, date, freedSlots) => {
+  const offeredSnapshot = await admin
+    .firestore()
+    .collection("waitlist")
+    .where("eventId", "==", eventId)
+    .where("date", "==", date)
+    .where("status", "==", "offered")
+    .get();
+
+  const lapsed = offeredSnapshot.docs.filter((docSnap) =>
+    freedSlots.includes(docSnap.data().offer?.slot)
+  );
+  if (lapsed.length === 0) {
+    return;
+  }
+
+  const batch = admin.firestore().batch();
+  lapsed.forEach((docSnap) =>
+    batch.update(docSnap.ref, {
+      status: "lapsed",
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    })
+  );
+  await batch.commit();
+  console.log(`⌛ ${lapsed.length} waitlist offer(s) lapsed on ${eventId} ${date}`);
+};
+
+// Hold a free slot for the earliest waiting entry that wants it. Returns the entry with its ID
+// and offer, or null when nobody is waiting for it or the slot was taken meanwhile.
+const offerSlot = async (eventId, date, slot) => {
+  const slotDocId = getSlotDocId(eventId, date);
+  const slotsRef = admin.firestore().doc(`slots/${slotDocId}`);
+  const ownersRef = admin.firestore().doc(`slotOwners/${slotDocId}`);
+  const waitingQuery = admin
+    .firestore()
+    .collection("waitlist")
+    .where("eventId", "==", eventId)
+    .where("date", "==", date)
+    .where("status", "==", "waiting");
+
+  return admin.firestore().runTransaction(async (transaction) => {
+    const slotsSnap = await transaction.get(slotsRef);
+    if (!slotsSnap.exists || slotsSnap.data()[slot] !== "available") {
+      return null;
+    }
+
+    const waitingSnapshot = await transaction.get(waitingQuery);
+    const [next] = waitingSnapshot.docs
+      .filter((docSnap) => matchesSlot(docSnap.data(), slot))
+      .sort(byCreatedAt);
+    if (!next) {
+      return null;
+    }
+
+    const expiresAt = Date.now() + eventConfig.waitlistOfferMinutes * 60 * 1000;
+    const offer = { slot, holdOwner: createOfferOwner(), expiresAt };
+    transaction.update(slotsRef, { [slot]: "held" });
+    transaction.set(
+      ownersRef,
+      { [slot]: { owner: offer.holdOwner, expiresAt: offer.expiresAt } },
+      { merge: true }
+    );
+    transaction.update(next.ref, {
+      status: "offered",
+      offer,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { ...next.data(), id: next.id, offer };
+  });
+};
+
+// Tell the dancer about their offer, with the link to book it
+const notifyOffer = (entry) => {
+  const link = getWaitlistLink(entry.id);
+  if (!link) {
+    console.warn("⚠️ Set app.url in functions config to send waitlist links");
+  }
+  return queueNotification({
+    event: "waitlistOffer",
+    booking: {
+      ...entry,
+      bookingId: entry.id,
+      eventName: getEvent(entry.eventId)?.name,
+      timeSlots: [entry.offer.slot],
+    },
+    key: String(entry.offer.expiresAt),
+    extra: {
+      "{waitlist_link}": link || "N/A",
+      "{offer_expires_at}": new Date(entry.offer.expiresAt).toLocaleTimeString("en-IN", {
+        timeZone: "Asia/Kolkata",
+        hour: "2-digit",
+        minute: "2-digit",
+      }),
+    },
+  });
+};
+
+// Called when slots of an event day become available again
+const offerFreedSlots = async (eventId, date, freedSlots) => {
+  await lapseOffers(eventId, date, freedSlots);
+
+  for (const slot of freedSlots) {
+    const entry = await offerSlot(eventId, date, slot);
+    if (entry) {
+      console.log(`🎟️ Offered ${eventId} ${date} ${slot} to waitlist entry ${entry.id}`);
+      await notifyOffer(entry);
+    }
+  }
+};
+
+module.exports = {
+  getOfferEntryQuery,
+  buildWaitlistEntry,
+  offerFreedSlots,
+};
@@ -1,10 +1,13 @@
-import React, { useState, lazy } from 'react';
-import { createBooking, updateSlotStatus, validateSlotsAvailable } from './services/firebaseService';
-import { getEventDate } from './utils/timeUtils';
+import React, { useState, useEffect, lazy } from 'react';
+import { SlotConflictError } from './services/firebaseService';
+import { holdSlots, verifyPayment } from './services/paymentService';
+import { AdminUser, hasPermission, signInWithGoogle, signOutAdmin, subscribeToAdminUser } from './services/authService';
 import { eventConfig } from './config/eventConfig';
+import { WaitlistEntry } from './services/waitlistService';
 import LazyWrapper from './components/LazyWrapper';
 
 // Lazy load components for better performance
+const EventDatePicker = lazy(() => import('./components/EventDatePicker'));
 const TimeSlotSelector = lazy(() => import('./components/TimeSlotSelector'));
 const PerformanceTypeSelector = lazy(() => import('./components/PerformanceTypeSelector'));
 const RulesDisplay = lazy(() => import('./components/RulesDisplay'));
@@ -17,22 +20,67 @@ const PaymentFailure = lazy(() => import('./components/PaymentFailure'));
 const PaymentStatusChecker = lazy(() => import('./components/PaymentStatusChecker'));
 const AdminPanel = lazy(() => import('./components/AdminPanel'));
 const FirebaseTest = lazy(() => import('./components/FirebaseTest'));
+const WaitlistStatus = lazy(() => import('./components/WaitlistStatus'));
+const MyBooking = lazy(() => import('./components/MyBooking'));
 
-type Step = 'type' | 'rules' | 'form' | 'slots' | 'payment' | 'checking' | 'success' | 'failure';
+type Step = 'event' | 'type' | 'rules' | 'form' | 'slots' | 'payment' | 'checking' | 'success' | 'failure' | 'waitlist' | 'my-booking';
+
+// Identifies this registration's slot holds until the booking is created
+const createHoldOwner = () => `hold_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+// Waitlist links (/?waitlist=<entryId>) open the dancer's waitlist page
+const getWaitlistEntryIdFromUrl = () => new URLSearchParams(window.location.search).get('waitlist');
+
+// "Find my booking" lives at /my-booking, optionally with ?booking=<bookingId> filled in
+const MY_BOOKING_PATH = '/my-booking';
 
 const App: React.FC = () => {
-  const [currentStep, setCurrentStep] = useState<Step>('type');
+  const [waitlistEntryId, setWaitlistEntryId] = useState<string | null>(getWaitlistEntryIdFromUrl);
+  const [currentStep, setCurrentStep] = useState<Step>(() => {
+    if (waitlistEntryId) {
+      return 'waitlist';
+    }
+    return window.location.pathname === MY_BOOKING_PATH ? 'my-booking' : 'event';
+  });
+  const [selectedEventId, setSelectedEventId] = useState<string>('');
+  const [selectedDate, setSelectedDate] = useState<string>('');
   const [selectedSlots, setSelectedSlots] = useState<string[]>([]);
   const [performanceType, setPerformanceType] = useState<string>('');
   const [participantDetails, setParticipantDetails] = useState<Record<string, any>>({});
   const [paymentData, setPaymentData] = useState<any>(null);
+  const [holdOwner, setHoldOwner] = useState<string>(createHoldOwner);
+  const [holdExpiresAt, setHoldExpiresAt] = useState<number | null>(null);
+  const [heldSlots, setHeldSlots] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
   const [isAdminMode, setIsAdminMode] = useState<boolean>(false);
   const [isFirebaseTestMode, setIsFirebaseTestMode] = useState<boolean>(false);
-  const [showPasswordModal, setShowPasswordModal] = useState<boolean>(false);
-  const [password, setPassword] = useState<string>('');
-  const [passwordError, setPasswordError] = useState<string>('');
+  const [adminUser, setAdminUser] = useState<AdminUser | null>(null);
+  const [showSignInModal, setShowSignInModal] = useState<boolean>(false);
+  const [signingIn, setSigningIn] = useState<boolean>(false);
+  const [signInError, setSignInError] = useState<string>('');
+
+  // Restore an admin session across reloads, and leave admin mode if the session ends
+  useEffect(() => {
+    return subscribeToAdminUser((user) => {
+      setAdminUser(user);
+      if (!user) {
+        setIsAdminMode(false);
+        setIsFirebaseTestMode(false);
+      }
+    });
+  }, []);
+
+  const handleEventSelection = (eventId: string, date: string) => {
+    if (eventId !== selectedEventId || date !== selectedDate) {
+      // Slots belong to one event day; pick them again for the new day
+      setSelectedSlots([]);
+      setHeldSlots([]);
+    }
+    setSelectedEventId(eventId);
+    setSelectedDate(date);
+    setCurrentStep('type');
+  };
 
   const handleTypeSelection = (type: string) => {
     setPerformanceType(type);
@@ -52,9 +100,53 @@ const App: React.FC = () => {
     setSelectedSlots(slots);
   };
 
-  const handleSlotsNext = () => {
-    if (selectedSlots.length > 0) {
+  // Book a slot offered from the waitlist. It is already held for the entry, so go straight to
+  // payment with the details saved when the dancer joined.
+  const handleWaitlistBook = (entry: WaitlistEntry) => {
+    if (!entry.offer) {
+      return;
+    }
+    setSelectedEventId(entry.eventId);
+    setSelectedDate(entry.date);
+    setPerformanceType(entry.performanceType);
+    setParticipantDetails(entry.participantDetails);
+    setSelectedSlots([entry.offer.slot]);
+    setHoldOwner(entry.offer.holdOwner);
+    setHoldExpiresAt(entry.offer.expiresAt);
+    setHeldSlots([entry.offer.slot]);
+    setError('');
+    setCurrentStep('payment');
+  };
+
+  const handleSlotsNext = async () => {
+    if (selectedSlots.length === 0) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError('');
+      // Hold the slots so nobody else can take them while the dancer is in checkout
+      const expiresAt = await holdSlots({
+        eventId: selectedEventId,
+        date: selectedDate,
+        timeSlots: selectedSlots,
+        holdOwner
+      });
+      setHoldExpiresAt(expiresAt);
+      setHeldSlots(selectedSlots);
       setCurrentStep('payment');
+    } catch (err) {
+      console.error('Failed to hold slots:', err);
+      if (err instanceof SlotConflictError) {
+        const { lostSlots } = err;
+        setSelectedSlots(selectedSlots.filter(slot => !lostSlots.includes(slot)));
+        setError(`${err.message}. Please choose different slots.`);
+      } else {
+        setError('Failed to reserve your slots. Please try again.');
+      }
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -69,24 +161,33 @@ const App: React.FC = () => {
       setError('');
       setPaymentData(payment);
       
-      // Create booking immediately with pending status
+      // The pending booking was created by the server before checkout opened
       console.log('🚀 Payment success callback:', payment);
-      const bookingPayload = {
-        date: getEventDate(),
-        timeSlots: selectedSlots,
-        performanceType,
-        participantDetails,
-        paymentData: { ...payment, status: 'pending', webhookProcessed: false }
-      };
-      console.log('📝 Creating booking with data:', bookingPayload);
-      const bookingId = await createBooking(bookingPayload);
-      console.log('✅ Booking created with ID:', bookingId);
-      
-      // Update slot statuses
-      await Promise.all(
-        selectedSlots.map(slot => updateSlotStatus(getEventDate(), slot, 'booked'))
-      );
-      console.log('✅ Slots booked');
+
+      // Confirm right away with the checkout signature; the webhook remains the backup
+      try {
+        const verification = await verifyPayment({
+          razorpay_order_id: payment.orderId,
+          razorpay_payment_id: payment.paymentId,
+          razorpay_signature: payment.signature
+        });
+        if (verification.verified && verification.status === 'confirmed') {
+          setPaymentData({ ...payment, status: 'success' });
+          setLoading(false);
+          setCurrentStep('success');
+          return;
+        }
+        if (verification.status === 'not_found') {
+          setError(verification.refundStatus === 'refunded'
+            ? 'Your slot hold ran out before the payment went through, so the payment has been refunded. Please book again.'
+            : 'Your slot hold ran out before the payment went through. Please contact support for a refund.');
+          setLoading(false);
+          setCurrentStep('failure');
+          return;
+        }
+      } catch (verifyError) {
+        console.warn('⚠️ Signature verification failed, waiting for webhook instead:', verifyError);
+      }
       
       // Reset loading and move to checking status while waiting for webhook
       setLoading(false);
@@ -118,6 +219,9 @@ const App: React.FC = () => {
 
   const handleBack = () => {
     switch (currentStep) {
+      case 'type':
+        setCurrentStep('event');
+        break;
       case 'rules':
         setCurrentStep('type');
         break;
@@ -145,34 +249,79 @@ const App: React.FC = () => {
   };
 
   const resetForm = () => {
+    setSelectedEventId('');
+    setSelectedDate('');
     setSelectedSlots([]);
     setPerformanceType('');
     setParticipantDetails({});
     setPaymentData(null);
+    setHoldOwner(createHoldOwner());
+    setHoldExpiresAt(null);
+    setHeldSlots([]);
     setError('');
-    setCurrentStep('type');
+    setCurrentStep('event');
+    setWaitlistEntryId(null);
+    // Leave /my-booking or a waitlist link so a reload starts a fresh registration
+    if (window.location.pathname !== '/' || window.location.search) {
+      window.history.replaceState(null, '', '/');
+    }
+  };
+
+  const handleMyBookingClick = () => {
+    window.history.replaceState(null, '', MY_BOOKING_PATH);
+    setError('');
+    setCurrentStep('my-booking');
   };
 
   const handleAdminClick = () => {
-    setShowPasswordModal(true);
-    setPassword('');
-    setPasswordError('');
+    if (adminUser) {
+      setIsAdminMode(true);
+      return;
+    }
+    setShowSignInModal(true);
+    setSignInError('');
   };
 
-  const handlePasswordSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (password === '123') {
+  const handleSignIn = async () => {
+    setSigningIn(true);
+    setSignInError('');
+    try {
+      const user = await signInWithGoogle();
+      if (!user) {
+        setSignInError('This account does not have admin access. Ask an organizer to add you.');
+        return;
+      }
+      setAdminUser(user);
       setIsAdminMode(true);
-      setShowPasswordModal(false);
-      setPassword('');
-      setPasswordError('');
-    } else {
-      setPasswordError('Incorrect password. Please try again.');
+      setShowSignInModal(false);
+    } catch (err) {
+      console.error('Admin sign-in failed:', err);
+      setSignInError('Sign-in failed. Please try again.');
+    } finally {
+      setSigningIn(false);
     }
   };
 
+  const handleSignOut = async () => {
+    await signOutAdmin();
+    setAdminUser(null);
+    setIsAdminMode(false);
+    setIsFirebaseTestMode(false);
+  };
+
   const renderStep = () => {
     switch (currentStep) {
+      case 'event':
+        return (
+          <LazyWrapper>
+            <EventDatePicker
+              selectedEventId={selectedEventId}
+              selectedDate={selectedDate}
+              onSelect={handleEventSelection}
+            />
+          </LazyWrapper>
+        );
+      
       case 'type':
         return (
           <LazyWrapper>
@@ -208,11 +357,16 @@ const App: React.FC = () => {
         return (
           <LazyWrapper>
             <TimeSlotSelector
+              eventId={selectedEventId}
+              date={selectedDate}
               selectedSlots={selectedSlots}
               onSlotSelection={handleSlotSelection}
               onNext={handleSlotsNext}
               onBack={handleBack}
               performanceType={performanceType}
+              heldSlots={heldSlots}
+              holdExpiresAt={holdExpiresAt}
+              participantDetails={participantDetails}
             />
           </LazyWrapper>
         );
@@ -221,9 +375,13 @@ const App: React.FC = () => {
         return (
           <LazyWrapper>
             <PaymentSummary
+              eventId={selectedEventId}
+              date={selectedDate}
               selectedSlots={selectedSlots}
               performanceType={performanceType}
               participantDetails={participantDetails}
+              holdOwner={holdOwner}
+              holdExpiresAt={holdExpiresAt}
               onBack={handleBack}
               onPaymentSuccess={handlePaymentSuccess}
               onPaymentFailure={handlePaymentFailure}
@@ -249,6 +407,8 @@ const App: React.FC = () => {
         return (
           <LazyWrapper>
             <PaymentSuccess
+              eventId={selectedEventId}
+              date={selectedDate}
               selectedSlots={selectedSlots}
               performanceType={performanceType}
               participantDetails={participantDetails}
@@ -270,13 +430,34 @@ const App: React.FC = () => {
           </LazyWrapper>
         );
       
+      case 'my-booking':
+        return (
+          <LazyWrapper>
+            <MyBooking
+              initialBookingId={new URLSearchParams(window.location.search).get('booking') || ''}
+              onBack={resetForm}
+            />
+          </LazyWrapper>
+        );
+      
+      case 'waitlist':
+        return (
+          <LazyWrapper>
+            <WaitlistStatus
+              entryId={waitlistEntryId!}
+              onBook={handleWaitlistBook}
+              onNewRegistration={resetForm}
+            />
+          </LazyWrapper>
+        );
+      
       default:
         return null;
     }
   };
 
   // Firebase Test View
-  if (isFirebaseTestMode) {
+  if (isFirebaseTestMode && adminUser) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-teal-50 to-cyan-50 relative overflow-hidden">
         {/* Elegant background for Firebase test */}
@@ -321,7 +502,7 @@ const App: React.FC = () => {
   }
 
   // Admin Panel View
-  if (isAdminMode) {
+  if (isAdminMode && adminUser) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 relative overflow-hidden">
         {/* Elegant background for admin */}
@@ -338,32 +519,43 @@ const App: React.FC = () => {
           <div className="max-w-6xl mx-auto px-4 py-4">
                           <div className="flex justify-between items-center">
                 <h1 className="text-2xl font-bold text-slate-800">Dance Event Admin</h1>
-                <div className="space-x-2">
-                  <button
-                    onClick={() => setIsFirebaseTestMode(true)}
-                    className="px-4 py-2 bg-gradient-to-r from-orange-500 to-amber-500 text-white rounded-lg hover:from-orange-600 hover:to-amber-600 transition-all duration-300 shadow-sm"
-                  >
-                    Test Firebase
-                  </button>
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm text-slate-600 mr-2">
+                    {adminUser.email} ({adminUser.role})
+                  </span>
+                  {hasPermission(adminUser.role, 'runDiagnostics') && (
+                    <button
+                      onClick={() => setIsFirebaseTestMode(true)}
+                      className="px-4 py-2 bg-gradient-to-r from-orange-500 to-amber-500 text-white rounded-lg hover:from-orange-600 hover:to-amber-600 transition-all duration-300 shadow-sm"
+                    >
+                      Test Firebase
+                    </button>
+                  )}
                   <button
                     onClick={() => setIsAdminMode(false)}
                     className="px-4 py-2 bg-gradient-to-r from-slate-500 to-slate-600 text-white rounded-lg hover:from-slate-600 hover:to-slate-700 transition-all duration-300 shadow-sm"
                   >
                     ← Back to Registration
                   </button>
+                  <button
+                    onClick={handleSignOut}
+                    className="px-4 py-2 bg-white text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-100 transition-all duration-300 shadow-sm"
+                  >
+                    Sign Out
+                  </button>
                 </div>
               </div>
           </div>
         </div>
         <LazyWrapper>
-          <AdminPanel />
+          <AdminPanel role={adminUser.role} />
         </LazyWrapper>
       </div>
     );
   }
 
-  // Password Modal
-  if (showPasswordModal) {
+  // Admin Sign-in Modal
+  if (showSignInModal) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-rose-50 via-orange-50 to-amber-50 relative overflow-hidden flex items-center justify-center">
         {/* Elegant background for modal */}
@@ -379,44 +571,35 @@ const App: React.FC = () => {
               Admin Access
             </h2>
             <div className="w-16 h-1 bg-gradient-to-r from-rose-500 to-orange-500 mx-auto rounded-full mb-4"></div>
-            <p className="text-slate-600">Please enter the admin password to continue</p>
+            <p className="text-slate-600">Sign in with the Google account an organizer added as an admin</p>
           </div>
           
-          <form onSubmit={handlePasswordSubmit} className="space-y-4">
-            <div>
-              <input
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="Enter password"
-                className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-300"
-                autoFocus
-              />
-              {passwordError && (
-                <p className="text-red-600 text-sm mt-2">{passwordError}</p>
-              )}
-            </div>
+          <div className="space-y-4">
+            {signInError && (
+              <p className="text-red-600 text-sm">{signInError}</p>
+            )}
             
             <div className="flex space-x-3">
               <button
                 type="button"
                 onClick={() => {
-                  setShowPasswordModal(false);
-                  setPassword('');
-                  setPasswordError('');
+                  setShowSignInModal(false);
+                  setSignInError('');
                 }}
                 className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 rounded-xl hover:bg-gray-200 transition-all duration-300"
               >
                 Cancel
               </button>
               <button
-                type="submit"
-                className="flex-1 px-4 py-3 bg-gradient-to-r from-rose-500 to-orange-500 text-white rounded-xl hover:from-rose-600 hover:to-orange-600 transition-all duration-300 font-semibold"
+                type="button"
+                onClick={handleSignIn}
+                disabled={signingIn}
+                className="flex-1 px-4 py-3 bg-gradient-to-r from-rose-500 to-orange-500 text-white rounded-xl hover:from-rose-600 hover:to-orange-600 transition-all duration-300 font-semibold disabled:opacity-50"
               >
-                Access Admin
+                {signingIn ? 'Signing in...' : 'Sign in with Google'}
               </button>
             </div>
-          </form>
+          </div>
         </div>
       </div>
     );
@@ -453,6 +636,14 @@ const App: React.FC = () => {
               {eventConfig.eventName} Registration
             </h1>
             <div className="w-16 sm:w-24 h-1 bg-gradient-to-r from-rose-500 to-orange-500 mx-auto rounded-full mb-4"></div>
+            {currentStep !== 'my-booking' && (
+              <button
+                onClick={handleMyBookingClick}
+                className="text-xs sm:text-sm text-slate-600 underline hover:text-slate-800"
+              >
+                Already registered? Find my booking
+              </button>
+            )}
           </div>
           <button
             onClick={handleAdminClick}
@@ -462,14 +653,14 @@ const App: React.FC = () => {
           </button>
         </div>
 
-        {/* Progress Indicator - Hide on success/failure/checking pages */}
-        {!['success', 'failure', 'checking'].includes(currentStep) && (
+        {/* Progress Indicator - Hide on success/failure/checking/waitlist/my-booking pages */}
+        {!['success', 'failure', 'checking', 'waitlist', 'my-booking'].includes(currentStep) && (
           <div className="mb-6 sm:mb-8">
             <div className="flex items-center justify-center space-x-2 sm:space-x-6 overflow-x-auto pb-2">
-              {['type', 'rules', 'form', 'slots', 'payment'].map((step, index) => {
-                const stepNames = ['Choose Type', 'Read Rules', 'Fill Form', 'Select Slots', 'Payment'];
+              {['event', 'type', 'rules', 'form', 'slots', 'payment'].map((step, index, steps) => {
+                const stepNames = ['Choose Date', 'Choose Type', 'Read Rules', 'Fill Form', 'Select Slots', 'Payment'];
                 const isActive = currentStep === step;
-                const isCompleted = ['type', 'rules', 'form', 'slots', 'payment'].indexOf(currentStep) > index;
+                const isCompleted = steps.indexOf(currentStep) > index;
               
               return (
                 <div key={step} className="flex items-center flex-shrink-0">
@@ -481,7 +672,7 @@ const App: React.FC = () => {
                   `}>
                     {isCompleted ? '✓' : index + 1}
                   </div>
-                  {index < 4 && (
+                  {index < steps.length - 1 && (
                     <div className={`
                       w-8 sm:w-16 h-1 mx-2 sm:mx-3 rounded-full transition-all duration-500
                       ${isCompleted ? 'bg-gradient-to-r from-emerald-500 to-teal-500' : 'bg-slate-200'}
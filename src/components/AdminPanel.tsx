@@ -1,13 +1,43 @@
 import React, { useState, useEffect } from 'react';
-import { exportBookingsToCSV, downloadCSV, getAllFlatBookings, FlatBooking, deleteBooking, updateBooking, addBooking, getAvailableTimeSlots } from '../services/firebaseService';
-import { eventConfig } from '../config/eventConfig';
+import { exportBookingsToCSV, downloadCSV, subscribeToFlatBookings, FlatBooking, deleteBooking, updateBooking, addBooking, getAvailableTimeSlots, getBooking, SlotConflictError } from '../services/firebaseService';
+import { eventConfig, MessageChannel } from '../config/eventConfig';
 import MessageModal from './MessageModal';
+import { AdminPermission, AdminRole, hasPermission } from '../services/authService';
+import { refundBooking } from '../services/paymentService';
+import { downloadReceipt, getReceiptDetails } from '../services/receiptService';
+import { CHANNEL_LABELS } from '../services/notificationChannels';
+import { getEvent } from '../utils/timeUtils';
+import EventSettings from './EventSettings';
+import CouponManager from './CouponManager';
+import WaitlistManager from './WaitlistManager';
+import SlotChangeManager from './SlotChangeManager';
+import CheckInDesk from './CheckInDesk';
+import ScheduleBoard from './ScheduleBoard';
 
-const AdminPanel: React.FC = () => {
+interface AdminPanelProps {
+  role: AdminRole;
+}
+
+type AdminTab = 'bookings' | 'checkIn' | 'schedule' | 'waitlist' | 'slotChanges' | 'settings' | 'coupons';
+
+// Tabs with a permission are only shown to roles that have it
+const ADMIN_TABS: { id: AdminTab; label: string; permission?: AdminPermission }[] = [
+  { id: 'bookings', label: 'Bookings' },
+  { id: 'checkIn', label: 'Check-in', permission: 'checkInParticipants' },
+  { id: 'schedule', label: 'Running order', permission: 'viewBookings' },
+  { id: 'waitlist', label: 'Waitlist', permission: 'viewBookings' },
+  { id: 'slotChanges', label: 'Slot changes', permission: 'viewBookings' },
+  { id: 'settings', label: 'Settings', permission: 'editSettings' },
+  { id: 'coupons', label: 'Coupons', permission: 'manageCoupons' }
+];
+
+const AdminPanel: React.FC<AdminPanelProps> = ({ role }) => {
   const [loading, setLoading] = useState(false);
   const [bookings, setBookings] = useState<FlatBooking[]>([]);
   const [editingBooking, setEditingBooking] = useState<FlatBooking | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [eventFilter, setEventFilter] = useState<string>('');
+  const [activeTab, setActiveTab] = useState<AdminTab>('bookings');
 
   // Add resizable column functionality
   useEffect(() => {
@@ -95,29 +125,36 @@ const AdminPanel: React.FC = () => {
     return () => {
       document.head.removeChild(style);
     };
-  }, [bookings]); // Re-run when bookings change
+  }, [bookings, activeTab]); // Re-run when bookings change or the table is shown again
   const [newBooking, setNewBooking] = useState<Partial<FlatBooking>>({});
   const [availableTimeSlots, setAvailableTimeSlots] = useState<string[]>([]);
   const [editAvailableTimeSlots, setEditAvailableTimeSlots] = useState<string[]>([]);
   const [showMessageModal, setShowMessageModal] = useState(false);
+  const [refundingBooking, setRefundingBooking] = useState<FlatBooking | null>(null);
+  const [refundAmount, setRefundAmount] = useState<string>('');
+  const [refundReason, setRefundReason] = useState<string>('');
+  const [refundSubmitting, setRefundSubmitting] = useState(false);
 
-  // Load bookings on component mount
-  useEffect(() => {
-    loadBookings();
-  }, []);
+  const can = (permission: AdminPermission) => hasPermission(role, permission);
+  const visibleTabs = ADMIN_TABS.filter((tab) => !tab.permission || can(tab.permission));
+
+  const visibleBookings = eventFilter
+    ? bookings.filter((booking) => booking.eventId === eventFilter)
+    : bookings;
 
-  const loadBookings = async () => {
+  // Days a booking of this event can be moved to or added on
+  const getEventDates = (eventId?: string) =>
+    getEvent(eventId || '')?.days.map((day) => day.date) || [];
+
+  // Keep the table in sync with Firestore; rows are rewritten whenever a booking changes
+  useEffect(() => {
     setLoading(true);
-    try {
-      const allBookings = await getAllFlatBookings();
+    const unsubscribe = subscribeToFlatBookings((allBookings) => {
       setBookings(allBookings);
-    } catch (error) {
-      console.error('Failed to fetch bookings:', error);
-      alert('Failed to fetch bookings. Please try again.');
-    } finally {
       setLoading(false);
-    }
-  };
+    });
+    return () => unsubscribe();
+  }, []);
 
   const handleExportCSV = async () => {
     setLoading(true);
@@ -137,11 +174,15 @@ const AdminPanel: React.FC = () => {
     }
   };
 
-  const handleDelete = async (bookingId: string) => {
-    if (window.confirm('Are you sure you want to delete this booking?')) {
+  const handleDelete = async (booking: FlatBooking) => {
+    const isPaid = booking.paymentId && booking.bookingStatus === 'confirmed';
+    const message = isPaid
+      ? 'This booking was paid and deleting it does not refund the dancer. Use "Cancel & refund" to return the money. Delete anyway?'
+      : 'Are you sure you want to delete this booking?';
+    const bookingId = booking.id!;
+    if (window.confirm(message)) {
       try {
         await deleteBooking(bookingId);
-        await loadBookings(); // Reload the list
         alert('Booking deleted successfully');
       } catch (error) {
         console.error('Delete failed:', error);
@@ -150,22 +191,81 @@ const AdminPanel: React.FC = () => {
     }
   };
 
+  // Rows are per slot; the receipt covers the whole booking the row belongs to
+  const handleReceipt = async (row: FlatBooking) => {
+    try {
+      const booking = await getBooking(row.bookingId);
+      if (!booking) {
+        alert(`Booking ${row.bookingId} not found`);
+        return;
+      }
+      await downloadReceipt(getReceiptDetails(booking));
+    } catch (error) {
+      console.error('Receipt download failed:', error);
+      alert('Failed to create receipt. Please try again.');
+    }
+  };
+
+  const canRefund = (booking: FlatBooking) =>
+    can('refundBookings') &&
+    !!booking.paymentId &&
+    booking.bookingStatus === 'confirmed' &&
+    (!booking.refundId || booking.refundStatus === 'failed');
+
+  const openRefundModal = (booking: FlatBooking) => {
+    setRefundingBooking(booking);
+    setRefundAmount(String(booking.paymentAmount || ''));
+    setRefundReason('');
+  };
+
+  const handleRefund = async () => {
+    if (!refundingBooking) return;
+
+    const amount = Number(refundAmount);
+    const paidAmount = refundingBooking.paymentAmount || 0;
+    if (!(amount > 0) || amount > paidAmount) {
+      alert(`Refund amount must be between ₹1 and ₹${paidAmount}.`);
+      return;
+    }
+
+    setRefundSubmitting(true);
+    try {
+      const result = await refundBooking({
+        bookingId: refundingBooking.bookingId,
+        amount: amount === paidAmount ? undefined : amount,
+        reason: refundReason.trim() || undefined
+      });
+      setRefundingBooking(null);
+      alert(result.refundStatus === 'processed'
+        ? `Booking cancelled. Refund of ₹${result.refundAmount} is processed.`
+        : `Refund of ₹${result.refundAmount} is pending. The booking is cancelled and its slots freed once Razorpay processes it.`);
+    } catch (error: any) {
+      console.error('Refund failed:', error);
+      alert(`Refund failed: ${error.message || 'Please try again.'}`);
+    } finally {
+      setRefundSubmitting(false);
+    }
+  };
+
   const handleUpdate = async (booking: FlatBooking) => {
     try {
       await updateBooking(booking);
       setEditingBooking(null);
-      await loadBookings(); // Reload the list
       alert('Booking updated successfully');
     } catch (error) {
       console.error('Update failed:', error);
+      if (error instanceof SlotConflictError) {
+        alert(`${error.message}. Please pick another time slot.`);
+        return;
+      }
       alert('Failed to update booking. Please try again.');
     }
   };
 
-  const loadAvailableTimeSlots = async (date: string) => {
+  const loadAvailableTimeSlots = async (eventId: string | undefined, date: string) => {
     try {
-      console.log('Loading available time slots for date:', date);
-      const slots = await getAvailableTimeSlots(date);
+      console.log('Loading available time slots for date:', eventId, date);
+      const slots = await getAvailableTimeSlots(eventId, date);
       console.log('Available slots:', slots);
       setAvailableTimeSlots(slots);
     } catch (error) {
@@ -174,9 +274,13 @@ const AdminPanel: React.FC = () => {
     }
   };
 
-  const loadEditAvailableTimeSlots = async (date: string, currentTimeSlot: string) => {
+  const loadEditAvailableTimeSlots = async (
+    eventId: string | undefined,
+    date: string,
+    currentTimeSlot: string
+  ) => {
     try {
-      const slots = await getAvailableTimeSlots(date);
+      const slots = await getAvailableTimeSlots(eventId, date);
       // Include the current time slot in the options for editing
       if (!slots.includes(currentTimeSlot)) {
         slots.push(currentTimeSlot);
@@ -193,10 +297,13 @@ const AdminPanel: React.FC = () => {
       await addBooking(newBooking as FlatBooking);
       setShowAddModal(false);
       setNewBooking({});
-      await loadBookings(); // Reload the list
       alert('Booking added successfully');
     } catch (error) {
       console.error('Add failed:', error);
+      if (error instanceof SlotConflictError) {
+        alert(`${error.message}. Please pick another time slot.`);
+        return;
+      }
       alert('Failed to add booking. Please try again.');
     }
   };
@@ -222,157 +329,244 @@ const AdminPanel: React.FC = () => {
   return (
     <div className="max-w-7xl mx-auto px-4 py-8 relative z-10">
       <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-xl p-8 border border-slate-200">
-        <div className="flex justify-between items-center mb-6">
-          <h2 className="text-2xl font-bold text-slate-800">Admin Panel - Booking Management</h2>
-          <div className="flex space-x-3">
-            <button
-              onClick={async () => {
-                setShowAddModal(true);
-                // Set default date to event date
-                const eventDate = eventConfig.eventDate;
-                setNewBooking({...newBooking, date: eventDate});
-                await loadAvailableTimeSlots(eventDate);
-              }}
-              className="px-4 py-2 bg-gradient-to-r from-emerald-500 to-teal-500 text-white rounded-lg hover:from-emerald-600 hover:to-teal-600 transition-all duration-300 shadow-lg hover:shadow-xl transform hover:-translate-y-1"
-            >
-              Add Booking
-            </button>
-            <button
-              onClick={() => setShowMessageModal(true)}
-              disabled={loading || bookings.length === 0}
-              className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg hover:from-purple-600 hover:to-pink-600 transition-all duration-300 shadow-lg hover:shadow-xl transform hover:-translate-y-1 disabled:opacity-50"
-            >
-              Message ({bookings.length})
-            </button>
-            <button
-              onClick={handleExportCSV}
-              disabled={loading}
-              className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-500 text-white rounded-lg hover:from-blue-600 hover:to-indigo-600 transition-all duration-300 shadow-lg hover:shadow-xl transform hover:-translate-y-1 disabled:opacity-50"
-            >
-              {loading ? 'Exporting...' : 'Export CSV'}
-            </button>
+        {visibleTabs.length > 1 && (
+          <div className="flex space-x-2 mb-6 border-b border-slate-200">
+            {visibleTabs.map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`px-4 py-2 -mb-px border-b-2 text-sm font-medium transition-colors ${
+                  activeTab === tab.id
+                    ? 'border-blue-500 text-blue-700'
+                    : 'border-transparent text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
           </div>
-        </div>
-
-        {/* Bookings Table */}
-        {loading ? (
-          <div className="flex justify-center items-center p-12">
-            <div className="relative">
-              <div className="w-12 h-12 border-4 border-purple-400/30 border-t-purple-400 rounded-full animate-spin"></div>
-              <div className="absolute inset-0 w-12 h-12 border-4 border-transparent border-t-pink-400 rounded-full animate-spin animation-delay-150"></div>
+        )}
+
+        {activeTab === 'settings' ? (
+          <EventSettings />
+        ) : activeTab === 'coupons' ? (
+          <CouponManager />
+        ) : activeTab === 'checkIn' ? (
+          <CheckInDesk />
+        ) : activeTab === 'schedule' ? (
+          <ScheduleBoard canEditDelay={can('editBookings')} />
+        ) : activeTab === 'waitlist' ? (
+          <WaitlistManager canEdit={can('editBookings')} />
+        ) : activeTab === 'slotChanges' ? (
+          <SlotChangeManager canReview={can('editBookings')} />
+        ) : (
+          <>
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-bold text-slate-800">Admin Panel - Booking Management</h2>
+            <div className="flex space-x-3">
+              {can('addBookings') && (
+                <button
+                  onClick={async () => {
+                    setShowAddModal(true);
+                    // Default to the first day of the first event
+                    const [firstEvent] = eventConfig.events;
+                    const eventDate = firstEvent.days[0].date;
+                    setNewBooking({...newBooking, eventId: firstEvent.id, date: eventDate});
+                    await loadAvailableTimeSlots(firstEvent.id, eventDate);
+                  }}
+                  className="px-4 py-2 bg-gradient-to-r from-emerald-500 to-teal-500 text-white rounded-lg hover:from-emerald-600 hover:to-teal-600 transition-all duration-300 shadow-lg hover:shadow-xl transform hover:-translate-y-1"
+                >
+                  Add Booking
+                </button>
+              )}
+              {can('messageParticipants') && (
+                <button
+                  onClick={() => setShowMessageModal(true)}
+                  disabled={loading || visibleBookings.length === 0}
+                  className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg hover:from-purple-600 hover:to-pink-600 transition-all duration-300 shadow-lg hover:shadow-xl transform hover:-translate-y-1 disabled:opacity-50"
+                >
+                  Message ({visibleBookings.length})
+                </button>
+              )}
+              {can('exportBookings') && (
+                <button
+                  onClick={handleExportCSV}
+                  disabled={loading}
+                  className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-500 text-white rounded-lg hover:from-blue-600 hover:to-indigo-600 transition-all duration-300 shadow-lg hover:shadow-xl transform hover:-translate-y-1 disabled:opacity-50"
+                >
+                  {loading ? 'Exporting...' : 'Export CSV'}
+                </button>
+              )}
             </div>
           </div>
-        ) : (
-          <div className="overflow-x-auto">
-            <h3 className="text-lg font-semibold text-slate-800 mb-4">
-              All Bookings ({bookings.length} records)
-            </h3>
-            <table className="min-w-full bg-white/80 backdrop-blur-sm border border-slate-200 rounded-lg overflow-hidden resizable-table" style={{tableLayout: 'fixed'}}>
-                            <thead className="bg-gradient-to-r from-blue-100 to-indigo-200 text-gray-800">
-                <tr>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '160px', minWidth: '100px'}}>Actions</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '160px', minWidth: '160px'}}>Time</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '90px', minWidth: '90px'}}>Type</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '110px', minWidth: '110px'}}>Price/Person</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '180px', minWidth: '180px'}}>Participant Name</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '140px', minWidth: '140px'}}>Phone</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '220px', minWidth: '220px'}}>Email</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '120px', minWidth: '120px'}}>City</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '150px', minWidth: '150px'}}>Guru Name</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '120px', minWidth: '120px'}}>Category</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '120px', minWidth: '120px'}}>Amount/Slot</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '160px', minWidth: '160px'}}>Timestamp</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '180px', minWidth: '180px'}}>Payment ID</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '120px', minWidth: '120px'}}>Status</th>
-                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '140px', minWidth: '140px'}}>Booking ID</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-slate-200">
-                {bookings.map((booking, index) => (
-                  <tr key={booking.id || index} className="hover:bg-slate-50 transition-colors">
-                    <td className="px-4 py-2 text-sm border-b border-slate-200">
-                      <div className="flex space-x-1">
-                        <button
-                          onClick={async () => {
-                            setEditingBooking(booking);
-                            await loadEditAvailableTimeSlots(booking.date, booking.timeSlot);
-                          }}
-                          className="px-2 py-1 bg-gradient-to-r from-blue-500 to-indigo-500 text-white text-xs rounded hover:from-blue-600 hover:to-indigo-600 transition-all duration-300 shadow-sm"
-                        >
-                          Edit
-                        </button>
-                        <button
-                          onClick={() => handleDelete(booking.id!)}
-                          className="px-2 py-1 bg-gradient-to-r from-red-500 to-rose-500 text-white text-xs rounded hover:from-red-600 hover:to-rose-600 transition-all duration-300 shadow-sm"
-                        >
-                          Delete
-                        </button>
-                      </div>
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      {booking.timeSlot}
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      {booking.performanceTypeName}
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      ₹{booking.pricePerPerson}
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      {booking.participantName}
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      {booking.performanceType === 'duet' 
-                        ? `${booking.participant1Phone || ''} / ${booking.participant2Phone || ''}` 
-                        : booking.phoneNumber || booking.representativePhone || '-'}
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      {booking.email || '-'}
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      {booking.cityResidence || '-'}
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      {booking.guruName || '-'}
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      {booking.performanceCategory || '-'}
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      ₹{booking.amountPerSlot}
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      {formatTimestamp(booking.timestamp)}
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      {booking.paymentId || '-'}
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      {booking.paymentStatus || '-'}
-                    </td>
-                    <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
-                      {booking.bookingId}
-                    </td>
+
+          {/* Bookings Table */}
+          {loading ? (
+            <div className="flex justify-center items-center p-12">
+              <div className="relative">
+                <div className="w-12 h-12 border-4 border-purple-400/30 border-t-purple-400 rounded-full animate-spin"></div>
+                <div className="absolute inset-0 w-12 h-12 border-4 border-transparent border-t-pink-400 rounded-full animate-spin animation-delay-150"></div>
+              </div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-semibold text-slate-800">
+                  {eventFilter ? getEvent(eventFilter)?.name : 'All Bookings'} ({visibleBookings.length} records)
+                </h3>
+                <select
+                  value={eventFilter}
+                  onChange={(e) => setEventFilter(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">All events</option>
+                  {eventConfig.events.map((event) => (
+                    <option key={event.id} value={event.id}>
+                      {event.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <table className="min-w-full bg-white/80 backdrop-blur-sm border border-slate-200 rounded-lg overflow-hidden resizable-table" style={{tableLayout: 'fixed'}}>
+                              <thead className="bg-gradient-to-r from-blue-100 to-indigo-200 text-gray-800">
+                  <tr>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '160px', minWidth: '100px'}}>Actions</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '160px', minWidth: '160px'}}>Time</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '90px', minWidth: '90px'}}>Type</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '110px', minWidth: '110px'}}>Price/Person</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '180px', minWidth: '180px'}}>Participant Name</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '140px', minWidth: '140px'}}>Phone</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '220px', minWidth: '220px'}}>Email</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '120px', minWidth: '120px'}}>City</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '150px', minWidth: '150px'}}>Guru Name</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '120px', minWidth: '120px'}}>Category</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '120px', minWidth: '120px'}}>Amount/Slot</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '160px', minWidth: '160px'}}>Timestamp</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '180px', minWidth: '180px'}}>Payment ID</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '120px', minWidth: '120px'}}>Status</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{width: '140px', minWidth: '140px'}}>Booking ID</th>
                   </tr>
-                ))}
-              </tbody>
-            </table>
+                </thead>
+                <tbody className="divide-y divide-slate-200">
+                  {visibleBookings.map((booking, index) => (
+                    <tr key={booking.id || index} className="hover:bg-slate-50 transition-colors">
+                      <td className="px-4 py-2 text-sm border-b border-slate-200">
+                        <div className="flex space-x-1">
+                          <button
+                            onClick={() => handleReceipt(booking)}
+                            className="px-2 py-1 bg-white border border-slate-300 text-slate-700 text-xs rounded hover:bg-slate-100 transition-all duration-300 shadow-sm"
+                          >
+                            Receipt
+                          </button>
+                          {can('editBookings') && (
+                            <button
+                              onClick={async () => {
+                                setEditingBooking(booking);
+                                await loadEditAvailableTimeSlots(booking.eventId, booking.date, booking.timeSlot);
+                              }}
+                              className="px-2 py-1 bg-gradient-to-r from-blue-500 to-indigo-500 text-white text-xs rounded hover:from-blue-600 hover:to-indigo-600 transition-all duration-300 shadow-sm"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {canRefund(booking) && (
+                            <button
+                              onClick={() => openRefundModal(booking)}
+                              className="px-2 py-1 bg-gradient-to-r from-amber-500 to-orange-500 text-white text-xs rounded hover:from-amber-600 hover:to-orange-600 transition-all duration-300 shadow-sm"
+                            >
+                              Cancel &amp; refund
+                            </button>
+                          )}
+                          {can('deleteBookings') && (
+                            <button
+                              onClick={() => handleDelete(booking)}
+                              className="px-2 py-1 bg-gradient-to-r from-red-500 to-rose-500 text-white text-xs rounded hover:from-red-600 hover:to-rose-600 transition-all duration-300 shadow-sm"
+                            >
+                              Delete
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        {booking.timeSlot}
+                        {booking.estimatedTime && (
+                          <div className="text-xs font-medium text-amber-700">
+                            Now ~{booking.estimatedTime} ({booking.delayMinutes} min late)
+                          </div>
+                        )}
+                        <div className="text-xs text-slate-500">
+                          {booking.eventName ? `${booking.eventName} · ` : ''}{booking.date}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        {booking.performanceTypeName}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        ₹{booking.pricePerPerson}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        {booking.participantName}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        {booking.performanceType === 'duet' 
+                          ? `${booking.participant1Phone || ''} / ${booking.participant2Phone || ''}` 
+                          : booking.phoneNumber || booking.representativePhone || '-'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        {booking.email || '-'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        {booking.cityResidence || '-'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        {booking.guruName || '-'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        {booking.performanceCategory || '-'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        ₹{booking.amountPerSlot}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        {formatTimestamp(booking.timestamp)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        {booking.paymentId || '-'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        {booking.paymentStatus || '-'}
+                        {booking.refundId && (
+                          <div className="text-xs text-amber-700">
+                            Refund ₹{booking.refundAmount} {booking.refundStatus}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 border-b border-slate-200">
+                        {booking.bookingId}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Instructions */}
+          <div className="mt-8 p-4 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl border border-blue-200">
+            <h4 className="font-medium text-blue-800 mb-2">Admin Panel Instructions</h4>
+            <ul className="text-sm text-blue-700 space-y-1">
+              <li>• <strong>View Bookings:</strong> All bookings are displayed by default</li>
+              <li>• <strong>Add Booking:</strong> Click "Add Booking" to manually add a new booking</li>
+              <li>• <strong>Edit Booking:</strong> Click "Edit" on any row to modify booking details</li>
+              <li>• <strong>Delete Booking:</strong> Click "Delete" to remove a booking (with confirmation)</li>
+              <li>• <strong>Cancel &amp; Refund:</strong> Cancels a paid booking, frees its slots and refunds the dancer through Razorpay (full or partial)</li>
+              <li>• <strong>Export CSV:</strong> Download all bookings as a CSV file</li>
+              <li>• CSV files can be opened in Excel, Google Sheets, or any spreadsheet application</li>
+            </ul>
           </div>
+          </>
         )}
 
-        {/* Instructions */}
-        <div className="mt-8 p-4 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl border border-blue-200">
-          <h4 className="font-medium text-blue-800 mb-2">Admin Panel Instructions</h4>
-          <ul className="text-sm text-blue-700 space-y-1">
-            <li>• <strong>View Bookings:</strong> All bookings are displayed by default</li>
-            <li>• <strong>Add Booking:</strong> Click "Add Booking" to manually add a new booking</li>
-            <li>• <strong>Edit Booking:</strong> Click "Edit" on any row to modify booking details</li>
-            <li>• <strong>Delete Booking:</strong> Click "Delete" to remove a booking (with confirmation)</li>
-            <li>• <strong>Export CSV:</strong> Download all bookings as a CSV file</li>
-            <li>• CSV files can be opened in Excel, Google Sheets, or any spreadsheet application</li>
-          </ul>
-        </div>
-
         {/* Edit Modal */}
         {editingBooking && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -384,22 +578,27 @@ const AdminPanel: React.FC = () => {
                   <input
                     type="text"
                     value={editingBooking.bookingId}
-                    onChange={(e) => setEditingBooking({...editingBooking, bookingId: e.target.value})}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    readOnly
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100"
                   />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Date</label>
-                  <input
-                    type="date"
+                  <select
                     value={editingBooking.date}
                     onChange={async (e) => {
                       const newDate = e.target.value;
                       setEditingBooking({...editingBooking, date: newDate});
-                      await loadEditAvailableTimeSlots(newDate, editingBooking.timeSlot);
+                      await loadEditAvailableTimeSlots(editingBooking.eventId, newDate, editingBooking.timeSlot);
                     }}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                  />
+                  >
+                    {Array.from(new Set([editingBooking.date, ...getEventDates(editingBooking.eventId)])).map((date) => (
+                      <option key={date} value={date}>
+                        {date}
+                      </option>
+                    ))}
+                  </select>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Time Slot</label>
@@ -478,6 +677,18 @@ const AdminPanel: React.FC = () => {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Send Updates By</label>
+                  <select
+                    value={editingBooking.contactChannel || 'whatsapp'}
+                    onChange={(e) => setEditingBooking({...editingBooking, contactChannel: e.target.value as MessageChannel})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    {(Object.keys(CHANNEL_LABELS) as MessageChannel[]).map((channel) => (
+                      <option key={channel} value={channel}>{CHANNEL_LABELS[channel]}</option>
+                    ))}
+                  </select>
+                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">City</label>
                   <input
@@ -548,18 +759,42 @@ const AdminPanel: React.FC = () => {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Event</label>
+                  <select
+                    value={newBooking.eventId || ''}
+                    onChange={async (e) => {
+                      const eventId = e.target.value;
+                      const [firstDate = ''] = getEventDates(eventId);
+                      setNewBooking({...newBooking, eventId, date: firstDate, timeSlot: ''}); // Clear time slot when event changes
+                      await loadAvailableTimeSlots(eventId, firstDate);
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    {eventConfig.events.map((event) => (
+                      <option key={event.id} value={event.id}>
+                        {event.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Date</label>
-                  <input
-                    type="date"
+                  <select
                     value={newBooking.date || ''}
                     onChange={async (e) => {
                       const newDate = e.target.value;
                       setNewBooking({...newBooking, date: newDate, timeSlot: ''}); // Clear time slot when date changes
-                      await loadAvailableTimeSlots(newDate);
+                      await loadAvailableTimeSlots(newBooking.eventId, newDate);
                     }}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                  />
+                  >
+                    {getEventDates(newBooking.eventId).map((date) => (
+                      <option key={date} value={date}>
+                        {date}
+                      </option>
+                    ))}
+                  </select>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Time Slot</label>
@@ -670,11 +905,65 @@ const AdminPanel: React.FC = () => {
           </div>
         )}
 
+        {/* Refund Modal */}
+        {refundingBooking && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+              <h3 className="text-lg font-semibold mb-2">Cancel &amp; Refund Booking</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                {refundingBooking.participantName} · {refundingBooking.totalSlots} slot(s) · paid ₹{refundingBooking.paymentAmount}
+                <br />
+                Payment ID: {refundingBooking.paymentId}
+              </p>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Refund Amount (₹)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={refundingBooking.paymentAmount}
+                    value={refundAmount}
+                    onChange={(e) => setRefundAmount(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Lower the amount for a partial refund.</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Reason</label>
+                  <input
+                    type="text"
+                    value={refundReason}
+                    onChange={(e) => setRefundReason(e.target.value)}
+                    placeholder="Optional"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end space-x-3 mt-6">
+                <button
+                  onClick={() => setRefundingBooking(null)}
+                  disabled={refundSubmitting}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+                >
+                  Keep Booking
+                </button>
+                <button
+                  onClick={handleRefund}
+                  disabled={refundSubmitting}
+                  className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 transition-colors disabled:opacity-50"
+                >
+                  {refundSubmitting ? 'Refunding...' : 'Cancel & Refund'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Message Modal */}
         <MessageModal
           isOpen={showMessageModal}
           onClose={() => setShowMessageModal(false)}
-          bookings={bookings}
+          bookings={visibleBookings}
         />
       </div>
     </div>
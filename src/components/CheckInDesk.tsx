@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import { Booking, getBooking, getBookingStatus } from '../services/firebaseService';
+import {
+  ARRIVAL_LEAD_MINUTES,
+  checkInParticipants,
+  getCheckInNames,
+  getDueBookings,
+  getFirstSlot,
+  isCheckedIn,
+  subscribeToBookingsForDate,
+  toLocalDate
+} from '../services/checkInService';
+import { formatEventDate } from '../utils/timeUtils';
+import QrScanner from './QrScanner';
+
+const STATUS_WARNINGS: Record<'pending' | 'cancelled', string> = {
+  pending: 'This booking has not been paid.',
+  cancelled: 'This booking was cancelled.'
+};
+
+const bigButtonClass = 'px-4 py-3 rounded-lg font-medium transition-colors disabled:opacity-50';
+
+// Event-day check-in for desk volunteers. Sized for tablets: scan the QR code on a dancer's
+// receipt or type the booking ID, then tick off each participant.
+const CheckInDesk: React.FC = () => {
+  const [date, setDate] = useState(() => toLocalDate(new Date()));
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [now, setNow] = useState(new Date());
+  const [scanning, setScanning] = useState(false);
+  const [bookingIdInput, setBookingIdInput] = useState('');
+  const [selected, setSelected] = useState<Booking | null>(null);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    return subscribeToBookingsForDate(date, setBookings);
+  }, [date]);
+
+  // The due list moves on with the clock
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Keep the open booking current as check-ins arrive from other tablets
+  const selectedBooking = (selected && bookings.find((booking) => booking.id === selected.id)) || selected;
+
+  const findBooking = async (bookingId: string) => {
+    const id = bookingId.trim();
+    if (!id) {
+      return;
+    }
+
+    setError('');
+    setScanning(false);
+    setBookingIdInput(id);
+    const booking = bookings.find((candidate) => candidate.id === id) || (id.includes('/') ? null : await getBooking(id));
+    if (!booking) {
+      setSelected(null);
+      setError(`No booking found with ID ${id}`);
+      return;
+    }
+    setSelected(booking);
+  };
+
+  const handleCheckIn = async (booking: Booking, indexes: number[]) => {
+    setSaving(true);
+    setError('');
+    try {
+      await checkInParticipants(booking.id!, indexes);
+      if (booking.date !== date) {
+        // Not in the live list for this day; fetch it again to show the ticks
+        setSelected(await getBooking(booking.id!));
+      }
+    } catch (err) {
+      console.error('Check-in failed:', err);
+      setError('Failed to check in. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatCheckInTime = (booking: Booking, index: number) =>
+    booking.checkedIn?.[String(index)]?.at?.toDate?.().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) || '';
+
+  const dueBookings = getDueBookings(bookings, now);
+  const confirmedBookings = bookings.filter((booking) => getBookingStatus(booking) === 'confirmed');
+  const participantTotal = confirmedBookings.reduce((total, booking) => total + getCheckInNames(booking).length, 0);
+  const arrivedTotal = confirmedBookings.reduce(
+    (total, booking) => total + getCheckInNames(booking).filter((_, index) => isCheckedIn(booking, index)).length,
+    0
+  );
+
+  const renderBooking = (booking: Booking) => {
+    const status = getBookingStatus(booking);
+    const names = getCheckInNames(booking);
+    const waiting = names.map((_, index) => index).filter((index) => !isCheckedIn(booking, index));
+
+    return (
+      <div className="border border-slate-200 rounded-lg p-4 space-y-4 bg-white">
+        <div className="flex flex-wrap justify-between gap-2">
+          <div>
+            <h4 className="text-lg font-semibold text-slate-800">{names.join(', ')}</h4>
+            <p className="text-sm text-slate-600">
+              {booking.performanceTypeName || booking.performanceType} · {booking.eventName ? `${booking.eventName} · ` : ''}
+              {formatEventDate(booking.date)}
+            </p>
+            <p className="text-sm text-slate-600">Slots: {booking.timeSlots.join(', ')}</p>
+            <p className="text-xs text-slate-400 font-mono">{booking.id}</p>
+          </div>
+          {waiting.length > 1 && status === 'confirmed' && (
+            <button
+              onClick={() => handleCheckIn(booking, waiting)}
+              disabled={saving}
+              className={`${bigButtonClass} bg-green-600 text-white hover:bg-green-700 self-start`}
+            >
+              Check in all ({waiting.length})
+            </button>
+          )}
+        </div>
+
+        {status !== 'confirmed' && (
+          <p className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{STATUS_WARNINGS[status]}</p>
+        )}
+        {booking.date !== date && (
+          <p className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+            This booking is for {formatEventDate(booking.date)}, not the day shown.
+          </p>
+        )}
+
+        <ul className="divide-y divide-slate-100">
+          {names.map((name, index) => (
+            <li key={index} className="flex justify-between items-center py-2">
+              <span className="text-base">{name}</span>
+              {isCheckedIn(booking, index) ? (
+                <span className="text-sm font-medium text-green-700">✓ Arrived {formatCheckInTime(booking, index)}</span>
+              ) : (
+                <button
+                  onClick={() => handleCheckIn(booking, [index])}
+                  disabled={saving || status !== 'confirmed'}
+                  className={`${bigButtonClass} bg-blue-600 text-white hover:bg-blue-700`}
+                >
+                  Check in
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">Check-in</h3>
+          <p className="text-sm text-slate-500">
+            {arrivedTotal} of {participantTotal} participants checked in. Dancers should arrive {ARRIVAL_LEAD_MINUTES} minutes before their first slot.
+          </p>
+        </div>
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+      </div>
+
+      <div className="space-y-3">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            findBooking(bookingIdInput);
+          }}
+          className="flex flex-wrap gap-2"
+        >
+          <input
+            type="text"
+            value={bookingIdInput}
+            onChange={(e) => setBookingIdInput(e.target.value)}
+            placeholder="Booking ID"
+            className="flex-1 min-w-[12rem] px-4 py-3 border border-gray-300 rounded-lg text-base font-mono"
+          />
+          <button type="submit" className={`${bigButtonClass} bg-slate-700 text-white hover:bg-slate-800`}>
+            Find
+          </button>
+          <button
+            type="button"
+            onClick={() => setScanning(!scanning)}
+            className={`${bigButtonClass} bg-white border border-slate-300 text-slate-700 hover:bg-slate-100`}
+          >
+            {scanning ? 'Stop camera' : 'Scan QR code'}
+          </button>
+        </form>
+        {scanning && <QrScanner onScan={findBooking} />}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      {selectedBooking && renderBooking(selectedBooking)}
+
+      <div className="space-y-3">
+        <h4 className="font-semibold text-slate-800">Due in the next hour, not arrived yet</h4>
+        {date !== toLocalDate(now) ? (
+          <p className="text-sm text-slate-500">Shown on the day itself.</p>
+        ) : dueBookings.length === 0 ? (
+          <p className="text-sm text-slate-500">Everyone due in the next hour has arrived.</p>
+        ) : (
+          <ul className="space-y-2">
+            {dueBookings.map((booking) => {
+              const names = getCheckInNames(booking);
+              const arrived = names.filter((_, index) => isCheckedIn(booking, index)).length;
+              return (
+                <li key={booking.id}>
+                  <button
+                    onClick={() => setSelected(booking)}
+                    className="w-full flex justify-between items-center text-left px-4 py-3 border border-slate-200 rounded-lg bg-white hover:bg-slate-50"
+                  >
+                    <span>
+                      <span className="font-medium">{getFirstSlot(booking)}</span>
+                      {' · '}
+                      {names.join(', ')}
+                    </span>
+                    <span className="text-sm text-slate-500">{arrived}/{names.length} arrived</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CheckInDesk;
@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from 'react';
+import { eventConfig, PricingTier } from '../config/eventConfig';
+import { PRICING_TIERS, getTierDisplayName } from '../utils/timeUtils';
+import { Coupon, getCoupons, normalizeCouponCode, saveCoupon, setCouponActive, validateCoupon } from '../services/couponService';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm';
+const labelClass = 'block text-sm font-medium text-gray-700';
+const sectionClass = 'bg-white/80 border border-slate-200 rounded-lg p-4 space-y-4';
+const smallButtonClass = 'px-2 py-1 text-xs rounded border border-slate-300 text-slate-700 hover:bg-slate-100 transition-colors';
+
+const newCoupon = (): Coupon => ({ code: '', discountType: 'percent', value: 10, usedCount: 0, active: true });
+
+const describeDiscount = (coupon: Coupon) =>
+  coupon.discountType === 'percent' ? `${coupon.value}% off` : `₹${coupon.value.toLocaleString()} off`;
+
+const describeRestrictions = (coupon: Coupon) => {
+  const restrictions = [
+    ...(coupon.performanceTypes || []).map(
+      (typeId) => eventConfig.performanceTypes.find((type) => type.id === typeId)?.name || typeId
+    ),
+    ...(coupon.tiers || []).map((tier) => getTierDisplayName(tier) || tier)
+  ];
+  return restrictions.join(', ') || 'Any registration';
+};
+
+// Toggle value in an optional list, dropping the list when it becomes empty
+const toggleInList = <T,>(list: T[] | undefined, value: T): T[] | undefined => {
+  const next = (list || []).includes(value) ? (list || []).filter((item) => item !== value) : [...(list || []), value];
+  return next.length > 0 ? next : undefined;
+};
+
+const CouponManager: React.FC = () => {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<{ coupon: Coupon; isNew: boolean } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadCoupons = async () => {
+    try {
+      setCoupons(await getCoupons());
+    } catch (error) {
+      console.error('Error loading coupons:', error);
+      alert('Failed to load coupons.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCoupons();
+  }, []);
+
+  const updateEditing = (changes: Partial<Coupon>) => {
+    setEditing((current) => current && { ...current, coupon: { ...current.coupon, ...changes } });
+  };
+
+  const handleSave = async () => {
+    if (!editing) {
+      return;
+    }
+
+    const coupon = { ...editing.coupon, code: normalizeCouponCode(editing.coupon.code) };
+    const validationErrors = validateCoupon(coupon);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveCoupon(coupon, editing.isNew);
+      setEditing(null);
+      await loadCoupons();
+    } catch (error: any) {
+      console.error('Error saving coupon:', error);
+      setErrors([error.message || 'Failed to save coupon.']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      await setCouponActive(coupon.code, !coupon.active);
+      await loadCoupons();
+    } catch (error) {
+      console.error('Error updating coupon:', error);
+      alert('Failed to update coupon.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">Discount Codes</h3>
+          <p className="text-sm text-slate-500">
+            Dancers enter these on the payment page. A use is counted when they go to pay and given back if the payment is never made.
+          </p>
+        </div>
+        {!editing && (
+          <button
+            onClick={() => {
+              setEditing({ coupon: newCoupon(), isNew: true });
+              setErrors([]);
+            }}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+          >
+            + New code
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <div className={sectionClass}>
+          <h4 className="font-semibold text-slate-800">{editing.isNew ? 'New code' : `Edit ${editing.coupon.code}`}</h4>
+          {errors.length > 0 && (
+            <ul className="list-disc list-inside text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3 space-y-1">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Code</label>
+              <input
+                type="text"
+                value={editing.coupon.code}
+                readOnly={!editing.isNew}
+                placeholder="e.g. GURU20"
+                onChange={(e) => updateEditing({ code: e.target.value.toUpperCase() })}
+                className={`${inputClass} ${editing.isNew ? '' : 'bg-gray-100'}`}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Discount</label>
+              <div className="flex space-x-2">
+                <select
+                  value={editing.coupon.discountType}
+                  onChange={(e) => updateEditing({ discountType: e.target.value as Coupon['discountType'] })}
+                  className={inputClass}
+                >
+                  <option value="percent">% off</option>
+                  <option value="flat">₹ off</option>
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  value={editing.coupon.value}
+                  onChange={(e) => updateEditing({ value: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Description</label>
+              <input
+                type="text"
+                value={editing.coupon.description || ''}
+                placeholder="e.g. Students of partner gurus"
+                onChange={(e) => updateEditing({ description: e.target.value || undefined })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Usage limit (empty for unlimited)</label>
+              <input
+                type="number"
+                min={1}
+                value={editing.coupon.maxUses ?? ''}
+                onChange={(e) => updateEditing({ maxUses: e.target.value === '' ? undefined : Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Last day valid (empty for no expiry)</label>
+              <input
+                type="date"
+                value={editing.coupon.expiresOn || ''}
+                onChange={(e) => updateEditing({ expiresOn: e.target.value || undefined })}
+                className={inputClass}
+              />
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 mt-6">
+              <input
+                type="checkbox"
+                checked={editing.coupon.active}
+                onChange={(e) => updateEditing({ active: e.target.checked })}
+              />
+              <span>Active</span>
+            </label>
+          </div>
+
+          <div>
+            <label className={labelClass}>Only for these performance types (none ticked: all)</label>
+            <div className="flex flex-wrap gap-4 mt-1">
+              {eventConfig.performanceTypes.map((type) => (
+                <label key={type.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={(editing.coupon.performanceTypes || []).includes(type.id)}
+                    onChange={() => updateEditing({ performanceTypes: toggleInList(editing.coupon.performanceTypes, type.id) })}
+                  />
+                  <span>{type.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {eventConfig.timePricing?.enabled && (
+            <div>
+              <label className={labelClass}>Only for slots in these pricing tiers (none ticked: all)</label>
+              <div className="flex flex-wrap gap-4 mt-1">
+                {PRICING_TIERS.filter((tier) => eventConfig.timePricing?.timeRanges[tier]).map((tier: PricingTier) => (
+                  <label key={tier} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={(editing.coupon.tiers || []).includes(tier)}
+                      onChange={() => updateEditing({ tiers: toggleInList(editing.coupon.tiers, tier) })}
+                    />
+                    <span>{getTierDisplayName(tier)}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setEditing(null)}
+              disabled={saving}
+              className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save code'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Loading coupons...</p>
+      ) : coupons.length === 0 ? (
+        <p className="text-sm text-slate-500">No discount codes yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-600 border-b border-slate-200">
+                <th className="py-2 pr-4">Code</th>
+                <th className="py-2 pr-4">Discount</th>
+                <th className="py-2 pr-4">Used</th>
+                <th className="py-2 pr-4">Expires</th>
+                <th className="py-2 pr-4">Applies to</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {coupons.map((coupon) => (
+                <tr key={coupon.code} className="border-b border-slate-100">
+                  <td className="py-2 pr-4">
+                    <div className="font-mono font-medium">{coupon.code}</div>
+                    {coupon.description && <div className="text-xs text-slate-500">{coupon.description}</div>}
+                  </td>
+                  <td className="py-2 pr-4">{describeDiscount(coupon)}</td>
+                  <td className="py-2 pr-4">
+                    {coupon.usedCount || 0}
+                    {coupon.maxUses ? ` / ${coupon.maxUses}` : ''}
+                  </td>
+                  <td className="py-2 pr-4">{coupon.expiresOn || 'Never'}</td>
+                  <td className="py-2 pr-4">{describeRestrictions(coupon)}</td>
+                  <td className="py-2 pr-4">
+                    <span className={coupon.active ? 'text-green-700' : 'text-slate-400'}>
+                      {coupon.active ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  <td className="py-2 space-x-2 whitespace-nowrap">
+                    <button
+                      onClick={() => {
+                        setEditing({ coupon, isNew: false });
+                        setErrors([]);
+                      }}
+                      className={smallButtonClass}
+                    >
+                      Edit
+                    </button>
+                    <button onClick={() => handleToggleActive(coupon)} className={smallButtonClass}>
+                      {coupon.active ? 'Deactivate' : 'Activate'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CouponManager;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { eventConfig } from '../config/eventConfig';
+import { formatEventDate } from '../utils/timeUtils';
+
+interface EventDatePickerProps {
+  selectedEventId: string;
+  selectedDate: string;
+  onSelect: (eventId: string, date: string) => void;
+}
+
+// "09:00" -> "9:00 AM"
+const formatHour = (time: string) =>
+  new Date(`2000-01-01T${time}:00`).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+
+const EventDatePicker: React.FC<EventDatePickerProps> = ({
+  selectedEventId,
+  selectedDate,
+  onSelect
+}) => {
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      <div className="text-center">
+        <h3 className="text-2xl sm:text-3xl font-bold bg-gradient-to-r from-rose-600 to-orange-600 bg-clip-text text-transparent mb-3 font-heading">
+          Select Festival &amp; Date
+        </h3>
+        <div className="w-16 sm:w-24 h-1 bg-gradient-to-r from-rose-500 to-orange-500 mx-auto rounded-full mb-4"></div>
+        <p className="text-sm sm:text-lg text-slate-700 font-medium">
+          Choose the festival and the day you want to perform on.
+        </p>
+      </div>
+
+      <div className="space-y-4 sm:space-y-6">
+        {eventConfig.events.map((event) => (
+          <div
+            key={event.id}
+            className="p-4 sm:p-6 rounded-xl sm:rounded-2xl border-2 border-slate-200 bg-white/80 backdrop-blur-sm shadow-lg"
+          >
+            <h4 className="text-lg sm:text-xl font-bold text-slate-800 font-heading">{event.name}</h4>
+            {event.venue && (
+              <p className="text-sm text-slate-600 mb-3">{event.venue}</p>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3">
+              {event.days.map((day) => {
+                const isSelected = selectedEventId === event.id && selectedDate === day.date;
+                return (
+                  <button
+                    key={day.date}
+                    onClick={() => onSelect(event.id, day.date)}
+                    className={`
+                      p-3 sm:p-4 rounded-xl border-2 text-left transition-all duration-300
+                      ${isSelected
+                        ? 'border-rose-500 bg-gradient-to-br from-rose-50 to-orange-50 shadow-md'
+                        : 'border-slate-200 bg-white hover:border-rose-300 hover:bg-rose-50/50'
+                      }
+                    `}
+                  >
+                    <div className="font-semibold text-slate-800">{formatEventDate(day.date)}</div>
+                    <div className="text-sm text-slate-600">
+                      {formatHour(day.startTime)} – {formatHour(day.endTime)}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EventDatePicker;
@@ -0,0 +1,1093 @@
+import React, { useState } from 'react';
+import {
+  eventConfig,
+  EventConfig,
+  FieldValidation,
+  FormField,
+  MessageChannel,
+  NotificationEvent,
+  NotificationRule,
+  ParticipantEntry,
+  PerformanceType,
+  PricingTier,
+  WhatsAppTemplate
+} from '../config/eventConfig';
+import { PRICING_TIERS } from '../utils/timeUtils';
+import {
+  FORM_FIELD_TYPES,
+  NOTIFICATION_LABELS,
+  SlotGridChange,
+  previewSlotGridChanges,
+  reconcileSlotGrids,
+  saveEventConfig,
+  validateEventConfig
+} from '../services/configService';
+import { CHANNEL_LABELS } from '../services/notificationChannels';
+
+const TIER_LABELS: Record<PricingTier, string> = {
+  offPeak: 'Off-peak',
+  midPeak: 'Mid-peak',
+  onPeak: 'On-peak'
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm';
+const labelClass = 'block text-sm font-medium text-gray-700';
+const sectionClass = 'bg-white/80 border border-slate-200 rounded-lg p-4 space-y-4';
+const smallButtonClass = 'px-2 py-1 text-xs rounded border border-slate-300 text-slate-700 hover:bg-slate-100 transition-colors';
+
+// Keeps a trailing empty item so a comma can be typed; blank items fail validation on save
+const splitList = (value: string) => (value.trim() ? value.split(/,\s*/) : []);
+
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+// Settings are edited on a copy and only applied once saved
+const cloneConfig = (config: EventConfig): EventConfig => JSON.parse(JSON.stringify(config));
+
+const describeSlotGridChange = (change: SlotGridChange) => {
+  const eventName = eventConfig.events.find((event) => event.id === change.eventId)?.name || change.eventId;
+  let description = `• ${eventName} ${change.date}: ${change.addedSlots.length} slot(s) added, ${change.removedSlots.length} free slot(s) removed`;
+  if (change.strandedSlots.length > 0) {
+    description += `\n  Held or booked outside the new hours (kept, move these bookings): ${change.strandedSlots.join(', ')}`;
+  }
+  return description;
+};
+
+const EventSettings: React.FC = () => {
+  const [draft, setDraft] = useState<EventConfig>(() => cloneConfig(eventConfig));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Festival and performance type IDs are stored on bookings, so saved ones can't be renamed
+  const savedEventIds = eventConfig.events.map((event) => event.id);
+  const savedTypeIds = eventConfig.performanceTypes.map((type) => type.id);
+
+  const update = (edit: (config: EventConfig) => void) => {
+    setDraft((current) => {
+      const next = cloneConfig(current);
+      edit(next);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const validationErrors = validateEventConfig(draft);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const changes = await previewSlotGridChanges(cloneConfig(eventConfig), draft);
+      if (
+        changes.length > 0 &&
+        !window.confirm(
+          `These settings change the slots of days that already have bookings or holds:\n\n${changes
+            .map(describeSlotGridChange)
+            .join('\n')}\n\nSave and update these days?`
+        )
+      ) {
+        return;
+      }
+
+      await saveEventConfig(draft);
+      await reconcileSlotGrids(draft, changes);
+
+      const hasStrandedSlots = changes.some((change) => change.strandedSlots.length > 0);
+      alert(
+        hasStrandedSlots
+          ? 'Settings saved. Held or booked slots outside the new hours were kept; move those bookings from the Bookings tab.'
+          : 'Settings saved. Visitors see them the next time they open the site.'
+      );
+    } catch (error: any) {
+      console.error('Saving settings failed:', error);
+      alert(`Saving settings failed: ${error.message || 'Please try again.'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateType = (typeIndex: number, changes: Partial<PerformanceType>) =>
+    update((config) => {
+      config.performanceTypes[typeIndex] = { ...config.performanceTypes[typeIndex], ...changes };
+    });
+
+  const updateField = (typeIndex: number, fieldIndex: number, changes: Partial<FormField>) =>
+    update((config) => {
+      const fields = config.performanceTypes[typeIndex].formFields;
+      fields[fieldIndex] = { ...fields[fieldIndex], ...changes };
+    });
+
+  // Empty limits are removed rather than saved as zero
+  const updateValidation = (typeIndex: number, fieldIndex: number, changes: Partial<FieldValidation>) =>
+    update((config) => {
+      const field = config.performanceTypes[typeIndex].formFields[fieldIndex];
+      const validation = { ...field.validation, ...changes };
+      Object.keys(validation).forEach((key) => {
+        if (validation[key as keyof FieldValidation] === undefined) {
+          delete validation[key as keyof FieldValidation];
+        }
+      });
+      field.validation = Object.keys(validation).length > 0 ? validation : undefined;
+    });
+
+  const updateTemplate = (templateIndex: number, edit: (template: WhatsAppTemplate) => void) =>
+    update((config) => {
+      edit(config.whatsAppTemplates[templateIndex]);
+    });
+
+  const updateNotification = (event: NotificationEvent, changes: Partial<NotificationRule>) =>
+    update((config) => {
+      config.notifications[event] = { ...config.notifications[event], ...changes };
+    });
+
+  const timePricing = draft.timePricing;
+
+  return (
+    <div className="space-y-6">
+      {errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <h4 className="font-semibold text-red-800 mb-2">Please fix these before saving</h4>
+          <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* General */}
+      <div className={sectionClass}>
+        <h3 className="text-lg font-semibold text-slate-800">General</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Site name</label>
+            <input
+              type="text"
+              value={draft.eventName}
+              onChange={(e) => update((config) => { config.eventName = e.target.value; })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Slot duration (minutes)</label>
+            <input
+              type="number"
+              min={5}
+              value={draft.slotDuration}
+              onChange={(e) => update((config) => { config.slotDuration = Number(e.target.value); })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Slot hold while paying (minutes)</label>
+            <input
+              type="number"
+              min={1}
+              value={draft.slotHoldMinutes}
+              onChange={(e) => update((config) => { config.slotHoldMinutes = Number(e.target.value); })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Waitlist offer to book a freed slot (minutes)</label>
+            <input
+              type="number"
+              min={5}
+              value={draft.waitlistOfferMinutes}
+              onChange={(e) => update((config) => { config.waitlistOfferMinutes = Number(e.target.value); })}
+              className={inputClass}
+            />
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 mt-6">
+            <input
+              type="checkbox"
+              checked={draft.waitForRulesCompletion}
+              onChange={(e) => update((config) => { config.waitForRulesCompletion = e.target.checked; })}
+            />
+            <span>Dancers must scroll through the rules before continuing</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 mt-6">
+            <input
+              type="checkbox"
+              checked={draft.slotChangesNeedApproval}
+              onChange={(e) => update((config) => { config.slotChangesNeedApproval = e.target.checked; })}
+            />
+            <span>Slot changes requested by dancers wait for approval</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Festivals */}
+      <div className={sectionClass}>
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-slate-800">Festivals &amp; Dates</h3>
+          <button
+            onClick={() =>
+              update((config) => {
+                config.events.push({ id: '', name: '', days: [{ date: '', startTime: '09:00', endTime: '20:00' }] });
+              })
+            }
+            className={smallButtonClass}
+          >
+            + Add festival
+          </button>
+        </div>
+        {draft.events.map((event, eventIndex) => (
+          <div key={eventIndex} className="border border-slate-200 rounded-md p-3 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className={labelClass}>ID</label>
+                <input
+                  type="text"
+                  value={event.id}
+                  readOnly={savedEventIds.includes(event.id)}
+                  placeholder="e.g. nrityotsava-2025"
+                  onChange={(e) => update((config) => { config.events[eventIndex].id = e.target.value; })}
+                  className={`${inputClass} ${savedEventIds.includes(event.id) ? 'bg-gray-100' : ''}`}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Name</label>
+                <input
+                  type="text"
+                  value={event.name}
+                  onChange={(e) => update((config) => { config.events[eventIndex].name = e.target.value; })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Venue</label>
+                <input
+                  type="text"
+                  value={event.venue || ''}
+                  onChange={(e) => update((config) => { config.events[eventIndex].venue = e.target.value || undefined; })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            {event.days.map((day, dayIndex) => (
+              <div key={dayIndex} className="grid grid-cols-4 gap-3 items-end">
+                <div>
+                  <label className={labelClass}>Date</label>
+                  <input
+                    type="date"
+                    value={day.date}
+                    onChange={(e) => update((config) => { config.events[eventIndex].days[dayIndex].date = e.target.value; })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Start</label>
+                  <input
+                    type="time"
+                    value={day.startTime}
+                    onChange={(e) => update((config) => { config.events[eventIndex].days[dayIndex].startTime = e.target.value; })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>End</label>
+                  <input
+                    type="time"
+                    value={day.endTime}
+                    onChange={(e) => update((config) => { config.events[eventIndex].days[dayIndex].endTime = e.target.value; })}
+                    className={inputClass}
+                  />
+                </div>
+                <button
+                  onClick={() => update((config) => { config.events[eventIndex].days.splice(dayIndex, 1); })}
+                  className={`${smallButtonClass} mb-2`}
+                >
+                  Remove day
+                </button>
+              </div>
+            ))}
+            <div className="flex space-x-2">
+              <button
+                onClick={() =>
+                  update((config) => {
+                    config.events[eventIndex].days.push({ date: '', startTime: '09:00', endTime: '20:00' });
+                  })
+                }
+                className={smallButtonClass}
+              >
+                + Add day
+              </button>
+              <button
+                onClick={() => update((config) => { config.events.splice(eventIndex, 1); })}
+                className={`${smallButtonClass} text-red-600`}
+              >
+                Remove festival
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Time-based pricing */}
+      <div className={sectionClass}>
+        <h3 className="text-lg font-semibold text-slate-800">Time-Based Pricing</h3>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!timePricing?.enabled}
+            onChange={(e) =>
+              update((config) => {
+                config.timePricing = { timeRanges: {}, colors: {}, ...config.timePricing, enabled: e.target.checked };
+              })
+            }
+          />
+          <span>Charge different prices by time of day (set the prices on each performance type)</span>
+        </label>
+
+        {timePricing?.enabled &&
+          PRICING_TIERS.map((tier) => {
+            const range = timePricing.timeRanges[tier];
+
+            if (!range) {
+              return (
+                <button
+                  key={tier}
+                  onClick={() =>
+                    update((config) => {
+                      config.timePricing!.timeRanges[tier] = { start: '09:00', end: '12:00', displayName: TIER_LABELS[tier] };
+                      config.timePricing!.colors[tier] = config.timePricing!.colors[tier] || { color: '#ffffffff', borderColor: '#cbd5e1ff' };
+                    })
+                  }
+                  className={`${smallButtonClass} mr-2`}
+                >
+                  + Add {TIER_LABELS[tier]} tier
+                </button>
+              );
+            }
+
+            return (
+              <div key={tier} className="grid grid-cols-4 gap-3 items-end">
+                <div>
+                  <label className={labelClass}>{TIER_LABELS[tier]} name</label>
+                  <input
+                    type="text"
+                    value={range.displayName}
+                    onChange={(e) => update((config) => { config.timePricing!.timeRanges[tier]!.displayName = e.target.value; })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>From</label>
+                  <input
+                    type="time"
+                    value={range.start}
+                    onChange={(e) => update((config) => { config.timePricing!.timeRanges[tier]!.start = e.target.value; })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Until</label>
+                  <input
+                    type="time"
+                    value={range.end}
+                    onChange={(e) => update((config) => { config.timePricing!.timeRanges[tier]!.end = e.target.value; })}
+                    className={inputClass}
+                  />
+                </div>
+                <button
+                  onClick={() => update((config) => { delete config.timePricing!.timeRanges[tier]; })}
+                  className={`${smallButtonClass} mb-2 text-red-600`}
+                >
+                  Remove tier
+                </button>
+              </div>
+            );
+          })}
+      </div>
+
+      {/* Performance types */}
+      <div className={sectionClass}>
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-slate-800">Performance Types</h3>
+          <button
+            onClick={() =>
+              update((config) => {
+                config.performanceTypes.push({
+                  id: '',
+                  name: '',
+                  pricePerPerson: 0,
+                  minParticipants: 1,
+                  maxParticipants: 1,
+                  participants: { mode: 'fields', nameFields: [], phoneField: '' },
+                  formFields: []
+                });
+              })
+            }
+            className={smallButtonClass}
+          >
+            + Add performance type
+          </button>
+        </div>
+        {draft.performanceTypes.map((type, typeIndex) => (
+          <div key={typeIndex} className="border border-slate-200 rounded-md p-3 space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <div>
+                <label className={labelClass}>ID</label>
+                <input
+                  type="text"
+                  value={type.id}
+                  readOnly={savedTypeIds.includes(type.id)}
+                  placeholder="e.g. trio"
+                  onChange={(e) => updateType(typeIndex, { id: e.target.value })}
+                  className={`${inputClass} ${savedTypeIds.includes(type.id) ? 'bg-gray-100' : ''}`}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Name</label>
+                <input
+                  type="text"
+                  value={type.name}
+                  onChange={(e) => updateType(typeIndex, { name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Price per person (₹)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={type.pricePerPerson}
+                  onChange={(e) => updateType(typeIndex, { pricePerPerson: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Min participants</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={type.minParticipants}
+                  onChange={(e) => updateType(typeIndex, { minParticipants: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Max participants</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={type.maxParticipants}
+                  onChange={(e) => updateType(typeIndex, { maxParticipants: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {timePricing?.enabled && (
+              <div className="grid grid-cols-3 gap-3">
+                {PRICING_TIERS.filter((tier) => timePricing.timeRanges[tier]).map((tier) => (
+                  <div key={tier}>
+                    <label className={labelClass}>{timePricing.timeRanges[tier]!.displayName} price (₹)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={type.tierPrices?.[tier] ?? ''}
+                      placeholder={`${type.pricePerPerson}`}
+                      onChange={(e) =>
+                        update((config) => {
+                          const tierPrices = { ...config.performanceTypes[typeIndex].tierPrices };
+                          if (e.target.value === '') {
+                            delete tierPrices[tier];
+                          } else {
+                            tierPrices[tier] = Number(e.target.value);
+                          }
+                          config.performanceTypes[typeIndex].tierPrices = tierPrices;
+                        })
+                      }
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className={labelClass}>Participant names are entered</label>
+                <select
+                  value={type.participants.mode}
+                  onChange={(e) =>
+                    updateType(typeIndex, {
+                      participants: {
+                        ...type.participants,
+                        mode: e.target.value as ParticipantEntry['mode'],
+                        nameFields: e.target.value === 'members' ? [] : type.participants.nameFields
+                      }
+                    })
+                  }
+                  className={inputClass}
+                >
+                  <option value="fields">One field per dancer</option>
+                  <option value="members">One entry per member (name, age, phone)</option>
+                </select>
+              </div>
+              {type.participants.mode === 'fields' ? (
+                <div>
+                  <label className={labelClass}>Name field IDs (comma separated)</label>
+                  <input
+                    type="text"
+                    value={type.participants.nameFields.join(', ')}
+                    onChange={(e) =>
+                      updateType(typeIndex, {
+                        participants: {
+                          ...type.participants,
+                          nameFields: splitList(e.target.value)
+                        }
+                      })
+                    }
+                    className={inputClass}
+                  />
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500 self-center">
+                  Dancers add between {type.minParticipants} and {type.maxParticipants} members on the form.
+                </p>
+              )}
+              <div>
+                <label className={labelClass}>Contact phone field</label>
+                <select
+                  value={type.participants.phoneField}
+                  onChange={(e) =>
+                    updateType(typeIndex, { participants: { ...type.participants, phoneField: e.target.value } })
+                  }
+                  className={inputClass}
+                >
+                  <option value="">Select a field</option>
+                  {type.formFields.map((field) => (
+                    <option key={field.id} value={field.id}>
+                      {field.id}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <h4 className="font-medium text-slate-700">Form fields</h4>
+            {type.formFields.map((field, fieldIndex) => (
+              <div key={fieldIndex} className="grid grid-cols-12 gap-2 items-center border-b border-slate-100 pb-2">
+                <input
+                  type="text"
+                  value={field.id}
+                  placeholder="Field ID"
+                  onChange={(e) => updateField(typeIndex, fieldIndex, { id: e.target.value })}
+                  className={`${inputClass} col-span-2`}
+                />
+                <input
+                  type="text"
+                  value={field.label}
+                  placeholder="Label"
+                  onChange={(e) => updateField(typeIndex, fieldIndex, { label: e.target.value })}
+                  className={`${inputClass} col-span-4`}
+                />
+                <select
+                  value={field.type}
+                  onChange={(e) => updateField(typeIndex, fieldIndex, { type: e.target.value as FormField['type'] })}
+                  className={`${inputClass} col-span-2`}
+                >
+                  {FORM_FIELD_TYPES.map((fieldType) => (
+                    <option key={fieldType} value={fieldType}>
+                      {fieldType}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={field.placeholder || ''}
+                  placeholder="Placeholder"
+                  onChange={(e) => updateField(typeIndex, fieldIndex, { placeholder: e.target.value })}
+                  className={`${inputClass} col-span-2`}
+                />
+                <label className="flex items-center space-x-1 text-xs text-gray-700 col-span-1">
+                  <input
+                    type="checkbox"
+                    checked={field.required}
+                    onChange={(e) => updateField(typeIndex, fieldIndex, { required: e.target.checked })}
+                  />
+                  <span>Required</span>
+                </label>
+                <button
+                  onClick={() => update((config) => { config.performanceTypes[typeIndex].formFields.splice(fieldIndex, 1); })}
+                  className={`${smallButtonClass} col-span-1 text-red-600`}
+                >
+                  Remove
+                </button>
+                <div className="col-span-12 grid grid-cols-12 gap-2 pl-4">
+                  {(field.type === 'select' || field.type === 'radio') && (
+                    <input
+                      type="text"
+                      value={(field.options || []).join(', ')}
+                      placeholder="Options, comma separated"
+                      onChange={(e) => updateField(typeIndex, fieldIndex, { options: splitList(e.target.value) })}
+                      className={`${inputClass} col-span-6`}
+                    />
+                  )}
+                  {field.type === 'file' && (
+                    <>
+                      <input
+                        type="text"
+                        value={field.accept || ''}
+                        placeholder="Accepted files, e.g. image/*,application/pdf"
+                        onChange={(e) => updateField(typeIndex, fieldIndex, { accept: e.target.value || undefined })}
+                        className={`${inputClass} col-span-4`}
+                      />
+                      <input
+                        type="number"
+                        value={field.validation?.maxFileSizeMB ?? ''}
+                        placeholder="Max MB"
+                        onChange={(e) => updateValidation(typeIndex, fieldIndex, { maxFileSizeMB: toOptionalNumber(e.target.value) })}
+                        className={`${inputClass} col-span-2`}
+                      />
+                    </>
+                  )}
+                  {(field.type === 'number' || field.type === 'date') && (
+                    <>
+                      <input
+                        type="number"
+                        value={field.validation?.min ?? ''}
+                        placeholder={field.type === 'date' ? 'Min age' : 'Min value'}
+                        onChange={(e) => updateValidation(typeIndex, fieldIndex, { min: toOptionalNumber(e.target.value) })}
+                        className={`${inputClass} col-span-2`}
+                      />
+                      <input
+                        type="number"
+                        value={field.validation?.max ?? ''}
+                        placeholder={field.type === 'date' ? 'Max age' : 'Max value'}
+                        onChange={(e) => updateValidation(typeIndex, fieldIndex, { max: toOptionalNumber(e.target.value) })}
+                        className={`${inputClass} col-span-2`}
+                      />
+                    </>
+                  )}
+                  {['text', 'tel', 'email', 'textarea'].includes(field.type) && (
+                    <>
+                      <input
+                        type="number"
+                        value={field.validation?.minLength ?? ''}
+                        placeholder="Min length"
+                        onChange={(e) => updateValidation(typeIndex, fieldIndex, { minLength: toOptionalNumber(e.target.value) })}
+                        className={`${inputClass} col-span-2`}
+                      />
+                      <input
+                        type="number"
+                        value={field.validation?.maxLength ?? ''}
+                        placeholder="Max length"
+                        onChange={(e) => updateValidation(typeIndex, fieldIndex, { maxLength: toOptionalNumber(e.target.value) })}
+                        className={`${inputClass} col-span-2`}
+                      />
+                      <input
+                        type="text"
+                        value={field.validation?.pattern || ''}
+                        placeholder="Pattern (regular expression)"
+                        onChange={(e) => updateValidation(typeIndex, fieldIndex, { pattern: e.target.value || undefined })}
+                        className={`${inputClass} col-span-4`}
+                      />
+                      <input
+                        type="text"
+                        value={field.validation?.patternMessage || ''}
+                        placeholder="Message when the pattern doesn't match"
+                        onChange={(e) => updateValidation(typeIndex, fieldIndex, { patternMessage: e.target.value || undefined })}
+                        className={`${inputClass} col-span-4`}
+                      />
+                    </>
+                  )}
+                  <select
+                    value={field.showIf?.field || ''}
+                    onChange={(e) =>
+                      updateField(typeIndex, fieldIndex, {
+                        showIf: e.target.value ? { field: e.target.value, equals: field.showIf?.equals || [] } : undefined
+                      })
+                    }
+                    className={`${inputClass} col-span-3`}
+                  >
+                    <option value="">Always shown</option>
+                    {type.formFields.slice(0, fieldIndex).map((earlier) => (
+                      <option key={earlier.id} value={earlier.id}>
+                        Only if {earlier.id} is
+                      </option>
+                    ))}
+                  </select>
+                  {field.showIf && (
+                    <input
+                      type="text"
+                      value={field.showIf.equals.join(', ')}
+                      placeholder="Values, comma separated"
+                      onChange={(e) =>
+                        updateField(typeIndex, fieldIndex, { showIf: { ...field.showIf!, equals: splitList(e.target.value) } })
+                      }
+                      className={`${inputClass} col-span-3`}
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+            <div className="flex space-x-2">
+              <button
+                onClick={() =>
+                  update((config) => {
+                    config.performanceTypes[typeIndex].formFields.push({ id: '', label: '', type: 'text', required: false, placeholder: 'Your answer' });
+                  })
+                }
+                className={smallButtonClass}
+              >
+                + Add field
+              </button>
+              <button
+                onClick={() => update((config) => { config.performanceTypes.splice(typeIndex, 1); })}
+                className={`${smallButtonClass} text-red-600`}
+              >
+                Remove performance type
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Delay notices */}
+      <div className={sectionClass}>
+        <h3 className="text-lg font-semibold text-slate-800">Running Late Notices</h3>
+        <p className="text-sm text-slate-500">
+          Sent when the Running order tab records a delay, on WhatsApp or by email as each dancer chose. Use {'{estimated_time}'} and {'{delay_minutes}'} alongside the usual placeholders.
+        </p>
+        <div>
+          <label className={labelClass}>Only message dancers when their time moves by at least (minutes)</label>
+          <input
+            type="number"
+            min={1}
+            value={draft.delayNotifyMinutes}
+            onChange={(e) => update((config) => { config.delayNotifyMinutes = Number(e.target.value); })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Send on WhatsApp as</label>
+          <select
+            value={draft.delayWhatsAppTemplate}
+            onChange={(e) => update((config) => { config.delayWhatsAppTemplate = e.target.value; })}
+            className={inputClass}
+          >
+            <option value="">Text message (only reaches dancers who wrote to us in the last 24 hours)</option>
+            {draft.whatsAppTemplates
+              .filter((template) => template.name)
+              .map((template) => (
+                <option key={template.name} value={template.name}>
+                  Template: {template.name}
+                </option>
+              ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Email subject</label>
+          <input
+            type="text"
+            value={draft.delayEmailSubject}
+            onChange={(e) => update((config) => { config.delayEmailSubject = e.target.value; })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>
+            {draft.delayWhatsAppTemplate ? 'Message (emails only)' : 'Message'}
+          </label>
+          <textarea
+            value={draft.delayMessageTemplate}
+            onChange={(e) => update((config) => { config.delayMessageTemplate = e.target.value; })}
+            rows={3}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {/* WhatsApp templates */}
+      <div className={sectionClass}>
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-slate-800">WhatsApp Templates</h3>
+          <button
+            onClick={() =>
+              update((config) => {
+                config.whatsAppTemplates.push({ name: '', languages: ['en'], bodyParameters: [] });
+              })
+            }
+            className={smallButtonClass}
+          >
+            + Add template
+          </button>
+        </div>
+        <p className="text-sm text-slate-500">
+          Templates approved in WhatsApp Manager, entered exactly as approved. Each body parameter fills one of the template's
+          variables, in order for {'{{1}}'}, {'{{2}}'}... or by name, and can use the usual placeholders such as {'{name}'}.
+        </p>
+        {draft.whatsAppTemplates.map((template, templateIndex) => (
+          <div key={templateIndex} className="border border-slate-200 rounded-md p-3 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input
+                  type="text"
+                  value={template.name}
+                  placeholder="e.g. running_late"
+                  onChange={(e) => updateTemplate(templateIndex, (edited) => { edited.name = e.target.value; })}
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Languages (comma-separated, default first)</label>
+                <input
+                  type="text"
+                  value={template.languages.join(', ')}
+                  placeholder="e.g. en, hi"
+                  onChange={(e) => updateTemplate(templateIndex, (edited) => { edited.languages = splitList(e.target.value); })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Header media</label>
+                <select
+                  value={template.header?.type || ''}
+                  onChange={(e) =>
+                    updateTemplate(templateIndex, (edited) => {
+                      const type = e.target.value as NonNullable<WhatsAppTemplate['header']>['type'] | '';
+                      edited.header = type ? { type, link: edited.header?.link || '' } : undefined;
+                    })
+                  }
+                  className={inputClass}
+                >
+                  <option value="">None</option>
+                  <option value="image">Image</option>
+                  <option value="document">Document</option>
+                  <option value="video">Video</option>
+                </select>
+              </div>
+              {template.header && (
+                <div>
+                  <label className={labelClass}>Header media link</label>
+                  <input
+                    type="url"
+                    value={template.header.link}
+                    placeholder="https://..."
+                    onChange={(e) => updateTemplate(templateIndex, (edited) => { edited.header!.link = e.target.value; })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+            </div>
+            <div>
+              <label className={labelClass}>Approved text (optional, for previews)</label>
+              <textarea
+                value={template.text || ''}
+                onChange={(e) => updateTemplate(templateIndex, (edited) => { edited.text = e.target.value || undefined; })}
+                rows={3}
+                placeholder="Hello {{1}}, your slot is now expected at {{2}}."
+                className={inputClass}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h5 className="text-sm font-semibold text-slate-700">Body parameters</h5>
+                <button
+                  onClick={() => updateTemplate(templateIndex, (edited) => { edited.bodyParameters.push({ value: '' }); })}
+                  className={smallButtonClass}
+                >
+                  + Add parameter
+                </button>
+              </div>
+              {template.bodyParameters.map((parameter, parameterIndex) => (
+                <div key={parameterIndex} className="flex gap-2 items-center">
+                  <span className="w-12 text-sm text-slate-500 font-mono">{`{{${parameterIndex + 1}}}`}</span>
+                  <input
+                    type="text"
+                    value={parameter.name || ''}
+                    placeholder="name (if named)"
+                    onChange={(e) =>
+                      updateTemplate(templateIndex, (edited) => {
+                        edited.bodyParameters[parameterIndex].name = e.target.value || undefined;
+                      })
+                    }
+                    className="w-40 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+                  />
+                  <input
+                    type="text"
+                    value={parameter.value}
+                    placeholder="e.g. {name}"
+                    onChange={(e) =>
+                      updateTemplate(templateIndex, (edited) => {
+                        edited.bodyParameters[parameterIndex].value = e.target.value;
+                      })
+                    }
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => updateTemplate(templateIndex, (edited) => { edited.bodyParameters.splice(parameterIndex, 1); })}
+                    className={smallButtonClass}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={() =>
+                  update((config) => {
+                    const [removed] = config.whatsAppTemplates.splice(templateIndex, 1);
+                    if (config.delayWhatsAppTemplate === removed.name) {
+                      config.delayWhatsAppTemplate = '';
+                    }
+                    Object.values(config.notifications).forEach((rule) => {
+                      if (rule.template === removed.name) {
+                        rule.template = '';
+                      }
+                    });
+                  })
+                }
+                className={`${smallButtonClass} text-red-600`}
+              >
+                Remove template
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Automatic notifications */}
+      <div className={sectionClass}>
+        <h3 className="text-lg font-semibold text-slate-800">Automatic Notifications</h3>
+        <p className="text-sm text-slate-500">
+          Sent by the server when a booking changes, never from this browser. "Each dancer's choice" emails the dancers who
+          asked for email at registration and sends everyone else a WhatsApp message. Besides the usual placeholders, use{' '}
+          {'{time_slots}'} for all the booking's slots, {'{previous_time_slots}'} and {'{previous_date}'} when slots change,{' '}
+          {'{refund_amount}'} when a booking is cancelled, {'{payment_error}'} when a payment fails, and{' '}
+          {'{waitlist_link}'} and {'{offer_expires_at}'} when a waitlist slot is offered.
+        </p>
+        {(Object.keys(NOTIFICATION_LABELS) as NotificationEvent[]).map((event) => {
+          const rule = draft.notifications[event];
+          return (
+            <div key={event} className="border border-slate-200 rounded-md p-3 space-y-3">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateNotification(event, { enabled: e.target.checked })}
+                />
+                {NOTIFICATION_LABELS[event]}
+              </label>
+              {rule.enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div>
+                    <label className={labelClass}>Channel</label>
+                    <select
+                      value={rule.channel}
+                      onChange={(e) => updateNotification(event, { channel: e.target.value as NotificationRule['channel'] })}
+                      className={inputClass}
+                    >
+                      <option value="preferred">Each dancer's choice</option>
+                      {(Object.keys(CHANNEL_LABELS) as MessageChannel[]).map((channel) => (
+                        <option key={channel} value={channel}>{CHANNEL_LABELS[channel]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {rule.channel !== 'email' && (
+                    <div>
+                      <label className={labelClass}>Send on WhatsApp as</label>
+                      <select
+                        value={rule.template}
+                        onChange={(e) => updateNotification(event, { template: e.target.value })}
+                        className={inputClass}
+                      >
+                        <option value="">Text message</option>
+                        {draft.whatsAppTemplates
+                          .filter((template) => template.name)
+                          .map((template) => (
+                            <option key={template.name} value={template.name}>
+                              Template: {template.name}
+                            </option>
+                          ))}
+                      </select>
+                    </div>
+                  )}
+                  {event === 'slotReminder' && (
+                    <div>
+                      <label className={labelClass}>Hours before the first slot</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={72}
+                        value={rule.hoursBefore ?? ''}
+                        onChange={(e) => updateNotification(event, { hoursBefore: toOptionalNumber(e.target.value) })}
+                        className={inputClass}
+                      />
+                    </div>
+                  )}
+                  {rule.channel !== 'whatsapp' && (
+                    <div className="md:col-span-3">
+                      <label className={labelClass}>Email subject</label>
+                      <input
+                        type="text"
+                        value={rule.subject || ''}
+                        onChange={(e) => updateNotification(event, { subject: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                  )}
+                  {(rule.channel !== 'whatsapp' || !rule.template) && (
+                    <div className="md:col-span-3">
+                      <label className={labelClass}>
+                        {rule.channel === 'preferred' && rule.template ? 'Message (emails only)' : 'Message'}
+                      </label>
+                      <textarea
+                        value={rule.message}
+                        onChange={(e) => updateNotification(event, { message: e.target.value })}
+                        rows={3}
+                        className={inputClass}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Rules */}
+      <div className={sectionClass}>
+        <h3 className="text-lg font-semibold text-slate-800">Rules &amp; Regulations</h3>
+        <textarea
+          value={draft.rulesAndRegulations}
+          onChange={(e) => update((config) => { config.rulesAndRegulations = e.target.value; })}
+          rows={12}
+          className={`${inputClass} font-mono`}
+        />
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={() => {
+            setDraft(cloneConfig(eventConfig));
+            setErrors([]);
+          }}
+          disabled={saving}
+          className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition-colors disabled:opacity-50"
+        >
+          Discard changes
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save settings'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EventSettings;
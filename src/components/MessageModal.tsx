@@ -1,6 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { FlatBooking } from '../services/firebaseService';
-import { whatsAppService } from '../services/whatsAppService';
+import { DEFAULT_EMAIL_SUBJECT, QueuedBatch, TemplateChoice, whatsAppService } from '../services/whatsAppService';
+import { eventConfig } from '../config/eventConfig';
+import { getDeliveryReport, MessageStatus, QueuedMessage, subscribeToBatchMessages } from '../services/messageService';
+
+const DELIVERY_LABELS: Record<MessageStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'text-gray-600' },
+  sending: { label: 'Sending', className: 'text-blue-700' },
+  sent: { label: 'Sent', className: 'text-blue-700' },
+  delivered: { label: 'Delivered', className: 'text-green-700' },
+  read: { label: 'Read', className: 'text-green-700' },
+  failed: { label: 'Failed', className: 'text-red-600' }
+};
 
 interface MessageModalProps {
   isOpen: boolean;
@@ -10,29 +21,54 @@ interface MessageModalProps {
 
 const MessageModal: React.FC<MessageModalProps> = ({ isOpen, onClose, bookings }) => {
   const [messageTemplate, setMessageTemplate] = useState('');
+  // '' sends the text above; otherwise the name of an approved WhatsApp template
+  const [templateName, setTemplateName] = useState('');
+  const [language, setLanguage] = useState('');
+  const [emailSubject, setEmailSubject] = useState(DEFAULT_EMAIL_SUBJECT);
   const [previewMessage, setPreviewMessage] = useState('');
   const [isSending, setIsSending] = useState(false);
-  const [sendProgress, setSendProgress] = useState({ sent: 0, total: 0, success: 0, failed: 0 });
   const [showConfirm, setShowConfirm] = useState(false);
-  const [sendResults, setSendResults] = useState<{ success: number; failed: number; results: any[] } | null>(null);
+  const [sendResults, setSendResults] = useState<QueuedBatch | null>(null);
+  const [queuedMessages, setQueuedMessages] = useState<QueuedMessage[]>([]);
 
   const availablePlaceholders = whatsAppService.getAvailablePlaceholders();
 
   // Sample booking for preview
   const sampleBooking = bookings.length > 0 ? bookings[0] : null;
 
+  const template = whatsAppService.getTemplate(templateName);
+  const templateChoice: TemplateChoice | null = template
+    ? { template, language: language || template.languages[0] }
+    : null;
+  // Dancers who asked for email at registration get this batch by email
+  const emailCount = bookings.filter((booking) => whatsAppService.getChannel(booking).id === 'email').length;
+  const canSend = (templateChoice ? true : !!messageTemplate.trim()) && (emailCount === 0 || !!emailSubject.trim());
+
   useEffect(() => {
-    if (messageTemplate && sampleBooking) {
+    if (template && sampleBooking) {
+      setPreviewMessage(
+        whatsAppService.previewTemplate({ template, language: language || template.languages[0] }, sampleBooking)
+      );
+    } else if (messageTemplate && sampleBooking) {
       const preview = whatsAppService.previewMessage(messageTemplate, sampleBooking);
       setPreviewMessage(preview);
     } else {
       setPreviewMessage('');
     }
-  }, [messageTemplate, sampleBooking]);
+  }, [messageTemplate, template, language, sampleBooking]);
+
+  // The server sends the batch; follow each message until it is delivered, read or failed
+  const batchId = sendResults?.batchId;
+  useEffect(() => {
+    if (!batchId) {
+      return;
+    }
+    return subscribeToBatchMessages(batchId, setQueuedMessages);
+  }, [batchId]);
 
   const handleSendMessages = async () => {
-    if (!messageTemplate.trim()) {
-      alert('Please enter a message template');
+    if (!canSend) {
+      alert(messageTemplate.trim() || templateChoice ? 'Please enter an email subject' : 'Please enter a message template');
       return;
     }
 
@@ -42,26 +78,16 @@ const MessageModal: React.FC<MessageModalProps> = ({ isOpen, onClose, bookings }
     }
 
     setIsSending(true);
-    setSendProgress({ sent: 0, total: bookings.length, success: 0, failed: 0 });
 
     try {
-      const results = await whatsAppService.sendBatchMessages(
-        messageTemplate,
-        bookings,
-        (sent, total, success, failed) => {
-          setSendProgress({ sent, total, success, failed });
-        }
-      );
-
+      const results = await whatsAppService.sendBatchMessages(templateChoice || messageTemplate, bookings, 'broadcast', {
+        subject: emailSubject
+      });
       setSendResults(results);
       setShowConfirm(false);
-      
-      // Show success/failure summary
-      alert(`Batch messaging completed!\nSuccessful: ${results.success}\nFailed: ${results.failed}`);
-      
     } catch (error) {
       console.error('Batch messaging error:', error);
-      alert('Failed to send messages. Please try again.');
+      alert(`Failed to queue messages: ${error instanceof Error ? error.message : error}`);
     } finally {
       setIsSending(false);
     }
@@ -85,11 +111,14 @@ const MessageModal: React.FC<MessageModalProps> = ({ isOpen, onClose, bookings }
 
   const resetModal = () => {
     setMessageTemplate('');
+    setTemplateName('');
+    setLanguage('');
+    setEmailSubject(DEFAULT_EMAIL_SUBJECT);
     setPreviewMessage('');
     setIsSending(false);
-    setSendProgress({ sent: 0, total: 0, success: 0, failed: 0 });
     setShowConfirm(false);
     setSendResults(null);
+    setQueuedMessages([]);
   };
 
   const handleClose = () => {
@@ -99,6 +128,15 @@ const MessageModal: React.FC<MessageModalProps> = ({ isOpen, onClose, bookings }
     }
   };
 
+  const deliveries = getDeliveryReport(queuedMessages);
+  const statusCounts = deliveries.reduce<Partial<Record<MessageStatus, number>>>((counts, delivery) => {
+    counts[delivery.status] = (counts[delivery.status] || 0) + 1;
+    return counts;
+  }, {});
+  const bookingNames = Object.fromEntries(
+    bookings.map((booking) => [booking.bookingId, booking.participantName || booking.fullName || booking.bookingId])
+  );
+
   if (!isOpen) return null;
 
   return (
@@ -106,7 +144,7 @@ const MessageModal: React.FC<MessageModalProps> = ({ isOpen, onClose, bookings }
       <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
         <div className="p-6 border-b border-gray-200">
           <div className="flex justify-between items-center">
-            <h2 className="text-2xl font-bold text-gray-800">Send Batch WhatsApp Messages</h2>
+            <h2 className="text-2xl font-bold text-gray-800">Send Batch Messages</h2>
             <button
               onClick={handleClose}
               disabled={isSending}
@@ -115,41 +153,129 @@ const MessageModal: React.FC<MessageModalProps> = ({ isOpen, onClose, bookings }
               ×
             </button>
           </div>
-          <p className="text-gray-600 mt-2">Send personalized messages to {bookings.length} booking(s)</p>
+          <p className="text-gray-600 mt-2">
+            Send personalized messages to {bookings.length} booking(s)
+            {emailCount > 0 && `, ${emailCount} of them by email as they asked`}
+          </p>
         </div>
 
         <div className="p-6 space-y-6">
-          {/* Message Template Section */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Message Template
-            </label>
-            <textarea
-              id="message-template"
-              value={messageTemplate}
-              onChange={(e) => setMessageTemplate(e.target.value)}
-              placeholder="Enter your message template with placeholders..."
-              className="w-full h-32 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-              disabled={isSending}
-            />
-            
-            {/* Placeholder Helper */}
-            <div className="mt-3">
-              <p className="text-sm font-medium text-gray-700 mb-2">Available Placeholders:</p>
-              <div className="flex flex-wrap gap-2 max-h-24 overflow-y-auto">
-                {availablePlaceholders.map((placeholder) => (
-                  <button
-                    key={placeholder}
-                    onClick={() => insertPlaceholder(placeholder)}
-                    disabled={isSending}
-                    className="px-2 py-1 bg-blue-100 text-blue-800 rounded text-xs hover:bg-blue-200 transition-colors disabled:opacity-50"
+          {/* Message Type Section */}
+          {eventConfig.whatsAppTemplates.length > 0 && (
+            <div className="flex flex-wrap gap-3">
+              <div className="flex-1 min-w-[14rem]">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Send as</label>
+                <select
+                  value={templateName}
+                  onChange={(e) => {
+                    setTemplateName(e.target.value);
+                    setLanguage('');
+                  }}
+                  disabled={isSending || !!sendResults}
+                  className="w-full p-2 border border-gray-300 rounded-lg"
+                >
+                  <option value="">Text message</option>
+                  {eventConfig.whatsAppTemplates.map((option) => (
+                    <option key={option.name} value={option.name}>
+                      Template: {option.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {template && template.languages.length > 1 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Language</label>
+                  <select
+                    value={templateChoice!.language}
+                    onChange={(e) => setLanguage(e.target.value)}
+                    disabled={isSending || !!sendResults}
+                    className="p-2 border border-gray-300 rounded-lg"
                   >
-                    {placeholder}
-                  </button>
-                ))}
+                    {template.languages.map((code) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <p className="w-full text-xs text-gray-500">
+                {template
+                  ? 'Approved templates reach every dancer. Parameters and header media come from Event settings.'
+                  : 'Text messages only reach dancers who have written to us on WhatsApp in the last 24 hours.'}
+              </p>
+            </div>
+          )}
+
+          {template ? (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Template parameters</p>
+              {template.bodyParameters.length === 0 ? (
+                <p className="text-sm text-gray-500">This template has no parameters.</p>
+              ) : (
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {template.bodyParameters.map((parameter, index) => (
+                    <li key={index}>
+                      <span className="font-mono text-gray-500">{`{{${parameter.name || index + 1}}}`}</span> ← {parameter.value}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {template.header && (
+                <p className="text-sm text-gray-500 mt-2">
+                  Header {template.header.type}: {template.header.link}
+                </p>
+              )}
+              {emailCount > 0 && (
+                <p className="text-sm text-gray-500 mt-2">Dancers who chose email get the template's text by email.</p>
+              )}
+            </div>
+          ) : (
+            // Message Template Section
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Message Template
+              </label>
+              <textarea
+                id="message-template"
+                value={messageTemplate}
+                onChange={(e) => setMessageTemplate(e.target.value)}
+                placeholder="Enter your message template with placeholders..."
+                className="w-full h-32 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                disabled={isSending}
+              />
+            
+              {/* Placeholder Helper */}
+              <div className="mt-3">
+                <p className="text-sm font-medium text-gray-700 mb-2">Available Placeholders:</p>
+                <div className="flex flex-wrap gap-2 max-h-24 overflow-y-auto">
+                  {availablePlaceholders.map((placeholder) => (
+                    <button
+                      key={placeholder}
+                      onClick={() => insertPlaceholder(placeholder)}
+                      disabled={isSending}
+                      className="px-2 py-1 bg-blue-100 text-blue-800 rounded text-xs hover:bg-blue-200 transition-colors disabled:opacity-50"
+                    >
+                      {placeholder}
+                    </button>
+                  ))}
+                </div>
               </div>
             </div>
-          </div>
+          )}
+
+          {emailCount > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Email Subject</label>
+              <input
+                type="text"
+                value={emailSubject}
+                onChange={(e) => setEmailSubject(e.target.value)}
+                disabled={isSending || !!sendResults}
+                className="w-full p-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+          )}
 
           {/* Preview Section */}
           {previewMessage && (
@@ -166,39 +292,44 @@ const MessageModal: React.FC<MessageModalProps> = ({ isOpen, onClose, bookings }
             </div>
           )}
 
-          {/* Progress Section */}
-          {isSending && (
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Sending Progress
-              </label>
-              <div className="space-y-2">
-                <div className="w-full bg-gray-200 rounded-full h-3">
-                  <div 
-                    className="bg-blue-600 h-3 rounded-full transition-all duration-300"
-                    style={{ width: `${(sendProgress.sent / sendProgress.total) * 100}%` }}
-                  ></div>
-                </div>
-                <div className="flex justify-between text-sm text-gray-600">
-                  <span>Progress: {sendProgress.sent}/{sendProgress.total}</span>
-                  <span>Success: {sendProgress.success} | Failed: {sendProgress.failed}</span>
-                </div>
-              </div>
-            </div>
-          )}
-
-          {/* Results Section */}
+          {/* Delivery Report */}
           {sendResults && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Results Summary
+                Delivery Report
               </label>
-              <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
-                <p className="text-green-800">
-                  ✅ Successfully sent: {sendResults.success} messages<br/>
-                  ❌ Failed: {sendResults.failed} messages
-                </p>
-              </div>
+              <p className="text-sm text-gray-600 mb-2">
+                {sendResults.queued} message(s) queued. They are sent from the server, so you can close this window.
+                {sendResults.skipped.length > 0 && ` ${sendResults.skipped.length} booking(s) had no phone number or email address and were skipped.`}
+              </p>
+              {deliveries.length > 0 && (
+                <>
+                  <p className="text-sm text-gray-700 mb-2">
+                    {(Object.keys(DELIVERY_LABELS) as MessageStatus[])
+                      .filter((status) => statusCounts[status])
+                      .map((status) => `${DELIVERY_LABELS[status].label}: ${statusCounts[status]}`)
+                      .join(' · ')}
+                  </p>
+                  <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg">
+                    <table className="min-w-full text-sm">
+                      <tbody>
+                        {deliveries.map((delivery) => (
+                          <tr key={delivery.bookingId} className="border-b border-gray-100">
+                            <td className="px-3 py-2">
+                              <div className="font-medium">{bookingNames[delivery.bookingId] || delivery.bookingId}</div>
+                              <div className="text-xs text-gray-500">{delivery.messages.map((message) => message.to).join(', ')}</div>
+                            </td>
+                            <td className="px-3 py-2 text-right">
+                              <span className={DELIVERY_LABELS[delivery.status].className}>{DELIVERY_LABELS[delivery.status].label}</span>
+                              {delivery.error && <div className="text-xs text-gray-500">{delivery.error}</div>}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
             </div>
           )}
 
@@ -237,11 +368,11 @@ const MessageModal: React.FC<MessageModalProps> = ({ isOpen, onClose, bookings }
             disabled={isSending}
             className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
           >
-            {isSending ? 'Sending...' : 'Close'}
+            {isSending ? 'Queueing...' : 'Close'}
           </button>
           <button
             onClick={() => setShowConfirm(true)}
-            disabled={isSending || !messageTemplate.trim()}
+            disabled={isSending || !canSend || !!sendResults}
             className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
           >
             Send Messages ({bookings.length})
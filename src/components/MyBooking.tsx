@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { BookingSummary, FunctionCallError, lookupBooking } from '../services/paymentService';
+import { formatEventDate } from '../utils/timeUtils';
+import { SlotChangeStatus } from '../services/slotChangeService';
+import SlotChangeRequest from './SlotChangeRequest';
+
+interface MyBookingProps {
+  initialBookingId?: string;
+  onBack: () => void;
+}
+
+const STATUS_LABELS: Record<BookingSummary['status'], { label: string; className: string }> = {
+  confirmed: { label: 'Confirmed', className: 'bg-green-100 text-green-800' },
+  pending: { label: 'Waiting for payment', className: 'bg-yellow-100 text-yellow-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-800' }
+};
+
+const SLOT_CHANGE_LABELS: Record<SlotChangeStatus, string> = {
+  awaiting_payment: 'Waiting for payment of the difference',
+  pending_approval: 'Waiting for the organizers to approve',
+  applied: 'Done',
+  rejected: 'Not approved',
+  expired: 'Not completed'
+};
+
+// Public "Find my booking" page. The lookup is done by the lookupBooking function, which only
+// answers when the booking ID and phone number belong together.
+const MyBooking: React.FC<MyBookingProps> = ({ initialBookingId = '', onBack }) => {
+  const [bookingId, setBookingId] = useState(initialBookingId);
+  const [phone, setPhone] = useState('');
+  const [booking, setBooking] = useState<BookingSummary | null>(null);
+  const [error, setError] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [changingSlots, setChangingSlots] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bookingId.trim() || !phone.trim()) {
+      setError('Please enter your booking ID and phone number');
+      return;
+    }
+
+    setBooking(null);
+    setChangingSlots(false);
+    await findBooking();
+  };
+
+  const findBooking = async () => {
+    setSearching(true);
+    setError('');
+    try {
+      setBooking(await lookupBooking({ bookingId: bookingId.trim(), phone }));
+    } catch (err) {
+      console.error('Booking lookup failed:', err);
+      setError(err instanceof FunctionCallError && err.status < 500 ? err.reason : 'Could not look up your booking. Please try again.');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-xl font-bold text-gray-800">Find My Booking</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Enter the booking ID shown after payment and the phone number you registered with.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Booking ID</label>
+          <input
+            type="text"
+            value={bookingId}
+            onChange={(e) => setBookingId(e.target.value)}
+            placeholder="e.g. order_P8x2..."
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Phone number</label>
+          <input
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="10 digit mobile number"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={searching}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {searching ? 'Searching...' : 'Find booking'}
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {booking && (
+        <div className="bg-gray-50 rounded-lg p-6 space-y-3 text-sm">
+          <div className="flex justify-between items-center">
+            <h4 className="font-semibold text-gray-800">{booking.eventName || 'Your booking'}</h4>
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_LABELS[booking.status].className}`}>
+              {STATUS_LABELS[booking.status].label}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Date:</span>
+            <span className="font-medium">{formatEventDate(booking.date)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Performance:</span>
+            <span className="font-medium">{booking.performanceTypeName}</span>
+          </div>
+          {booking.participantName && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Participant(s):</span>
+              <span className="font-medium text-right">{booking.participantName}</span>
+            </div>
+          )}
+          <div>
+            <span className="text-gray-600">Time Slots:</span>
+            <div className="mt-1">
+              {booking.timeSlots.map((slot) => (
+                <div key={slot} className="font-medium text-right">• {slot}</div>
+              ))}
+            </div>
+          </div>
+          <div className="border-t pt-3 space-y-2">
+            {booking.amount !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Amount:</span>
+                <span className="font-medium">
+                  ₹{booking.amount.toLocaleString()}
+                  {booking.couponCode && ` (code ${booking.couponCode}, ₹${(booking.discount || 0).toLocaleString()} off)`}
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-gray-600">Payment ID:</span>
+              <span className="font-mono">{booking.paymentId || 'Not paid yet'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Booking ID:</span>
+              <span className="font-mono">{booking.bookingId}</span>
+            </div>
+            {booking.refund && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Refund:</span>
+                <span className="font-medium">₹{booking.refund.amount.toLocaleString()} ({booking.refund.status})</span>
+              </div>
+            )}
+          </div>
+          {booking.slotChange && (
+            <div className="border-t pt-3">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Slot change to {booking.slotChange.toSlots.join(', ')}:</span>
+                <span className="font-medium">{SLOT_CHANGE_LABELS[booking.slotChange.status]}</span>
+              </div>
+              {booking.slotChange.reason && ['rejected', 'expired'].includes(booking.slotChange.status) && (
+                <p className="text-xs text-gray-500 mt-1">{booking.slotChange.reason}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {booking?.status === 'confirmed' && booking.slotChange?.status !== 'pending_approval' && (
+        changingSlots ? (
+          <SlotChangeRequest booking={booking} phone={phone} onDone={findBooking} />
+        ) : (
+          <button
+            onClick={() => setChangingSlots(true)}
+            className="px-4 py-2 text-sm font-medium text-blue-700 bg-white border border-blue-300 rounded-lg hover:bg-blue-50 transition-colors"
+          >
+            Change my slots
+          </button>
+        )
+      )}
+
+      <button
+        onClick={onBack}
+        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:border-gray-400 transition-all duration-200 shadow-sm"
+      >
+        ← Back to registration
+      </button>
+    </div>
+  );
+};
+
+export default MyBooking;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { checkPaymentStatus, listenToBookingStatus, cleanupFailedBooking } from '../services/firebaseService';
+import { checkPaymentStatus, listenToBookingStatus } from '../services/firebaseService';
 import { eventConfig } from '../config/eventConfig';
 
 interface PaymentStatusCheckerProps {
@@ -24,7 +24,7 @@ const PaymentStatusChecker: React.FC<PaymentStatusCheckerProps> = ({
   const [status, setStatus] = useState<'checking' | 'confirmed' | 'failed'>('checking');
 
   useEffect(() => {
-    if (!paymentData?.paymentId) {
+    if (!paymentData?.orderId) {
       onStatusFailed('Invalid payment data');
       return;
     }
@@ -35,10 +35,9 @@ const PaymentStatusChecker: React.FC<PaymentStatusCheckerProps> = ({
         if (prev <= 1) {
           clearInterval(countdownInterval);
           setChecking(false);
-          // On timeout, cleanup any pending booking and free slots
-          cleanupFailedBooking(paymentData.paymentId).finally(() => {
-            onStatusFailed('Webhook timeout - payment status unclear');
-          });
+          // The booking stays pending; the webhook can still confirm it, and the server
+          // releases it if the payment never arrives
+          onStatusFailed('Webhook timeout - payment status unclear');
           return 0;
         }
         return prev - 1;
@@ -47,9 +46,9 @@ const PaymentStatusChecker: React.FC<PaymentStatusCheckerProps> = ({
 
     // Listen to booking status changes in real-time
     const unsubscribe = listenToBookingStatus(
-      paymentData.paymentId,
-      (bookingStatus, booking) => {
-        console.log('Booking status update:', bookingStatus, booking);
+      paymentData.orderId,
+      (bookingStatus, errorReason) => {
+        console.log('Booking status update:', bookingStatus, errorReason);
         
         if (bookingStatus === 'confirmed') {
           clearInterval(countdownInterval);
@@ -60,7 +59,7 @@ const PaymentStatusChecker: React.FC<PaymentStatusCheckerProps> = ({
           clearInterval(countdownInterval);
           setStatus('failed');
           setChecking(false);
-          const reason = booking?.originalBookingData?.paymentData?.errorReason || 'Payment was declined or failed';
+          const reason = errorReason || 'Payment was declined or failed';
           onStatusFailed(reason);
         }
       }
@@ -69,7 +68,7 @@ const PaymentStatusChecker: React.FC<PaymentStatusCheckerProps> = ({
     // Also check status immediately and every 3 seconds as fallback
     const statusCheckInterval = setInterval(async () => {
       try {
-        const result = await checkPaymentStatus(paymentData.paymentId);
+        const result = await checkPaymentStatus(paymentData.orderId);
         console.log('Payment status check result:', result);
         
         if (result.status === 'confirmed') {
@@ -83,15 +82,14 @@ const PaymentStatusChecker: React.FC<PaymentStatusCheckerProps> = ({
           clearInterval(statusCheckInterval);
           setStatus('failed');
           setChecking(false);
-          const reason = result.booking?.originalBookingData?.paymentData?.errorReason || 'Payment was declined or failed';
+          const reason = result.errorReason || 'Payment was declined or failed';
           onStatusFailed(reason);
         } else if (result.status === 'not_found') {
-          // If no booking is located for this payment, treat as failure and cleanup defensively
+          // If no booking is located for this order, treat as failure
           clearInterval(countdownInterval);
           clearInterval(statusCheckInterval);
           setStatus('failed');
           setChecking(false);
-          await cleanupFailedBooking(paymentData.paymentId);
           onStatusFailed('Payment could not be verified. Please retry.');
         }
       } catch (error) {
@@ -105,7 +103,7 @@ const PaymentStatusChecker: React.FC<PaymentStatusCheckerProps> = ({
       clearInterval(statusCheckInterval);
       unsubscribe();
     };
-  }, [paymentData?.paymentId, onStatusConfirmed, onStatusFailed]);
+  }, [paymentData?.orderId, onStatusConfirmed, onStatusFailed]);
 
   const selectedType = eventConfig.performanceTypes.find(type => type.id === performanceType);
 
@@ -1,7 +1,15 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
 import { eventConfig } from '../config/eventConfig';
+import { formatParticipantNames, getContactPhone } from '../utils/participantUtils';
+import { getEvent } from '../utils/timeUtils';
+import { lookupBooking } from '../services/paymentService';
+import { downloadReceipt, getSummaryReceiptDetails } from '../services/receiptService';
+import { ARRIVAL_LEAD_MINUTES } from '../services/checkInService';
 
 interface PaymentSuccessProps {
+  eventId: string;
+  date: string;
   selectedSlots: string[];
   performanceType: string;
   participantDetails: Record<string, any>;
@@ -10,6 +18,8 @@ interface PaymentSuccessProps {
 }
 
 const PaymentSuccess: React.FC<PaymentSuccessProps> = ({
+  eventId,
+  date,
   selectedSlots,
   performanceType,
   participantDetails,
@@ -17,22 +27,36 @@ const PaymentSuccess: React.FC<PaymentSuccessProps> = ({
   onNewBooking
 }) => {
   const selectedType = eventConfig.performanceTypes.find(type => type.id === performanceType);
+  const [downloading, setDownloading] = useState(false);
+  const [receiptError, setReceiptError] = useState('');
+  const [qrCode, setQrCode] = useState('');
 
-  const getParticipantName = () => {
-    switch (performanceType) {
-      case 'solo':
-        return participantDetails.fullName || 'N/A';
-      case 'duet':
-        return `${participantDetails.participant1Name || 'N/A'} & ${participantDetails.participant2Name || 'N/A'}`;
-      case 'group':
-        const participantNames = participantDetails.participantNames || '';
-        if (participantNames.trim()) {
-          const participants = participantNames.split(/[,\n]/).filter((name: string) => name.trim());
-          return participants.length > 0 ? participants.join(', ') : 'N/A';
-        }
-        return 'N/A';
-      default:
-        return 'N/A';
+  // QR code of the booking ID, scanned at the check-in desk
+  useEffect(() => {
+    if (!paymentData?.orderId) {
+      return;
+    }
+    QRCode.toDataURL(paymentData.orderId, { margin: 1, width: 240 })
+      .then(setQrCode)
+      .catch((error) => console.error('QR code generation failed:', error));
+  }, [paymentData?.orderId]);
+
+  // The receipt is built from the stored booking, not from what this page was given. Dancers
+  // can't read bookings directly, so it comes through the same lookup as Find my booking.
+  const handleDownloadReceipt = async () => {
+    setDownloading(true);
+    setReceiptError('');
+    try {
+      const summary = await lookupBooking({
+        bookingId: paymentData.orderId,
+        phone: getContactPhone(performanceType, participantDetails),
+      });
+      await downloadReceipt(getSummaryReceiptDetails(summary));
+    } catch (error) {
+      console.error('Receipt download failed:', error);
+      setReceiptError('Could not create your receipt. Please try again in a moment.');
+    } finally {
+      setDownloading(false);
     }
   };
 
@@ -57,6 +81,18 @@ const PaymentSuccess: React.FC<PaymentSuccessProps> = ({
             <p className="text-sm text-green-700">
               <span className="font-medium">Payment ID:</span> {paymentData.paymentId}
             </p>
+            {paymentData.orderId && (
+              <p className="text-sm text-green-700">
+                <span className="font-medium">Booking ID:</span> {paymentData.orderId}
+              </p>
+            )}
+          </div>
+        )}
+
+        {qrCode && (
+          <div className="flex flex-col items-center">
+            <img src={qrCode} alt={`QR code for booking ${paymentData.orderId}`} className="w-40 h-40" />
+            <p className="text-xs text-gray-500">Show this at the check-in desk</p>
           </div>
         )}
       </div>
@@ -65,9 +101,13 @@ const PaymentSuccess: React.FC<PaymentSuccessProps> = ({
       <div className="bg-gray-50 rounded-lg p-6 text-left max-w-md mx-auto">
         <h4 className="font-semibold text-gray-800 mb-4 text-center">Booking Details</h4>
         <div className="space-y-3 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Event:</span>
+            <span className="font-medium">{getEvent(eventId)?.name}</span>
+          </div>
           <div className="flex justify-between">
             <span className="text-gray-600">Date:</span>
-            <span className="font-medium">{new Date(eventConfig.eventDate).toLocaleDateString()}</span>
+            <span className="font-medium">{new Date(date).toLocaleDateString()}</span>
           </div>
           <div className="flex justify-between">
             <span className="text-gray-600">Performance:</span>
@@ -75,7 +115,7 @@ const PaymentSuccess: React.FC<PaymentSuccessProps> = ({
           </div>
           <div className="flex justify-between">
             <span className="text-gray-600">Participant(s):</span>
-            <span className="font-medium text-right">{getParticipantName()}</span>
+            <span className="font-medium text-right">{formatParticipantNames(performanceType, participantDetails)}</span>
           </div>
           <div>
             <span className="text-gray-600">Time Slots:</span>
@@ -100,12 +140,34 @@ const PaymentSuccess: React.FC<PaymentSuccessProps> = ({
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 max-w-md mx-auto">
         <h4 className="font-medium text-blue-800 mb-2">What's Next?</h4>
         <ul className="text-sm text-blue-700 space-y-1 text-left">
-          <li>• Please arrive 15 minutes before your first time slot</li>
-          <li>• Bring a screenshot of this confirmation for verification</li>
+          <li>• Please arrive {ARRIVAL_LEAD_MINUTES} minutes before your first time slot</li>
+          <li>• Bring your receipt or this QR code (printed or on your phone) to check in at the desk</li>
+          {paymentData?.orderId && (
+            <li>
+              • To see your booking again, go to{' '}
+              <a href={`/my-booking?booking=${encodeURIComponent(paymentData.orderId)}`} className="underline">
+                Find my booking
+              </a>{' '}
+              with your booking ID and phone number
+            </li>
+          )}
           <li>• Contact us if you have any questions</li>
         </ul>
       </div>
 
+      {paymentData?.orderId && (
+        <div>
+          <button
+            onClick={handleDownloadReceipt}
+            disabled={downloading}
+            className="px-6 py-3 mr-3 bg-white text-blue-700 border border-blue-300 rounded-md hover:bg-blue-50 transition-colors font-medium disabled:opacity-50"
+          >
+            {downloading ? 'Preparing receipt...' : 'Download receipt (PDF)'}
+          </button>
+          {receiptError && <p className="text-sm text-red-600 mt-2">{receiptError}</p>}
+        </div>
+      )}
+
       {/* Action Button */}
       <button
         onClick={onNewBooking}
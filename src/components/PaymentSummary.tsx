@@ -1,20 +1,37 @@
 import React, { useState } from 'react';
 import { eventConfig } from '../config/eventConfig';
-import { getPriceForSlot, getPricingTier, getTierDisplayName } from '../utils/timeUtils';
+import { formatEventDate, getEvent, getPriceForSlot, getPricingTier, getTierDisplayName } from '../utils/timeUtils';
+import { formatParticipantNames, getContactPhone, getParticipantCount, getParticipantNames } from '../utils/participantUtils';
+import {
+  CouponPreview,
+  FunctionCallError,
+  createPendingBooking,
+  loadRazorpayScript,
+  openRazorpayCheckout,
+  previewCoupon
+} from '../services/paymentService';
 
 interface PaymentSummaryProps {
+  eventId: string;
+  date: string;
   selectedSlots: string[];
   performanceType: string;
   participantDetails: Record<string, any>;
+  holdOwner: string; // Owner of the slot hold, turned into the booking when Pay is clicked
+  holdExpiresAt?: number | null; // When the hold on the selected slots runs out (epoch ms)
   onBack: () => void;
   onPaymentSuccess: (paymentData: any) => void;
   onPaymentFailure: (errorData: any) => void;
 }
 
 const PaymentSummary: React.FC<PaymentSummaryProps> = ({
+  eventId,
+  date,
   selectedSlots,
   performanceType,
   participantDetails,
+  holdOwner,
+  holdExpiresAt,
   onBack,
   onPaymentSuccess,
   onPaymentFailure
@@ -22,6 +39,10 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
   // All hooks must be called at the top level, before any conditional returns
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
+  const [couponInput, setCouponInput] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<CouponPreview | null>(null);
+  const [couponError, setCouponError] = useState('');
+  const [checkingCoupon, setCheckingCoupon] = useState(false);
   
   const selectedType = eventConfig.performanceTypes.find(type => type.id === performanceType);
   
@@ -29,27 +50,7 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
     return <div>Invalid performance type.</div>;
   }
 
-  const getParticipantCount = () => {
-    switch (performanceType) {
-      case 'solo':
-        return 1;
-      case 'duet':
-        return 2;
-      case 'group':
-        // Count participants from the textarea (assuming comma or newline separated)
-        const participantNames = participantDetails.participantNames || '';
-        if (participantNames.trim()) {
-          // Split by comma or newline and count non-empty entries
-          const participants = participantNames.split(/[,\n]/).filter((name: string) => name.trim()).length;
-          return Math.max(participants, 1); // At least 1 participant
-        }
-        return 3; // Default group size
-      default:
-        return 1;
-    }
-  };
-
-  const participantCount = getParticipantCount();
+  const participantCount = getParticipantCount(performanceType, participantDetails);
   
   // Calculate total cost using time-based pricing
   const calculateTotalCost = () => {
@@ -59,7 +60,9 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
     }, 0);
   };
   
-  const totalCost = calculateTotalCost();
+  const fullCost = calculateTotalCost();
+  // With a code applied, the server's discounted price is what will be charged
+  const totalCost = appliedCoupon ? appliedCoupon.amount : fullCost;
 
   // Get slot pricing breakdown for display
   const getSlotPricingBreakdown = () => {
@@ -70,55 +73,45 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
     }));
   };
 
-  const getParticipantDisplayName = () => {
-    switch (performanceType) {
-      case 'solo':
-        return participantDetails.fullName || 'N/A';
-      case 'duet':
-        return `${participantDetails.participant1Name || 'N/A'} & ${participantDetails.participant2Name || 'N/A'}`;
-      case 'group':
-        const participantNames = participantDetails.participantNames || '';
-        if (participantNames.trim()) {
-          const participants = participantNames.split(/[,\n]/).filter((name: string) => name.trim());
-          return participants.length > 0 ? participants.join(', ') : 'N/A';
-        }
-        return 'N/A';
-      default:
-        return 'N/A';
-    }
-  };
+  const getSlotDiscount = (slot: string) =>
+    appliedCoupon?.breakdown.find(item => item.slot === slot)?.discount || 0;
 
-  // Payment functions
-  const loadRazorpayScript = () => {
-    return new Promise((resolve) => {
-      const script = document.createElement('script');
-      script.src = 'https://checkout.razorpay.com/v1/checkout.js';
-      script.onload = () => resolve(true);
-      script.onerror = () => resolve(false);
-      document.body.appendChild(script);
-    });
+  const orderRequest = {
+    eventId,
+    date,
+    timeSlots: selectedSlots,
+    performanceType,
+    participantDetails,
+    holdOwner,
   };
 
-  const getParticipantName = () => {
-    switch (performanceType) {
-      case 'solo':
-        return participantDetails.fullName || 'N/A';
-      case 'duet':
-        return participantDetails.participant1Name || 'N/A';
-      case 'group':
-        const participantNames = participantDetails.participantNames || '';
-        if (participantNames.trim()) {
-          const participants = participantNames.split(/[,\n]/).filter((name: string) => name.trim());
-          return participants[0] || 'N/A';
-        }
-        return 'N/A';
-      default:
-        return 'N/A';
+  const handleApplyCoupon = async () => {
+    if (!couponInput.trim()) {
+      return;
     }
+
+    setCheckingCoupon(true);
+    setCouponError('');
+    try {
+      setAppliedCoupon(await previewCoupon({ ...orderRequest, couponCode: couponInput }));
+    } catch (err: any) {
+      console.error('🏷️ Coupon rejected:', err);
+      setAppliedCoupon(null);
+      setCouponError(err instanceof FunctionCallError ? err.reason : 'Could not check this code. Please try again.');
+    } finally {
+      setCheckingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponInput('');
+    setCouponError('');
   };
 
+  // Payment functions
   const getContactInfo = () => {
-    const phone = participantDetails.phoneNumber || participantDetails.participant1Phone || participantDetails.representativePhone || '';
+    const phone = getContactPhone(performanceType, participantDetails);
     const email = participantDetails.email || '';
     return { phone, email };
   };
@@ -128,7 +121,11 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
     setError('');
 
     try {
-      // Load Razorpay script
+      if (holdExpiresAt && holdExpiresAt <= Date.now()) {
+        throw new Error('Your slot hold has expired. Please go back and select your slots again.');
+      }
+
+      // Load Razorpay script before the pending booking is created
       const isScriptLoaded = await loadRazorpayScript();
       
       if (!isScriptLoaded) {
@@ -137,63 +134,46 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
 
       const { phone, email } = getContactInfo();
       
-      // Create order using direct Firebase Function URL
-      const projectId = process.env.REACT_APP_FIREBASE_PROJECT_ID;
-      if (!projectId) {
-        throw new Error('Firebase Project ID not configured. Please check environment variables.');
-      }
-      
-      const functionUrl = `https://us-central1-${projectId}.cloudfunctions.net/createRazorpayOrder`;
-      console.log('🌐 Creating order via Firebase Function:', functionUrl);
-      
-      const orderResp = await fetch(functionUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          amount: totalCost * 100,
-          currency: 'INR',
-          notes: {
-            performance_type: performanceType,
-            time_slots: selectedSlots.join(', '),
-            participant_count: participantCount.toString(),
-          },
-        }),
-      });
-      
-      if (!orderResp.ok) {
-        const errorText = await orderResp.text();
-        throw new Error(`Order creation failed: ${orderResp.status} - ${errorText}`);
+      // Create the pending booking and its order; the server prices it from the registration details
+      let pendingBooking;
+      try {
+        pendingBooking = await createPendingBooking({ ...orderRequest, couponCode: appliedCoupon?.couponCode });
+      } catch (err) {
+        // The code may have been used up or deactivated since it was applied
+        if (appliedCoupon && err instanceof FunctionCallError && err.status === 409) {
+          setAppliedCoupon(null);
+          setCouponError(err.reason);
+          throw new Error(`${err.reason}. The total has been updated without the discount.`);
+        }
+        throw err;
       }
-      
-      const data = await orderResp.json();
-      const orderId = data?.order?.id;
-      
-      if (!orderId) {
-        throw new Error('Order created but no order ID returned from backend');
+      const { order, amount, bookingId } = pendingBooking;
+
+      if (amount !== totalCost) {
+        console.warn('⚠️ Server amount differs from displayed total:', amount, totalCost);
       }
-      
-      console.log('✅ Order created successfully:', orderId);
 
-      const options: any = {
-        key: process.env.REACT_APP_RAZORPAY_KEY_ID || 'rzp_test_your_key_here',
-        amount: totalCost * 100,
-        currency: 'INR',
-        name: eventConfig.eventName,
+      await openRazorpayCheckout({
+        amount: order.amount,
+        currency: order.currency,
+        name: getEvent(eventId)?.name || eventConfig.eventName,
         description: `${selectedType.name} Performance Registration`,
-        image: '/logo192.png',
-        order_id: orderId,
-        handler: function (response: any) {
+        order_id: order.id,
+        // Close checkout before cleanupExpiredBookings can release the pending booking (seconds)
+        timeout: eventConfig.slotHoldMinutes * 60,
+        handler: function (response) {
           console.log('🎉 Payment Success:', response);
           onPaymentSuccess({
             paymentId: response.razorpay_payment_id,
             orderId: response.razorpay_order_id,
             signature: response.razorpay_signature,
-            amount: totalCost,
-            currency: 'INR'
+            bookingId,
+            amount,
+            currency: order.currency
           });
         },
         prefill: {
-          name: getParticipantName(),
+          name: getParticipantNames(performanceType, participantDetails)[0] || 'N/A',
           email: email,
           contact: phone
         },
@@ -202,19 +182,12 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
           time_slots: selectedSlots.join(', '),
           participant_count: participantCount.toString()
         },
-        theme: {
-          color: '#2563eb'
-        },
         modal: {
           ondismiss: function() {
             setLoading(false);
           }
         }
-      };
-
-      const razorpay = new (window as any).Razorpay(options);
-      
-      razorpay.on('payment.failed', function (response: any) {
+      }, function (response) {
         console.log('❌ Payment Failed:', response);
         onPaymentFailure({
           error: response.error,
@@ -223,7 +196,6 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
         });
       });
 
-      razorpay.open();
       setLoading(false);
       
     } catch (err: any) {
@@ -248,7 +220,7 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
             <h4 className="font-medium text-gray-700 mb-2">Performance Details</h4>
             <div className="space-y-1 text-sm text-gray-600">
               <p><span className="font-medium">Type:</span> {selectedType.name}</p>
-              <p><span className="font-medium">Participant(s):</span> {getParticipantDisplayName()}</p>
+              <p><span className="font-medium">Participant(s):</span> {formatParticipantNames(performanceType, participantDetails)}</p>
               <p><span className="font-medium">Dance Style:</span> {participantDetails.performanceCategory || 'N/A'}</p>
             </div>
           </div>
@@ -256,6 +228,8 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
           <div>
             <h4 className="font-medium text-gray-700 mb-2">Time Slots</h4>
             <div className="space-y-1 text-sm text-gray-600">
+              <p><span className="font-medium">Event:</span> {getEvent(eventId)?.name}</p>
+              <p><span className="font-medium">Date:</span> {formatEventDate(date)}</p>
               <p><span className="font-medium">Selected:</span> {selectedSlots.length} slot{selectedSlots.length !== 1 ? 's' : ''}</p>
               <p><span className="font-medium">Times:</span></p>
               <div className="ml-4">
@@ -286,7 +260,12 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
                 {getSlotPricingBreakdown().map((slotInfo, index) => (
                   <div key={index} className="flex justify-between items-center">
                     <span>{slotInfo.slot} × {participantCount} person{participantCount !== 1 ? 's' : ''}</span>
-                    <span>₹{(slotInfo.price * participantCount).toLocaleString()}</span>
+                    <span>
+                      {getSlotDiscount(slotInfo.slot) > 0 && (
+                        <span className="line-through text-slate-400 mr-2">₹{(slotInfo.price * participantCount).toLocaleString()}</span>
+                      )}
+                      ₹{(slotInfo.price * participantCount - getSlotDiscount(slotInfo.slot)).toLocaleString()}
+                    </span>
                   </div>
                 ))}
               </div>
@@ -306,12 +285,18 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
               <span>Number of slots:</span>
               <span>{selectedSlots.length}</span>
             </div>
+            {appliedCoupon && (
+              <div className="flex justify-between items-center text-sm text-green-700">
+                <span>Discount ({appliedCoupon.couponCode}):</span>
+                <span>−₹{appliedCoupon.discount.toLocaleString()}</span>
+              </div>
+            )}
             <div className="border-t pt-2 mt-2">
               <div className="flex justify-between items-center text-base font-medium">
                 <span>Total Amount:</span>
                 <span className="text-slate-700">₹{totalCost.toLocaleString()}</span>
               </div>
-              {!eventConfig.timePricing?.enabled && (
+              {!eventConfig.timePricing?.enabled && !appliedCoupon && (
                 <p className="text-xs text-slate-500 mt-1">
                   ₹{selectedType.pricePerPerson} × {participantCount} person{participantCount !== 1 ? 's' : ''} × {selectedSlots.length} slot{selectedSlots.length !== 1 ? 's' : ''}
                 </p>
@@ -321,12 +306,53 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
         </div>
       </div>
 
+      {/* Discount code */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <label className="block text-sm font-medium text-gray-700 mb-2">Have a discount code?</label>
+        {appliedCoupon ? (
+          <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-md px-3 py-2">
+            <span className="text-sm text-green-800">
+              <span className="font-mono font-semibold">{appliedCoupon.couponCode}</span> applied - you save ₹{appliedCoupon.discount.toLocaleString()}
+            </span>
+            <button
+              onClick={handleRemoveCoupon}
+              disabled={loading}
+              className="text-sm font-medium text-green-800 hover:text-green-900 disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </div>
+        ) : (
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={couponInput}
+              onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+              onKeyDown={(e) => e.key === 'Enter' && handleApplyCoupon()}
+              placeholder="Enter code"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono uppercase"
+            />
+            <button
+              onClick={handleApplyCoupon}
+              disabled={checkingCoupon || loading || !couponInput.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-slate-700 rounded-md hover:bg-slate-800 transition-colors disabled:opacity-50"
+            >
+              {checkingCoupon ? 'Checking...' : 'Apply'}
+            </button>
+          </div>
+        )}
+        {couponError && <p className="text-sm text-red-600 mt-2">{couponError}</p>}
+      </div>
+
       <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
         <h4 className="font-medium text-yellow-800 mb-2">Payment Instructions</h4>
         <ul className="text-sm text-yellow-700 space-y-1">
           <li>• Please complete the payment using UPI or any preferred method</li>
           <li>• Amount to pay: ₹{totalCost.toLocaleString()}</li>
           <li>• Your booking will be confirmed after payment verification</li>
+          {holdExpiresAt && (
+            <li>• Your slots are held until {new Date(holdExpiresAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true })} - please complete payment before then</li>
+          )}
         </ul>
       </div>
 
@@ -1,5 +1,6 @@
 import React from 'react';
 import { eventConfig, PerformanceType } from '../config/eventConfig';
+import { describeParticipantLimits } from '../utils/participantUtils';
 
 interface PerformanceTypeSelectorProps {
   selectedType: string;
@@ -61,7 +62,10 @@ const PerformanceTypeSelector: React.FC<PerformanceTypeSelectorProps> = ({
                   }}
                 />
               </div>
-              <h4 className="text-lg sm:text-xl font-bold text-slate-800 font-heading">{type.name}</h4>
+              <div>
+                <h4 className="text-lg sm:text-xl font-bold text-slate-800 font-heading">{type.name}</h4>
+                <p className="text-xs sm:text-sm text-slate-500">{describeParticipantLimits(type)}</p>
+              </div>
             </div>
           </button>
         ))}
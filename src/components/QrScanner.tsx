@@ -0,0 +1,83 @@
+import React, { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+
+interface QrScannerProps {
+  onScan: (text: string) => void;
+}
+
+// Reads QR codes from the device's back camera. Frames are decoded with jsQR so it works in
+// browsers without the BarcodeDetector API, such as Safari on iPads.
+const QrScanner: React.FC<QrScannerProps> = ({ onScan }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState('');
+
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frameId = 0;
+    let lastCode = '';
+    let stopped = false;
+
+    const scanFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (stopped || !video || !canvas) {
+        return;
+      }
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+          // The same code stays in view for many frames; report it once
+          if (code?.data && code.data !== lastCode) {
+            lastCode = code.data;
+            onScanRef.current(code.data.trim());
+          }
+        }
+      }
+      frameId = requestAnimationFrame(scanFrame);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        frameId = requestAnimationFrame(scanFrame);
+      } catch (err) {
+        console.error('Camera unavailable:', err);
+        setError('Could not open the camera. Allow camera access or type the booking ID instead.');
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frameId);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <video ref={videoRef} muted playsInline className="w-full max-w-md rounded-lg bg-black aspect-video object-cover" />
+      <canvas ref={canvasRef} className="hidden" />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default QrScanner;
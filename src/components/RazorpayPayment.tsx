@@ -1,25 +1,28 @@
 import React, { useState } from 'react';
 import { eventConfig } from '../config/eventConfig';
-
-declare global {
-  interface Window {
-    Razorpay: any;
-  }
-}
+import { getEvent, getPriceForSlot } from '../utils/timeUtils';
+import { getContactPhone, getParticipantCount, getParticipantNames } from '../utils/participantUtils';
+import { createPendingBooking, loadRazorpayScript, openRazorpayCheckout, OrderResponse } from '../services/paymentService';
 
 interface RazorpayPaymentProps {
+  eventId: string;
+  date: string;
   selectedSlots: string[];
   performanceType: string;
   participantDetails: Record<string, any>;
+  holdOwner: string;
   onPaymentSuccess: (paymentData: any) => void;
   onPaymentFailure: (error: any) => void;
   onBack: () => void;
 }
 
 const RazorpayPayment: React.FC<RazorpayPaymentProps> = ({
+  eventId,
+  date,
   selectedSlots,
   performanceType,
   participantDetails,
+  holdOwner,
   onPaymentSuccess,
   onPaymentFailure,
   onBack
@@ -33,61 +36,18 @@ const RazorpayPayment: React.FC<RazorpayPaymentProps> = ({
     return <div>Invalid performance type.</div>;
   }
 
-  const getParticipantCount = () => {
-    switch (performanceType) {
-      case 'solo':
-        return 1;
-      case 'duet':
-        return 2;
-      case 'group':
-        const participantNames = participantDetails.participantNames || '';
-        if (participantNames.trim()) {
-          const participants = participantNames.split(/[,\n]/).filter((name: string) => name.trim()).length;
-          return Math.max(participants, 1);
-        }
-        return 3;
-      default:
-        return 1;
-    }
-  };
-
-  const participantCount = getParticipantCount();
-  const totalAmount = selectedSlots.length * selectedType.pricePerPerson * participantCount;
-
-  const getParticipantName = () => {
-    switch (performanceType) {
-      case 'solo':
-        return participantDetails.fullName || 'N/A';
-      case 'duet':
-        return participantDetails.participant1Name || 'N/A';
-      case 'group':
-        const participantNames = participantDetails.participantNames || '';
-        if (participantNames.trim()) {
-          const participants = participantNames.split(/[,\n]/).filter((name: string) => name.trim());
-          return participants[0] || 'N/A';
-        }
-        return 'N/A';
-      default:
-        return 'N/A';
-    }
-  };
+  const participantCount = getParticipantCount(performanceType, participantDetails);
+  const totalAmount = selectedSlots.reduce(
+    (total, slot) => total + getPriceForSlot(slot, performanceType) * participantCount,
+    0
+  );
 
   const getContactInfo = () => {
-    const phone = participantDetails.phoneNumber || participantDetails.participant1Phone || participantDetails.representativePhone || '';
+    const phone = getContactPhone(performanceType, participantDetails);
     const email = participantDetails.email || '';
     return { phone, email };
   };
 
-  const loadRazorpayScript = () => {
-    return new Promise((resolve) => {
-      const script = document.createElement('script');
-      script.src = 'https://checkout.razorpay.com/v1/checkout.js';
-      script.onload = () => resolve(true);
-      script.onerror = () => resolve(false);
-      document.body.appendChild(script);
-    });
-  };
-
   const handlePayment = async () => {
     setLoading(true);
     setError('');
@@ -102,61 +62,20 @@ const RazorpayPayment: React.FC<RazorpayPaymentProps> = ({
 
       const { phone, email } = getContactInfo();
       
-      // Create order on backend with auto-capture - CRITICAL for auto-capture to work
-      console.log('🚀 Creating Razorpay order for amount:', totalAmount * 100, 'paise');
-      let orderId: string | undefined;
-
-      // Create order function
-      const createOrder = async (url: string) => {
-        try {
-          console.log('🌐 Calling Firebase Function at:', url);
-          
-          const orderResp = await fetch(url, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              amount: totalAmount * 100,
-              currency: 'INR',
-              notes: {
-                performance_type: performanceType,
-                time_slots: selectedSlots.join(', '),
-                participant_count: participantCount.toString(),
-              },
-            }),
-          });
-          
-          console.log('📡 Order creation response status:', orderResp.status);
-          console.log('📡 Order creation response headers:', Object.fromEntries(orderResp.headers.entries()));
-          
-          if (orderResp.ok) {
-            const data = await orderResp.json();
-            console.log('✅ Order created successfully:', data);
-            return data?.order?.id;
-          } else {
-            const errorText = await orderResp.text();
-            console.error('❌ Order creation failed with status:', orderResp.status);
-            console.error('❌ Order creation error response:', errorText);
-            throw new Error(`Order creation failed: ${orderResp.status} - ${errorText}`);
-          }
-        } catch (error: any) {
-          console.error('❌ Order creation failed:', error);
-          throw error;
-        }
-      };
+      // Create order on backend with auto-capture - CRITICAL for auto-capture to work.
+      // The server prices the order from the registration details and creates the pending booking.
+      console.log('🚀 Creating Razorpay order for', selectedSlots.length, 'slot(s)');
+      let orderData: OrderResponse;
 
-      // Create order using direct Firebase Function URL
-      // This approach works reliably in both local development and production
-      // No more relative URL fallback needed - direct function calls work everywhere
       try {
-        const projectId = process.env.REACT_APP_FIREBASE_PROJECT_ID;
-        if (!projectId) {
-          throw new Error('Firebase Project ID not configured. Please check environment variables.');
-        }
-        
-        const functionUrl = `https://us-central1-${projectId}.cloudfunctions.net/createRazorpayOrder`;
-        console.log('🌐 Creating order via Firebase Function:', functionUrl);
-        
-        orderId = await createOrder(functionUrl);
+        orderData = await createPendingBooking({
+          eventId,
+          date,
+          timeSlots: selectedSlots,
+          performanceType,
+          participantDetails,
+          holdOwner,
+        });
         console.log('✅ Order created successfully via Firebase Function');
       } catch (orderError: any) {
         console.error('💥 CRITICAL: Order creation failed:', orderError.message);
@@ -167,36 +86,30 @@ const RazorpayPayment: React.FC<RazorpayPaymentProps> = ({
         return; // Stop payment process - don't proceed without order
       }
 
-      if (!orderId) {
-        const errorMsg = 'Order ID is missing after successful order creation';
-        console.error('💥 CRITICAL:', errorMsg);
-        setError(errorMsg);
-        setLoading(false);
-        return;
-      }
+      const { order, amount, bookingId } = orderData;
+      const orderId = order.id;
 
       console.log('🎬 Opening Razorpay payment modal with order ID:', orderId);
 
-      const options: any = {
-        key: process.env.REACT_APP_RAZORPAY_KEY_ID || 'rzp_test_your_key_here', // Replace with your Razorpay key
-        amount: totalAmount * 100, // Amount in paise
-        currency: 'INR',
-        name: eventConfig.eventName,
+      await openRazorpayCheckout({
+        amount: order.amount, // Amount in paise, as priced by the server
+        currency: order.currency,
+        name: getEvent(eventId)?.name || eventConfig.eventName,
         description: `${selectedType.name} Performance Registration`,
-        image: '/logo192.png', // Your logo
         order_id: orderId, // ✅ ALWAYS use order ID - required for auto-capture
-        handler: function (response: any) {
+        handler: function (response) {
           console.log('🎉 Payment Success:', response);
           onPaymentSuccess({
             paymentId: response.razorpay_payment_id,
             orderId: response.razorpay_order_id,
             signature: response.razorpay_signature,
-            amount: totalAmount,
-            currency: 'INR'
+            bookingId,
+            amount,
+            currency: order.currency
           });
         },
         prefill: {
-          name: getParticipantName(),
+          name: getParticipantNames(performanceType, participantDetails)[0] || 'N/A',
           email: email,
           contact: phone
         },
@@ -205,20 +118,13 @@ const RazorpayPayment: React.FC<RazorpayPaymentProps> = ({
           time_slots: selectedSlots.join(', '),
           participant_count: participantCount.toString()
         },
-        theme: {
-          color: '#2563eb'
-        },
         modal: {
           ondismiss: function() {
             setLoading(false);
             // Don't treat modal dismissal as failure
           }
         }
-      };
-
-      const razorpay = new window.Razorpay(options);
-      
-      razorpay.on('payment.failed', function (response: any) {
+      }, function (response) {
         console.log('❌ Payment Failed:', response);
         onPaymentFailure({
           error: response.error,
@@ -227,7 +133,6 @@ const RazorpayPayment: React.FC<RazorpayPaymentProps> = ({
         });
       });
 
-      razorpay.open();
       // Popup opened, reset loading state
       setLoading(false);
       
@@ -266,10 +171,6 @@ const RazorpayPayment: React.FC<RazorpayPaymentProps> = ({
             <span className="text-gray-600">Time Slots:</span>
             <span className="font-medium">{selectedSlots.length}</span>
           </div>
-          <div className="flex justify-between">
-            <span className="text-gray-600">Price per person per slot:</span>
-            <span className="font-medium">₹{selectedType.pricePerPerson}</span>
-          </div>
           
           <div className="border-t pt-2 mt-3">
             <div className="flex justify-between items-center">
@@ -277,7 +178,7 @@ const RazorpayPayment: React.FC<RazorpayPaymentProps> = ({
               <span className="text-xl font-bold text-gray-900">₹{totalAmount.toLocaleString()}</span>
             </div>
             <p className="text-xs text-gray-500 mt-1 text-right">
-              ₹{selectedType.pricePerPerson} × {participantCount} × {selectedSlots.length}
+              Priced per slot × {participantCount} participant{participantCount !== 1 ? 's' : ''}
             </p>
           </div>
         </div>
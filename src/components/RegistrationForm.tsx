@@ -1,5 +1,37 @@
 import React, { useState } from 'react';
-import { eventConfig, PerformanceType } from '../config/eventConfig';
+import { eventConfig, FormField, MessageChannel, PerformanceType, PHONE_VALIDATION } from '../config/eventConfig';
+import { validateParticipantCount } from '../utils/participantUtils';
+import { getVisibleFields, getVisibleValues, validateFieldValue, validateFile } from '../utils/formFieldUtils';
+import { uploadFormFile } from '../services/firebaseService';
+import { CHANNEL_LABELS } from '../services/notificationChannels';
+
+// A member while being typed in; age becomes a number when the form is submitted
+interface MemberEntry {
+  name: string;
+  age: string;
+  phone: string;
+}
+
+const emptyMember = (): MemberEntry => ({ name: '', age: '', phone: '' });
+
+// The members sub-form, checked like any other form field
+const MEMBER_FIELDS: Record<keyof MemberEntry, FormField> = {
+  name: { id: 'name', label: 'Name', type: 'text', required: true },
+  age: { id: 'age', label: 'Age', type: 'number', required: true, validation: { min: 3, max: 90 } },
+  phone: { id: 'phone', label: 'Phone', type: 'tel', required: false, validation: PHONE_VALIDATION }
+};
+
+// Asked for when a dancer chooses email updates on a form without an email field of its own
+const CONTACT_EMAIL_FIELD: FormField = {
+  id: 'email',
+  label: 'Email for booking updates',
+  type: 'email',
+  required: false,
+  placeholder: 'Your answer'
+};
+
+// Uploaded files are stored as formUploads/{fieldId}/{timestamp}_{fileName}
+const getUploadedFileName = (path: string) => path.split('/').pop()!.replace(/^\d+_/, '');
 
 interface RegistrationFormProps {
   performanceType: string;
@@ -12,107 +44,145 @@ const RegistrationForm: React.FC<RegistrationFormProps> = ({
   onSubmit, 
   onBack 
 }) => {
+  const selectedType = eventConfig.performanceTypes.find(type => type.id === performanceType);
+  const hasMembers = selectedType?.participants.mode === 'members';
+
   const [formData, setFormData] = useState<Record<string, any>>({});
+  const [members, setMembers] = useState<MemberEntry[]>(() =>
+    hasMembers ? Array.from({ length: selectedType!.minParticipants }, emptyMember) : []
+  );
   const [errors, setErrors] = useState<Record<string, string>>({});
-
-  const selectedType = eventConfig.performanceTypes.find(type => type.id === performanceType);
+  const [uploading, setUploading] = useState<Record<string, boolean>>({});
+  // Where booking updates go; choosing email asks for an address if the form has none
+  const [contactChannel, setContactChannel] = useState<MessageChannel>('whatsapp');
 
   if (!selectedType) {
     return <div>Invalid performance type selected.</div>;
   }
 
-  const handleInputChange = (fieldId: string, value: any) => {
+  const visibleFields = getVisibleFields(selectedType.formFields, formData);
+
+  const handleInputChange = (field: FormField, value: any) => {
     setFormData(prev => ({
       ...prev,
-      [fieldId]: value
+      [field.id]: value
     }));
     
     // Real-time validation
     if (value && value.toString().trim() !== '') {
-      const fieldValidation = validateField(fieldId, value.toString().trim());
       setErrors(prev => ({
         ...prev,
-        [fieldId]: fieldValidation
+        [field.id]: validateFieldValue(field, value)
       }));
     } else {
       // Clear error when user starts typing
-      if (errors[fieldId]) {
+      if (errors[field.id]) {
         setErrors(prev => ({
           ...prev,
-          [fieldId]: ''
+          [field.id]: ''
         }));
       }
     }
   };
 
-  // Validation functions
-  const validateAge = (age: string): string => {
-    const ageNum = parseInt(age);
-    if (isNaN(ageNum)) {
-      return 'Age must be a number';
+  const handleFileChange = async (field: FormField, file?: File) => {
+    if (!file) {
+      handleInputChange(field, '');
+      return;
     }
-    if (ageNum < 3 || ageNum > 90) {
-      return 'Age must be between 3 and 90';
+
+    const fileError = validateFile(field, file);
+    if (fileError) {
+      setErrors(prev => ({ ...prev, [field.id]: fileError }));
+      return;
     }
-    return '';
-  };
 
-  const validatePhoneNumber = (phone: string): string => {
-    const phoneRegex = /^\d{10}$/;
-    if (!phoneRegex.test(phone)) {
-      return 'Phone number must be exactly 10 digits';
+    setUploading(prev => ({ ...prev, [field.id]: true }));
+    try {
+      handleInputChange(field, await uploadFormFile(file, field.id));
+    } catch (error) {
+      console.error('Error uploading file:', error);
+      setErrors(prev => ({ ...prev, [field.id]: 'Upload failed. Please try again.' }));
+    } finally {
+      setUploading(prev => ({ ...prev, [field.id]: false }));
     }
-    return '';
   };
 
-  const validateEmail = (email: string): string => {
-    if (!email) return ''; // Email is optional
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
-      return 'Please enter a valid email address';
-    }
-    return '';
+  const validateMember = (member: MemberEntry, index: number): Record<string, string> => {
+    const memberErrors: Record<string, string> = {};
+    (Object.keys(MEMBER_FIELDS) as (keyof MemberEntry)[]).forEach(key => {
+      const error = validateFieldValue(MEMBER_FIELDS[key], member[key]);
+      if (error) {
+        memberErrors[`members.${index}.${key}`] = error;
+      }
+    });
+    return memberErrors;
   };
 
-  const validateField = (fieldId: string, value: string): string => {
-    // Age validation
-    if (fieldId === 'age') {
-      return validateAge(value);
-    }
-    
-    // Phone number validation
-    if (fieldId.includes('phone') || fieldId.includes('Phone')) {
-      return validatePhoneNumber(value);
-    }
-    
-    // Email validation
-    if (fieldId === 'email') {
-      return validateEmail(value);
+  const handleMemberChange = (index: number, field: keyof MemberEntry, value: string) => {
+    setMembers(prev => prev.map((member, i) => (i === index ? { ...member, [field]: value } : member)));
+
+    // Clear the error while the member is being corrected; it is checked again on submit
+    const errorKey = `members.${index}.${field}`;
+    if (errors[errorKey]) {
+      setErrors(prev => ({ ...prev, [errorKey]: '' }));
     }
-    
-    return '';
   };
 
+  const addMember = () => {
+    setMembers(prev => [...prev, emptyMember()]);
+    setErrors(prev => ({ ...prev, members: '' }));
+  };
+
+  // Error keys are positional, so clear them when a member is removed
+  const removeMember = (index: number) => {
+    setMembers(prev => prev.filter((_, i) => i !== index));
+    setErrors(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => !key.startsWith('members'))));
+  };
+
+  // Members as stored on the booking
+  const getSubmittedMembers = () =>
+    members.map(member => ({
+      name: member.name.trim(),
+      age: parseInt(member.age),
+      ...(member.phone ? { phone: member.phone } : {})
+    }));
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
-    selectedType.formFields.forEach(field => {
-      const value = formData[field.id] || '';
-      
-      // Required field validation
-      if (field.required && (!value || value.toString().trim() === '')) {
-        newErrors[field.id] = `${field.label} is required`;
+    // Hidden fields are neither required nor checked
+    visibleFields.forEach(field => {
+      const fieldError = uploading[field.id]
+        ? 'Please wait for the upload to finish'
+        : validateFieldValue(field, formData[field.id]);
+      if (fieldError) {
+        newErrors[field.id] = fieldError;
       }
-      
-      // Specific field validations
-      if (value && value.toString().trim() !== '') {
-        const fieldValidation = validateField(field.id, value.toString().trim());
-        if (fieldValidation) {
-          newErrors[field.id] = fieldValidation;
-        }
+    });
+
+    if (usesContactEmailField()) {
+      const emailError = validateFieldValue(CONTACT_EMAIL_FIELD, formData.email);
+      if (emailError) {
+        newErrors.email = emailError;
       }
+    }
+
+    if (contactChannel === 'email' && !newErrors.email && !formData.email?.trim()) {
+      newErrors.email = 'Add an email address to get booking updates by email';
+    }
+
+    members.forEach((member, index) => {
+      Object.assign(newErrors, validateMember(member, index));
     });
 
+    // Names must fit the type's participant limits, e.g. 3 to 12 for a group
+    const countErrorKey = hasMembers ? 'members' : selectedType.participants.nameFields[0];
+    const countError = validateParticipantCount(performanceType, { ...formData, members: getSubmittedMembers() });
+    if (countError && !newErrors[countErrorKey]) {
+      newErrors[countErrorKey] = countError;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -121,81 +191,145 @@ const RegistrationForm: React.FC<RegistrationFormProps> = ({
     e.preventDefault();
     
     if (validateForm()) {
-      onSubmit(formData);
+      const answers = {
+        ...getVisibleValues(selectedType.formFields, formData),
+        ...(usesContactEmailField() ? { email: formData.email.trim() } : {}),
+        contactChannel
+      };
+      onSubmit(hasMembers ? { ...answers, members: getSubmittedMembers() } : answers);
     }
   };
 
-  const renderField = (field: any) => {
-    const value = formData[field.id] || '';
-    const error = errors[field.id];
+  const renderFieldError = (error?: string) =>
+    error && (
+      <div className="flex items-center space-x-2 text-red-600">
+        <svg className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+        </svg>
+        <p className="text-xs sm:text-sm font-medium">{error}</p>
+      </div>
+    );
 
-    if (field.type === 'textarea') {
-      return (
-        <div key={field.id} className="space-y-2 sm:space-y-3">
-          <label className="block text-xs sm:text-sm font-semibold text-slate-700">
-            {field.label}
-            {field.required && <span className="text-red-500 ml-1">*</span>}
-          </label>
+  const choiceClass = 'flex items-center space-x-2 sm:space-x-3 p-2 sm:p-3 rounded-lg hover:bg-rose-50 transition-colors cursor-pointer';
+  const choiceInputClass = 'w-4 h-4 sm:w-5 sm:h-5 text-rose-600 border-2 border-slate-300 focus:ring-rose-500 focus:ring-2 transition-all duration-200';
+
+  const renderControl = (field: FormField, value: any, error?: string) => {
+    const inputClass = `
+      w-full px-3 sm:px-4 py-2 sm:py-3 border-2 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-rose-500 focus:border-rose-500 transition-all duration-300 text-sm sm:text-base
+      ${error ? 'border-red-400 bg-red-50' : 'border-slate-200 hover:border-rose-300'}
+    `;
+
+    switch (field.type) {
+      case 'textarea':
+        return (
           <textarea
             value={value}
-            onChange={(e) => handleInputChange(field.id, e.target.value)}
+            onChange={(e) => handleInputChange(field, e.target.value)}
             placeholder={field.placeholder}
             rows={4}
-            className={`
-              w-full px-3 sm:px-4 py-2 sm:py-3 border-2 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-rose-500 focus:border-rose-500 transition-all duration-300 text-sm sm:text-base
-              ${error ? 'border-red-400 bg-red-50' : 'border-slate-200 hover:border-rose-300'}
-            `}
+            className={inputClass}
           />
-          {error && (
-            <div className="flex items-center space-x-2 text-red-600">
-              <svg className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-              </svg>
-              <p className="text-xs sm:text-sm font-medium">{error}</p>
-            </div>
-          )}
-        </div>
-      );
-    }
+        );
 
-    if (field.type === 'checkbox') {
-      return (
-        <div key={field.id} className="space-y-2 sm:space-y-3">
-          <label className="block text-xs sm:text-sm font-semibold text-slate-700">
-            {field.label}
-            {field.required && <span className="text-red-500 ml-1">*</span>}
-          </label>
+      case 'checkbox':
+        // Answered Yes or No; ticking one clears the other
+        return (
           <div className="space-y-2 sm:space-y-3">
-            <label className="flex items-center space-x-2 sm:space-x-3 p-2 sm:p-3 rounded-lg hover:bg-rose-50 transition-colors cursor-pointer">
-              <input
-                type="checkbox"
-                checked={value === 'Yes'}
-                onChange={(e) => handleInputChange(field.id, e.target.checked ? 'Yes' : '')}
-                className="w-4 h-4 sm:w-5 sm:h-5 text-rose-600 border-2 border-slate-300 rounded focus:ring-rose-500 focus:ring-2 transition-all duration-200"
-              />
-              <span className="text-xs sm:text-sm font-medium text-slate-700">Yes</span>
-            </label>
-            <label className="flex items-center space-x-2 sm:space-x-3 p-2 sm:p-3 rounded-lg hover:bg-rose-50 transition-colors cursor-pointer">
-              <input
-                type="checkbox"
-                checked={value === 'No'}
-                onChange={(e) => handleInputChange(field.id, e.target.checked ? 'No' : '')}
-                className="w-4 h-4 sm:w-5 sm:h-5 text-rose-600 border-2 border-slate-300 rounded focus:ring-rose-500 focus:ring-2 transition-all duration-200"
-              />
-              <span className="text-xs sm:text-sm font-medium text-slate-700">No</span>
-            </label>
+            {['Yes', 'No'].map(answer => (
+              <label key={answer} className={choiceClass}>
+                <input
+                  type="checkbox"
+                  checked={value === answer}
+                  onChange={(e) => handleInputChange(field, e.target.checked ? answer : '')}
+                  className={`${choiceInputClass} rounded`}
+                />
+                <span className="text-xs sm:text-sm font-medium text-slate-700">{answer}</span>
+              </label>
+            ))}
           </div>
-          {error && (
-            <div className="flex items-center space-x-2 text-red-600">
-              <svg className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-              </svg>
-              <p className="text-xs sm:text-sm font-medium">{error}</p>
-            </div>
-          )}
-        </div>
-      );
+        );
+
+      case 'radio':
+        return (
+          <div className="space-y-2 sm:space-y-3">
+            {(field.options || []).map(option => (
+              <label key={option} className={choiceClass}>
+                <input
+                  type="radio"
+                  name={field.id}
+                  checked={value === option}
+                  onChange={() => handleInputChange(field, option)}
+                  className={choiceInputClass}
+                />
+                <span className="text-xs sm:text-sm font-medium text-slate-700">{option}</span>
+              </label>
+            ))}
+          </div>
+        );
+
+      case 'select':
+        return (
+          <select
+            value={value}
+            onChange={(e) => handleInputChange(field, e.target.value)}
+            className={`${inputClass} bg-white`}
+          >
+            <option value="">{field.placeholder || 'Select an option'}</option>
+            {(field.options || []).map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+
+      case 'file':
+        return (
+          <div className="space-y-2">
+            <input
+              type="file"
+              accept={field.accept}
+              disabled={uploading[field.id]}
+              onChange={(e) => handleFileChange(field, e.target.files?.[0])}
+              className="block w-full text-xs sm:text-sm text-slate-600 file:mr-3 file:px-4 file:py-2 file:rounded-full file:border-0 file:bg-rose-100 file:text-rose-700 file:font-semibold hover:file:bg-rose-200"
+            />
+            {uploading[field.id] && <p className="text-xs sm:text-sm text-slate-500">Uploading...</p>}
+            {value && !uploading[field.id] && (
+              <p className="text-xs sm:text-sm text-green-700">✓ Uploaded {getUploadedFileName(value)}</p>
+            )}
+          </div>
+        );
+
+      default:
+        // text, number, tel, email and date
+        return (
+          <input
+            type={field.type}
+            value={value}
+            onChange={(e) => {
+              if (field.type === 'tel') {
+                // Only allow numeric characters for phone fields
+                const numericValue = e.target.value.replace(/[^0-9]/g, '');
+                handleInputChange(field, numericValue);
+              } else {
+                handleInputChange(field, e.target.value);
+              }
+            }}
+            placeholder={field.placeholder}
+            min={field.type === 'number' ? field.validation?.min : undefined}
+            max={field.type === 'number' ? field.validation?.max : undefined}
+            maxLength={field.validation?.maxLength}
+            inputMode={field.type === 'tel' ? 'numeric' : undefined}
+            pattern={field.type === 'tel' ? '[0-9]*' : undefined}
+            className={inputClass}
+          />
+        );
     }
+  };
+
+  const renderField = (field: FormField) => {
+    const value = formData[field.id] || '';
+    const error = errors[field.id];
 
     return (
       <div key={field.id} className="space-y-2 sm:space-y-3">
@@ -203,65 +337,139 @@ const RegistrationForm: React.FC<RegistrationFormProps> = ({
           {field.label}
           {field.required && <span className="text-red-500 ml-1">*</span>}
         </label>
-        <input
-          type={field.type}
-          value={value}
-          onChange={(e) => {
-            if (field.type === 'tel') {
-              // Only allow numeric characters for phone fields
-              const numericValue = e.target.value.replace(/[^0-9]/g, '');
-              handleInputChange(field.id, numericValue);
-            } else {
-              handleInputChange(field.id, e.target.value);
-            }
-          }}
-          placeholder={field.placeholder}
-          inputMode={field.type === 'tel' ? 'numeric' : undefined}
-          pattern={field.type === 'tel' ? '[0-9]*' : undefined}
-          className={`
-            w-full px-3 sm:px-4 py-2 sm:py-3 border-2 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-rose-500 focus:border-rose-500 transition-all duration-300 text-sm sm:text-base
-            ${error ? 'border-red-400 bg-red-50' : 'border-slate-200 hover:border-rose-300'}
-          `}
-        />
-        {error && (
-          <div className="flex items-center space-x-2 text-red-600">
-            <svg className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
-              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-            </svg>
-            <p className="text-xs sm:text-sm font-medium">{error}</p>
-          </div>
-        )}
+        {renderControl(field, value, error)}
+        {renderFieldError(error)}
       </div>
     );
   };
 
+  const renderContactChannel = () => (
+    <div className="space-y-2 sm:space-y-3">
+      <label className="block text-xs sm:text-sm font-semibold text-slate-700">Send booking updates by</label>
+      <div className="flex flex-wrap gap-2 sm:gap-4">
+        {(Object.keys(CHANNEL_LABELS) as MessageChannel[]).map(channel => (
+          <label key={channel} className={choiceClass}>
+            <input
+              type="radio"
+              name="contactChannel"
+              checked={contactChannel === channel}
+              onChange={() => {
+                setContactChannel(channel);
+                setErrors(prev => ({ ...prev, email: '' }));
+              }}
+              className={choiceInputClass}
+            />
+            <span className="text-xs sm:text-sm font-medium text-slate-700">{CHANNEL_LABELS[channel]}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  const memberInputClass = (errorKey: string) => `
+    w-full px-3 py-2 border-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-rose-500 focus:border-rose-500 transition-all duration-300 text-sm
+    ${errors[errorKey] ? 'border-red-400 bg-red-50' : 'border-slate-200 hover:border-rose-300'}
+  `;
+
+  const renderMembers = () => (
+    <div className="space-y-3 sm:space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="block text-xs sm:text-sm font-semibold text-slate-700">
+          Members ({selectedType.minParticipants}–{selectedType.maxParticipants})
+          <span className="text-red-500 ml-1">*</span>
+        </label>
+        <span className="text-xs sm:text-sm text-slate-500">{members.length} added</span>
+      </div>
+      {members.map((member, index) => (
+        <div key={index} className="p-3 sm:p-4 bg-white/70 rounded-lg border border-rose-200/60 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs sm:text-sm font-semibold text-slate-600">Member {index + 1}</span>
+            {members.length > selectedType.minParticipants && (
+              <button
+                type="button"
+                onClick={() => removeMember(index)}
+                className="text-xs sm:text-sm font-medium text-red-600 hover:text-red-700"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-6 gap-2 sm:gap-3">
+            <div className="sm:col-span-3 space-y-1">
+              <input
+                type="text"
+                value={member.name}
+                onChange={(e) => handleMemberChange(index, 'name', e.target.value)}
+                placeholder="Full name"
+                className={memberInputClass(`members.${index}.name`)}
+              />
+              {renderFieldError(errors[`members.${index}.name`])}
+            </div>
+            <div className="sm:col-span-1 space-y-1">
+              <input
+                type="number"
+                value={member.age}
+                onChange={(e) => handleMemberChange(index, 'age', e.target.value)}
+                placeholder="Age"
+                className={memberInputClass(`members.${index}.age`)}
+              />
+              {renderFieldError(errors[`members.${index}.age`])}
+            </div>
+            <div className="sm:col-span-2 space-y-1">
+              <input
+                type="tel"
+                value={member.phone}
+                onChange={(e) => handleMemberChange(index, 'phone', e.target.value.replace(/[^0-9]/g, ''))}
+                placeholder="Phone (optional)"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                className={memberInputClass(`members.${index}.phone`)}
+              />
+              {renderFieldError(errors[`members.${index}.phone`])}
+            </div>
+          </div>
+        </div>
+      ))}
+      {members.length < selectedType.maxParticipants && (
+        <button
+          type="button"
+          onClick={addMember}
+          className="px-4 py-2 text-sm font-medium text-rose-700 bg-white border border-rose-300 rounded-lg hover:bg-rose-50 transition-all duration-200"
+        >
+          + Add member
+        </button>
+      )}
+      {renderFieldError(errors.members)}
+    </div>
+  );
+
   const getParticipantFields = () => {
-    return selectedType.formFields.filter(field => 
+    return visibleFields.filter(field => 
       field.id.includes('participant') || 
       field.id.includes('Phone') || 
       field.id === 'fullName' ||
       field.id === 'phoneNumber' ||
-      field.id === 'representativePhone' ||
-      field.id === 'participantNames'
+      field.id === 'representativePhone'
     );
   };
 
   const getCommonFields = () => {
-    return selectedType.formFields.filter(field => 
+    return visibleFields.filter(field => 
       !field.id.includes('participant') && 
       !field.id.includes('Phone') && 
       field.id !== 'fullName' &&
       field.id !== 'phoneNumber' &&
       field.id !== 'representativePhone' &&
-      field.id !== 'participantNames' &&
       field.id !== 'email'
     );
   };
 
   const getEmailField = () => {
-    return selectedType.formFields.find(field => field.id === 'email');
+    return visibleFields.find(field => field.id === 'email');
   };
 
+  const usesContactEmailField = () => contactChannel === 'email' && !getEmailField();
+
   return (
     <div className="space-y-6 sm:space-y-8">
       {/* Header without Back Button */}
@@ -282,14 +490,17 @@ const RegistrationForm: React.FC<RegistrationFormProps> = ({
               <span className="text-white text-xs sm:text-sm font-bold">👥</span>
             </div>
             <h4 className="text-lg sm:text-xl font-bold text-slate-800 font-heading">
-              {performanceType === 'solo' ? 'Participant Information' : 
-               performanceType === 'duet' ? 'Participants Information' : 
+              {selectedType.maxParticipants === 1 ? 'Participant Information' :
+               selectedType.participants.mode === 'fields' ? 'Participants Information' :
                'Group Information'}
             </h4>
           </div>
           <div className="space-y-4 sm:space-y-6">
+            {hasMembers && renderMembers()}
             {getParticipantFields().map(renderField)}
             {getEmailField() && renderField(getEmailField()!)}
+            {renderContactChannel()}
+            {usesContactEmailField() && renderField(CONTACT_EMAIL_FIELD)}
           </div>
         </div>
 
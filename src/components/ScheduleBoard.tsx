@@ -0,0 +1,276 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Booking, subscribeToSlots } from '../services/firebaseService';
+import { subscribeToBookingsForDate, toLocalDate } from '../services/checkInService';
+import {
+  applyScheduleDelay,
+  buildRunningOrder,
+  getItemDelay,
+  getRunningOrderNow,
+  ScheduleItem,
+  ScheduleSettings,
+  sendDelayNotices,
+  subscribeToSchedule
+} from '../services/scheduleService';
+import { eventConfig } from '../config/eventConfig';
+import { formatEventDate, getSlotDocId, minutesToTime } from '../utils/timeUtils';
+
+interface ScheduleBoardProps {
+  canEditDelay: boolean;
+}
+
+const eventDays = eventConfig.events.flatMap((event) => event.days.map((day) => ({ event, day })));
+
+// Today's event day if there is one, otherwise the first
+const getDefaultDayId = () => {
+  const today = toLocalDate(new Date());
+  const match = eventDays.find(({ day }) => day.date === today) || eventDays[0];
+  return match ? getSlotDocId(match.event.id, match.day.date) : '';
+};
+
+// Read-only running order for the stage manager, with a projector mode for the wings
+const ScheduleBoard: React.FC<ScheduleBoardProps> = ({ canEditDelay }) => {
+  const boardRef = useRef<HTMLDivElement>(null);
+  const [dayId, setDayId] = useState(getDefaultDayId);
+  const [slots, setSlots] = useState<Record<string, string>>({});
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [settings, setSettings] = useState<ScheduleSettings>({ delayMinutes: 0 });
+  const [now, setNow] = useState(new Date());
+  const [projecting, setProjecting] = useState(false);
+  const [delayDraft, setDelayDraft] = useState({ minutes: 0, fromSlot: '' });
+  const [savingDelay, setSavingDelay] = useState(false);
+  const [noticeStatus, setNoticeStatus] = useState('');
+  const [error, setError] = useState('');
+
+  const selectedDay = eventDays.find(({ event, day }) => getSlotDocId(event.id, day.date) === dayId);
+  const eventId = selectedDay?.event.id || '';
+  const date = selectedDay?.day.date || '';
+
+  useEffect(() => {
+    if (!eventId || !date) {
+      return;
+    }
+    const unsubscribeSlots = subscribeToSlots(eventId, date, setSlots);
+    const unsubscribeBookings = subscribeToBookingsForDate(date, (dayBookings) =>
+      setBookings(dayBookings.filter((booking) => booking.eventId === eventId))
+    );
+    const unsubscribeSchedule = subscribeToSchedule(getSlotDocId(eventId, date), (updated) => {
+      setSettings(updated);
+      setDelayDraft({ minutes: updated.delayMinutes || 0, fromSlot: updated.delayFromSlot || '' });
+    });
+    return () => {
+      unsubscribeSlots();
+      unsubscribeBookings();
+      unsubscribeSchedule();
+    };
+  }, [eventId, date]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 15 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Esc leaves full screen without going through our button
+  useEffect(() => {
+    const handleFullscreenChange = () => setProjecting(document.fullscreenElement === boardRef.current);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  const toggleProjector = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await boardRef.current?.requestFullscreen();
+      }
+    } catch (err) {
+      console.error('Full screen unavailable:', err);
+      setError('This browser would not go full screen. Press F11 instead.');
+    }
+  };
+
+  // Record the delay, then message the dancers whose time moved far enough
+  const handleUpdateDelay = async () => {
+    setError('');
+    setNoticeStatus('');
+    setSavingDelay(true);
+    try {
+      const toNotify = await applyScheduleDelay(eventId, date, Math.max(0, delayDraft.minutes), delayDraft.fromSlot);
+      if (toNotify.length > 0) {
+        setNoticeStatus(`Queueing messages for ${toNotify.length} booking(s)...`);
+        const result = await sendDelayNotices(date, toNotify);
+        setNoticeStatus(
+          `Update queued for ${result.queued} booking(s)${result.skipped ? `; ${result.skipped} had no phone number or email address` : ''}.`
+        );
+      } else {
+        setNoticeStatus(`Saved. Nobody's time moved by ${eventConfig.delayNotifyMinutes} minutes or more, so no messages were sent.`);
+      }
+    } catch (err) {
+      console.error('Error saving delay:', err);
+      setError('Failed to save the delay or queue the messages. Please try again.');
+    } finally {
+      setSavingDelay(false);
+    }
+  };
+
+  const items = buildRunningOrder(slots, bookings);
+  const delay = settings.delayMinutes || 0;
+  const isToday = date === toLocalDate(now);
+  const { current, next, later } = isToday
+    ? getRunningOrderNow(items, now.getHours() * 60 + now.getMinutes(), settings)
+    : { current: null, next: items[0] || null, later: items.slice(1) };
+
+  const formatStart = (item: ScheduleItem) => {
+    const planned = minutesToTime(item.start);
+    const itemDelay = getItemDelay(item, settings);
+    return itemDelay > 0 ? `${minutesToTime(item.start + itemDelay)} (was ${planned})` : planned;
+  };
+
+  const describeAct = (item: ScheduleItem) => (item.names.length > 0 ? item.names.join(', ') : 'Booked slot');
+
+  const text = projecting
+    ? { heading: 'text-4xl', act: 'text-6xl', detail: 'text-3xl', row: 'text-3xl', time: 'w-48' }
+    : { heading: 'text-sm', act: 'text-2xl', detail: 'text-base', row: 'text-base', time: 'w-24' };
+
+  const renderFeatured = (label: string, item: ScheduleItem | null, emptyText: string, className: string) => (
+    <div className={`rounded-xl p-6 ${className}`}>
+      <p className={`${text.heading} uppercase tracking-wide font-semibold opacity-70`}>{label}</p>
+      {item ? (
+        <>
+          <p className={`${text.act} font-bold mt-2`}>{describeAct(item)}</p>
+          <p className={`${text.detail} mt-1`}>
+            {item.performanceTypeName ? `${item.performanceTypeName} · ` : ''}
+            {formatStart(item)} · {item.slots.length * eventConfig.slotDuration} min
+          </p>
+        </>
+      ) : (
+        <p className={`${text.act} font-bold mt-2 opacity-60`}>{emptyText}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">Running order</h3>
+          <p className="text-sm text-slate-500">Built live from the slot map and confirmed bookings.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={dayId}
+            onChange={(e) => setDayId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {eventDays.map(({ event, day }) => (
+              <option key={getSlotDocId(event.id, day.date)} value={getSlotDocId(event.id, day.date)}>
+                {event.name} · {formatEventDate(day.date)}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={toggleProjector}
+            className="px-4 py-2 bg-slate-800 text-white rounded-md text-sm hover:bg-slate-900 transition-colors"
+          >
+            Projector mode
+          </button>
+        </div>
+      </div>
+
+      {canEditDelay && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-slate-700">Running late by</span>
+          <input
+            type="number"
+            min={0}
+            step={5}
+            value={delayDraft.minutes}
+            onChange={(e) => setDelayDraft({ ...delayDraft, minutes: Number(e.target.value) })}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+          />
+          <span className="text-slate-700">minutes from</span>
+          <select
+            value={delayDraft.fromSlot}
+            onChange={(e) => setDelayDraft({ ...delayDraft, fromSlot: e.target.value })}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          >
+            <option value="">the start of the day</option>
+            {items
+              .filter((item) => item.kind === 'act')
+              .map((item) => (
+                <option key={item.slots[0]} value={item.slots[0]}>
+                  {item.slots[0]} · {describeAct(item)}
+                </option>
+              ))}
+          </select>
+          <button
+            onClick={handleUpdateDelay}
+            disabled={savingDelay}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {savingDelay ? 'Saving...' : 'Update delay'}
+          </button>
+          {settings.updatedBy && <span className="text-xs text-slate-400">Last set by {settings.updatedBy}</span>}
+          {noticeStatus && <p className="w-full text-slate-600">{noticeStatus}</p>}
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div ref={boardRef} className={`space-y-6 ${projecting ? 'bg-slate-900 text-white p-12 overflow-y-auto' : ''}`}>
+        {projecting && (
+          <div className="flex justify-between items-baseline">
+            <h2 className="text-5xl font-bold">{selectedDay?.event.name || eventConfig.eventName}</h2>
+            <p className="text-4xl font-mono">{minutesToTime(now.getHours() * 60 + now.getMinutes())}</p>
+          </div>
+        )}
+        {delay > 0 && (
+          <p className={`${text.detail} font-semibold ${projecting ? 'text-amber-300' : 'text-amber-700'}`}>
+            Running {delay} minutes late{settings.delayFromSlot ? ` from ${settings.delayFromSlot}` : ''}. Times shown include the delay.
+          </p>
+        )}
+
+        {items.length === 0 ? (
+          <p className="text-sm text-slate-500">No confirmed bookings for this day yet.</p>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              {isToday &&
+                renderFeatured(
+                  'Now performing',
+                  current,
+                  'Nobody on stage',
+                  projecting ? 'bg-green-700' : 'bg-green-50 border border-green-200 text-green-900'
+                )}
+              {renderFeatured(
+                isToday ? 'Next up' : 'First act',
+                next,
+                'No more acts today',
+                projecting ? 'bg-blue-700' : 'bg-blue-50 border border-blue-200 text-blue-900'
+              )}
+            </div>
+
+            {later.length > 0 && (
+              <ol className={`divide-y ${projecting ? 'divide-slate-700' : 'divide-slate-100'}`}>
+                {later.map((item) => (
+                  <li key={`${item.kind}_${item.start}`} className={`flex gap-6 py-2 ${text.row}`}>
+                    <span className={`font-mono shrink-0 ${text.time}`}>{minutesToTime(item.start + getItemDelay(item, settings))}</span>
+                    {item.kind === 'break' ? (
+                      <span className="italic opacity-60">Break · {item.slots.length * eventConfig.slotDuration} min</span>
+                    ) : (
+                      <span>
+                        <span className="font-medium">{describeAct(item)}</span>
+                        {item.performanceTypeName && <span className="opacity-60"> · {item.performanceTypeName}</span>}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleBoard;
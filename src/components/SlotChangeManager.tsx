@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { reviewSlotChange } from '../services/paymentService';
+import { SlotChange, SlotChangeStatus, subscribeToSlotChanges } from '../services/slotChangeService';
+import { getEvent } from '../utils/timeUtils';
+import { eventConfig } from '../config/eventConfig';
+
+interface SlotChangeManagerProps {
+  canReview: boolean;
+}
+
+const STATUS_LABELS: Record<SlotChangeStatus, { label: string; className: string }> = {
+  awaiting_payment: { label: 'Awaiting payment', className: 'text-yellow-700' },
+  pending_approval: { label: 'Needs approval', className: 'text-blue-700' },
+  applied: { label: 'Applied', className: 'text-green-700' },
+  rejected: { label: 'Rejected', className: 'text-slate-400' },
+  expired: { label: 'Expired', className: 'text-slate-400' }
+};
+
+const smallButtonClass = 'px-2 py-1 text-xs rounded border border-slate-300 text-slate-700 hover:bg-slate-100 transition-colors';
+
+const SlotChangeManager: React.FC<SlotChangeManagerProps> = ({ canReview }) => {
+  const [changes, setChanges] = useState<SlotChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showClosed, setShowClosed] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    return subscribeToSlotChanges((updated) => {
+      setChanges(updated);
+      setLoading(false);
+    });
+  }, []);
+
+  const handleReview = async (change: SlotChange, approve: boolean) => {
+    let reason: string | undefined;
+    if (approve) {
+      if (!window.confirm(`Move ${change.participantName || change.bookingId} to ${change.toSlots.join(', ')}?`)) {
+        return;
+      }
+    } else {
+      const refundNote = change.paymentId ? ` The ₹${change.amountDue.toLocaleString()} paid for it will be refunded.` : '';
+      const answer = window.prompt(`Reject this slot change?${refundNote} Reason (shown to the dancer):`, '');
+      if (answer === null) {
+        return;
+      }
+      reason = answer.trim() || undefined;
+    }
+
+    setReviewingId(change.id);
+    try {
+      await reviewSlotChange({ changeId: change.id, approve, reason });
+    } catch (error) {
+      console.error('Error reviewing slot change:', error);
+      alert(`Failed to ${approve ? 'approve' : 'reject'} slot change: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const visibleChanges = showClosed ? changes : changes.filter((change) => ['awaiting_payment', 'pending_approval'].includes(change.status));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">Slot changes</h3>
+          <p className="text-sm text-slate-500">
+            Dancers move their confirmed bookings from "Find my booking".{' '}
+            {eventConfig.slotChangesNeedApproval
+              ? 'Each change waits here for approval once any difference is paid.'
+              : 'Changes apply as soon as any difference is paid; turn on approval in Settings to review them first.'}
+          </p>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} />
+          <span>Show applied, rejected and expired</span>
+        </label>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Loading slot changes...</p>
+      ) : visibleChanges.length === 0 ? (
+        <p className="text-sm text-slate-500">No open slot change requests.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-600 border-b border-slate-200">
+                <th className="py-2 pr-4">Requested</th>
+                <th className="py-2 pr-4">Dancer</th>
+                <th className="py-2 pr-4">Day</th>
+                <th className="py-2 pr-4">From</th>
+                <th className="py-2 pr-4">To</th>
+                <th className="py-2 pr-4">Paid</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleChanges.map((change) => (
+                <tr key={change.id} className="border-b border-slate-100">
+                  <td className="py-2 pr-4 whitespace-nowrap">{change.createdAt?.toDate().toLocaleString() || ''}</td>
+                  <td className="py-2 pr-4">
+                    <div className="font-medium">{change.participantName}</div>
+                    <div className="text-xs text-slate-500 font-mono">{change.bookingId}</div>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <div>{(change.eventId && getEvent(change.eventId)?.name) || change.eventId}</div>
+                    <div className="text-xs text-slate-500">{change.date}</div>
+                  </td>
+                  <td className="py-2 pr-4">{change.fromSlots.join(', ')}</td>
+                  <td className="py-2 pr-4">{change.toSlots.join(', ')}</td>
+                  <td className="py-2 pr-4">
+                    {change.amountDue > 0 ? `₹${change.amountDue.toLocaleString()}${change.paymentId ? '' : ' (due)'}` : '—'}
+                    {change.refund && <div className="text-xs text-slate-500">Refund {change.refund.status}</div>}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <span className={STATUS_LABELS[change.status].className}>{STATUS_LABELS[change.status].label}</span>
+                    {change.reason && <div className="text-xs text-slate-500">{change.reason}</div>}
+                    {change.reviewedBy && <div className="text-xs text-slate-400">by {change.reviewedBy}</div>}
+                  </td>
+                  <td className="py-2 space-x-2 whitespace-nowrap">
+                    {canReview && change.status === 'pending_approval' && (
+                      <>
+                        <button onClick={() => handleReview(change, true)} disabled={reviewingId === change.id} className={smallButtonClass}>
+                          Approve
+                        </button>
+                        <button onClick={() => handleReview(change, false)} disabled={reviewingId === change.id} className={smallButtonClass}>
+                          Reject
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SlotChangeManager;
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { SlotConflictError, subscribeToSlots } from '../services/firebaseService';
+import { BookingSummary, FunctionCallError, RazorpayOrder, openRazorpayCheckout, requestSlotChange, verifyPayment } from '../services/paymentService';
+import { SlotChangeStatus } from '../services/slotChangeService';
+import { getEvent, getPriceForSlot, isAdjacentSlot, sortTimeSlots, timeToMinutes } from '../utils/timeUtils';
+import { eventConfig } from '../config/eventConfig';
+
+interface SlotChangeRequestProps {
+  booking: BookingSummary;
+  phone: string; // The phone number the booking was looked up with
+  onDone: () => void; // Called once the request is settled, to look the booking up again
+}
+
+const RESULT_MESSAGES: Partial<Record<SlotChangeStatus, string>> = {
+  applied: 'Your booking has been moved to the new slots.',
+  pending_approval: 'Your request has been sent to the organizers. The new slots are held for you until they decide.',
+  expired: 'The new slots were taken before your payment arrived. The difference you paid will be refunded.'
+};
+
+// Lets a dancer move a confirmed booking to other free slots of the same day. Moving to dearer
+// slots is paid for through Razorpay; moving to cheaper ones is free and not refunded.
+const SlotChangeRequest: React.FC<SlotChangeRequestProps> = ({ booking, phone, onDone }) => {
+  const [slots, setSlots] = useState<Record<string, string>>({});
+  const [selectedSlots, setSelectedSlots] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState('');
+
+  const slotCount = booking.timeSlots.length;
+  const eventId = booking.eventId || '';
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSlots(eventId, booking.date, (updatedSlots) => {
+      setSlots(sortTimeSlots(updatedSlots));
+    });
+    return () => unsubscribe();
+  }, [eventId, booking.date]);
+
+  // The booking's own slots can be kept; anything else must be free
+  const isSelectable = (timeSlot: string) =>
+    booking.timeSlots.includes(timeSlot) || slots[timeSlot] === 'available';
+
+  const handleSlotClick = (timeSlot: string) => {
+    if (selectedSlots.includes(timeSlot)) {
+      setSelectedSlots(selectedSlots.filter((slot) => slot !== timeSlot));
+    } else if (selectedSlots.length < slotCount && selectedSlots.some((slot) => isAdjacentSlot(slot, timeSlot))) {
+      setSelectedSlots([...selectedSlots, timeSlot].sort((a, b) => timeToMinutes(a) - timeToMinutes(b)));
+    } else {
+      // Start a new continuous selection
+      setSelectedSlots([timeSlot]);
+    }
+    setError('');
+  };
+
+  // Same rule as the server: the difference in list price for every participant
+  const listPrice = (timeSlots: string[]) =>
+    timeSlots.reduce((total, slot) => total + getPriceForSlot(slot, booking.performanceType), 0);
+  const estimatedDue =
+    Math.max(0, listPrice(selectedSlots) - listPrice(booking.timeSlots)) * (booking.participantCount || 1);
+
+  const payDifference = async (order: RazorpayOrder) => {
+    await openRazorpayCheckout({
+      amount: order.amount,
+      currency: order.currency,
+      name: getEvent(eventId)?.name || eventConfig.eventName,
+      description: `Slot change to ${selectedSlots.join(', ')}`,
+      order_id: order.id,
+      handler: async (response) => {
+        try {
+          const { status } = await verifyPayment(response);
+          setResult(RESULT_MESSAGES[status as SlotChangeStatus] || 'Payment received. Your booking will be updated shortly.');
+        } catch (err) {
+          console.error('Slot change payment verification failed:', err);
+          setResult('Payment received. Your booking will be updated shortly.');
+        }
+        setSubmitting(false);
+        onDone();
+      },
+      modal: {
+        ondismiss: () => {
+          setSubmitting(false);
+          setError('Payment cancelled. The new slots stay held for a few minutes if you want to try again.');
+        }
+      }
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (selectedSlots.length !== slotCount) {
+      setError(`Please choose ${slotCount} continuous slot(s)`);
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const response = await requestSlotChange({ bookingId: booking.bookingId, phone, timeSlots: selectedSlots });
+      if (response.order) {
+        await payDifference(response.order);
+        return;
+      }
+      setResult(RESULT_MESSAGES[response.status] || '');
+      setSubmitting(false);
+      onDone();
+    } catch (err) {
+      console.error('Slot change request failed:', err);
+      if (err instanceof SlotConflictError) {
+        setSelectedSlots([]);
+        setError(`${err.lostSlots.join(', ')} just went to someone else. Please choose again.`);
+      } else if (err instanceof FunctionCallError && err.status < 500) {
+        setError(err.reason);
+      } else {
+        setError(err instanceof Error ? err.message : 'Could not change your slots. Please try again.');
+      }
+      setSubmitting(false);
+    }
+  };
+
+  if (result) {
+    return <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">{result}</div>;
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div>
+        <h4 className="font-semibold text-gray-800">Change my slots</h4>
+        <p className="text-sm text-gray-600 mt-1">
+          Pick {slotCount} continuous slot(s) on the same day. If they cost more you pay the difference; moving to cheaper slots is free
+          {eventConfig.slotChangesNeedApproval ? ', and the organizers approve every change' : ''}.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 md:grid-cols-6">
+        {Object.keys(slots).map((timeSlot) => {
+          const selectable = isSelectable(timeSlot);
+          const selected = selectedSlots.includes(timeSlot);
+          const current = booking.timeSlots.includes(timeSlot);
+          return (
+            <button
+              key={timeSlot}
+              onClick={() => handleSlotClick(timeSlot)}
+              disabled={!selectable || submitting}
+              className={`p-2 text-xs font-medium rounded-lg border-2 transition-all duration-200 ${
+                selected
+                  ? 'border-blue-500 bg-blue-500 text-white'
+                  : selectable
+                  ? `text-gray-700 bg-white hover:border-blue-500 hover:bg-blue-50 ${current ? 'border-green-400' : 'border-gray-200'}`
+                  : 'border-gray-200 bg-gray-100 text-gray-400 cursor-not-allowed'
+              }`}
+              title={current ? 'Your current slot' : `₹${getPriceForSlot(timeSlot, booking.performanceType)} per person`}
+            >
+              {timeSlot}
+            </button>
+          );
+        })}
+      </div>
+
+      {selectedSlots.length === slotCount && (
+        <p className="text-sm text-gray-700">
+          {estimatedDue > 0 ? `To pay: ₹${estimatedDue.toLocaleString()}` : 'Nothing to pay for this change.'}
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        onClick={handleSubmit}
+        disabled={submitting || selectedSlots.length !== slotCount}
+        className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+      >
+        {submitting ? 'Please wait...' : estimatedDue > 0 ? 'Pay and change slots' : 'Change slots'}
+      </button>
+    </div>
+  );
+};
+
+export default SlotChangeRequest;
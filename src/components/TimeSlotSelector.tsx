@@ -1,14 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { subscribeToSlots, initializeSlotsForDate } from '../services/firebaseService';
-import { getEventDate, isAdjacentSlot, sortTimeSlots, timeToMinutes, getPricingTier, getSlotColor, getSlotBorderColor, getPricingTierInfo, getPriceForSlot } from '../utils/timeUtils';
-import { eventConfig } from '../config/eventConfig';
+import { formatEventDate, getEvent, isAdjacentSlot, sortTimeSlots, timeToMinutes, getPricingTier, getSlotColor, getSlotBorderColor, getPricingTierInfo, getPriceForSlot, getTierPrice, getTierDisplayName, PRICING_TIERS } from '../utils/timeUtils';
+import { getPerformanceType } from '../utils/participantUtils';
+import { eventConfig, PricingTier } from '../config/eventConfig';
+import { FunctionCallError, joinWaitlist } from '../services/paymentService';
+import { getWaitlistLink } from '../services/waitlistService';
 
 interface TimeSlotSelectorProps {
+  eventId: string;
+  date: string;
   selectedSlots: string[];
   onSlotSelection: (slots: string[]) => void;
   onNext: () => void;
   onBack: () => void;
   performanceType: string; // Add this to get pricing info
+  heldSlots: string[]; // Slots already held for this dancer, which stay selectable while the hold lasts
+  holdExpiresAt: number | null; // When that hold runs out
+  participantDetails: Record<string, any>; // Saved with a waitlist entry
 }
 
 interface TimeSection {
@@ -17,25 +25,30 @@ interface TimeSection {
   endTime: number; // in minutes
 }
 
-const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({ selectedSlots, onSlotSelection, onNext, onBack, performanceType }) => {
+const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({ eventId, date, selectedSlots, onSlotSelection, onNext, onBack, performanceType, heldSlots, holdExpiresAt, participantDetails }) => {
   const [slots, setSlots] = useState<Record<string, string>>({});
+  const [now, setNow] = useState(Date.now());
   const [loading, setLoading] = useState(true);
+  const [waitTarget, setWaitTarget] = useState('');
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const [waitlistError, setWaitlistError] = useState('');
+  const [waitlistEntryId, setWaitlistEntryId] = useState<string | null>(null);
 
-  // Define time sections
+  // Define time sections; each day has its own hours, so the sections cover the whole day
   const timeSections: TimeSection[] = [
-    { title: 'Morning', startTime: 9 * 60, endTime: 12 * 60 }, // 9 AM to 12 PM
+    { title: 'Morning', startTime: 0, endTime: 12 * 60 }, // Until 12 PM
     { title: 'Afternoon', startTime: 12 * 60, endTime: 17 * 60 }, // 12 PM to 5 PM
-    { title: 'Evening', startTime: 17 * 60, endTime: 20 * 60 }, // 5 PM to 8 PM
+    { title: 'Evening', startTime: 17 * 60, endTime: 24 * 60 }, // From 5 PM
   ];
 
   useEffect(() => {
-    const eventDate = getEventDate();
-    
+    setLoading(true);
+
     // Initialize slots if they don't exist
-    initializeSlotsForDate(eventDate);
+    initializeSlotsForDate(eventId, date);
     
     // Subscribe to real-time updates
-    const unsubscribe = subscribeToSlots(eventDate, (updatedSlots) => {
+    const unsubscribe = subscribeToSlots(eventId, date, (updatedSlots) => {
       // Sort the slots by time of day
       const sortedSlots = sortTimeSlots(updatedSlots);
       setSlots(sortedSlots);
@@ -43,10 +56,29 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({ selectedSlots, onSl
     });
 
     return () => unsubscribe();
+  }, [eventId, date]);
+
+  // Tick every second so hold countdowns and expired holds stay current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
   }, []);
 
+  // Who holds a slot is not public, so the dancer's own hold comes from holdSlots
+  const myHoldExpiresAt = heldSlots.length > 0 ? holdExpiresAt : null;
+  const isHeldForMe = (timeSlot: string) =>
+    heldSlots.includes(timeSlot) && myHoldExpiresAt !== null && myHoldExpiresAt > now;
+
+  const formatCountdown = (ms: number) => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
   const handleSlotClick = (timeSlot: string) => {
-    if (slots[timeSlot] !== 'available') return;
+    const status = getSlotStatus(timeSlot);
+    if (status !== 'available' && status !== 'selected') return;
 
     let newSelectedSlots: string[];
 
@@ -81,7 +113,111 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({ selectedSlots, onSl
     if (selectedSlots.includes(timeSlot)) {
       return 'selected';
     }
-    return slots[timeSlot] || 'available';
+    const status = slots[timeSlot] || 'available';
+    // Our own hold can be picked again until it runs out
+    if (status === 'held' && isHeldForMe(timeSlot)) {
+      return 'available';
+    }
+    return status;
+  };
+
+  const isUnavailable = (timeSlot: string) => {
+    const status = getSlotStatus(timeSlot);
+    return status === 'booked' || status === 'held';
+  };
+
+  // Tiers with no slot left to pick, then the individual taken slots
+  const getWaitlistOptions = () => {
+    const takenSlots = Object.keys(slots).filter(isUnavailable);
+    const fullTiers = PRICING_TIERS.filter((tier) => {
+      const tierSlots = Object.keys(slots).filter((timeSlot) => getPricingTier(timeSlot) === tier);
+      return tierSlots.length > 0 && tierSlots.every(isUnavailable);
+    });
+    return [
+      ...fullTiers.map((tier) => ({ value: `tier:${tier}`, label: `Any ${getTierDisplayName(tier)} slot` })),
+      ...takenSlots.map((timeSlot) => ({ value: `slot:${timeSlot}`, label: timeSlot }))
+    ];
+  };
+
+  const handleJoinWaitlist = async () => {
+    if (!waitTarget) {
+      return;
+    }
+
+    // Values are "tier:<tier>" or "slot:<time slot>"; time slots contain colons themselves
+    const kind = waitTarget.slice(0, waitTarget.indexOf(':'));
+    const target = waitTarget.slice(waitTarget.indexOf(':') + 1);
+
+    setJoiningWaitlist(true);
+    setWaitlistError('');
+    try {
+      const entryId = await joinWaitlist({
+        eventId,
+        date,
+        ...(kind === 'tier' ? { tier: target as PricingTier } : { slot: target }),
+        performanceType,
+        participantDetails
+      });
+      setWaitlistEntryId(entryId);
+    } catch (err) {
+      console.error('Failed to join waitlist:', err);
+      setWaitlistError(err instanceof FunctionCallError ? err.reason : 'Could not join the waitlist. Please try again.');
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
+
+  const renderWaitlist = () => {
+    if (waitlistEntryId) {
+      return (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-2">
+          <h4 className="font-medium text-green-800">You're on the waitlist</h4>
+          <p className="text-sm text-green-700">
+            If a slot you are waiting for is freed, it is kept for you for {eventConfig.waitlistOfferMinutes} minutes.
+            Keep this link to check your place and book the slot when it is offered:
+          </p>
+          <a href={getWaitlistLink(waitlistEntryId)} className="block text-sm font-mono text-green-800 underline break-all">
+            {getWaitlistLink(waitlistEntryId)}
+          </a>
+        </div>
+      );
+    }
+
+    const options = getWaitlistOptions();
+    if (options.length === 0) {
+      return null;
+    }
+
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+        <div>
+          <h4 className="font-medium text-gray-800">Slot you want already taken?</h4>
+          <p className="text-sm text-gray-600">
+            Join the waitlist with the details you entered. When a matching slot is freed, the first dancer waiting gets {eventConfig.waitlistOfferMinutes} minutes to book it.
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <select
+            value={waitTarget}
+            onChange={(e) => setWaitTarget(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">Choose what to wait for</option>
+            {options.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleJoinWaitlist}
+            disabled={!waitTarget || joiningWaitlist}
+            className="px-4 py-2 text-sm font-medium text-white bg-slate-700 rounded-md hover:bg-slate-800 transition-colors disabled:opacity-50"
+          >
+            {joiningWaitlist ? 'Joining...' : 'Join waitlist'}
+          </button>
+        </div>
+        {waitlistError && <p className="text-sm text-red-600">{waitlistError}</p>}
+      </div>
+    );
   };
 
   const getSlotsForSection = (section: TimeSection) => {
@@ -119,7 +255,7 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({ selectedSlots, onSl
               <div key={timeSlot} className="relative group">
                 <button
                   onClick={() => handleSlotClick(timeSlot)}
-                  disabled={slots[timeSlot] === 'booked'}
+                  disabled={status === 'booked' || status === 'held'}
                   className={`
                     w-full p-2 sm:p-3 text-xs sm:text-sm font-medium rounded-lg border-2 transition-all duration-200 relative
                     ${status === 'available' 
@@ -149,7 +285,7 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({ selectedSlots, onSl
                 </button>
                 
                 {/* Tooltip */}
-                {isTimePricingEnabled && tier && tierDisplayName && status !== 'booked' && (
+                {isTimePricingEnabled && tier && tierDisplayName && status !== 'booked' && status !== 'held' && (
                   <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 bg-gray-800 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10 whitespace-nowrap">
                     {tierDisplayName}: ₹{price}
                   </div>
@@ -172,49 +308,23 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({ selectedSlots, onSl
     const pricingInfo = getPricingTierInfo();
     if (!pricingInfo) return null;
 
-    // Get the price for the current performance type
-    const getPriceForType = (pricing: any) => {
-      switch (performanceType) {
-        case 'solo':
-          return pricing.solo;
-        case 'duet':
-          return pricing.duet;
-        case 'group':
-          return pricing.group;
-        default:
-          return 0;
-      }
-    };
-
-    // Get display name for performance type
-    const getTypeDisplayName = () => {
-      switch (performanceType) {
-        case 'solo':
-          return 'Solo';
-        case 'duet':
-          return 'Duet';
-        case 'group':
-          return 'Group';
-        default:
-          return 'Performance';
-      }
-    };
+    const typeName = getPerformanceType(performanceType)?.name || 'Performance';
 
     return (
       <div className="bg-white border border-gray-200 rounded-lg p-2 mb-3">
         <div className="flex flex-wrap items-center justify-center gap-1 sm:gap-2">
-          <span className="text-xs font-medium text-gray-700 mr-2">{getTypeDisplayName()}:</span>
+          <span className="text-xs font-medium text-gray-700 mr-2">{typeName}:</span>
           {Object.entries(pricingInfo).map(([tier, info]) => (
             <div 
               key={tier}
               className="flex items-center gap-1 px-2 py-1 rounded border text-xs"
               style={{ 
-                backgroundColor: info.pricing.color,
-                borderColor: info.pricing.borderColor
+                backgroundColor: info.color,
+                borderColor: info.borderColor
               }}
             >
               <span className="font-medium text-gray-800">{info.name}</span>
-              <span className="font-bold text-gray-800">₹{getPriceForType(info.pricing)}</span>
+              <span className="font-bold text-gray-800">₹{getTierPrice(performanceType, tier as PricingTier)}</span>
             </div>
           ))}
         </div>
@@ -236,12 +346,24 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({ selectedSlots, onSl
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <div>
           <h3 className="text-xl font-bold text-gray-800">Select Time Slots</h3>
+          <p className="text-sm font-medium text-gray-700 mt-1">
+            {getEvent(eventId)?.name} · {formatEventDate(date)}
+          </p>
           <p className="text-sm text-gray-600 mt-1">
             Click on available slots to select them. You can select multiple continuous slots.
           </p>
         </div>
       </div>
       
+      {/* Hold countdown for slots already held for this dancer */}
+      {myHoldExpiresAt !== null && (
+        <div className={`p-3 rounded-lg border text-sm ${myHoldExpiresAt > now ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-red-50 border-red-200 text-red-700'}`}>
+          {myHoldExpiresAt > now
+            ? <>Your slots are held for you for <span className="font-bold">{formatCountdown(myHoldExpiresAt - now)}</span></>
+            : 'Your hold has expired. Continue again to hold your slots while you pay.'}
+        </div>
+      )}
+
       {/* Pricing Legend */}
       {renderPricingLegend()}
       
@@ -272,6 +394,9 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({ selectedSlots, onSl
         </div>
       )}
 
+      {/* Waitlist for taken slots */}
+      {renderWaitlist()}
+
       {/* Instructions */}
       <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
         <h4 className="font-medium text-yellow-800 mb-2">Selection Rules</h4>
@@ -281,6 +406,8 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({ selectedSlots, onSl
           <li>• Click a selected slot again to deselect it</li>
           <li>• Selecting a non-adjacent slot will replace your current selection</li>
           <li>• Booked slots are grayed out and unavailable</li>
+          <li>• Slots another dancer is paying for are held for up to {eventConfig.slotHoldMinutes} minutes and shown as unavailable</li>
+          <li>• When you continue, your slots are held for {eventConfig.slotHoldMinutes} minutes while you complete payment</li>
         </ul>
       </div>
 
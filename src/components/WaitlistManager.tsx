@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { cancelWaitlistEntry, getWaitlistLink, isOfferOpen, subscribeToWaitlist, WaitlistEntry, WaitlistStatus } from '../services/waitlistService';
+import { getEvent, getTierDisplayName } from '../utils/timeUtils';
+import { getPerformanceType } from '../utils/participantUtils';
+
+interface WaitlistManagerProps {
+  canEdit: boolean;
+}
+
+const STATUS_LABELS: Record<WaitlistStatus, { label: string; className: string }> = {
+  waiting: { label: 'Waiting', className: 'text-blue-700' },
+  offered: { label: 'Offered', className: 'text-green-700' },
+  booked: { label: 'Booked', className: 'text-slate-600' },
+  lapsed: { label: 'Offer lapsed', className: 'text-slate-400' },
+  cancelled: { label: 'Cancelled', className: 'text-slate-400' }
+};
+
+const isClosed = (entry: WaitlistEntry) => !['waiting', 'offered'].includes(entry.status);
+
+const smallButtonClass = 'px-2 py-1 text-xs rounded border border-slate-300 text-slate-700 hover:bg-slate-100 transition-colors';
+
+const WaitlistManager: React.FC<WaitlistManagerProps> = ({ canEdit }) => {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showClosed, setShowClosed] = useState(false);
+
+  useEffect(() => {
+    return subscribeToWaitlist((updated) => {
+      setEntries(updated);
+      setLoading(false);
+    });
+  }, []);
+
+  const handleCancel = async (entry: WaitlistEntry) => {
+    const message = entry.status === 'offered'
+      ? `Take ${entry.contact.name} off the waitlist? ${entry.offer?.slot} will be offered to the next dancer.`
+      : `Take ${entry.contact.name} off the waitlist?`;
+    if (!window.confirm(message)) {
+      return;
+    }
+
+    try {
+      await cancelWaitlistEntry(entry);
+    } catch (error) {
+      console.error('Error cancelling waitlist entry:', error);
+      alert('Failed to cancel waitlist entry.');
+    }
+  };
+
+  const handleCopyLink = async (entry: WaitlistEntry) => {
+    try {
+      await navigator.clipboard.writeText(getWaitlistLink(entry.id));
+    } catch {
+      window.prompt('Copy this link:', getWaitlistLink(entry.id));
+    }
+  };
+
+  const visibleEntries = showClosed ? entries : entries.filter((entry) => !isClosed(entry));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">Waitlist</h3>
+          <p className="text-sm text-slate-500">
+            Freed slots are held for the earliest matching entry. Send the dancer their link so they can book it before the offer runs out.
+          </p>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} />
+          <span>Show booked, lapsed and cancelled</span>
+        </label>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Loading waitlist...</p>
+      ) : visibleEntries.length === 0 ? (
+        <p className="text-sm text-slate-500">Nobody is waiting.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-600 border-b border-slate-200">
+                <th className="py-2 pr-4">Joined</th>
+                <th className="py-2 pr-4">Day</th>
+                <th className="py-2 pr-4">Waiting for</th>
+                <th className="py-2 pr-4">Dancer</th>
+                <th className="py-2 pr-4">Type</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleEntries.map((entry) => (
+                <tr key={entry.id} className="border-b border-slate-100">
+                  <td className="py-2 pr-4 whitespace-nowrap">{entry.createdAt?.toDate().toLocaleString() || ''}</td>
+                  <td className="py-2 pr-4">
+                    <div>{getEvent(entry.eventId)?.name || entry.eventId}</div>
+                    <div className="text-xs text-slate-500">{entry.date}</div>
+                  </td>
+                  <td className="py-2 pr-4">{entry.slot || `Any ${getTierDisplayName(entry.tier || null) || entry.tier} slot`}</td>
+                  <td className="py-2 pr-4">
+                    <div className="font-medium">{entry.contact.name}</div>
+                    <div className="text-xs text-slate-500">{[entry.contact.phone, entry.contact.email].filter(Boolean).join(' · ')}</div>
+                  </td>
+                  <td className="py-2 pr-4">{getPerformanceType(entry.performanceType)?.name || entry.performanceType}</td>
+                  <td className="py-2 pr-4">
+                    <span className={STATUS_LABELS[entry.status].className}>{STATUS_LABELS[entry.status].label}</span>
+                    {entry.status === 'offered' && entry.offer && (
+                      <div className="text-xs text-slate-500">
+                        {entry.offer.slot}, {isOfferOpen(entry) ? `until ${new Date(entry.offer.expiresAt).toLocaleTimeString()}` : 'expired'}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 space-x-2 whitespace-nowrap">
+                    <button onClick={() => handleCopyLink(entry)} className={smallButtonClass}>
+                      Copy link
+                    </button>
+                    {canEdit && !isClosed(entry) && (
+                      <button onClick={() => handleCancel(entry)} className={smallButtonClass}>
+                        Cancel
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WaitlistManager;
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { isOfferOpen, subscribeToWaitlistEntry, WaitlistEntry } from '../services/waitlistService';
+import { formatEventDate, getEvent, getTierDisplayName } from '../utils/timeUtils';
+import { getPerformanceType } from '../utils/participantUtils';
+import { eventConfig } from '../config/eventConfig';
+
+interface WaitlistStatusProps {
+  entryId: string;
+  onBook: (entry: WaitlistEntry) => void;
+  onNewRegistration: () => void;
+}
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// The dancer's page behind their waitlist link. It follows the entry live, so an offer shows up
+// as soon as a slot is freed for them.
+const WaitlistStatus: React.FC<WaitlistStatusProps> = ({ entryId, onBook, onNewRegistration }) => {
+  const [entry, setEntry] = useState<WaitlistEntry | null | undefined>(undefined);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    return subscribeToWaitlistEntry(entryId, setEntry);
+  }, [entryId]);
+
+  // Tick every second so the offer countdown stays current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (entry === undefined) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const newRegistrationButton = (
+    <button
+      onClick={onNewRegistration}
+      className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:border-gray-400 transition-all duration-200 shadow-sm"
+    >
+      Start a new registration
+    </button>
+  );
+
+  if (!entry) {
+    return (
+      <div className="space-y-4 text-center">
+        <h3 className="text-xl font-bold text-gray-800">Waitlist entry not found</h3>
+        <p className="text-sm text-gray-600">Please check the link you were given when you joined the waitlist.</p>
+        {newRegistrationButton}
+      </div>
+    );
+  }
+
+  const waitingFor = entry.slot || `any ${getTierDisplayName(entry.tier || null) || ''} slot`;
+  const offerOpen = isOfferOpen(entry, now);
+
+  const renderStatus = () => {
+    switch (entry.status) {
+      case 'waiting':
+        return (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+            You're on the waitlist. When {waitingFor} is freed it will be held for you for {eventConfig.waitlistOfferMinutes} minutes,
+            and this page will let you book it. Keep this link to come back.
+          </div>
+        );
+      case 'offered':
+        return offerOpen ? (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-3">
+            <p className="text-sm text-green-800">
+              <span className="font-bold">{entry.offer!.slot}</span> has been freed and is held for you for{' '}
+              <span className="font-bold">{formatCountdown(entry.offer!.expiresAt - now)}</span>.
+            </p>
+            <button
+              onClick={() => onBook(entry)}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              Book {entry.offer!.slot} now
+            </button>
+          </div>
+        ) : (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+            The time to book {entry.offer?.slot} has run out and the slot has been offered to the next dancer.
+          </div>
+        );
+      case 'lapsed':
+        return (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+            The slot offered to you was not booked in time and has been offered to the next dancer.
+          </div>
+        );
+      case 'booked':
+        return (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">
+            You have booked the slot offered to you. If you did not finish paying, please register again.
+          </div>
+        );
+      default:
+        return (
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-700">
+            This waitlist entry has been cancelled.
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-xl font-bold text-gray-800">Your Waitlist Place</h3>
+        <p className="text-sm font-medium text-gray-700 mt-1">
+          {getEvent(entry.eventId)?.name} · {formatEventDate(entry.date)}
+        </p>
+        <p className="text-sm text-gray-600 mt-1">
+          {entry.contact.name} · {getPerformanceType(entry.performanceType)?.name || entry.performanceType} · waiting for {waitingFor}
+        </p>
+      </div>
+
+      {renderStatus()}
+
+      {!offerOpen && newRegistrationButton}
+    </div>
+  );
+};
+
+export default WaitlistStatus;
@@ -1,50 +1,263 @@
 export interface EventConfig {
-  eventName: string; // Display name for the event
-  eventDate: string; // YYYY-MM-DD format
-  startTime: string; // HH:MM format (24-hour)
-  endTime: string; // HH:MM format (24-hour)
+  eventName: string; // Display name shown in the site header
+  events: FestivalEvent[]; // Festivals open for registration
   slotDuration: number; // in minutes
+  slotHoldMinutes: number; // How long selected slots stay held while the dancer pays
+  waitlistOfferMinutes: number; // How long a freed slot is held for the next dancer on the waitlist
+  slotChangesNeedApproval: boolean; // Slot changes dancers request wait for an organizer's approval
+  delayNotifyMinutes: number; // Dancers are told about a delay once their time moves by this much
+  delayMessageTemplate: string; // Update sent when the programme runs late
+  delayWhatsAppTemplate: string; // Approved template for WhatsApp; "" sends the text above
+  delayEmailSubject: string; // Subject of that update for dancers who chose email
+  whatsAppTemplates: WhatsAppTemplate[]; // Message templates approved in WhatsApp Manager
+  notifications: Record<NotificationEvent, NotificationRule>; // Sent by the server on its own
   performanceTypes: PerformanceType[];
   timePricing?: TimePricingConfig; // Optional time-based pricing
   rulesAndRegulations: string; // Rules text for the event
   waitForRulesCompletion: boolean; // If true, wait for auto-scroll to complete before enabling continue
 }
 
+// One festival. Its id keys slot documents and bookings, so don't change it once bookings exist.
+export interface FestivalEvent {
+  id: string;
+  name: string;
+  venue?: string;
+  days: EventDay[];
+}
+
+export interface EventDay {
+  date: string; // YYYY-MM-DD format
+  startTime: string; // HH:MM format (24-hour)
+  endTime: string; // HH:MM format (24-hour)
+}
+
+export type PricingTier = "offPeak" | "midPeak" | "onPeak";
+
 export interface PerformanceType {
   id: string;
   name: string;
-  pricePerPerson: number; // Used as fallback if timePricing not configured
+  pricePerPerson: number; // Used when time pricing is off or the slot's tier has no price below
+  tierPrices?: Partial<Record<PricingTier, number>>; // Price per person in each time pricing tier
+  minParticipants: number;
+  maxParticipants: number;
+  participants: ParticipantEntry;
   formFields: FormField[];
 }
 
+// How the dancers of a registration are entered on the form
+export interface ParticipantEntry {
+  // "fields": one form field per dancer, listed in nameFields.
+  // "members": a repeating sub-form with one entry per member, stored in
+  // participantDetails.members. nameFields is left empty.
+  mode: "fields" | "members";
+  nameFields: string[];
+  phoneField: string; // Form field with the contact number for the registration
+}
+
+// One entry of the members sub-form
+export interface ParticipantMember {
+  name: string;
+  age: number;
+  phone?: string; // Optional 10 digit number
+}
+
 export interface FormField {
   id: string;
   label: string;
-  type: "text" | "number" | "tel" | "textarea" | "checkbox";
+  type: FormFieldType;
   required: boolean;
   placeholder?: string;
+  options?: string[]; // Choices for select and radio fields
+  accept?: string; // File types a file field takes, e.g. "image/*,application/pdf"
+  validation?: FieldValidation;
+  showIf?: FieldCondition; // Hidden, and neither required nor submitted, unless this holds
+}
+
+export type FormFieldType =
+  | "text"
+  | "number"
+  | "tel"
+  | "email"
+  | "date"
+  | "textarea"
+  | "checkbox" // Yes / No
+  | "select"
+  | "radio"
+  | "file";
+
+// Checked in order; the first rule that fails gives the error shown under the field
+export interface FieldValidation {
+  pattern?: string; // Regular expression the whole value must match
+  patternMessage?: string; // Shown when pattern does not match
+  minLength?: number;
+  maxLength?: number;
+  min?: number; // Number fields: smallest value. Date fields: youngest age in years today.
+  max?: number; // Number fields: largest value. Date fields: oldest age in years today.
+  maxFileSizeMB?: number;
+}
+
+// Show a field only when another field of the same form has one of these values
+export interface FieldCondition {
+  field: string;
+  equals: string[];
+}
+
+// A message template approved in WhatsApp Manager. Outside the 24 hours after a dancer last
+// wrote to us, WhatsApp only delivers template messages.
+export interface WhatsAppTemplate {
+  name: string; // As approved, e.g. "running_late"
+  languages: string[]; // Approved translations, e.g. ["en", "hi"]; the first is the default
+  header?: { type: "image" | "document" | "video"; link: string }; // e.g. the event poster
+  bodyParameters: TemplateParameter[]; // In order for {{1}}, {{2}}...; or named for {{name}}
+  text?: string; // The approved body with its {{...}} variables, only used for previews
+}
+
+export interface TemplateParameter {
+  name?: string; // Set for templates with named parameters
+  value: string; // Text with placeholders, e.g. "{name}"
+}
+
+// Booking events the server tells the dancer about. slotReminder is sent hoursBefore the
+// booking's first slot; waitlistOffer when a freed slot is held for a waitlist entry.
+export type NotificationEvent =
+  | "bookingConfirmed"
+  | "paymentFailed"
+  | "bookingExpired"
+  | "slotChanged"
+  | "bookingCancelled"
+  | "slotReminder"
+  | "waitlistOffer";
+
+// How a message reaches a dancer. Each booking picks one (participantDetails.contactChannel).
+export type MessageChannel = "whatsapp" | "email";
+
+export interface NotificationRule {
+  enabled: boolean;
+  channel: MessageChannel | "preferred"; // "preferred" follows each booking's choice
+  template: string; // Approved WhatsApp template to send; "" sends message as text
+  subject?: string; // Email subject with placeholders
+  message: string; // Text with placeholders; emails always use it
+  hoursBefore?: number; // slotReminder only
 }
 
 export interface TimePricingConfig {
   enabled: boolean;
-  timeRanges: {
-    offPeak?: { start: string; end: string; displayName: string }; // HH:MM format, optional
-    midPeak?: { start: string; end: string; displayName: string }; // Optional
-    onPeak?: { start: string; end: string; displayName: string }; // Optional
-  };
-  pricing: {
-    offPeak?: { solo: number; duet: number; group: number; color: string; borderColor: string }; // Optional
-    midPeak?: { solo: number; duet: number; group: number; color: string; borderColor: string }; // Optional
-    onPeak?: { solo: number; duet: number; group: number; color: string; borderColor: string }; // Optional
-  };
+  // Each tier is optional; times are HH:MM (24-hour)
+  timeRanges: Partial<Record<PricingTier, { start: string; end: string; displayName: string }>>;
+  // Slot colours per tier. Prices are set per performance type in tierPrices.
+  colors: Partial<Record<PricingTier, { color: string; borderColor: string }>>;
 }
 
+export const PHONE_VALIDATION: FieldValidation = {
+  pattern: "^\\d{10}$",
+  patternMessage: "Phone number must be exactly 10 digits",
+};
+
+const DANCE_STYLES = [
+  "Bharatanatyam",
+  "Kathak",
+  "Kathakali",
+  "Kuchipudi",
+  "Manipuri",
+  "Mohiniyattam",
+  "Odissi",
+  "Sattriya",
+  "Other (semi-classical, folk, contemporary)",
+];
+
 export const eventConfig: EventConfig = {
-  eventName: "Shyamotsava", // Configure your event name here
-  eventDate: "2025-08-16", // Configure your event date here
-  startTime: "09:00", // 9 AM
-  endTime: "20:00", // 8 PM
+  eventName: "Natanam Foundation", // Configure your site name here
   slotDuration: 10, // 10 minutes
+  slotHoldMinutes: 10, // Slots are held for 10 minutes once the dancer moves on to payment
+  waitlistOfferMinutes: 30, // A freed slot is kept for the next waitlisted dancer for 30 minutes
+  slotChangesNeedApproval: false, // Slot changes requested from "Find my booking" apply at once
+  delayNotifyMinutes: 15, // Smaller changes to a running delay don't message anyone
+  delayMessageTemplate:
+    "Hello {name}, {event_name} is running {delay_minutes} minutes behind schedule. Your {performance_type} performance planned for {event_time} is now expected at {estimated_time}. Please plan your arrival accordingly.",
+  delayWhatsAppTemplate: "",
+  delayEmailSubject: "{event_name} is running late",
+  whatsAppTemplates: [], // Add templates once WhatsApp Manager has approved them
+  // Off until an organizer turns them on; most need an approved template to reach everyone
+  notifications: {
+    bookingConfirmed: {
+      enabled: false,
+      channel: "preferred",
+      template: "",
+      subject: "Your {event_name} booking is confirmed",
+      message:
+        "Hello {name}, your {performance_type} booking for {event_name} on {event_date} is confirmed. Your slots: {time_slots}. Booking ID: {booking_id}",
+    },
+    paymentFailed: {
+      enabled: false,
+      channel: "preferred",
+      template: "",
+      subject: "Your {event_name} payment did not go through",
+      message:
+        "Hello {name}, your payment for {event_name} did not go through ({payment_error}). Your slots are held for a few minutes, so please try again.",
+    },
+    bookingExpired: {
+      enabled: false,
+      channel: "preferred",
+      template: "",
+      subject: "Your {event_name} booking has expired",
+      message:
+        "Hello {name}, your booking for {event_name} on {event_date} was not paid in time and the slots {time_slots} have been released. You are welcome to book again.",
+    },
+    slotChanged: {
+      enabled: false,
+      channel: "preferred",
+      template: "",
+      subject: "Your {event_name} slots have changed",
+      message:
+        "Hello {name}, your {event_name} slots have changed from {previous_time_slots} on {previous_date} to {time_slots} on {event_date}.",
+    },
+    bookingCancelled: {
+      enabled: false,
+      channel: "preferred",
+      template: "",
+      subject: "Your {event_name} booking has been cancelled",
+      message:
+        "Hello {name}, your booking {booking_id} for {event_name} has been cancelled. A refund of Rs. {refund_amount} is on its way.",
+    },
+    slotReminder: {
+      enabled: false,
+      channel: "preferred",
+      template: "",
+      subject: "Reminder: {event_name} on {event_date}",
+      message:
+        "Hello {name}, a reminder that your {performance_type} performance at {event_name} is on {event_date} at {event_time}. Please arrive an hour before your slot.",
+      hoursBefore: 24,
+    },
+    // On by default: it is how dancers on the waitlist hear about a slot held for them
+    waitlistOffer: {
+      enabled: true,
+      channel: "preferred",
+      template: "",
+      subject: "A slot at {event_name} is free for you",
+      message:
+        "Hello {name}, the {event_time} slot on {event_date} at {event_name} is free and held for you until {offer_expires_at}. Book it here: {waitlist_link}",
+    },
+  },
+
+  // Configure your festivals here. Each day has its own hours.
+  events: [
+    {
+      id: "shyamotsava-2025",
+      name: "Shyamotsava 2025",
+      venue: "Banaswadi Anjaneya Temple",
+      days: [{ date: "2025-08-16", startTime: "09:00", endTime: "20:00" }],
+    },
+  ],
+
+  // Example of a festival spanning two days:
+  // {
+  //   id: "nrityotsava-2025",
+  //   name: "Nrityotsava 2025",
+  //   days: [
+  //     { date: "2025-12-20", startTime: "09:00", endTime: "20:00" },
+  //     { date: "2025-12-21", startTime: "10:00", endTime: "18:00" },
+  //   ],
+  // },
 
   // Configure rules page behavior - if true, wait for auto-scroll to complete before enabling continue
   waitForRulesCompletion: true,
@@ -81,25 +294,16 @@ Any enquiries regarding the festival, please feel free to contact us on 94497647
       midPeak: { start: "12:00", end: "17:00", displayName: "Regular" },
       onPeak: { start: "17:00", end: "20:00", displayName: "Prime Time" },
     },
-    pricing: {
+    colors: {
       offPeak: {
-        solo: 1200,
-        duet: 650,
-        group: 400,
         color: "#ffffffff", // yellow-100 (lighter)
         borderColor: "#edca8eff", // yellow-500 (darker border)
       },
       midPeak: {
-        solo: 1500,
-        duet: 800,
-        group: 500,
         color: "#ffffffff", // orange-200 (lighter)
         borderColor: "#9ee96fff", // orange-600 (darker border)
       },
       onPeak: {
-        solo: 1800,
-        duet: 950,
-        group: 600,
         color: "#ffffffff", // violet-200 (lighter)
         borderColor: "#bca6e3ff", // violet-600 (darker border)
       },
@@ -113,17 +317,9 @@ Any enquiries regarding the festival, please feel free to contact us on 94497647
   //     offPeak: { start: "09:00", end: "17:00", displayName: "Regular Hours" },
   //     onPeak: { start: "17:00", end: "20:00", displayName: "Prime Time" },
   //   },
-  //   pricing: {
-  //     offPeak: {
-  //       solo: 1200, duet: 650, group: 400,
-  //       color: "#FEF3C7",
-  //       borderColor: "#F59E0B"
-  //     },
-  //     onPeak: {
-  //       solo: 1800, duet: 950, group: 600,
-  //       color: "#E9D5FF",
-  //       borderColor: "#7C3AED"
-  //     },
+  //   colors: {
+  //     offPeak: { color: "#FEF3C7", borderColor: "#F59E0B" },
+  //     onPeak: { color: "#E9D5FF", borderColor: "#7C3AED" },
   //   },
   // },
 
@@ -137,6 +333,10 @@ Any enquiries regarding the festival, please feel free to contact us on 94497647
       id: "solo",
       name: "Solo",
       pricePerPerson: 1500,
+      tierPrices: { offPeak: 1200, midPeak: 1500, onPeak: 1800 },
+      minParticipants: 1,
+      maxParticipants: 1,
+      participants: { mode: "fields", nameFields: ["fullName"], phoneField: "phoneNumber" },
       formFields: [
         {
           id: "fullName",
@@ -148,7 +348,7 @@ Any enquiries regarding the festival, please feel free to contact us on 94497647
         {
           id: "email",
           label: "Email",
-          type: "text",
+          type: "email",
           required: false,
           placeholder: "Your answer",
         },
@@ -158,6 +358,7 @@ Any enquiries regarding the festival, please feel free to contact us on 94497647
           type: "tel",
           required: true,
           placeholder: "10 digit mobile number",
+          validation: PHONE_VALIDATION,
         },
         {
           id: "cityResidence",
@@ -182,10 +383,11 @@ Any enquiries regarding the festival, please feel free to contact us on 94497647
         },
         {
           id: "performanceCategory",
-          label: "Category of performance (Eg. Odissi, Bharathanatyam, Kathak)",
-          type: "text",
+          label: "Category of performance",
+          type: "select",
           required: true,
-          placeholder: "Your answer",
+          placeholder: "Choose a dance style",
+          options: DANCE_STYLES,
         },
       ],
     },
@@ -193,6 +395,14 @@ Any enquiries regarding the festival, please feel free to contact us on 94497647
       id: "duet",
       name: "Duet",
       pricePerPerson: 800,
+      tierPrices: { offPeak: 650, midPeak: 800, onPeak: 950 },
+      minParticipants: 2,
+      maxParticipants: 2,
+      participants: {
+        mode: "fields",
+        nameFields: ["participant1Name", "participant2Name"],
+        phoneField: "participant1Phone",
+      },
       formFields: [
         {
           id: "participant1Name",
@@ -207,6 +417,7 @@ Any enquiries regarding the festival, please feel free to contact us on 94497647
           type: "tel",
           required: true,
           placeholder: "10 digit mobile number",
+          validation: PHONE_VALIDATION,
         },
         {
           id: "participant2Name",
@@ -221,6 +432,7 @@ Any enquiries regarding the festival, please feel free to contact us on 94497647
           type: "tel",
           required: true,
           placeholder: "10 digit mobile number",
+          validation: PHONE_VALIDATION,
         },
         {
           id: "cityResidence",
@@ -245,10 +457,11 @@ Any enquiries regarding the festival, please feel free to contact us on 94497647
         },
         {
           id: "performanceCategory",
-          label: "Category of performance (Eg. Odissi, Bharathanatyam, Kathak)",
-          type: "text",
+          label: "Category of performance",
+          type: "select",
           required: true,
-          placeholder: "Your answer",
+          placeholder: "Choose a dance style",
+          options: DANCE_STYLES,
         },
       ],
     },
@@ -256,20 +469,18 @@ Any enquiries regarding the festival, please feel free to contact us on 94497647
       id: "group",
       name: "Group",
       pricePerPerson: 500,
+      tierPrices: { offPeak: 400, midPeak: 500, onPeak: 600 },
+      minParticipants: 3, // See rule 5
+      maxParticipants: 12,
+      participants: { mode: "members", nameFields: [], phoneField: "representativePhone" },
       formFields: [
-        {
-          id: "participantNames",
-          label: "Full names of the participants (Eg. Ananya M, Surabhi Shenoy, Tanisha B.K)",
-          type: "textarea",
-          required: true,
-          placeholder: "Your answer",
-        },
         {
           id: "representativePhone",
           label: "Phone Number of the group representative / parent in-charge",
           type: "tel",
           required: true,
           placeholder: "10 digit mobile number",
+          validation: PHONE_VALIDATION,
         },
         {
           id: "cityResidence",
@@ -294,10 +505,11 @@ Any enquiries regarding the festival, please feel free to contact us on 94497647
         },
         {
           id: "performanceCategory",
-          label: "Category of performance (Eg. Odissi, Bharathanatyam, Kathak)",
-          type: "text",
+          label: "Category of performance",
+          type: "select",
           required: true,
-          placeholder: "Your answer",
+          placeholder: "Choose a dance style",
+          options: DANCE_STYLES,
         },
       ],
     },
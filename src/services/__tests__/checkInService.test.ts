@@ -0,0 +1,48 @@
+import { Booking } from "../firebaseService";
+import { getCheckInNames, getDueBookings, isFullyCheckedIn } from "../checkInService";
+
+jest.mock("firebase/firestore");
+jest.mock("../../firebase/config", () => ({ db: {}, storage: {}, auth: {} }));
+
+const booking = (id: string, changes: Partial<Booking> = {}): Booking => ({
+  id,
+  date: "2025-08-16",
+  timeSlots: ["05:00 PM", "05:10 PM"],
+  performanceType: "solo",
+  participantDetails: { fullName: "Asha Rao" },
+  status: "confirmed",
+  ...changes,
+});
+
+describe("checkInService.getDueBookings", () => {
+  const now = new Date(2025, 7, 16, 16, 30);
+
+  it("lists confirmed bookings starting within the hour that have not arrived, soonest first", () => {
+    const due = getDueBookings(
+      [
+        booking("later", { timeSlots: ["05:20 PM"] }),
+        booking("soon", { timeSlots: ["04:50 PM", "04:40 PM"] }),
+        booking("arrived", { checkedIn: { "0": { at: {} } } }),
+        booking("pending", { status: "pending" }),
+        booking("tooLate", { timeSlots: ["05:40 PM"] }),
+        booking("started", { timeSlots: ["04:20 PM"] }),
+        booking("otherDay", { date: "2025-08-17" }),
+      ],
+      now
+    );
+
+    expect(due.map((item) => item.id)).toEqual(["soon", "later"]);
+  });
+
+  it("keeps a group on the list until every member has checked in", () => {
+    const group = booking("group", {
+      performanceType: "group",
+      participantDetails: { members: [{ name: "Asha" }, { name: "Meera" }] },
+      checkedIn: { "1": { at: {} } },
+    });
+
+    expect(getCheckInNames(group)).toEqual(["Asha", "Meera"]);
+    expect(isFullyCheckedIn(group)).toBe(false);
+    expect(getDueBookings([group], now)).toEqual([group]);
+  });
+});
@@ -0,0 +1,232 @@
+import * as firestore from "firebase/firestore";
+import { eventConfig, EventConfig } from "../../config/eventConfig";
+import { previewSlotGridChanges, reconcileSlotGrids, validateEventConfig } from "../configService";
+
+jest.mock("firebase/firestore");
+jest.mock("../../firebase/config", () => ({ db: {}, storage: {} }));
+
+const cloneConfig = (): EventConfig => JSON.parse(JSON.stringify(eventConfig));
+
+const withHours = (config: EventConfig, startTime: string, endTime: string): EventConfig => {
+  const next = JSON.parse(JSON.stringify(config));
+  next.events[0].days[0] = { ...next.events[0].days[0], startTime, endTime };
+  return next;
+};
+
+describe("configService.validateEventConfig", () => {
+  it("accepts the default settings", () => {
+    expect(validateEventConfig(cloneConfig())).toEqual([]);
+  });
+
+  it("reports invalid hours, duplicate festival IDs and negative prices", () => {
+    const config = cloneConfig();
+    config.events[0].days[0].endTime = "08:00";
+    config.events.push({ ...config.events[0] });
+    config.performanceTypes[0].pricePerPerson = -1;
+
+    const errors = validateEventConfig(config);
+
+    expect(errors).toContain(
+      "Shyamotsava 2025 2025-08-16: start time must be before end time (HH:MM)"
+    );
+    expect(errors).toContain('Shyamotsava 2025: ID "shyamotsava-2025" is used by another festival');
+    expect(errors).toContain("Solo: price per person must be zero or more");
+  });
+
+  it("checks the waitlist offer time, which older saved settings may lack", () => {
+    const config = cloneConfig();
+    config.waitlistOfferMinutes = 2;
+    expect(validateEventConfig(config)).toEqual([
+      "Waitlist offer must be a whole number of minutes between 5 and 1440",
+    ]);
+
+    delete (config as Partial<EventConfig>).waitlistOfferMinutes;
+    expect(validateEventConfig(config)).toEqual([]);
+  });
+
+  it("checks tier prices and participant limits on each performance type", () => {
+    const config = cloneConfig();
+    config.performanceTypes[2].tierPrices = { onPeak: -600 };
+    config.performanceTypes[2].maxParticipants = 2;
+
+    const errors = validateEventConfig(config);
+
+    expect(errors).toContain("Group: Prime Time price must be zero or more");
+    expect(errors).toContain(
+      "Group: participants must be whole numbers with the minimum at most the maximum"
+    );
+  });
+
+  it("only requires name fields when each dancer has their own field", () => {
+    // Saved settings are parsed from Firestore untyped, so they can name a mode that doesn't exist
+    const config: EventConfig = JSON.parse(
+      JSON.stringify(eventConfig).replace('"mode":"members"', '"mode":"list"')
+    );
+    config.performanceTypes[1].participants.nameFields = [];
+
+    const errors = validateEventConfig(config);
+
+    expect(errors).toContain("Duet: participant name fields must be fields of this form");
+    expect(errors).toContain("Group: choose how participant names are entered");
+  });
+
+  it("checks options, conditions and validation rules of form fields", () => {
+    const config = cloneConfig();
+    const [fullName, email] = config.performanceTypes[0].formFields;
+    fullName.showIf = { field: "email", equals: ["yes"] };
+    fullName.validation = { pattern: "([a-z" };
+    email.type = "radio";
+    email.validation = { minLength: 10, maxLength: 5 };
+
+    const errors = validateEventConfig(config);
+
+    expect(errors).toEqual([
+      "Solo field 1: pattern is not a valid regular expression",
+      "Solo field 1: show only if must name an earlier field and at least one value",
+      "Solo field 2: add at least one option and leave none blank",
+      "Solo field 2: limits must be numbers with the minimum at most the maximum",
+    ]);
+  });
+
+  it("checks WhatsApp templates and the one chosen for running late notices", () => {
+    const config = cloneConfig();
+    config.whatsAppTemplates = [
+      { name: "running_late", languages: ["en"], bodyParameters: [{ value: "{name}" }] },
+      {
+        name: "Poster",
+        languages: ["english"],
+        header: { type: "image", link: "http://example.com/poster.jpg" },
+        bodyParameters: [{ name: "dancer", value: "{name}" }, { value: "{event_time}" }],
+      },
+    ];
+    config.delayWhatsAppTemplate = "poster";
+
+    expect(validateEventConfig(config)).toEqual([
+      "WhatsApp template Poster: name may only use lowercase letters, numbers and underscores",
+      "WhatsApp template Poster: add at least one language code, such as en or en_US",
+      "WhatsApp template Poster: the header media link must start with https://",
+      "WhatsApp template Poster: name every body parameter (lowercase and underscores) or none",
+      "Running late notices: choose one of the WhatsApp templates",
+    ]);
+  });
+
+  it("checks only the automatic notifications that are turned on", () => {
+    const config = cloneConfig();
+    config.notifications.bookingConfirmed = {
+      ...config.notifications.bookingConfirmed,
+      enabled: true,
+      template: "booking_confirmed",
+    };
+    config.notifications.paymentFailed = {
+      ...config.notifications.paymentFailed,
+      enabled: true,
+      message: " ",
+    };
+    config.notifications.slotReminder = {
+      ...config.notifications.slotReminder,
+      enabled: true,
+      hoursBefore: 0,
+    };
+    config.notifications.bookingExpired.message = "";
+
+    expect(validateEventConfig(config)).toEqual([
+      "Booking confirmed notification: choose one of the WhatsApp templates",
+      "Payment failed notification: message is required",
+      "Reminder before the slot notification: send it a whole number of hours between 1 and 72 before the slot",
+    ]);
+  });
+
+  it("needs a subject and text for notifications that may go by email", () => {
+    const config = cloneConfig();
+    config.whatsAppTemplates = [
+      { name: "booking_confirmed", languages: ["en"], bodyParameters: [] },
+    ];
+    config.notifications.bookingConfirmed = {
+      ...config.notifications.bookingConfirmed,
+      enabled: true,
+      template: "booking_confirmed",
+      subject: "",
+      message: "",
+    };
+    config.notifications.bookingCancelled = {
+      ...config.notifications.bookingCancelled,
+      enabled: true,
+      channel: "whatsapp",
+      template: "booking_confirmed",
+      subject: "",
+      message: "",
+    };
+
+    expect(validateEventConfig(config)).toEqual([
+      "Booking confirmed notification: message is required",
+      "Booking confirmed notification: email subject is required",
+    ]);
+  });
+});
+
+describe("configService slot reconciliation", () => {
+  const mockDoc = firestore.doc as jest.Mock;
+  const mockGetDoc = firestore.getDoc as jest.Mock;
+  const mockRunTransaction = firestore.runTransaction as jest.Mock;
+  const mockDeleteField = firestore.deleteField as jest.Mock;
+
+  const slots = {
+    "09:00 AM": "booked",
+    "09:10 AM": "available",
+    "07:50 PM": "available",
+  };
+
+  const snapshot = (data?: Record<string, any>) => ({
+    exists: () => data !== undefined,
+    data: () => data,
+  });
+
+  let transaction: { get: jest.Mock; update: jest.Mock };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockDoc.mockImplementation((_db, collectionName, id) => ({ path: `${collectionName}/${id}` }));
+    mockDeleteField.mockReturnValue("<delete>");
+    mockGetDoc.mockResolvedValue(snapshot(slots));
+    transaction = { get: jest.fn().mockResolvedValue(snapshot(slots)), update: jest.fn() };
+    mockRunTransaction.mockImplementation(async (_db, updateFunction) =>
+      updateFunction(transaction)
+    );
+  });
+
+  it("ignores days whose slots do not change", async () => {
+    const config = cloneConfig();
+
+    await expect(previewSlotGridChanges(config, cloneConfig())).resolves.toEqual([]);
+    expect(mockGetDoc).not.toHaveBeenCalled();
+  });
+
+  it("lists booked slots that fall outside the new hours", async () => {
+    const previous = cloneConfig();
+    const next = withHours(previous, "09:10", "19:50");
+
+    const [change] = await previewSlotGridChanges(previous, next);
+
+    expect(change).toEqual({
+      eventId: "shyamotsava-2025",
+      date: "2025-08-16",
+      addedSlots: expect.any(Array),
+      removedSlots: ["07:50 PM"],
+      strandedSlots: ["09:00 AM"],
+    });
+    expect(mockGetDoc).toHaveBeenCalledWith({ path: "slots/shyamotsava-2025_2025-08-16" });
+  });
+
+  it("adds new slots and deletes free slots outside the hours, keeping booked ones", async () => {
+    const previous = cloneConfig();
+    const next = withHours(previous, "09:10", "09:30");
+    const changes = await previewSlotGridChanges(previous, next);
+
+    await reconcileSlotGrids(next, changes);
+
+    expect(transaction.update).toHaveBeenCalledWith(
+      { path: "slots/shyamotsava-2025_2025-08-16" },
+      { "09:20 AM": "available", "07:50 PM": "<delete>" }
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { Coupon, normalizeCouponCode, validateCoupon } from "../couponService";
+
+jest.mock("firebase/firestore");
+jest.mock("../../firebase/config", () => ({ db: {}, storage: {} }));
+
+const coupon = (changes: Partial<Coupon> = {}): Coupon => ({
+  code: "GURU20",
+  discountType: "percent",
+  value: 20,
+  usedCount: 0,
+  active: true,
+  ...changes,
+});
+
+describe("couponService.validateCoupon", () => {
+  it("accepts a percentage code restricted to a performance type", () => {
+    expect(validateCoupon(coupon({ performanceTypes: ["solo"], maxUses: 50 }))).toEqual([]);
+  });
+
+  it("normalizes codes typed by organizers", () => {
+    expect(normalizeCouponCode("  guru20 ")).toBe("GURU20");
+  });
+
+  it("reports bad codes, amounts, limits, dates and restrictions", () => {
+    const errors = validateCoupon(
+      coupon({
+        code: "x",
+        value: 120,
+        maxUses: 0,
+        expiresOn: "31-12-2025",
+        performanceTypes: ["ballet"],
+      })
+    );
+
+    expect(errors).toEqual([
+      "Code must be 3 to 20 capital letters, numbers or dashes",
+      "Percentage must be more than 0 and at most 100",
+      "Usage limit must be a whole number above 0, or left empty",
+      "Expiry must be a valid date, or left empty",
+      "Performance types must be configured performance types",
+    ]);
+    expect(validateCoupon(coupon({ discountType: "flat", value: 0 }))).toEqual([
+      "Discount amount must be more than 0",
+    ]);
+  });
+});
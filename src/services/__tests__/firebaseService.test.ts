@@ -3,22 +3,23 @@ import * as firestore from "firebase/firestore";
 // Removed unused config import to fix module resolution
 import { createBooking, Booking } from "../firebaseService";
 
+jest.mock("firebase/firestore");
+jest.mock("../../firebase/config", () => ({ db: {}, storage: {}, auth: {} }));
+
 describe("firebaseService.createBooking", () => {
-  const mockAddDoc = firestore.addDoc as jest.Mock;
+  const mockSetDoc = firestore.setDoc as jest.Mock;
+  const mockDoc = firestore.doc as jest.Mock;
   const mockServerTimestamp = firestore.serverTimestamp as jest.Mock;
 
   beforeEach(() => {
     jest.resetAllMocks();
     // serverTimestamp returns a consistent placeholder
     mockServerTimestamp.mockReturnValue("SERVER_TIMESTAMP");
+    mockDoc.mockImplementation((dbArg, ...path) => ({ path: path.join("/") }));
   });
 
   it("should create a booking without paymentData and return bookingId", async () => {
-    // Mock first addDoc (flatBookingsCollection)
-    mockAddDoc
-      .mockResolvedValueOnce({ id: "flatBooking1" })
-      // Mock subsequent addDoc calls (flatBookingsCollection)
-      .mockResolvedValueOnce({ id: "flatBooking2" });
+    mockSetDoc.mockResolvedValue(undefined);
 
     const bookingInput: Booking = {
       date: "2025-08-07",
@@ -35,42 +36,25 @@ describe("firebaseService.createBooking", () => {
     };
 
     const bookingId = await createBooking(bookingInput);
-    expect(bookingId).toBe("booking-123");
-
-    // Validate addDoc calls
-    // Should call addDoc twice (for each time slot in flatBookings)
-    expect(mockAddDoc).toHaveBeenCalledTimes(2);
-
-    // First call: flatBookingsCollection and data for first time slot
-    expect(mockAddDoc).toHaveBeenNthCalledWith(
-      1,
-      expect.anything(),
-      expect.objectContaining({
-        bookingId: expect.stringMatching(/^booking_\d+_[a-z0-9]+$/),
-        date: "2025-08-07",
-        timeSlot: "10:00 AM",
-        performanceType: "solo",
-        bookingStatus: "confirmed",
-      })
-    );
+    expect(bookingId).toMatch(/^booking_\d+_[a-z0-9]+$/);
 
-    // Second call: flatBookingsCollection and data for second time slot
-    expect(mockAddDoc).toHaveBeenNthCalledWith(
-      2,
-      expect.anything(),
+    // One document for the whole booking; the per-slot rows are derived on the server
+    expect(mockSetDoc).toHaveBeenCalledTimes(1);
+    expect(mockSetDoc).toHaveBeenCalledWith(
+      { path: `bookings/${bookingId}` },
       expect.objectContaining({
-        bookingId: expect.stringMatching(/^booking_\d+_[a-z0-9]+$/),
+        bookingId,
         date: "2025-08-07",
-        timeSlot: "11:00 AM",
+        timeSlots: ["10:00 AM", "10:30 AM"],
         performanceType: "solo",
-        bookingStatus: "confirmed",
+        participantCount: 1,
+        status: "confirmed",
       })
     );
   });
 
   it("should clean nested paymentData and filter undefined fields", async () => {
-    // Prepare mocks
-    mockAddDoc.mockResolvedValue({ id: "flatBooking1" });
+    mockSetDoc.mockResolvedValue(undefined);
 
     const rawPaymentData = {
       paymentId: "pay-001",
@@ -99,11 +83,10 @@ describe("firebaseService.createBooking", () => {
     const bookingId = await createBooking(bookingInput);
     expect(bookingId).toMatch(/^booking_\d+_[a-z0-9]+$/);
 
-    // Extract the data passed to the first addDoc call (flat booking)
-    const firstCall = mockAddDoc.mock.calls[0];
-    const passedData = firstCall[1];
-    // originalBookingData.paymentData should not include undefined fields (orderId, webhookProcessed)
-    expect(passedData.originalBookingData.paymentData).toEqual({
+    const passedData = mockSetDoc.mock.calls[0][1] as Booking;
+    expect(passedData.status).toBe("pending");
+    // paymentData should not include undefined fields (orderId, webhookProcessed)
+    expect(passedData.paymentData).toEqual({
       paymentId: "pay-001",
       signature: "sig-abc",
       amount: 150,
@@ -153,23 +136,21 @@ describe("firebaseService.getFlatBookingsForDate and getAllFlatBookings", () =>
 });
 
 describe("firebaseService.validateSlotsAvailable", () => {
+  const mockGetDoc = firestore.getDoc as jest.Mock;
+
+  const mockSlots = (slots: Record<string, string>) =>
+    mockGetDoc.mockResolvedValue({ exists: () => true, data: () => slots } as never);
+
   it("returns true when all slots available", async () => {
     const { validateSlotsAvailable } = await import("../firebaseService");
-    // Spy on getSlotsForDate
-    jest.spyOn(require("../firebaseService"), "getSlotsForDate").mockResolvedValue({
-      "10:00": "available",
-      "10:30": "available",
-    });
-    const ok = await validateSlotsAvailable("2025-08-07", ["10:00", "10:30"]);
+    mockSlots({ "10:00": "available", "10:30": "available" });
+    const ok = await validateSlotsAvailable("shyamotsava-2025", "2025-08-07", ["10:00", "10:30"]);
     expect(ok).toBe(true);
   });
   it("returns false if any slot unavailable", async () => {
     const { validateSlotsAvailable } = await import("../firebaseService");
-    jest.spyOn(require("../firebaseService"), "getSlotsForDate").mockResolvedValue({
-      "11:00": "booked",
-      "11:30": "available",
-    });
-    const ok = await validateSlotsAvailable("2025-08-07", ["11:00", "11:30"]);
+    mockSlots({ "11:00": "booked", "11:30": "available" });
+    const ok = await validateSlotsAvailable("shyamotsava-2025", "2025-08-07", ["11:00", "11:30"]);
     expect(ok).toBe(false);
   });
 });
@@ -177,8 +158,13 @@ describe("firebaseService.validateSlotsAvailable", () => {
 describe("firebaseService.exportBookingsToCSV", () => {
   it("generates CSV with headers and rows", async () => {
     const { exportBookingsToCSV } = await import("../firebaseService");
+    const row = { bookingId: "order_1", date: "2025-08-07", timeSlot: "10:00 AM" };
+    (firestore.getDocs as jest.Mock).mockResolvedValue({
+      forEach: (cb: Function) => cb({ id: "row_1", data: () => row }),
+    } as never);
     const csv = await exportBookingsToCSV();
     // Check headers
-    expect(csv.split("\n")[0]).toContain("Booking ID,Date,Time Slot");
+    expect(csv.split("\n")[0]).toContain("Booking ID,Event,Date,Time Slot");
+    expect(csv.split("\n")[1]).toContain("order_1");
   });
 });
@@ -0,0 +1,34 @@
+import { getDeliveryReport, QueuedMessage } from "../messageService";
+
+jest.mock("firebase/firestore");
+jest.mock("../../firebase/config", () => ({ db: {}, storage: {} }));
+
+const message = (id: string, changes: Partial<QueuedMessage>): QueuedMessage => ({
+  id,
+  batchId: "batch1",
+  bookingId: "order_1",
+  to: "919876543210",
+  body: "Hello",
+  kind: "broadcast",
+  status: "queued",
+  attempts: 0,
+  ...changes,
+});
+
+describe("messageService.getDeliveryReport", () => {
+  it("gives one row per booking at the status of its least advanced message", () => {
+    const report = getDeliveryReport([
+      message("a", { bookingId: "order_1", status: "read" }),
+      message("b", { bookingId: "order_2", status: "delivered" }),
+      message("c", { bookingId: "order_1", to: "919800000000", status: "sent" }),
+      message("d", { bookingId: "order_3", status: "failed", error: "Invalid number" }),
+    ]);
+
+    expect(report.map((row) => [row.bookingId, row.status, row.messages.length])).toEqual([
+      ["order_1", "sent", 2],
+      ["order_2", "delivered", 1],
+      ["order_3", "failed", 1],
+    ]);
+    expect(report[2].error).toBe("Invalid number");
+  });
+});
@@ -0,0 +1,104 @@
+import { WhatsAppTemplate } from "../../config/eventConfig";
+import { FlatBooking } from "../firebaseService";
+import { queueMessages } from "../paymentService";
+import { whatsAppService } from "../whatsAppService";
+
+jest.mock("firebase/firestore");
+jest.mock("../../firebase/config", () => ({ db: {}, storage: {}, auth: {} }));
+jest.mock("../paymentService", () => ({ queueMessages: jest.fn() }));
+
+const mockQueueMessages = queueMessages as jest.Mock;
+
+const asha = {
+  bookingId: "order_1",
+  date: "2025-08-16",
+  timeSlot: "05:00 PM",
+  performanceType: "solo",
+  participantName: "Asha Rao",
+  phoneNumber: "98765 43210",
+  email: " Asha@Example.com",
+  contactChannel: "email",
+} as FlatBooking;
+
+const meera = {
+  bookingId: "order_2",
+  date: "2025-08-16",
+  timeSlot: "05:10 PM",
+  performanceType: "solo",
+  participantName: "Meera",
+  phoneNumber: "9988776655",
+} as FlatBooking;
+
+const template: WhatsAppTemplate = {
+  name: "slot_update",
+  languages: ["en"],
+  bodyParameters: [{ value: "{name}" }],
+  text: "Hello {{1}}, see you soon.",
+};
+
+describe("notification channels", () => {
+  beforeEach(() => {
+    mockQueueMessages.mockReset();
+    mockQueueMessages.mockImplementation(async ({ messages }) => ({
+      batchId: "batch_1",
+      queued: messages.length,
+    }));
+  });
+
+  it("uses the channel each dancer chose when they have an address there", () => {
+    expect(whatsAppService.getChannel(asha).id).toBe("email");
+    expect(whatsAppService.getChannel(meera).id).toBe("whatsapp");
+    expect(whatsAppService.getChannel({ ...asha, email: "asha at example" }).id).toBe("whatsapp");
+  });
+
+  it("emails the dancers who chose email with the same placeholders", async () => {
+    const result = await whatsAppService.sendBatchMessages(
+      "Hi {name}, you are on at {event_time}",
+      [asha, meera, { ...meera, bookingId: "order_3", phoneNumber: "" }],
+      "broadcast",
+      { subject: "Your slot on {event_date}" }
+    );
+
+    expect(mockQueueMessages).toHaveBeenCalledWith({
+      kind: "broadcast",
+      messages: [
+        {
+          bookingId: "order_1",
+          channel: "email",
+          to: "asha@example.com",
+          subject: "Your slot on 2025-08-16",
+          body: "Hi Asha Rao, you are on at 05:00 PM",
+        },
+        {
+          bookingId: "order_2",
+          channel: "whatsapp",
+          to: "919988776655",
+          body: "Hi Meera, you are on at 05:10 PM",
+        },
+      ],
+    });
+    expect(result.queued).toBe(2);
+    expect(result.skipped.map((booking) => booking.bookingId)).toEqual(["order_3"]);
+  });
+
+  it("sends templates by WhatsApp only and email text to the rest", async () => {
+    await whatsAppService.sendBatchMessages({ template, language: "en" }, [asha, meera], "delay", {
+      subject: "Running late",
+      text: "Hi {name}, we are running late",
+    });
+
+    const [{ messages }] = mockQueueMessages.mock.calls[0];
+    expect(messages[0]).toEqual({
+      bookingId: "order_1",
+      channel: "email",
+      to: "asha@example.com",
+      subject: "Running late",
+      body: "Hi Asha Rao, we are running late",
+    });
+    expect(messages[1]).toMatchObject({
+      channel: "whatsapp",
+      body: "Hello Meera, see you soon.",
+      template: { name: "slot_update", language: "en" },
+    });
+  });
+});
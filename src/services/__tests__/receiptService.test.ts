@@ -0,0 +1,95 @@
+import { Booking } from "../firebaseService";
+import { getReceiptDetails, getSummaryReceiptDetails } from "../receiptService";
+
+jest.mock("firebase/firestore");
+jest.mock("../../firebase/config", () => ({ db: {}, storage: {} }));
+jest.mock("jspdf", () => ({ jsPDF: jest.fn() }));
+
+const booking = (changes: Partial<Booking> = {}): Booking => ({
+  bookingId: "order_P8x2",
+  eventId: "shyamotsava-2025",
+  eventName: "Shyamotsava 2025",
+  date: "2025-08-16",
+  timeSlots: ["05:00 PM", "05:10 PM"],
+  performanceType: "solo",
+  performanceTypeName: "Solo",
+  participantDetails: { fullName: "Asha Rao", phoneNumber: "9876543210" },
+  participantCount: 1,
+  amount: 3240,
+  breakdown: [
+    { slot: "05:00 PM", tier: "onPeak", pricePerPerson: 1620, amount: 1620 },
+    { slot: "05:10 PM", tier: "onPeak", pricePerPerson: 1620, amount: 1620 },
+  ],
+  couponCode: "GURU10",
+  discount: 360,
+  paymentData: { paymentId: "pay_123", amount: 3240, currency: "INR", status: "success" },
+  status: "confirmed",
+  ...changes,
+});
+
+describe("receiptService.getReceiptDetails", () => {
+  it("prints the prices the booking was charged, with the venue and tier names", () => {
+    expect(getReceiptDetails(booking())).toEqual({
+      bookingId: "order_P8x2",
+      eventName: "Shyamotsava 2025",
+      date: "Saturday, 16 August 2025",
+      venue: "Banaswadi Anjaneya Temple",
+      performanceTypeName: "Solo",
+      participants: ["Asha Rao"],
+      participantCount: 1,
+      slots: [
+        { slot: "05:00 PM", tierName: "Prime Time", pricePerPerson: 1620, amount: 1620 },
+        { slot: "05:10 PM", tierName: "Prime Time", pricePerPerson: 1620, amount: 1620 },
+      ],
+      total: 3240,
+      couponCode: "GURU10",
+      discount: 360,
+      paymentId: "pay_123",
+      status: "confirmed",
+    });
+  });
+
+  it("handles bookings added from the admin panel without payment or tiers", () => {
+    const details = getReceiptDetails(
+      booking({
+        bookingId: "booking_1",
+        amount: undefined,
+        breakdown: [{ slot: "09:00 AM", pricePerPerson: 1200, amount: 1200 }],
+        timeSlots: ["09:00 AM"],
+        couponCode: undefined,
+        discount: undefined,
+        paymentData: undefined,
+      })
+    );
+
+    expect(details.slots).toEqual([
+      { slot: "09:00 AM", tierName: "Early Bird", pricePerPerson: 1200, amount: 1200 },
+    ]);
+    expect(details.total).toBe(1200);
+    expect(details.paymentId).toBeUndefined();
+  });
+
+  it("prints the same receipt from the dancer's lookup summary", () => {
+    const { eventId, eventName, date, timeSlots, performanceType, amount, breakdown } = booking();
+    expect(
+      getSummaryReceiptDetails({
+        bookingId: "order_P8x2",
+        eventId,
+        eventName,
+        date,
+        timeSlots,
+        performanceType,
+        performanceTypeName: "Solo",
+        participantName: "Asha Rao",
+        participantNames: ["Asha Rao"],
+        participantCount: 1,
+        status: "confirmed",
+        amount,
+        breakdown,
+        couponCode: "GURU10",
+        discount: 360,
+        paymentId: "pay_123",
+      })
+    ).toEqual(getReceiptDetails(booking()));
+  });
+});
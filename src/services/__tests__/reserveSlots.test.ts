@@ -0,0 +1,142 @@
+import * as firestore from "firebase/firestore";
+import { reserveSlots, SlotConflictError } from "../firebaseService";
+
+jest.mock("firebase/firestore");
+jest.mock("../../firebase/config", () => ({ db: {}, storage: {} }));
+
+describe("firebaseService.reserveSlots", () => {
+  const mockDoc = firestore.doc as jest.Mock;
+  const mockRunTransaction = firestore.runTransaction as jest.Mock;
+
+  const snapshot = (data?: Record<string, any>) => ({
+    exists: () => data !== undefined,
+    data: () => data,
+  });
+
+  let transaction: { get: jest.Mock; update: jest.Mock; set: jest.Mock };
+
+  const mockDocuments = (slots: Record<string, string>, owners?: Record<string, any>) => {
+    transaction.get.mockImplementation(async (ref: { path: string }) =>
+      ref.path.startsWith("slots/") ? snapshot(slots) : snapshot(owners)
+    );
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockDoc.mockImplementation((_db, collectionName, id) => ({ path: `${collectionName}/${id}` }));
+    transaction = { get: jest.fn(), update: jest.fn(), set: jest.fn() };
+    mockRunTransaction.mockImplementation(async (_db, updateFunction) => updateFunction(transaction));
+  });
+
+  it("claims every requested slot in one transaction", async () => {
+    mockDocuments({ "09:00 AM": "available", "09:10 AM": "available" });
+
+    await reserveSlots("shyamotsava-2025", "2025-08-16", ["09:00 AM", "09:10 AM"], "booking_1");
+
+    expect(transaction.update).toHaveBeenCalledWith(
+      { path: "slots/shyamotsava-2025_2025-08-16" },
+      { "09:00 AM": "booked", "09:10 AM": "booked" }
+    );
+    expect(transaction.set).toHaveBeenCalledWith(
+      { path: "slotOwners/shyamotsava-2025_2025-08-16" },
+      { "09:00 AM": { owner: "booking_1" }, "09:10 AM": { owner: "booking_1" } },
+      { merge: true }
+    );
+  });
+
+  it("writes nothing and lists the lost slots when any slot is taken", async () => {
+    mockDocuments(
+      { "09:00 AM": "available", "09:10 AM": "booked", "09:20 AM": "booked" },
+      { "09:10 AM": { owner: "booking_other" }, "09:20 AM": { owner: "booking_other" } }
+    );
+
+    const attempt = reserveSlots(
+      "shyamotsava-2025",
+      "2025-08-16",
+      ["09:00 AM", "09:10 AM", "09:20 AM"],
+      "booking_1"
+    );
+
+    await expect(attempt).rejects.toBeInstanceOf(SlotConflictError);
+    await expect(attempt).rejects.toMatchObject({ lostSlots: ["09:10 AM", "09:20 AM"] });
+    expect(transaction.update).not.toHaveBeenCalled();
+    expect(transaction.set).not.toHaveBeenCalled();
+  });
+
+  it("lets the current owner claim its own held slots again", async () => {
+    mockDocuments(
+      { "09:00 AM": "held" },
+      { "09:00 AM": { owner: "booking_1", expiresAt: Date.now() + 60000 } }
+    );
+
+    await expect(
+      reserveSlots("shyamotsava-2025", "2025-08-16", ["09:00 AM"], "booking_1")
+    ).resolves.toBeUndefined();
+    expect(transaction.update).toHaveBeenCalled();
+  });
+
+  it("keeps a booked slot even from the owner that booked it", async () => {
+    mockDocuments({ "09:00 AM": "booked" }, { "09:00 AM": { owner: "booking_1" } });
+
+    await expect(
+      reserveSlots("shyamotsava-2025", "2025-08-16", ["09:00 AM"], "booking_1")
+    ).rejects.toMatchObject({ lostSlots: ["09:00 AM"] });
+    expect(transaction.update).not.toHaveBeenCalled();
+  });
+
+  it("treats an expired hold as free and keeps an active one", async () => {
+    const now = Date.now();
+    mockDocuments(
+      { "09:00 AM": "held", "09:10 AM": "held" },
+      {
+        "09:00 AM": { owner: "hold_other", expiresAt: now - 1000 },
+        "09:10 AM": { owner: "hold_other", expiresAt: now + 60000 },
+      }
+    );
+
+    await expect(
+      reserveSlots("shyamotsava-2025", "2025-08-16", ["09:00 AM"], "booking_1")
+    ).resolves.toBeUndefined();
+    await expect(
+      reserveSlots("shyamotsava-2025", "2025-08-16", ["09:10 AM"], "booking_1")
+    ).rejects.toMatchObject({
+      lostSlots: ["09:10 AM"],
+    });
+  });
+});
+
+describe("firebaseService.reserveSlots with an existing hold", () => {
+  const mockDoc = firestore.doc as jest.Mock;
+  const mockRunTransaction = firestore.runTransaction as jest.Mock;
+  const mockDeleteField = firestore.deleteField as jest.Mock;
+
+  it("books the new selection and drops the owner's other holds", async () => {
+    jest.resetAllMocks();
+    mockDoc.mockImplementation((_db, collectionName, id) => ({ path: `${collectionName}/${id}` }));
+    mockDeleteField.mockReturnValue("DELETE_FIELD");
+    const transaction = {
+      get: jest.fn(async (ref: { path: string }) => ({
+        exists: () => true,
+        data: () =>
+          ref.path.startsWith("slots/")
+            ? { "09:00 AM": "held", "09:10 AM": "available" }
+            : { "09:00 AM": { owner: "hold_1", expiresAt: Date.now() + 60000 } },
+      })),
+      update: jest.fn(),
+      set: jest.fn(),
+    };
+    mockRunTransaction.mockImplementation(async (_db, updateFunction) => updateFunction(transaction));
+
+    await reserveSlots("shyamotsava-2025", "2025-08-16", ["09:10 AM"], "hold_1");
+
+    expect(transaction.update).toHaveBeenCalledWith(
+      { path: "slots/shyamotsava-2025_2025-08-16" },
+      { "09:00 AM": "available", "09:10 AM": "booked" }
+    );
+    expect(transaction.set).toHaveBeenCalledWith(
+      { path: "slotOwners/shyamotsava-2025_2025-08-16" },
+      { "09:00 AM": "DELETE_FIELD", "09:10 AM": { owner: "hold_1" } },
+      { merge: true }
+    );
+  });
+});
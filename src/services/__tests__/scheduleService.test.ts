@@ -0,0 +1,101 @@
+import { Booking } from "../firebaseService";
+import {
+  buildRunningOrder,
+  getBookingDelay,
+  getRunningOrderNow,
+  needsDelayNotice,
+} from "../scheduleService";
+
+jest.mock("firebase/firestore");
+jest.mock("../../firebase/config", () => ({ db: {}, storage: {}, auth: {} }));
+
+const booking = (id: string, timeSlots: string[], changes: Partial<Booking> = {}): Booking => ({
+  id,
+  date: "2025-08-16",
+  timeSlots,
+  performanceType: "solo",
+  participantDetails: { fullName: id },
+  status: "confirmed",
+  ...changes,
+});
+
+describe("scheduleService.buildRunningOrder", () => {
+  const slots = {
+    "05:30 PM": "available",
+    "05:00 PM": "available",
+    "05:10 PM": "booked",
+    "05:20 PM": "booked",
+    "05:40 PM": "booked",
+    "05:50 PM": "booked",
+    "06:00 PM": "available",
+  };
+
+  it("merges consecutive slots of a booking into one act and open slots into breaks", () => {
+    const items = buildRunningOrder(
+      slots,
+      [
+        booking("Asha", ["05:20 PM", "05:10 PM"]),
+        booking("Meera", ["05:40 PM"]),
+        booking("Unpaid", ["05:50 PM"], { status: "pending" }),
+      ],
+      10
+    );
+
+    expect(items.map((item) => [item.kind, item.names.join(), item.slots])).toEqual([
+      ["act", "Asha", ["05:10 PM", "05:20 PM"]],
+      ["break", "", ["05:30 PM"]],
+      ["act", "Meera", ["05:40 PM"]],
+      ["act", "", ["05:50 PM"]],
+    ]);
+    expect(items[0].end).toBe(17 * 60 + 30);
+  });
+
+  it("moves now and next along by the delay", () => {
+    const items = buildRunningOrder(
+      slots,
+      [booking("Asha", ["05:10 PM", "05:20 PM"]), booking("Meera", ["05:40 PM", "05:50 PM"])],
+      10
+    );
+    const atFiveFortyFive = 17 * 60 + 45;
+
+    expect(getRunningOrderNow(items, atFiveFortyFive).current?.bookingId).toBe("Meera");
+    const late = getRunningOrderNow(items, atFiveFortyFive, { delayMinutes: 30 });
+    expect(late.current?.bookingId).toBe("Asha");
+    expect(late.next?.bookingId).toBe("Meera");
+    expect(late.later).toEqual([]);
+
+    // Asha is on time; Meera's act starts 20 minutes late
+    const lateFromMeera = { delayMinutes: 20, delayFromSlot: "05:40 PM" };
+    expect(getRunningOrderNow(items, atFiveFortyFive, lateFromMeera)).toEqual({
+      current: null,
+      next: items[2],
+      later: [],
+    });
+  });
+});
+
+describe("scheduleService.getBookingDelay", () => {
+  const settings = { delayMinutes: 30, delayFromSlot: "05:20 PM" };
+
+  it("estimates the slots from the delayed slot onward", () => {
+    expect(getBookingDelay(booking("Asha", ["05:10 PM", "05:20 PM"]), settings)).toEqual({
+      minutes: 30,
+      estimatedTimes: { "05:20 PM": "05:50 PM" },
+    });
+    expect(getBookingDelay(booking("Meera", ["05:00 PM"]), settings)).toEqual({
+      minutes: 0,
+      estimatedTimes: {},
+    });
+  });
+
+  it("only asks for a message when the delay moved past the threshold since the last one", () => {
+    const told = booking("Asha", ["05:20 PM"], {
+      delay: { minutes: 20, estimatedTimes: {}, notifiedMinutes: 20 },
+    });
+
+    expect(needsDelayNotice(booking("Meera", ["05:40 PM"]), 20, 15)).toBe(true);
+    expect(needsDelayNotice(told, 30, 15)).toBe(false);
+    expect(needsDelayNotice(told, 35, 15)).toBe(true);
+    expect(needsDelayNotice(told, 0, 15)).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { WhatsAppTemplate } from "../../config/eventConfig";
+import { FlatBooking } from "../firebaseService";
+import { whatsAppService } from "../whatsAppService";
+
+jest.mock("firebase/firestore");
+jest.mock("../../firebase/config", () => ({ db: {}, storage: {}, auth: {} }));
+
+const booking = {
+  bookingId: "order_1",
+  date: "2025-08-16",
+  timeSlot: "05:00 PM",
+  performanceType: "solo",
+  performanceTypeName: "Solo",
+  pricePerPerson: 500,
+  participantName: "Asha Rao",
+  danceStyle: "Kathak",
+  totalSlots: 1,
+  amountPerSlot: 500,
+  estimatedTime: "05:20 PM",
+} as FlatBooking;
+
+const template: WhatsAppTemplate = {
+  name: "running_late",
+  languages: ["en", "hi"],
+  header: { type: "image", link: "https://example.com/poster.jpg" },
+  bodyParameters: [{ value: "{name}" }, { value: "{event_time}\nnow {estimated_time}" }],
+  text: "Hello {{1}}, your slot {{2}}.",
+};
+
+describe("whatsAppService template messages", () => {
+  it("fills the header media and each body parameter for the chosen language", () => {
+    expect(whatsAppService.buildTemplateMessage({ template, language: "hi" }, booking)).toEqual({
+      name: "running_late",
+      language: "hi",
+      components: [
+        {
+          type: "header",
+          parameters: [{ type: "image", image: { link: "https://example.com/poster.jpg" } }],
+        },
+        {
+          type: "body",
+          parameters: [
+            { type: "text", text: "Asha Rao" },
+            { type: "text", text: "05:00 PM now 05:20 PM" },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("names parameters for named templates and previews the approved text", () => {
+    const named: WhatsAppTemplate = {
+      name: "slot_update",
+      languages: ["en"],
+      bodyParameters: [
+        { name: "dancer", value: "{name}" },
+        { name: "time", value: "{estimated_time}" },
+      ],
+      text: "Hi {{dancer}}, please be ready by {{time}}. {{missing}}",
+    };
+    const choice = { template: named, language: "" };
+
+    const message = whatsAppService.buildTemplateMessage(choice, booking);
+
+    expect(message.language).toBe("en");
+    expect(message.components).toEqual([
+      {
+        type: "body",
+        parameters: [
+          { type: "text", text: "Asha Rao", parameter_name: "dancer" },
+          { type: "text", text: "05:20 PM", parameter_name: "time" },
+        ],
+      },
+    ]);
+    expect(whatsAppService.previewTemplate(choice, booking)).toBe(
+      "Hi Asha Rao, please be ready by 05:20 PM. {{missing}}"
+    );
+    expect(
+      whatsAppService.previewTemplate(
+        { template: { ...named, text: undefined }, language: "en" },
+        booking
+      )
+    ).toBe("[slot_update] Asha Rao | 05:20 PM");
+  });
+});
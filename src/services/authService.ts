@@ -0,0 +1,105 @@
+// Admin sign-in with Firebase Auth. Roles live in admins/{uid} as { role, email }
+// and are enforced by firestore.rules and storage.rules; the UI only hides what a role can't do.
+import { GoogleAuthProvider, onAuthStateChanged, signInWithPopup, signOut, User } from "firebase/auth";
+import { doc, getDoc } from "firebase/firestore";
+import { auth, db } from "../firebase/config";
+
+export type AdminRole = "viewer" | "desk" | "organizer";
+
+export type AdminPermission =
+  | "viewBookings"
+  | "exportBookings"
+  | "messageParticipants"
+  | "editBookings"
+  | "checkInParticipants"
+  | "addBookings"
+  | "deleteBookings"
+  | "refundBookings"
+  | "runDiagnostics"
+  | "editSettings"
+  | "manageCoupons";
+
+export interface AdminUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  role: AdminRole;
+}
+
+// Keep in sync with the role checks in firestore.rules
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  viewer: ["viewBookings", "exportBookings"],
+  desk: [
+    "viewBookings",
+    "exportBookings",
+    "messageParticipants",
+    "editBookings",
+    "checkInParticipants",
+  ],
+  organizer: [
+    "viewBookings",
+    "exportBookings",
+    "messageParticipants",
+    "editBookings",
+    "checkInParticipants",
+    "addBookings",
+    "deleteBookings",
+    "refundBookings",
+    "runDiagnostics",
+    "editSettings",
+    "manageCoupons",
+  ],
+};
+
+const isAdminRole = (role: unknown): role is AdminRole =>
+  typeof role === "string" && role in ROLE_PERMISSIONS;
+
+export const hasPermission = (role: AdminRole, permission: AdminPermission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission);
+
+// Look up the role for a signed-in user; null if they are not an admin
+export const getAdminRole = async (uid: string): Promise<AdminRole | null> => {
+  const adminDoc = await getDoc(doc(db, "admins", uid));
+  const role = adminDoc.exists() ? adminDoc.data().role : null;
+  return isAdminRole(role) ? role : null;
+};
+
+const toAdminUser = async (user: User): Promise<AdminUser | null> => {
+  const role = await getAdminRole(user.uid);
+  if (!role) {
+    return null;
+  }
+  return { uid: user.uid, email: user.email, displayName: user.displayName, role };
+};
+
+export const signInWithGoogle = async (): Promise<AdminUser | null> => {
+  const { user } = await signInWithPopup(auth, new GoogleAuthProvider());
+  const adminUser = await toAdminUser(user);
+
+  if (!adminUser) {
+    console.warn("🚫 Signed-in account is not an admin:", user.email);
+    await signOut(auth);
+    return null;
+  }
+
+  console.log("🔑 Admin signed in:", adminUser.email, "Role:", adminUser.role);
+  return adminUser;
+};
+
+export const signOutAdmin = (): Promise<void> => signOut(auth);
+
+// Follow the signed-in admin across reloads; callback receives null when signed out or not an admin
+export const subscribeToAdminUser = (callback: (adminUser: AdminUser | null) => void) =>
+  onAuthStateChanged(auth, async (user) => {
+    if (!user) {
+      callback(null);
+      return;
+    }
+
+    try {
+      callback(await toAdminUser(user));
+    } catch (error) {
+      console.error("Failed to load admin role:", error);
+      callback(null);
+    }
+  });
@@ -0,0 +1,90 @@
+// Event-day check-in. Desk volunteers scan the QR code of a booking ID (success page or PDF
+// receipt) or type it, then tick off each participant as they arrive. Arrivals are stored on
+// the booking as checkedIn: { [participantIndex]: { at, by } }, indexed like
+// getCheckInNames.
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { auth, db } from "../firebase/config";
+import { getParticipantNames } from "../utils/participantUtils";
+import { timeToMinutes } from "../utils/timeUtils";
+import { Booking, getBookingStatus } from "./firebaseService";
+
+// Dancers must be at the venue this long before their first slot
+export const ARRIVAL_LEAD_MINUTES = 60;
+
+// One entry per participant to tick off. Bookings made before names were stored per dancer
+// are checked in as one.
+export const getCheckInNames = (booking: Booking): string[] => {
+  const names = getParticipantNames(booking.performanceType, booking.participantDetails || {});
+  return names.length > 0 ? names : [booking.participantDetails?.participantNames || "Participant"];
+};
+
+export const isCheckedIn = (booking: Booking, index: number): boolean =>
+  !!booking.checkedIn?.[String(index)];
+
+export const isFullyCheckedIn = (booking: Booking): boolean =>
+  getCheckInNames(booking).every((_, index) => isCheckedIn(booking, index));
+
+// The booking's earliest slot, and when it starts in minutes after midnight
+export const getFirstSlot = (booking: Booking): string =>
+  [...booking.timeSlots].sort((a, b) => timeToMinutes(a) - timeToMinutes(b))[0];
+
+export const getFirstSlotMinutes = (booking: Booking): number =>
+  timeToMinutes(getFirstSlot(booking));
+
+// "YYYY-MM-DD" of a moment in the venue's (the device's) local time
+export const toLocalDate = (moment: Date): string =>
+  [
+    moment.getFullYear(),
+    String(moment.getMonth() + 1).padStart(2, "0"),
+    String(moment.getDate()).padStart(2, "0"),
+  ].join("-");
+
+// Confirmed bookings on now's date whose first slot starts within the arrival lead time and
+// that still have someone to check in, soonest first
+export const getDueBookings = (bookings: Booking[], now: Date = new Date()): Booking[] => {
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  return bookings
+    .filter(
+      (booking) =>
+        booking.date === toLocalDate(now) &&
+        getBookingStatus(booking) === "confirmed" &&
+        !isFullyCheckedIn(booking)
+    )
+    .filter((booking) => {
+      const startsIn = getFirstSlotMinutes(booking) - nowMinutes;
+      return startsIn >= 0 && startsIn <= ARRIVAL_LEAD_MINUTES;
+    })
+    .sort((a, b) => getFirstSlotMinutes(a) - getFirstSlotMinutes(b));
+};
+
+// Live view of every booking on a date, for the check-in tab
+export const subscribeToBookingsForDate = (
+  date: string,
+  callback: (bookings: Booking[]) => void
+) => {
+  const q = query(collection(db, "bookings"), where("date", "==", date));
+  return onSnapshot(q, (querySnapshot) => {
+    callback(
+      querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as Booking)
+    );
+  });
+};
+
+// Mark participants (by index) as arrived now, recording the signed-in volunteer
+export const checkInParticipants = async (bookingId: string, indexes: number[]): Promise<void> => {
+  const checkedInBy = auth.currentUser?.email || auth.currentUser?.uid || "";
+  const updates: Record<string, any> = { updatedAt: serverTimestamp() };
+  indexes.forEach((index) => {
+    updates[`checkedIn.${index}`] = { at: serverTimestamp(), by: checkedInBy };
+  });
+  await updateDoc(doc(db, "bookings", bookingId), updates);
+  console.log(`✅ Checked in ${indexes.length} participant(s) of booking ${bookingId}`);
+};
@@ -0,0 +1,459 @@
+// Event settings stored in Firestore at config/event. They are loaded once at startup over the
+// defaults in src/config/eventConfig.ts, which stay in use when the document is missing or
+// invalid. Organizers edit them from the Settings tab of the admin panel.
+import { doc, getDoc, setDoc, runTransaction, deleteField } from "firebase/firestore";
+import { db } from "../firebase/config";
+import {
+  eventConfig,
+  EventConfig,
+  FormField,
+  NotificationEvent,
+  ParticipantEntry,
+  PricingTier,
+} from "../config/eventConfig";
+import {
+  PRICING_TIERS,
+  convertTimeToMinutes,
+  generateTimeSlots,
+  getSlotDocId,
+} from "../utils/timeUtils";
+
+export const FORM_FIELD_TYPES: FormField["type"][] = [
+  "text",
+  "number",
+  "tel",
+  "email",
+  "date",
+  "textarea",
+  "checkbox",
+  "select",
+  "radio",
+  "file",
+];
+
+// Names of the automatic notifications in Settings and validation messages
+export const NOTIFICATION_LABELS: Record<NotificationEvent, string> = {
+  bookingConfirmed: "Booking confirmed",
+  paymentFailed: "Payment failed",
+  bookingExpired: "Booking expired unpaid",
+  slotChanged: "Slots changed",
+  bookingCancelled: "Booking cancelled",
+  slotReminder: "Reminder before the slot",
+  waitlistOffer: "Waitlist slot offered",
+};
+
+// A festival day whose existing slot document no longer matches its hours or slot duration
+export interface SlotGridChange {
+  eventId: string;
+  date: string;
+  addedSlots: string[];
+  removedSlots: string[]; // Free slots outside the new hours; deleted when reconciling
+  strandedSlots: string[]; // Held or booked slots outside the new hours; kept so no booking is lost
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ID_PATTERN = /^[a-z0-9-]+$/;
+// WhatsApp template names, language codes ("en", "en_US") and named parameters
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9_]+$/;
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(_[A-Z]{2})?$/;
+
+const getEventConfigRef = () => doc(db, "config", "event");
+
+const isWholeNumber = (value: unknown, min: number, max = Infinity) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isPrice = (value: unknown) => typeof value === "number" && value >= 0;
+
+const isTimeRange = (start?: string, end?: string) =>
+  TIME_PATTERN.test(start || "") &&
+  TIME_PATTERN.test(end || "") &&
+  convertTimeToMinutes(start!) < convertTimeToMinutes(end!);
+
+const getTierLabel = (config: EventConfig, tier: PricingTier) =>
+  config.timePricing?.timeRanges[tier]?.displayName?.trim() || tier;
+
+const isOptionalNumber = (value: unknown) => value === undefined || typeof value === "number";
+
+// Problems with a form field's validation rules
+const validateFieldRules = (fieldLabel: string, field: FormField): string[] => {
+  const errors: string[] = [];
+  const { pattern, minLength, maxLength, min, max, maxFileSizeMB } = field.validation || {};
+
+  if (pattern) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      errors.push(`${fieldLabel}: pattern is not a valid regular expression`);
+    }
+  }
+  if (
+    ![minLength, maxLength, min, max, maxFileSizeMB].every(isOptionalNumber) ||
+    (minLength !== undefined && maxLength !== undefined && minLength > maxLength) ||
+    (min !== undefined && max !== undefined && min > max)
+  ) {
+    errors.push(`${fieldLabel}: limits must be numbers with the minimum at most the maximum`);
+  }
+  return errors;
+};
+
+// Every problem with the settings as a readable message; empty when they can be saved
+export const validateEventConfig = (config: EventConfig): string[] => {
+  const errors: string[] = [];
+
+  if (!config.eventName?.trim()) {
+    errors.push("Site name is required");
+  }
+  if (!isWholeNumber(config.slotDuration, 5, 120)) {
+    errors.push("Slot duration must be a whole number of minutes between 5 and 120");
+  }
+  if (!isWholeNumber(config.slotHoldMinutes, 1, 60)) {
+    errors.push("Slot hold must be a whole number of minutes between 1 and 60");
+  }
+  // Settings saved before the waitlist existed keep the default
+  if (
+    config.waitlistOfferMinutes !== undefined &&
+    !isWholeNumber(config.waitlistOfferMinutes, 5, 24 * 60)
+  ) {
+    errors.push("Waitlist offer must be a whole number of minutes between 5 and 1440");
+  }
+  if (
+    config.delayNotifyMinutes !== undefined &&
+    !isWholeNumber(config.delayNotifyMinutes, 1, 240)
+  ) {
+    errors.push("Delay notice threshold must be a whole number of minutes between 1 and 240");
+  }
+  if (config.delayMessageTemplate !== undefined && !config.delayMessageTemplate.trim()) {
+    errors.push("Delay message is required");
+  }
+  if (config.delayEmailSubject !== undefined && !config.delayEmailSubject.trim()) {
+    errors.push("Delay email subject is required");
+  }
+  if (!config.rulesAndRegulations?.trim()) {
+    errors.push("Rules text is required");
+  }
+
+  if (!config.events?.length) {
+    errors.push("Add at least one festival");
+  }
+  const eventIds = new Set<string>();
+  (config.events || []).forEach((event, index) => {
+    const label = event.name?.trim() || `Festival ${index + 1}`;
+    if (!event.name?.trim()) {
+      errors.push(`${label}: name is required`);
+    }
+    if (!ID_PATTERN.test(event.id || "")) {
+      errors.push(`${label}: ID may only use lowercase letters, numbers and dashes`);
+    } else if (eventIds.has(event.id)) {
+      errors.push(`${label}: ID "${event.id}" is used by another festival`);
+    }
+    eventIds.add(event.id);
+
+    if (!event.days?.length) {
+      errors.push(`${label}: add at least one day`);
+    }
+    const dates = new Set<string>();
+    (event.days || []).forEach((day) => {
+      if (!DATE_PATTERN.test(day.date || "") || isNaN(Date.parse(day.date))) {
+        errors.push(`${label}: "${day.date || ""}" is not a valid date`);
+      } else if (dates.has(day.date)) {
+        errors.push(`${label}: ${day.date} is listed twice`);
+      }
+      dates.add(day.date);
+      if (!isTimeRange(day.startTime, day.endTime)) {
+        errors.push(`${label} ${day.date}: start time must be before end time (HH:MM)`);
+      }
+    });
+  });
+
+  if (!config.performanceTypes?.length) {
+    errors.push("Add at least one performance type");
+  }
+  const typeIds = new Set<string>();
+  (config.performanceTypes || []).forEach((type, index) => {
+    const label = type.name?.trim() || `Performance type ${index + 1}`;
+    if (!type.name?.trim()) {
+      errors.push(`${label}: name is required`);
+    }
+    if (!ID_PATTERN.test(type.id || "") || typeIds.has(type.id)) {
+      errors.push(`${label}: ID must be unique and use lowercase letters, numbers and dashes`);
+    }
+    typeIds.add(type.id);
+    if (!isPrice(type.pricePerPerson)) {
+      errors.push(`${label}: price per person must be zero or more`);
+    }
+    PRICING_TIERS.forEach((tier) => {
+      const tierPrice = type.tierPrices?.[tier];
+      if (tierPrice !== undefined && !isPrice(tierPrice)) {
+        errors.push(`${label}: ${getTierLabel(config, tier)} price must be zero or more`);
+      }
+    });
+    if (
+      !isWholeNumber(type.minParticipants, 1) ||
+      !isWholeNumber(type.maxParticipants, type.minParticipants || 1)
+    ) {
+      errors.push(
+        `${label}: participants must be whole numbers with the minimum at most the maximum`
+      );
+    }
+
+    const fieldIds = new Set<string>();
+    (type.formFields || []).forEach((field, fieldIndex) => {
+      const fieldLabel = `${label} field ${fieldIndex + 1}`;
+      if (!field.id?.trim() || fieldIds.has(field.id)) {
+        errors.push(`${fieldLabel}: ID is required and must be unique`);
+      }
+      if (!field.label?.trim()) {
+        errors.push(`${fieldLabel}: label is required`);
+      }
+      if (!FORM_FIELD_TYPES.includes(field.type)) {
+        errors.push(`${fieldLabel}: unknown field type "${field.type}"`);
+      }
+      if (
+        (field.type === "select" || field.type === "radio") &&
+        (!field.options?.length || field.options.some((option) => !option.trim()))
+      ) {
+        errors.push(`${fieldLabel}: add at least one option and leave none blank`);
+      }
+      errors.push(...validateFieldRules(fieldLabel, field));
+
+      // Conditions may only refer to earlier fields, so the form never loops
+      if (field.showIf && (!fieldIds.has(field.showIf.field) || !field.showIf.equals?.length)) {
+        errors.push(
+          `${fieldLabel}: show only if must name an earlier field and at least one value`
+        );
+      }
+      fieldIds.add(field.id);
+    });
+
+    const participants: Partial<ParticipantEntry> = type.participants || {};
+    const { mode, nameFields = [], phoneField = "" } = participants;
+    // Members are entered in their own sub-form, so only "fields" names form fields
+    if (mode === "fields") {
+      if (!nameFields.length || nameFields.some((fieldId) => !fieldIds.has(fieldId))) {
+        errors.push(`${label}: participant name fields must be fields of this form`);
+      } else if (nameFields.length > (type.maxParticipants || 0)) {
+        errors.push(`${label}: more name fields than the maximum number of participants`);
+      }
+    } else if (mode !== "members") {
+      errors.push(`${label}: choose how participant names are entered`);
+    }
+    if (!fieldIds.has(phoneField)) {
+      errors.push(`${label}: contact phone must be a field of this form`);
+    }
+  });
+
+  // Settings saved before templates existed have none
+  const templateNames = new Set<string>();
+  (config.whatsAppTemplates || []).forEach((template, index) => {
+    const label = `WhatsApp template ${template.name || index + 1}`;
+    if (!TEMPLATE_NAME_PATTERN.test(template.name || "")) {
+      errors.push(`${label}: name may only use lowercase letters, numbers and underscores`);
+    } else if (templateNames.has(template.name)) {
+      errors.push(`${label}: the name is used by another template`);
+    }
+    templateNames.add(template.name);
+    if (
+      !template.languages?.length ||
+      !template.languages.every((language) => LANGUAGE_PATTERN.test(language))
+    ) {
+      errors.push(`${label}: add at least one language code, such as en or en_US`);
+    }
+    if (template.header && !/^https:\/\/\S+$/.test(template.header.link || "")) {
+      errors.push(`${label}: the header media link must start with https://`);
+    }
+    const parameters = template.bodyParameters || [];
+    if (parameters.some((parameter) => !parameter.value?.trim())) {
+      errors.push(`${label}: body parameters can't be empty`);
+    }
+    const named = parameters.filter((parameter) => parameter.name);
+    if (
+      named.length > 0 &&
+      (named.length < parameters.length ||
+        !named.every((parameter) => TEMPLATE_NAME_PATTERN.test(parameter.name!)))
+    ) {
+      errors.push(`${label}: name every body parameter (lowercase and underscores) or none`);
+    }
+  });
+  if (config.delayWhatsAppTemplate && !templateNames.has(config.delayWhatsAppTemplate)) {
+    errors.push("Running late notices: choose one of the WhatsApp templates");
+  }
+
+  // Settings saved before automatic notifications existed keep the defaults, which are off
+  Object.entries(config.notifications || {}).forEach(([event, rule]) => {
+    const label = `${NOTIFICATION_LABELS[event as NotificationEvent] || event} notification`;
+    if (!rule.enabled) {
+      return;
+    }
+    if (rule.template && !templateNames.has(rule.template)) {
+      errors.push(`${label}: choose one of the WhatsApp templates`);
+    }
+    // Emails are sent as text, so they need the message even when WhatsApp uses a template
+    const sendsEmail = rule.channel === "email" || rule.channel === "preferred";
+    if ((sendsEmail || !rule.template) && !rule.message?.trim()) {
+      errors.push(`${label}: message is required`);
+    }
+    if (sendsEmail && !rule.subject?.trim()) {
+      errors.push(`${label}: email subject is required`);
+    }
+    if (event === "slotReminder" && !isWholeNumber(rule.hoursBefore ?? 0, 1, 72)) {
+      errors.push(`${label}: send it a whole number of hours between 1 and 72 before the slot`);
+    }
+  });
+
+  if (config.timePricing?.enabled) {
+    const { timeRanges } = config.timePricing;
+    const tiers = PRICING_TIERS.filter((tier) => timeRanges[tier]);
+    if (tiers.length === 0) {
+      errors.push("Time-based pricing is on but no tiers are configured");
+    }
+    tiers.forEach((tier) => {
+      const range = timeRanges[tier]!;
+      if (!isTimeRange(range.start, range.end)) {
+        errors.push(`${getTierLabel(config, tier)}: start time must be before end time (HH:MM)`);
+      }
+    });
+  }
+
+  return errors;
+};
+
+// The notification rules in src/config/eventConfig.ts, before any saved settings replace them
+const DEFAULT_NOTIFICATIONS = eventConfig.notifications;
+
+// Settings are copied onto the shared eventConfig object so every module that imports it sees
+// them. A saved config without timePricing means time-based pricing is off, and one saved
+// before a notification existed keeps that notification's default rule.
+export const applyEventConfig = (config: EventConfig): void => {
+  Object.assign(eventConfig, { timePricing: undefined }, config, {
+    notifications: { ...DEFAULT_NOTIFICATIONS, ...config.notifications },
+  });
+};
+
+export const loadEventConfig = async (): Promise<void> => {
+  try {
+    const configSnap = await getDoc(getEventConfigRef());
+    if (!configSnap.exists()) {
+      console.log("⚙️ No saved event settings, using the defaults");
+      return;
+    }
+
+    const config = configSnap.data() as EventConfig;
+    const errors = validateEventConfig(config);
+    if (errors.length > 0) {
+      console.warn("⚠️ Saved event settings are invalid, using the defaults:", errors);
+      return;
+    }
+
+    applyEventConfig(config);
+    console.log("⚙️ Loaded event settings from Firestore");
+  } catch (error) {
+    console.error("Failed to load event settings, using the defaults:", error);
+  }
+};
+
+export const saveEventConfig = async (config: EventConfig): Promise<void> => {
+  const errors = validateEventConfig(config);
+  if (errors.length > 0) {
+    throw new Error(errors.join("\n"));
+  }
+
+  // Round-trip through JSON to drop undefined values, which Firestore rejects
+  await setDoc(getEventConfigRef(), JSON.parse(JSON.stringify(config)));
+  applyEventConfig(config);
+};
+
+// The slot labels of a festival day under config; empty if the day was removed
+const getDaySlotGrid = (config: EventConfig, eventId: string, date: string): string[] => {
+  const day = config.events
+    .find((event) => event.id === eventId)
+    ?.days.find((eventDay) => eventDay.date === date);
+  return day ? generateTimeSlots(day, config.slotDuration).map((slot) => slot.time) : [];
+};
+
+const diffSlotGrid = (
+  eventId: string,
+  date: string,
+  slots: Record<string, string>,
+  grid: string[]
+): SlotGridChange => {
+  const outsideGrid = Object.keys(slots).filter((slot) => !grid.includes(slot));
+  return {
+    eventId,
+    date,
+    addedSlots: grid.filter((slot) => !(slot in slots)),
+    removedSlots: outsideGrid.filter((slot) => slots[slot] === "available"),
+    strandedSlots: outsideGrid.filter((slot) => slots[slot] !== "available"),
+  };
+};
+
+// Festival days whose slot documents already exist and would change under the new settings.
+// Days without a slot document are created from the new hours the first time they are opened.
+export const previewSlotGridChanges = async (
+  previous: EventConfig,
+  next: EventConfig
+): Promise<SlotGridChange[]> => {
+  const days = previous.events.flatMap((event) =>
+    event.days.map((day) => ({ eventId: event.id, date: day.date }))
+  );
+  next.events.forEach((event) =>
+    event.days.forEach((day) => {
+      if (!days.some((known) => known.eventId === event.id && known.date === day.date)) {
+        days.push({ eventId: event.id, date: day.date });
+      }
+    })
+  );
+
+  const changes: SlotGridChange[] = [];
+  for (const { eventId, date } of days) {
+    const previousGrid = getDaySlotGrid(previous, eventId, date);
+    const nextGrid = getDaySlotGrid(next, eventId, date);
+    if (previousGrid.join() === nextGrid.join()) {
+      continue;
+    }
+
+    const slotsSnap = await getDoc(doc(db, "slots", getSlotDocId(eventId, date)));
+    if (!slotsSnap.exists()) {
+      continue;
+    }
+
+    const change = diffSlotGrid(eventId, date, slotsSnap.data(), nextGrid);
+    if (change.addedSlots.length || change.removedSlots.length || change.strandedSlots.length) {
+      changes.push(change);
+    }
+  }
+  return changes;
+};
+
+// Bring the slot documents listed in changes in line with config: add the new slots as
+// available and delete free slots outside the hours. Held and booked slots are never touched.
+export const reconcileSlotGrids = async (
+  config: EventConfig,
+  changes: SlotGridChange[]
+): Promise<void> => {
+  for (const { eventId, date } of changes) {
+    const slotsRef = doc(db, "slots", getSlotDocId(eventId, date));
+    const grid = getDaySlotGrid(config, eventId, date);
+
+    await runTransaction(db, async (transaction) => {
+      const slotsSnap = await transaction.get(slotsRef);
+      if (!slotsSnap.exists()) {
+        return;
+      }
+
+      const { addedSlots, removedSlots } = diffSlotGrid(eventId, date, slotsSnap.data(), grid);
+      const updates: Record<string, any> = {};
+      addedSlots.forEach((slot) => {
+        updates[slot] = "available";
+      });
+      removedSlots.forEach((slot) => {
+        updates[slot] = deleteField();
+      });
+
+      if (Object.keys(updates).length > 0) {
+        transaction.update(slotsRef, updates);
+      }
+    });
+    console.log(`🗓️ Reconciled slots for ${eventId} ${date}`);
+  }
+};
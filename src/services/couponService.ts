@@ -0,0 +1,107 @@
+// Discount codes in coupons/{CODE}, managed from the admin Coupons tab. They are checked and
+// applied on the server by functions/coupons.js when a dancer previews a code or pays.
+import {
+  collection,
+  doc,
+  getDocs,
+  runTransaction,
+  serverTimestamp,
+  updateDoc,
+} from "firebase/firestore";
+import { db } from "../firebase/config";
+import { eventConfig, PricingTier } from "../config/eventConfig";
+import { PRICING_TIERS } from "../utils/timeUtils";
+
+export interface Coupon {
+  code: string;
+  description?: string;
+  discountType: "percent" | "flat";
+  value: number; // Percent off, or rupees off the whole order
+  maxUses?: number; // Unlimited when missing
+  usedCount: number; // Includes pending bookings still waiting for payment
+  expiresOn?: string; // YYYY-MM-DD, the last day the code works (India time)
+  performanceTypes?: string[]; // Missing or empty: every performance type
+  tiers?: PricingTier[]; // Missing or empty: every slot
+  active: boolean;
+}
+
+const CODE_PATTERN = /^[A-Z0-9-]{3,20}$/;
+
+export const normalizeCouponCode = (code: string): string => code.trim().toUpperCase();
+
+// Every problem with a coupon as a readable message; empty when it can be saved
+export const validateCoupon = (coupon: Coupon): string[] => {
+  const errors: string[] = [];
+
+  if (!CODE_PATTERN.test(coupon.code)) {
+    errors.push("Code must be 3 to 20 capital letters, numbers or dashes");
+  }
+  if (coupon.discountType !== "percent" && coupon.discountType !== "flat") {
+    errors.push("Choose a percentage or flat discount");
+  } else if (
+    typeof coupon.value !== "number" ||
+    coupon.value <= 0 ||
+    (coupon.discountType === "percent" && coupon.value > 100)
+  ) {
+    errors.push(
+      coupon.discountType === "percent"
+        ? "Percentage must be more than 0 and at most 100"
+        : "Discount amount must be more than 0"
+    );
+  }
+  if (coupon.maxUses !== undefined && !(Number.isInteger(coupon.maxUses) && coupon.maxUses > 0)) {
+    errors.push("Usage limit must be a whole number above 0, or left empty");
+  }
+  if (
+    coupon.expiresOn !== undefined &&
+    (!/^\d{4}-\d{2}-\d{2}$/.test(coupon.expiresOn) || isNaN(Date.parse(coupon.expiresOn)))
+  ) {
+    errors.push("Expiry must be a valid date, or left empty");
+  }
+
+  const typeIds = eventConfig.performanceTypes.map((type) => type.id);
+  if ((coupon.performanceTypes || []).some((typeId) => !typeIds.includes(typeId))) {
+    errors.push("Performance types must be configured performance types");
+  }
+  if ((coupon.tiers || []).some((tier) => !PRICING_TIERS.includes(tier))) {
+    errors.push("Pricing tiers must be off-peak, mid-peak or on-peak");
+  }
+
+  return errors;
+};
+
+export const getCoupons = async (): Promise<Coupon[]> => {
+  const snapshot = await getDocs(collection(db, "coupons"));
+  return snapshot.docs
+    .map((docSnap) => docSnap.data() as Coupon)
+    .sort((a, b) => a.code.localeCompare(b.code));
+};
+
+// Create a coupon, or replace an existing one's settings while keeping its usage count
+export const saveCoupon = async (coupon: Coupon, isNew: boolean): Promise<void> => {
+  const errors = validateCoupon(coupon);
+  if (errors.length > 0) {
+    throw new Error(errors.join("\n"));
+  }
+
+  const couponRef = doc(db, "coupons", coupon.code);
+  await runTransaction(db, async (transaction) => {
+    const existing = await transaction.get(couponRef);
+    if (isNew && existing.exists()) {
+      throw new Error(`Code ${coupon.code} already exists`);
+    }
+
+    // Round-trip through JSON to drop undefined values, which Firestore rejects
+    transaction.set(couponRef, {
+      ...JSON.parse(JSON.stringify(coupon)),
+      usedCount: existing.exists() ? existing.data().usedCount || 0 : 0,
+      updatedAt: serverTimestamp(),
+    });
+  });
+  console.log(`🏷️ Coupon ${coupon.code} saved`);
+};
+
+export const setCouponActive = async (code: string, active: boolean): Promise<void> => {
+  await updateDoc(doc(db, "coupons", code), { active, updatedAt: serverTimestamp() });
+  console.log(`🏷️ Coupon ${code} ${active ? "activated" : "deactivated"}`);
+};
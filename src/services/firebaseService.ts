@@ -5,7 +5,6 @@ import {
   updateDoc,
   deleteDoc,
   collection,
-  addDoc,
   serverTimestamp,
   onSnapshot,
   getDocs,
@@ -13,17 +12,25 @@ import {
   orderBy,
   where,
   writeBatch,
+  runTransaction,
+  deleteField,
 } from "firebase/firestore";
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
 import { db, storage } from "../firebase/config";
-import { TimeSlot } from "../utils/timeUtils";
-import { eventConfig } from "../config/eventConfig";
+import { TimeSlot, generateTimeSlots, getEvent, getEventDay, getSlotDocId } from "../utils/timeUtils";
+import { eventConfig, MessageChannel } from "../config/eventConfig";
 import { getPriceForSlot } from "../utils/timeUtils";
+import { getParticipantCount } from "../utils/participantUtils";
 
 // Flat booking structure for easy CSV export
 export interface FlatBooking {
   id?: string;
   bookingId: string;
+  orderId?: string; // Razorpay order ID; set on bookings created by createPendingBooking
+  holdOwner?: string; // Slot hold that became this booking
+  participantCount?: number;
+  eventId?: string; // Missing on bookings made before events were introduced
+  eventName?: string;
   date: string;
   timeSlot: string; // Individual time slot
   performanceType: string;
@@ -49,6 +56,7 @@ export interface FlatBooking {
   rulesRead?: string;
   guruName?: string;
   performanceCategory?: string;
+  contactChannel?: MessageChannel; // How the dancer asked to get booking updates
   danceStyle: string;
   screenshotUrl?: string;
   timestamp?: any;
@@ -61,61 +69,132 @@ export interface FlatBooking {
   paymentCurrency?: string;
   // Booking status
   bookingStatus?: "pending" | "confirmed" | "cancelled";
-  // Original booking data for webhook processing
-  originalBookingData?: any;
+  // Expected start of this slot while the programme runs late
+  estimatedTime?: string;
+  delayMinutes?: number;
+  // Refund details, set by the refundBooking function and refund webhooks
+  refundId?: string;
+  refundAmount?: number;
+  refundStatus?: "pending" | "processed" | "failed";
+  refundReason?: string;
+  refundedBy?: string;
+  refundedAt?: any;
 }
 
+// Price of one slot of a booking, as charged
+export interface BookingSlotPrice {
+  slot: string;
+  tier?: string | null;
+  pricePerPerson: number;
+  amount: number;
+}
+
+// One registration, stored as bookings/{bookingId}
 export interface Booking {
   id?: string;
+  bookingId?: string; // Razorpay order ID for bookings created by createPendingBooking
+  orderId?: string;
+  holdOwner?: string;
+  eventId?: string; // Missing on bookings made before events were introduced
+  eventName?: string;
   date: string;
   timeSlots: string[];
   performanceType: string;
+  performanceTypeName?: string;
   participantDetails: Record<string, any>;
+  participantCount?: number;
+  amount?: number; // in rupees
+  breakdown?: BookingSlotPrice[];
+  couponCode?: string; // Discount code used; amount and breakdown are after the discount
+  discount?: number;
+  // Event-day arrivals by participant index (see checkInService)
+  checkedIn?: Record<string, { at: any; by?: string }>;
+  // Set when the programme runs late (see scheduleService.applyScheduleDelay)
+  delay?: {
+    minutes: number; // 0 once back on time
+    estimatedTimes: Record<string, string>; // Planned slot -> expected start, for delayed slots
+    notifiedMinutes?: number; // The delay the dancer was last told about
+    updatedAt?: any;
+  };
   screenshotUrl?: string;
   paymentData?: {
-    paymentId: string;
+    paymentId?: string;
     orderId?: string;
     signature?: string;
     amount: number;
     currency: string;
-    status: "success" | "failed" | "pending";
+    status: "success" | "failed" | "pending" | "authorized";
     webhookProcessed?: boolean;
+    signatureVerified?: boolean;
+    capturedAt?: any;
+    failedPaymentId?: string;
     errorReason?: string;
   };
-  bookingStatus?: "pending" | "confirmed" | "cancelled";
-  timestamp?: any;
+  status?: "pending" | "confirmed" | "cancelled";
+  refund?: {
+    id: string;
+    amount: number;
+    status: "pending" | "processed" | "failed";
+    reason?: string;
+    refundedBy?: string;
+    refundedAt?: any;
+  };
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+// Status of a single slot in slots/{date}
+export type SlotStatus = "available" | "held" | "booked";
+
+// Who currently holds a slot, stored in slotOwners/{date} next to the status map in slots/{date}
+export interface SlotOwnership {
+  owner: string;
+  expiresAt?: number; // epoch ms, only set while the slot is held for payment
+}
+
+// Thrown by reserveSlots/holdSlots when one or more requested slots were claimed by someone else
+export class SlotConflictError extends Error {
+  readonly lostSlots: string[];
+
+  constructor(lostSlots: string[]) {
+    super(`These time slots are no longer available: ${lostSlots.join(", ")}`);
+    this.name = "SlotConflictError";
+    this.lostSlots = lostSlots;
+    Object.setPrototypeOf(this, SlotConflictError.prototype);
+  }
 }
 
 // Slots Management
-export const initializeSlotsForDate = async (date: string): Promise<void> => {
-  const slotsDoc = doc(db, "slots", date);
+// Slot documents are keyed by event day (see getSlotDocId); eventId is undefined only for
+// bookings made before events were introduced.
+export const initializeSlotsForDate = async (
+  eventId: string | undefined,
+  date: string
+): Promise<void> => {
+  const day = eventId ? getEventDay(eventId, date) : undefined;
+  if (!day) {
+    return;
+  }
+
+  const slotsDoc = doc(db, "slots", getSlotDocId(eventId, date));
   const slotsDocSnap = await getDoc(slotsDoc);
 
   if (!slotsDocSnap.exists()) {
-    // Generate initial slots
+    // Generate initial slots from the day's hours
     const slots: Record<string, string> = {};
-    const startTime = new Date(`2000-01-01T${eventConfig.startTime}:00`);
-    const endTime = new Date(`2000-01-01T${eventConfig.endTime}:00`);
-
-    let currentTime = new Date(startTime);
-
-    while (currentTime < endTime) {
-      const timeString = currentTime.toLocaleTimeString("en-US", {
-        hour: "2-digit",
-        minute: "2-digit",
-        hour12: true,
-      });
-
-      slots[timeString] = "available";
-      currentTime.setMinutes(currentTime.getMinutes() + eventConfig.slotDuration);
-    }
+    generateTimeSlots(day).forEach((slot) => {
+      slots[slot.time] = "available";
+    });
 
     await setDoc(slotsDoc, slots);
   }
 };
 
-export const getSlotsForDate = async (date: string): Promise<Record<string, string>> => {
-  const slotsDoc = doc(db, "slots", date);
+export const getSlotsForDate = async (
+  eventId: string | undefined,
+  date: string
+): Promise<Record<string, string>> => {
+  const slotsDoc = doc(db, "slots", getSlotDocId(eventId, date));
   const slotsDocSnap = await getDoc(slotsDoc);
 
   if (slotsDocSnap.exists()) {
@@ -126,21 +205,122 @@ export const getSlotsForDate = async (date: string): Promise<Record<string, stri
 };
 
 export const updateSlotStatus = async (
+  eventId: string | undefined,
   date: string,
   timeSlot: string,
-  status: "available" | "booked"
+  status: SlotStatus
 ): Promise<void> => {
-  const slotsDoc = doc(db, "slots", date);
+  const slotsDoc = doc(db, "slots", getSlotDocId(eventId, date));
   await updateDoc(slotsDoc, {
     [timeSlot]: status,
   });
 };
 
+// A slot can be claimed when it is available, or held by owner or by a hold that has expired.
+// A booked slot stays with its booking, even for the owner that booked it.
+export const isSlotClaimable = (
+  status: string | undefined,
+  ownership: SlotOwnership | undefined,
+  owner: string,
+  now: number = Date.now()
+): boolean => {
+  if (status === "available") {
+    return true;
+  }
+  if (status !== "held") {
+    return false;
+  }
+  return ownership?.owner === owner || (!!ownership?.expiresAt && ownership.expiresAt <= now);
+};
+
+// Atomically book every requested slot for owner, or none of them.
+// Any other slots on that date still held by owner are released in the same transaction.
+// Holds themselves are placed by the holdSlots Cloud Function (functions/slots.js).
+const claimSlots = async (
+  eventId: string | undefined,
+  date: string,
+  timeSlots: string[],
+  owner: string
+): Promise<void> => {
+  const slotsDoc = doc(db, "slots", getSlotDocId(eventId, date));
+  const ownersDoc = doc(db, "slotOwners", getSlotDocId(eventId, date));
+
+  await runTransaction(db, async (transaction) => {
+    const slotsSnap = await transaction.get(slotsDoc);
+    const ownersSnap = await transaction.get(ownersDoc);
+
+    const slots = (slotsSnap.exists() ? slotsSnap.data() : {}) as Record<string, string>;
+    const owners = (ownersSnap.exists() ? ownersSnap.data() : {}) as Record<
+      string,
+      SlotOwnership
+    >;
+
+    const lostSlots = timeSlots.filter((slot) => !isSlotClaimable(slots[slot], owners[slot], owner));
+    if (lostSlots.length > 0) {
+      throw new SlotConflictError(lostSlots);
+    }
+
+    const slotUpdates: Record<string, string> = {};
+    const ownerUpdates: Record<string, any> = {};
+
+    // Drop holds this owner no longer wants (e.g. the dancer went back and picked other slots)
+    Object.entries(owners).forEach(([slot, ownership]) => {
+      if (ownership.owner === owner && slots[slot] === "held" && !timeSlots.includes(slot)) {
+        slotUpdates[slot] = "available";
+        ownerUpdates[slot] = deleteField();
+      }
+    });
+
+    timeSlots.forEach((slot) => {
+      slotUpdates[slot] = "booked";
+      ownerUpdates[slot] = { owner };
+    });
+
+    transaction.update(slotsDoc, slotUpdates);
+    transaction.set(ownersDoc, ownerUpdates, { merge: true });
+  });
+};
+
+// Book slots for good, converting any hold owned by holdOwner
+export const reserveSlots = async (
+  eventId: string | undefined,
+  date: string,
+  timeSlots: string[],
+  holdOwner: string
+): Promise<void> => {
+  await claimSlots(eventId, date, timeSlots, holdOwner);
+  console.log(`✅ Reserved slots for ${holdOwner}:`, timeSlots);
+};
+
+// Free slots and forget who owned them
+export const releaseSlots = async (
+  eventId: string | undefined,
+  date: string,
+  timeSlots: string[]
+): Promise<void> => {
+  if (timeSlots.length === 0) {
+    return;
+  }
+
+  const slotUpdates: Record<string, string> = {};
+  const ownerUpdates: Record<string, any> = {};
+  timeSlots.forEach((slot) => {
+    slotUpdates[slot] = "available";
+    ownerUpdates[slot] = deleteField();
+  });
+
+  const batch = writeBatch(db);
+  batch.update(doc(db, "slots", getSlotDocId(eventId, date)), slotUpdates);
+  batch.set(doc(db, "slotOwners", getSlotDocId(eventId, date)), ownerUpdates, { merge: true });
+  await batch.commit();
+};
+
 export const subscribeToSlots = (
+  eventId: string,
   date: string,
   callback: (slots: Record<string, string>) => void
 ) => {
-  const slotsDoc = doc(db, "slots", date);
+  const slotsDoc = doc(db, "slots", getSlotDocId(eventId, date));
   return onSnapshot(slotsDoc, (doc) => {
     if (doc.exists()) {
       callback(doc.data() as Record<string, string>);
@@ -150,151 +330,74 @@ export const subscribeToSlots = (
   });
 };
 
-// Bookings Management - Flat Structure
-export const createBooking = async (booking: Booking): Promise<string> => {
-  try {
-    const flatBookingsCollection = collection(db, "flatBookings");
+// Bookings Management
+// bookings/{bookingId} holds the whole registration; the per-slot flatBookings rows used by
+// the admin table and CSV export are derived from it by the syncFlatBookings Cloud Function.
+
+// Filter out undefined values to prevent Firebase errors
+const withoutUndefined = <T extends Record<string, any>>(data: T): T =>
+  Object.fromEntries(Object.entries(data).filter(([_, value]) => value !== undefined)) as T;
 
+// holdOwner is the owner the slots were held for before payment, if any
+export const createBooking = async (booking: Booking, holdOwner?: string): Promise<string> => {
+  try {
     // Generate a unique booking ID
-    const bookingId = `booking_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const bookingId =
+      booking.bookingId || `booking_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
-    // Prepare booking status
-    const bookingStatus = booking.paymentData ? "pending" : "confirmed";
+    // Claim the slots before writing anything; throws SlotConflictError if any were taken
+    await reserveSlots(booking.eventId, booking.date, booking.timeSlots, holdOwner || bookingId);
 
-    // Create flat booking records for each time slot
     const performanceType = eventConfig.performanceTypes.find(
       (pt) => pt.id === booking.performanceType
     );
-
-    // Calculate participant count
-    let participantCount = 1;
-    switch (booking.performanceType) {
-      case "solo":
-        participantCount = 1;
-        break;
-      case "duet":
-        participantCount = 2;
-        break;
-      case "group":
-        const participantNames = booking.participantDetails.participantNames || "";
-        if (participantNames.trim()) {
-          const participants = participantNames
-            .split(/[,\n]/)
-            .filter((name: string) => name.trim()).length;
-          participantCount = Math.max(participants, 1);
-        } else {
-          participantCount = 3; // Default group size
-        }
-        break;
-    }
-
-    // Calculate total amount using time-based pricing if enabled
-    const calculateTotalAmount = () => {
-      return booking.timeSlots.reduce((total, slot) => {
-        const slotPrice = getPriceForSlot(slot, booking.performanceType);
-        return total + slotPrice * participantCount;
-      }, 0);
-    };
-
-    const totalAmount = calculateTotalAmount();
-    const fallbackPricePerPerson = performanceType?.pricePerPerson || 0;
+    const participantCount =
+      booking.participantCount ??
+      getParticipantCount(booking.performanceType, booking.participantDetails);
+
+    // Price each slot using time-based pricing if enabled, unless the caller priced it already
+    const breakdown =
+      booking.breakdown ||
+      booking.timeSlots.map((slot) => {
+        const pricePerPerson = getPriceForSlot(slot, booking.performanceType);
+        return { slot, pricePerPerson, amount: pricePerPerson * participantCount };
+      });
+    const amount = breakdown.reduce((total, item) => total + item.amount, 0);
 
     console.log("💰 Pricing calculated:", {
       timePricingEnabled: eventConfig.timePricing?.enabled,
-      fallbackPricePerPerson,
       participantCount,
-      totalAmount,
-      slotsCount: booking.timeSlots.length,
-      slotBreakdown: booking.timeSlots.map((slot) => ({
-        slot,
-        price: getPriceForSlot(slot, booking.performanceType),
-      })),
+      amount,
+      breakdown,
     });
 
-    // Create participant display name based on performance type
-    let participantName = "";
-    switch (booking.performanceType) {
-      case "solo":
-        participantName = booking.participantDetails.fullName || "";
-        break;
-      case "duet":
-        participantName = `${booking.participantDetails.participant1Name || ""} & ${
-          booking.participantDetails.participant2Name || ""
-        }`;
-        break;
-      case "group":
-        participantName = booking.participantDetails.participantNames || "";
-        break;
-    }
-
-    console.log("👥 Participant name:", participantName);
-
-    // Create flat booking records
-    console.log("📋 Creating flat booking records...");
-    for (const timeSlot of booking.timeSlots) {
-      const slotPrice = getPriceForSlot(timeSlot, booking.performanceType);
-      const amountPerSlot = slotPrice * participantCount;
-
-      const flatBooking: FlatBooking = {
-        bookingId,
-        date: booking.date,
-        timeSlot,
-        performanceType: booking.performanceType,
-        performanceTypeName: performanceType?.name || "",
-        pricePerPerson: slotPrice, // Use slot-specific pricing
-        participantName,
-        // Solo fields
-        participantAge: booking.participantDetails.age,
-        // Duet fields
-        participant1Name: booking.participantDetails.participant1Name,
-        participant2Name: booking.participantDetails.participant2Name,
-        participant1Phone: booking.participantDetails.participant1Phone,
-        participant2Phone: booking.participantDetails.participant2Phone,
-        // Group fields
-        groupName: booking.participantDetails.participantNames,
-        memberNames: booking.participantDetails.participantNames,
-        // Common fields
-        fullName: booking.participantDetails.fullName,
-        phoneNumber: booking.participantDetails.phoneNumber,
-        email: booking.participantDetails.email,
-        cityResidence: booking.participantDetails.cityResidence,
-        rulesRead: booking.participantDetails.rulesRead,
-        guruName: booking.participantDetails.guruName,
-        performanceCategory: booking.participantDetails.performanceCategory,
-        representativePhone: booking.participantDetails.representativePhone,
-        danceStyle: booking.participantDetails.performanceCategory || "",
-        screenshotUrl: booking.screenshotUrl,
-        // Payment details
-        paymentId: booking.paymentData?.paymentId,
-        paymentStatus: booking.paymentData?.status,
-        paymentAmount: booking.paymentData?.amount,
-        paymentCurrency: booking.paymentData?.currency,
-        timestamp: serverTimestamp(),
-        totalSlots: booking.timeSlots.length,
-        amountPerSlot,
-        bookingStatus,
-        // Store original booking data for webhook processing
-        originalBookingData: {
-          ...booking,
-          paymentData: booking.paymentData
-            ? Object.fromEntries(
-                Object.entries(booking.paymentData).filter(([_, value]) => value !== undefined)
-              )
-            : undefined,
-        },
-      };
-
-      // Filter out undefined values to prevent Firebase errors
-      const cleanFlatBooking = Object.fromEntries(
-        Object.entries(flatBooking).filter(([_, value]) => value !== undefined)
-      ) as FlatBooking;
+    const bookingData: Booking = withoutUndefined({
+      ...booking,
+      id: undefined,
+      bookingId,
+      holdOwner,
+      eventName: booking.eventId ? getEvent(booking.eventId)?.name : undefined,
+      performanceTypeName: booking.performanceTypeName || performanceType?.name || "",
+      participantDetails: withoutUndefined(booking.participantDetails),
+      participantCount,
+      amount,
+      breakdown,
+      paymentData: booking.paymentData ? withoutUndefined(booking.paymentData) : undefined,
+      status: booking.status || (booking.paymentData ? "pending" : "confirmed"),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
 
-      console.log("📋 Flat booking data:", cleanFlatBooking);
-      await addDoc(flatBookingsCollection, cleanFlatBooking);
-      // Flat booking created
+    console.log("📋 Booking data:", bookingData);
+    try {
+      await setDoc(doc(db, "bookings", bookingId), bookingData);
+    } catch (writeError) {
+      // Give the slots back so a failed write doesn't block them
+      await releaseSlots(booking.eventId, booking.date, booking.timeSlots);
+      throw writeError;
     }
 
-    console.log("🎉 All bookings created successfully!");
+    console.log("🎉 Booking created successfully!");
     return bookingId;
   } catch (error: any) {
     console.error("❌ Error in createBooking:", error);
@@ -334,6 +437,18 @@ export const getAllFlatBookings = async (): Promise<FlatBooking[]> => {
   return bookings;
 };
 
+// Live view of every row for the admin table
+export const subscribeToFlatBookings = (callback: (bookings: FlatBooking[]) => void) => {
+  const q = query(collection(db, "flatBookings"), orderBy("timestamp", "desc"));
+  return onSnapshot(q, (querySnapshot) => {
+    const bookings: FlatBooking[] = [];
+    querySnapshot.forEach((doc) => {
+      bookings.push({ ...(doc.data() as FlatBooking), id: doc.id });
+    });
+    callback(bookings);
+  });
+};
+
 // CSV Export Functions
 export const exportBookingsToCSV = async (date?: string): Promise<string> => {
   const bookings = date ? await getFlatBookingsForDate(date) : await getAllFlatBookings();
@@ -345,6 +460,7 @@ export const exportBookingsToCSV = async (date?: string): Promise<string> => {
   // Define CSV headers
   const headers = [
     "Booking ID",
+    "Event",
     "Date",
     "Time Slot",
     "Performance Type",
@@ -372,6 +488,10 @@ export const exportBookingsToCSV = async (date?: string): Promise<string> => {
     "Amount Per Slot",
     "Screenshot URL",
     "Timestamp",
+    "Booking Status",
+    "Refund Status",
+    "Refund Amount",
+    "Refund ID",
   ];
 
   // Create CSV content
@@ -380,6 +500,7 @@ export const exportBookingsToCSV = async (date?: string): Promise<string> => {
     ...bookings.map((booking) =>
       [
         booking.bookingId,
+        `"${booking.eventName || ""}"`,
         booking.date,
         booking.timeSlot,
         booking.performanceTypeName,
@@ -411,6 +532,10 @@ export const exportBookingsToCSV = async (date?: string): Promise<string> => {
         booking.amountPerSlot,
         booking.screenshotUrl || "",
         booking.timestamp ? new Date(booking.timestamp.toDate()).toISOString() : "",
+        booking.bookingStatus || "",
+        booking.refundStatus || "",
+        booking.refundAmount ?? "",
+        booking.refundId || "",
       ].join(",")
     ),
   ].join("\n");
@@ -434,10 +559,7 @@ export const findFlatBookingsByPaymentId = async (paymentId: string): Promise<Fl
 
 export const findFlatBookingsByOrderId = async (orderId: string): Promise<FlatBooking[]> => {
   const flatBookingsCollection = collection(db, "flatBookings");
-  const q = query(
-    flatBookingsCollection,
-    where("originalBookingData.paymentData.orderId", "==", orderId)
-  );
+  const q = query(flatBookingsCollection, where("orderId", "==", orderId));
   const querySnapshot = await getDocs(q);
 
   const bookings: FlatBooking[] = [];
@@ -448,46 +570,6 @@ export const findFlatBookingsByOrderId = async (orderId: string): Promise<FlatBo
   return bookings;
 };
 
-export const updateFlatBookingPaymentStatus = async (
-  bookingId: string,
-  paymentData: {
-    status: "success" | "failed" | "pending";
-    paymentId?: string;
-    orderId?: string;
-    capturedAt?: any;
-    webhookProcessed?: boolean;
-  },
-  bookingStatus: "pending" | "confirmed" | "cancelled"
-): Promise<void> => {
-  const flatBookingsCollection = collection(db, "flatBookings");
-  const bookingRef = doc(flatBookingsCollection, bookingId);
-
-  await updateDoc(bookingRef, {
-    paymentStatus: paymentData.status,
-    paymentId: paymentData.paymentId,
-    bookingStatus,
-    "originalBookingData.paymentData.status": paymentData.status,
-    "originalBookingData.paymentData.paymentId": paymentData.paymentId,
-    "originalBookingData.paymentData.orderId": paymentData.orderId,
-    "originalBookingData.paymentData.capturedAt": paymentData.capturedAt,
-    "originalBookingData.paymentData.webhookProcessed": paymentData.webhookProcessed,
-    updatedAt: serverTimestamp(),
-  });
-};
-
-export const deleteFlatBookingsByBookingId = async (bookingId: string): Promise<void> => {
-  const flatBookingsCollection = collection(db, "flatBookings");
-  const q = query(flatBookingsCollection, where("bookingId", "==", bookingId));
-  const querySnapshot = await getDocs(q);
-
-  const batch = writeBatch(db);
-  querySnapshot.forEach((doc) => {
-    batch.delete(doc.ref);
-  });
-
-  await batch.commit();
-};
-
 export const downloadCSV = (csvContent: string, filename: string): void => {
   const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
   const link = document.createElement("a");
@@ -515,12 +597,21 @@ export const uploadScreenshot = async (
   return downloadURL;
 };
 
+// Upload a file chosen in a registration form file field. Returns its storage path, which is
+// stored with the booking; only admins can read the file.
+export const uploadFormFile = async (file: File, fieldId: string): Promise<string> => {
+  const path = `formUploads/${fieldId}/${Date.now()}_${file.name}`;
+  await uploadBytes(ref(storage, path), file, { contentType: file.type });
+  return path;
+};
+
 // Validation
 export const validateSlotsAvailable = async (
+  eventId: string,
   date: string,
   timeSlots: string[]
 ): Promise<boolean> => {
-  const slots = await getSlotsForDate(date);
+  const slots = await getSlotsForDate(eventId, date);
 
   for (const slot of timeSlots) {
     if (slots[slot] !== "available") {
@@ -532,26 +623,46 @@ export const validateSlotsAvailable = async (
 };
 
 // CRUD Operations for Admin Panel
-export const deleteBooking = async (bookingId: string): Promise<void> => {
-  const flatBookingsCollection = collection(db, "flatBookings");
+// The table shows flatBookings rows; edits are applied to the booking the row came from.
+const getRowBooking = async (rowId: string) => {
+  const rowSnap = await getDoc(doc(db, "flatBookings", rowId));
+  if (!rowSnap.exists()) {
+    throw new Error("Booking not found");
+  }
 
-  // First, get the booking to find its time slot and date
-  const bookingRef = doc(flatBookingsCollection, bookingId);
-  const bookingDoc = await getDoc(bookingRef);
+  const row = rowSnap.data() as FlatBooking;
+  const bookingRef = doc(db, "bookings", row.bookingId);
+  const bookingSnap = await getDoc(bookingRef);
+  if (!bookingSnap.exists()) {
+    throw new Error(`Booking ${row.bookingId} not found`);
+  }
 
-  if (bookingDoc.exists()) {
-    const bookingData = bookingDoc.data() as FlatBooking;
+  return { row, bookingRef, booking: bookingSnap.data() as Booking };
+};
 
-    // Delete the booking
-    await deleteDoc(bookingRef);
+const sumBreakdown = (breakdown: BookingSlotPrice[]) =>
+  breakdown.reduce((total, item) => total + item.amount, 0);
 
-    // Free up the time slot
-    await updateSlotStatus(bookingData.date, bookingData.timeSlot, "available");
+export const deleteBooking = async (rowId: string): Promise<void> => {
+  const { row, bookingRef, booking } = await getRowBooking(rowId);
 
-    console.log(`✅ Booking deleted and time slot ${bookingData.timeSlot} freed up`);
+  const timeSlots = booking.timeSlots.filter((slot) => slot !== row.timeSlot);
+  if (timeSlots.length === 0) {
+    await deleteDoc(bookingRef);
   } else {
-    throw new Error("Booking not found");
+    const breakdown = (booking.breakdown || []).filter((item) => item.slot !== row.timeSlot);
+    await updateDoc(bookingRef, {
+      timeSlots,
+      breakdown,
+      amount: sumBreakdown(breakdown),
+      updatedAt: serverTimestamp(),
+    });
   }
+
+  // Free up the time slot
+  await releaseSlots(booking.eventId, row.date, [row.timeSlot]);
+
+  console.log(`✅ Booking slot deleted and time slot ${row.timeSlot} freed up`);
 };
 
 export const updateBooking = async (booking: FlatBooking): Promise<void> => {
@@ -559,58 +670,113 @@ export const updateBooking = async (booking: FlatBooking): Promise<void> => {
     throw new Error("Booking ID is required for update");
   }
 
-  const flatBookingsCollection = collection(db, "flatBookings");
-  const bookingRef = doc(flatBookingsCollection, booking.id);
-
-  // Get the original booking to check if time slot changed
-  const originalBookingDoc = await getDoc(bookingRef);
-  if (originalBookingDoc.exists()) {
-    const originalBooking = originalBookingDoc.data() as FlatBooking;
-
-    // If time slot changed, free up the old slot and book the new one
-    if (originalBooking.timeSlot !== booking.timeSlot) {
-      // Free up the old time slot
-      await updateSlotStatus(originalBooking.date, originalBooking.timeSlot, "available");
-
-      // Book the new time slot
-      await updateSlotStatus(booking.date, booking.timeSlot, "booked");
+  const { row: originalRow, bookingRef, booking: original } = await getRowBooking(booking.id);
+  const slotOwner = original.holdOwner || booking.bookingId;
+  const timeSlots = original.timeSlots.map((slot) =>
+    slot === originalRow.timeSlot ? booking.timeSlot : slot
+  );
 
-      console.log(`✅ Time slot updated: ${originalBooking.timeSlot} → ${booking.timeSlot}`);
-    }
+  // If time slot changed, book the new slot first, then free up the old one.
+  // A booking lives on a single date, so a date change moves all of its slots.
+  if (originalRow.date !== booking.date) {
+    await reserveSlots(original.eventId, booking.date, timeSlots, slotOwner);
+    await releaseSlots(original.eventId, originalRow.date, original.timeSlots);
+    console.log(`✅ Booking moved: ${originalRow.date} → ${booking.date}`);
+  } else if (originalRow.timeSlot !== booking.timeSlot) {
+    await reserveSlots(original.eventId, booking.date, [booking.timeSlot], slotOwner);
+    await releaseSlots(original.eventId, originalRow.date, [originalRow.timeSlot]);
+    console.log(`✅ Time slot updated: ${originalRow.timeSlot} → ${booking.timeSlot}`);
   }
 
-  // Remove the id field before updating
-  const { id, ...updateData } = booking;
+  const breakdown = (original.breakdown || []).map((item) =>
+    item.slot === originalRow.timeSlot
+      ? { ...item, slot: booking.timeSlot, amount: booking.amountPerSlot }
+      : item
+  );
+
+  const participantDetails = withoutUndefined({
+    ...original.participantDetails,
+    fullName: booking.fullName,
+    phoneNumber: booking.phoneNumber,
+    email: booking.email,
+    cityResidence: booking.cityResidence,
+    guruName: booking.guruName,
+    performanceCategory: booking.performanceCategory,
+    rulesRead: booking.rulesRead,
+    contactChannel: booking.contactChannel,
+    age: booking.participantAge,
+    participant1Name: booking.participant1Name,
+    participant2Name: booking.participant2Name,
+    participant1Phone: booking.participant1Phone,
+    participant2Phone: booking.participant2Phone,
+    // Only bookings made before the members sub-form keep group names in one field
+    participantNames:
+      original.participantDetails.participantNames !== undefined ? booking.groupName : undefined,
+    representativePhone: booking.representativePhone,
+  });
 
   await updateDoc(bookingRef, {
-    ...updateData,
-    timestamp: serverTimestamp(),
+    date: booking.date,
+    timeSlots,
+    breakdown,
+    amount: sumBreakdown(breakdown),
+    performanceTypeName: booking.performanceTypeName,
+    participantDetails,
+    updatedAt: serverTimestamp(),
   });
 };
 
 export const addBooking = async (booking: FlatBooking): Promise<void> => {
-  const flatBookingsCollection = collection(db, "flatBookings");
-
-  // Book the time slot first
-  await updateSlotStatus(booking.date, booking.timeSlot, "booked");
+  // The add form only asks for the type's display name
+  const performanceType = eventConfig.performanceTypes.find(
+    (pt) =>
+      pt.id === booking.performanceType ||
+      pt.name.toLowerCase() === (booking.performanceTypeName || "").trim().toLowerCase()
+  );
 
-  // Add timestamp if not provided
-  const bookingData = {
-    ...booking,
-    timestamp: serverTimestamp(),
-  };
+  if (booking.bookingId && (await getDoc(doc(db, "bookings", booking.bookingId))).exists()) {
+    throw new Error(`Booking ID ${booking.bookingId} is already in use`);
+  }
 
-  await addDoc(flatBookingsCollection, bookingData);
+  const amountPerSlot = booking.amountPerSlot || 0;
+
+  // Book the time slot first; throws SlotConflictError if it was taken meanwhile
+  await createBooking({
+    bookingId: booking.bookingId || undefined,
+    eventId: booking.eventId,
+    date: booking.date,
+    timeSlots: [booking.timeSlot],
+    performanceType: performanceType?.id || booking.performanceType || "solo",
+    performanceTypeName: booking.performanceTypeName,
+    participantDetails: {
+      fullName: booking.fullName,
+      phoneNumber: booking.phoneNumber,
+      email: booking.email,
+      cityResidence: booking.cityResidence,
+      guruName: booking.guruName,
+      performanceCategory: booking.performanceCategory,
+    },
+    breakdown: [
+      {
+        slot: booking.timeSlot,
+        pricePerPerson: booking.pricePerPerson || amountPerSlot,
+        amount: amountPerSlot,
+      },
+    ],
+  });
 
   console.log(`✅ New booking added and time slot ${booking.timeSlot} booked`);
 };
 
 // Get available time slots for dropdowns
-export const getAvailableTimeSlots = async (date: string): Promise<string[]> => {
+export const getAvailableTimeSlots = async (
+  eventId: string | undefined,
+  date: string
+): Promise<string[]> => {
   // Initialize slots for the date if they don't exist
-  await initializeSlotsForDate(date);
+  await initializeSlotsForDate(eventId, date);
 
-  const slots = await getSlotsForDate(date);
+  const slots = await getSlotsForDate(eventId, date);
   const availableSlots: string[] = [];
 
   for (const [timeSlot, status] of Object.entries(slots)) {
@@ -623,46 +789,60 @@ export const getAvailableTimeSlots = async (date: string): Promise<string[]> =>
   return availableSlots.sort();
 };
 
-// Check payment and booking status
+// createPendingBooking keys the booking by its Razorpay order ID. The dancer's browser reads only
+// that booking's status document because the security rules keep bookings to admins.
+const getOrderStatusRef = (orderId: string) => doc(db, "bookingStatus", orderId);
+
+// bookingStatus/{bookingId}, kept by the syncFlatBookings function
+export interface BookingStatusDocument {
+  status: "pending" | "confirmed" | "cancelled";
+  errorReason?: string;
+  webhookProcessed: boolean;
+}
+
+export const getBookingStatus = (booking: Booking): "pending" | "confirmed" | "cancelled" => {
+  if (booking.status === "confirmed" || booking.status === "cancelled") {
+    return booking.status;
+  }
+  if (booking.paymentData?.status === "success") {
+    return "confirmed";
+  }
+  if (booking.paymentData?.status === "failed") {
+    return "cancelled";
+  }
+  return "pending";
+};
+
+// One booking by its document ID, e.g. to print its receipt
+export const getBooking = async (bookingId: string): Promise<Booking | null> => {
+  const bookingSnap = await getDoc(doc(db, "bookings", bookingId));
+  return bookingSnap.exists() ? ({ id: bookingSnap.id, ...bookingSnap.data() } as Booking) : null;
+};
+
+// Check payment and booking status for a Razorpay order
 export const checkPaymentStatus = async (
-  paymentId: string
+  orderId: string
 ): Promise<{
-  booking?: FlatBooking;
   status: "pending" | "confirmed" | "cancelled" | "not_found";
+  errorReason?: string;
   webhookProcessed: boolean;
 }> => {
   try {
-    const flatBookingsRef = collection(db, "flatBookings");
-    const q = query(flatBookingsRef, where("paymentId", "==", paymentId));
-    const querySnapshot = await getDocs(q);
+    const statusSnap = await getDoc(getOrderStatusRef(orderId));
 
-    if (querySnapshot.empty) {
+    if (!statusSnap.exists()) {
       return {
         status: "not_found",
         webhookProcessed: false,
       };
     }
 
-    const foundBooking = querySnapshot.docs[0].data() as FlatBooking;
-
-    const webhookProcessed =
-      foundBooking.originalBookingData?.paymentData?.webhookProcessed || false;
-    let status: "pending" | "confirmed" | "cancelled" = "pending";
-
-    if (foundBooking.bookingStatus === "confirmed") {
-      status = "confirmed";
-    } else if (foundBooking.bookingStatus === "cancelled") {
-      status = "cancelled";
-    } else if (foundBooking.paymentStatus === "success") {
-      status = "confirmed";
-    } else if (foundBooking.paymentStatus === "failed") {
-      status = "cancelled";
-    }
+    const { status, errorReason, webhookProcessed } = statusSnap.data() as BookingStatusDocument;
 
     return {
-      booking: foundBooking,
       status,
-      webhookProcessed,
+      errorReason,
+      webhookProcessed: webhookProcessed || false,
     };
   } catch (error) {
     console.error("Error checking payment status:", error);
@@ -673,73 +853,17 @@ export const checkPaymentStatus = async (
   }
 };
 
-// Listen to booking status changes
+// Listen to booking status changes for a Razorpay order
 export const listenToBookingStatus = (
-  paymentId: string,
-  callback: (status: "pending" | "confirmed" | "cancelled", booking?: FlatBooking) => void
+  orderId: string,
+  callback: (status: "pending" | "confirmed" | "cancelled", errorReason?: string) => void
 ) => {
-  const flatBookingsRef = collection(db, "flatBookings");
-
-  return onSnapshot(flatBookingsRef, (snapshot) => {
-    snapshot.forEach((doc) => {
-      const booking = { id: doc.id, ...doc.data() } as FlatBooking;
-      if (booking.paymentId === paymentId) {
-        let status: "pending" | "confirmed" | "cancelled" = "pending";
-
-        if (booking.bookingStatus === "confirmed") {
-          status = "confirmed";
-        } else if (booking.bookingStatus === "cancelled") {
-          status = "cancelled";
-        } else if (booking.paymentStatus === "success") {
-          status = "confirmed";
-        } else if (booking.paymentStatus === "failed") {
-          status = "cancelled";
-        }
-
-        callback(status, booking);
-      }
-    });
-  });
-};
-
-// Cleanup a failed or timed-out booking by paymentId: frees slots, deletes flat bookings
-export const cleanupFailedBooking = async (paymentId: string): Promise<void> => {
-  try {
-    // Find flat bookings by paymentId
-    const flatBookingsRef = collection(db, "flatBookings");
-    const bookingQuery = query(flatBookingsRef, where("paymentId", "==", paymentId));
-    const bookingSnapshot = await getDocs(bookingQuery);
-
-    if (bookingSnapshot.empty) {
-      return; // Nothing to cleanup
-    }
-
-    // Get the first booking to extract slot release info
-    const firstBooking = bookingSnapshot.docs[0].data() as FlatBooking;
-
-    // Free all reserved slots for this booking if originalBookingData exists
-    if (
-      firstBooking.originalBookingData?.date &&
-      Array.isArray(firstBooking.originalBookingData?.timeSlots)
-    ) {
-      await Promise.all(
-        firstBooking.originalBookingData.timeSlots.map((slot: string) =>
-          updateSlotStatus(firstBooking.originalBookingData.date, slot, "available")
-        )
-      );
-    } else {
-      // Fallback: free slots individually for each flat booking
-      for (const docSnap of bookingSnapshot.docs) {
-        const booking = docSnap.data() as FlatBooking;
-        await updateSlotStatus(booking.date, booking.timeSlot, "available");
-      }
+  return onSnapshot(getOrderStatusRef(orderId), (snapshot) => {
+    if (!snapshot.exists()) {
+      return;
     }
 
-    // Delete all flat bookings with this paymentId
-    const batch = writeBatch(db);
-    bookingSnapshot.docs.forEach((docSnap) => batch.delete(docSnap.ref));
-    await batch.commit();
-  } catch (error) {
-    console.error("Error during cleanupFailedBooking:", error);
-  }
+    const { status, errorReason } = snapshot.data() as BookingStatusDocument;
+    callback(status, errorReason);
+  });
 };
@@ -0,0 +1,94 @@
+// WhatsApp and email messages in messages/{messageId}, queued by the queueMessages Cloud Function or by the
+// automatic notifications, and sent, retried and tracked on the server (see functions/messages.js).
+// Only the functions write them.
+import { collection, onSnapshot, query, Timestamp, where } from "firebase/firestore";
+import { db } from "../firebase/config";
+import { MessageChannel, NotificationEvent } from "../config/eventConfig";
+
+export type MessageStatus =
+  | "queued" // Waiting to be sent, or for a retry after a failed attempt
+  | "sending"
+  | "sent" // Accepted by WhatsApp or the mail server
+  | "delivered" // WhatsApp only, as are read receipts
+  | "read"
+  | "failed";
+
+// An approved template with its parameters filled in, in the Cloud API's shape
+export interface TemplateMessage {
+  name: string;
+  language: string;
+  components: TemplateComponent[];
+}
+
+export interface TemplateComponent {
+  type: "header" | "body";
+  parameters: TemplateComponentParameter[];
+}
+
+export type TemplateComponentParameter =
+  | { type: "text"; text: string; parameter_name?: string }
+  | { type: "image"; image: { link: string } }
+  | { type: "document"; document: { link: string } }
+  | { type: "video"; video: { link: string } };
+
+export interface QueuedMessage {
+  id: string;
+  batchId: string;
+  bookingId: string;
+  channel?: MessageChannel; // Missing on messages queued before email, which went by WhatsApp
+  to: string;
+  subject?: string; // Emails only
+  body: string; // The text sent, or a preview of a template message
+  template?: TemplateMessage;
+  kind: "broadcast" | "delay" | "notification"; // notification: sent by the server on its own
+  event?: NotificationEvent; // For notifications
+  status: MessageStatus;
+  attempts: number;
+  error?: string;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// How one booking's messages in a batch are doing
+export interface BookingDelivery {
+  bookingId: string;
+  status: MessageStatus;
+  messages: QueuedMessage[];
+  error?: string;
+}
+
+// Least advanced first, so a booking shows as delivered only once all its messages are
+const STATUS_ORDER: MessageStatus[] = ["failed", "queued", "sending", "sent", "delivered", "read"];
+
+// One row per booking for the delivery report, in the order the bookings were queued
+export const getDeliveryReport = (messages: QueuedMessage[]): BookingDelivery[] => {
+  const deliveries: BookingDelivery[] = [];
+  messages.forEach((message) => {
+    let delivery = deliveries.find((item) => item.bookingId === message.bookingId);
+    if (!delivery) {
+      delivery = { bookingId: message.bookingId, status: message.status, messages: [] };
+      deliveries.push(delivery);
+    }
+    delivery.messages.push(message);
+    if (STATUS_ORDER.indexOf(message.status) < STATUS_ORDER.indexOf(delivery.status)) {
+      delivery.status = message.status;
+    }
+    delivery.error = delivery.error || message.error;
+  });
+  return deliveries;
+};
+
+// Live view of the messages of one queueMessages batch
+export const subscribeToBatchMessages = (
+  batchId: string,
+  callback: (messages: QueuedMessage[]) => void
+) => {
+  const q = query(collection(db, "messages"), where("batchId", "==", batchId));
+  return onSnapshot(q, (querySnapshot) => {
+    const messages = querySnapshot.docs.map(
+      (docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as QueuedMessage
+    );
+    messages.sort((a, b) => (a.createdAt?.toMillis() || 0) - (b.createdAt?.toMillis() || 0));
+    callback(messages);
+  });
+};
@@ -0,0 +1,85 @@
+// The ways the admin panel reaches dancers: WhatsApp, or email for bookings that asked for it
+// (participantDetails.contactChannel). A channel finds a booking's number or address and turns
+// text with placeholders into a queueMessages entry. Placeholders are filled in by
+// WhatsAppService.replacePlaceholders on every channel, so a message reads the same however it
+// is sent. The server sends each entry through the matching provider in functions/channels.js.
+import { MessageChannel } from "../config/eventConfig";
+import { FlatBooking } from "./firebaseService";
+import { MessageQueueRequest } from "./paymentService";
+
+export type QueueRequestMessage = MessageQueueRequest["messages"][number];
+
+export const CHANNEL_LABELS: Record<MessageChannel, string> = {
+  whatsapp: "WhatsApp",
+  email: "Email",
+};
+
+// What the channels use from WhatsAppService
+export interface PlaceholderEngine {
+  replacePlaceholders(template: string, booking: FlatBooking): string;
+  getPhoneNumber(booking: FlatBooking): string | null;
+}
+
+export interface NotificationChannel {
+  id: MessageChannel;
+  label: string;
+  // The booking's number or address on this channel, or null when it has none
+  getAddress(booking: FlatBooking): string | null;
+  // The message for a booking, or null when it has no address here. Only email uses subject.
+  compose(booking: FlatBooking, text: string, subject: string): QueueRequestMessage | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const getEmailAddress = (booking: FlatBooking): string | null => {
+  const email = (booking.email || "").trim().toLowerCase();
+  return EMAIL_PATTERN.test(email) ? email : null;
+};
+
+export const createNotificationChannels = (
+  engine: PlaceholderEngine
+): Record<MessageChannel, NotificationChannel> => ({
+  whatsapp: {
+    id: "whatsapp",
+    label: CHANNEL_LABELS.whatsapp,
+    getAddress: (booking) => engine.getPhoneNumber(booking),
+    compose: (booking, text) => {
+      const to = engine.getPhoneNumber(booking);
+      return to
+        ? {
+            bookingId: booking.bookingId,
+            channel: "whatsapp",
+            to,
+            body: engine.replacePlaceholders(text, booking),
+          }
+        : null;
+    },
+  },
+  email: {
+    id: "email",
+    label: CHANNEL_LABELS.email,
+    getAddress: getEmailAddress,
+    compose: (booking, text, subject) => {
+      const to = getEmailAddress(booking);
+      return to
+        ? {
+            bookingId: booking.bookingId,
+            channel: "email",
+            to,
+            subject: engine.replacePlaceholders(subject, booking),
+            body: engine.replacePlaceholders(text, booking),
+          }
+        : null;
+    },
+  },
+});
+
+// The channel a booking asked for when it has an address there, WhatsApp otherwise. Mirrors
+// getPreferredChannel in functions/channels.js.
+export const getPreferredChannel = (
+  channels: Record<MessageChannel, NotificationChannel>,
+  booking: FlatBooking
+): NotificationChannel => {
+  const preferred = booking.contactChannel && channels[booking.contactChannel];
+  return preferred && preferred.getAddress(booking) ? preferred : channels.whatsapp;
+};
@@ -0,0 +1,390 @@
+// Calls to the booking and payment Cloud Functions
+import { auth } from "../firebase/config";
+import { BookingSlotPrice, SlotConflictError } from "./firebaseService";
+import { MessageChannel, PricingTier } from "../config/eventConfig";
+import { SlotChangeStatus } from "./slotChangeService";
+import { TemplateMessage } from "./messageService";
+
+export interface HoldRequest {
+  eventId: string;
+  date: string;
+  timeSlots: string[];
+  holdOwner: string;
+}
+
+export interface OrderRequest {
+  eventId: string;
+  date: string;
+  timeSlots: string[];
+  performanceType: string;
+  participantDetails: Record<string, any>;
+  holdOwner: string;
+  couponCode?: string;
+}
+
+// Wait for one booked-out slot, or for any slot in a pricing tier
+export interface WaitlistRequest {
+  eventId: string;
+  date: string;
+  slot?: string;
+  tier?: PricingTier;
+  performanceType: string;
+  participantDetails: Record<string, any>;
+}
+
+export interface BookingLookupRequest {
+  bookingId: string;
+  phone: string; // Any phone number the booking was registered with
+}
+
+// Move a booking to other slots of its day, verified the same way as a lookup
+export interface SlotChangeRequest extends BookingLookupRequest {
+  timeSlots: string[];
+}
+
+// A dancer's own booking as returned by lookupBooking, without contact details
+export interface BookingSummary {
+  bookingId: string;
+  eventId?: string;
+  eventName?: string;
+  date: string;
+  timeSlots: string[];
+  performanceType: string;
+  performanceTypeName: string;
+  participantName?: string;
+  participantNames?: string[];
+  participantCount?: number;
+  status: "pending" | "confirmed" | "cancelled";
+  amount?: number; // in rupees
+  breakdown?: BookingSlotPrice[];
+  couponCode?: string;
+  discount?: number;
+  paymentId?: string;
+  orderId?: string;
+  refund?: { amount: number; status: "pending" | "processed" | "failed" };
+  // The latest slot change requested for the booking
+  slotChange?: {
+    changeId: string;
+    status: SlotChangeStatus;
+    toSlots: string[];
+    amountDue: number;
+    reason?: string;
+  };
+}
+
+export interface RazorpayOrder {
+  id: string;
+  amount: number; // in paise
+  currency: string;
+  status: string;
+}
+
+// Price of one slot as charged; discount is set when a coupon was applied
+export interface OrderBreakdownItem {
+  slot: string;
+  tier: string | null;
+  pricePerPerson: number;
+  amount: number;
+  discount?: number;
+}
+
+export interface OrderResponse {
+  order: RazorpayOrder;
+  amount: number; // in rupees, as priced by the server
+  participantCount: number;
+  breakdown: OrderBreakdownItem[];
+  bookingId: string;
+  discount: number; // in rupees; 0 without a coupon
+}
+
+export interface CouponPreview {
+  couponCode: string;
+  amount: number; // in rupees, after the discount
+  discount: number;
+  breakdown: OrderBreakdownItem[];
+}
+
+export interface CheckoutResponse {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+}
+
+// What Razorpay Checkout (checkout.js) is opened with; key, image and theme are filled in by
+// openRazorpayCheckout
+export interface RazorpayCheckoutOptions {
+  key: string;
+  amount: number; // in paise, as priced by the server
+  currency: string;
+  name: string;
+  description: string;
+  image?: string;
+  order_id: string;
+  timeout?: number; // seconds before checkout closes itself
+  handler: (response: CheckoutResponse) => void;
+  prefill?: { name?: string; email?: string; contact?: string };
+  notes?: Record<string, string>;
+  theme?: { color: string };
+  modal?: { ondismiss?: () => void };
+}
+
+export interface RazorpayPaymentFailure {
+  error: { code: string; description: string; reason: string };
+}
+
+interface RazorpayCheckout {
+  on: (event: "payment.failed", callback: (response: RazorpayPaymentFailure) => void) => void;
+  open: () => void;
+}
+
+declare global {
+  interface Window {
+    Razorpay: new (options: RazorpayCheckoutOptions) => RazorpayCheckout;
+  }
+}
+
+export interface VerifyPaymentResponse {
+  verified: boolean;
+  // A slot change's status when the payment was for one
+  status: "confirmed" | "cancelled" | "not_found" | SlotChangeStatus;
+  bookingId?: string;
+  changeId?: string;
+  // Set with "not_found": the booking expired first and the payment is being given back
+  refundStatus?: "refunded" | "refund_failed";
+}
+
+// order is set when the new slots cost more; the change is settled once it is paid
+export interface SlotChangeResponse {
+  changeId: string;
+  status: SlotChangeStatus;
+  amountDue: number; // in rupees
+  order: RazorpayOrder | null;
+}
+
+export interface SlotChangeReview {
+  changeId: string;
+  approve: boolean;
+  reason?: string;
+}
+
+export interface RefundRequest {
+  bookingId: string;
+  amount?: number; // in rupees; omit to refund the full payment
+  reason?: string;
+}
+
+export interface RefundResponse {
+  refundId: string;
+  refundAmount: number;
+  refundStatus: "pending" | "processed";
+}
+
+// WhatsApp messages for the server to send; to must be a number on the booking
+export interface MessageQueueRequest {
+  // body is the text to send, or a preview when template is set. Messages without a channel go
+  // by WhatsApp; emails need a subject.
+  messages: {
+    bookingId: string;
+    channel?: MessageChannel;
+    to: string;
+    subject?: string;
+    body: string;
+    template?: TemplateMessage;
+  }[];
+  kind?: "broadcast" | "delay";
+}
+
+export interface MessageQueueResponse {
+  batchId: string;
+  queued: number;
+}
+
+// A function call the server rejected; reason is its error message, fit to show the dancer
+export class FunctionCallError extends Error {
+  readonly status: number;
+  readonly reason: string;
+
+  constructor(functionName: string, status: number, reason: string) {
+    super(`${functionName} failed: ${status} - ${reason}`);
+    this.name = "FunctionCallError";
+    this.status = status;
+    this.reason = reason;
+    Object.setPrototypeOf(this, FunctionCallError.prototype);
+  }
+}
+
+export const getFunctionUrl = (functionName: string): string => {
+  const projectId = process.env.REACT_APP_FIREBASE_PROJECT_ID;
+  if (!projectId) {
+    throw new Error("Firebase Project ID not configured. Please check environment variables.");
+  }
+  return `https://us-central1-${projectId}.cloudfunctions.net/${functionName}`;
+};
+
+// Admin-only functions expect the signed-in user's ID token
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error("Please sign in again to continue.");
+  }
+  return { Authorization: `Bearer ${await user.getIdToken()}` };
+};
+
+const postToFunction = async <T>(
+  functionName: string,
+  body: unknown,
+  options: { authenticated?: boolean } = {}
+): Promise<T> => {
+  const functionUrl = getFunctionUrl(functionName);
+  console.log(`🌐 Calling Firebase Function ${functionName}:`, functionUrl);
+
+  const authHeaders = options.authenticated ? await getAuthHeaders() : {};
+  const response = await fetch(functionUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    let message = errorText;
+    let lostSlots: string[] | undefined;
+    try {
+      const errorBody = JSON.parse(errorText);
+      message = errorBody.error || errorText;
+      lostSlots = errorBody.lostSlots;
+    } catch {
+      // Not JSON, use the raw text
+    }
+    if (response.status === 409 && lostSlots) {
+      throw new SlotConflictError(lostSlots);
+    }
+    throw new FunctionCallError(functionName, response.status, message);
+  }
+
+  return response.json();
+};
+
+// Hold slots while the dancer pays; returns when the hold expires (epoch ms).
+// Throws SlotConflictError if someone else already has any of them.
+export const holdSlots = async (request: HoldRequest): Promise<number> => {
+  const { expiresAt } = await postToFunction<{ expiresAt: number }>("holdSlots", request);
+  console.log(`⏳ Held slots for ${request.holdOwner} until`, new Date(expiresAt));
+  return expiresAt;
+};
+
+// Create the pending booking and its Razorpay order. The server computes the amount from the
+// registration details and books the held slots; the browser never sends an amount.
+export const createPendingBooking = async (request: OrderRequest): Promise<OrderResponse> => {
+  const data = await postToFunction<OrderResponse>("createPendingBooking", request);
+
+  if (!data?.order?.id) {
+    throw new Error("Booking created but no order ID returned from backend");
+  }
+
+  console.log("✅ Pending booking created:", data.bookingId, "Amount:", data.amount);
+  return data;
+};
+
+// Price the registration with a discount code. Throws FunctionCallError with the reason
+// (expired, used up, not for this performance type...) when the code can't be used.
+export const previewCoupon = async (request: OrderRequest): Promise<CouponPreview> => {
+  const data = await postToFunction<CouponPreview>("previewCoupon", request);
+  console.log(`🏷️ Coupon ${data.couponCode}: ₹${data.discount} off`);
+  return data;
+};
+
+// Put the dancer on the waitlist with their registration details; returns the entry ID
+export const joinWaitlist = async (request: WaitlistRequest): Promise<string> => {
+  const { entryId } = await postToFunction<{ entryId: string }>("joinWaitlist", request);
+  console.log("📝 Joined the waitlist:", entryId);
+  return entryId;
+};
+
+// Find a booking by its ID and registered phone number. Throws FunctionCallError with status
+// 404 when they don't match a booking.
+export const lookupBooking = async (request: BookingLookupRequest): Promise<BookingSummary> => {
+  const data = await postToFunction<BookingSummary>("lookupBooking", request);
+  console.log("🔎 Booking found:", data.bookingId);
+  return data;
+};
+
+// Ask to move a booking to other slots. Throws SlotConflictError if any are taken meanwhile.
+export const requestSlotChange = async (
+  request: SlotChangeRequest
+): Promise<SlotChangeResponse> => {
+  const data = await postToFunction<SlotChangeResponse>("requestSlotChange", request);
+  console.log("🔁 Slot change requested:", data.changeId, data.status);
+  return data;
+};
+
+// Add checkout.js to the page once; resolves to false when it cannot be loaded
+export const loadRazorpayScript = (): Promise<boolean> => {
+  if (window.Razorpay) {
+    return Promise.resolve(true);
+  }
+  return new Promise((resolve) => {
+    const script = document.createElement("script");
+    script.src = "https://checkout.razorpay.com/v1/checkout.js";
+    script.onload = () => resolve(true);
+    script.onerror = () => resolve(false);
+    document.body.appendChild(script);
+  });
+};
+
+// Open Razorpay Checkout for an order created by one of the functions. onFailure hears about
+// each failed attempt; the dancer can try again in the same checkout.
+export const openRazorpayCheckout = async (
+  options: Omit<RazorpayCheckoutOptions, "key" | "image" | "theme">,
+  onFailure?: (response: RazorpayPaymentFailure) => void
+): Promise<void> => {
+  if (!(await loadRazorpayScript())) {
+    throw new Error("Failed to load Razorpay. Please check your internet connection.");
+  }
+
+  const razorpay = new window.Razorpay({
+    key: process.env.REACT_APP_RAZORPAY_KEY_ID || "rzp_test_your_key_here",
+    image: "/logo192.png",
+    theme: { color: "#2563eb" },
+    ...options,
+  });
+  if (onFailure) {
+    razorpay.on("payment.failed", onFailure);
+  }
+  razorpay.open();
+};
+
+// Send the checkout handler's signature to the server so it can confirm the booking
+// immediately instead of waiting for the webhook.
+export const verifyPayment = async (checkout: CheckoutResponse): Promise<VerifyPaymentResponse> => {
+  const data = await postToFunction<VerifyPaymentResponse>("verifyPayment", checkout);
+  console.log("🔐 Payment verification result:", data);
+  return data;
+};
+
+// Cancel a paid booking and refund it through Razorpay (organizers only)
+export const refundBooking = async (request: RefundRequest): Promise<RefundResponse> => {
+  const data = await postToFunction<RefundResponse>("refundBooking", request, {
+    authenticated: true,
+  });
+  console.log("💸 Refund started:", data.refundId, "Amount:", data.refundAmount);
+  return data;
+};
+
+// Approve or reject a slot change waiting for an organizer; rejecting refunds what was paid
+export const reviewSlotChange = async (review: SlotChangeReview): Promise<void> => {
+  await postToFunction("reviewSlotChange", review, { authenticated: true });
+  console.log(`🔁 Slot change ${review.changeId} ${review.approve ? "approved" : "rejected"}`);
+};
+
+// Hand WhatsApp messages to the server's queue (desk and organizers). They are sent and
+// retried there; follow them with subscribeToBatchMessages.
+export const queueMessages = async (
+  request: MessageQueueRequest
+): Promise<MessageQueueResponse> => {
+  const data = await postToFunction<MessageQueueResponse>("queueMessages", request, {
+    authenticated: true,
+  });
+  console.log(`📨 Queued ${data.queued} message(s) in batch ${data.batchId}`);
+  return data;
+};
@@ -0,0 +1,191 @@
+// PDF receipts, built from the bookings/{bookingId} document for the desk and from the
+// lookupBooking summary for the dancer, so the copy a dancer downloads after paying and the one
+// the desk prints from the admin panel always match
+import { jsPDF } from "jspdf";
+import QRCode from "qrcode";
+import { eventConfig, PricingTier } from "../config/eventConfig";
+import { getParticipantNames } from "../utils/participantUtils";
+import { formatEventDate, getEvent, getPricingTier, getTierDisplayName } from "../utils/timeUtils";
+import { Booking, BookingSlotPrice, getBookingStatus } from "./firebaseService";
+import { BookingSummary } from "./paymentService";
+
+export interface ReceiptSlot {
+  slot: string;
+  tierName: string | null; // null when time-based pricing is off
+  pricePerPerson: number;
+  amount: number;
+}
+
+export interface ReceiptDetails {
+  bookingId: string;
+  eventName: string;
+  date: string; // formatted for display
+  venue?: string;
+  performanceTypeName: string;
+  participants: string[];
+  participantCount: number;
+  slots: ReceiptSlot[];
+  total: number; // in rupees, after any discount
+  couponCode?: string;
+  discount?: number;
+  paymentId?: string;
+  status: "pending" | "confirmed" | "cancelled";
+}
+
+// Bookings keep the price they were charged per slot, so later price changes never alter an
+// old receipt
+const getReceiptSlots = (timeSlots: string[], breakdown?: BookingSlotPrice[]): ReceiptSlot[] =>
+  timeSlots.map((slot) => {
+    const charged = breakdown?.find((item) => item.slot === slot);
+    const tier = (charged?.tier as PricingTier | null | undefined) ?? getPricingTier(slot);
+    return {
+      slot,
+      tierName: getTierDisplayName(tier),
+      pricePerPerson: charged?.pricePerPerson ?? 0,
+      amount: charged?.amount ?? 0,
+    };
+  });
+
+const sumSlots = (slots: ReceiptSlot[]) => slots.reduce((total, item) => total + item.amount, 0);
+
+// Everything printed on the receipt
+export const getReceiptDetails = (booking: Booking): ReceiptDetails => {
+  const participantDetails = booking.participantDetails || {};
+  const participants = getParticipantNames(booking.performanceType, participantDetails);
+  const participantCount = booking.participantCount || Math.max(participants.length, 1);
+  const event = booking.eventId ? getEvent(booking.eventId) : undefined;
+  const slots = getReceiptSlots(booking.timeSlots, booking.breakdown);
+
+  return {
+    bookingId: booking.bookingId || booking.id || "",
+    eventName: booking.eventName || event?.name || eventConfig.eventName,
+    date: formatEventDate(booking.date),
+    venue: event?.venue,
+    performanceTypeName: booking.performanceTypeName || booking.performanceType,
+    participants:
+      participants.length > 0 ? participants : [participantDetails.participantNames || "N/A"],
+    participantCount,
+    slots,
+    total: booking.amount ?? sumSlots(slots),
+    couponCode: booking.couponCode,
+    discount: booking.discount,
+    paymentId: booking.paymentData?.paymentId,
+    status: getBookingStatus(booking),
+  };
+};
+
+// The same receipt from what lookupBooking returns to the dancer
+export const getSummaryReceiptDetails = (summary: BookingSummary): ReceiptDetails => {
+  const participants = summary.participantNames || [];
+  const event = summary.eventId ? getEvent(summary.eventId) : undefined;
+  const slots = getReceiptSlots(summary.timeSlots, summary.breakdown);
+
+  return {
+    bookingId: summary.bookingId,
+    eventName: summary.eventName || event?.name || eventConfig.eventName,
+    date: formatEventDate(summary.date),
+    venue: event?.venue,
+    performanceTypeName: summary.performanceTypeName || summary.performanceType,
+    participants: participants.length > 0 ? participants : [summary.participantName || "N/A"],
+    participantCount: summary.participantCount || Math.max(participants.length, 1),
+    slots,
+    total: summary.amount ?? sumSlots(slots),
+    couponCode: summary.couponCode,
+    discount: summary.discount,
+    paymentId: summary.paymentId,
+    status: summary.status,
+  };
+};
+
+// The built-in PDF fonts have no rupee sign
+const formatRupees = (amount: number) => `Rs. ${amount.toLocaleString("en-IN")}`;
+
+const STATUS_TEXT: Record<ReceiptDetails["status"], string> = {
+  confirmed: "CONFIRMED",
+  pending: "PAYMENT PENDING",
+  cancelled: "CANCELLED",
+};
+
+// Lay out an A4 receipt with a QR code of the booking ID for check-in
+export const buildReceiptPdf = async (receipt: ReceiptDetails): Promise<jsPDF> => {
+  const pdf = new jsPDF({ unit: "mm", format: "a4" });
+  const left = 20;
+  const right = 190;
+  let y = 25;
+
+  const row = (label: string, value: string) => {
+    pdf.setFont("helvetica", "bold");
+    pdf.text(label, left, y);
+    pdf.setFont("helvetica", "normal");
+    const lines = pdf.splitTextToSize(value, 95);
+    pdf.text(lines, left + 40, y);
+    y += 6 * lines.length;
+  };
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(18);
+  pdf.text(eventConfig.eventName, left, y);
+  y += 8;
+  pdf.setFontSize(13);
+  pdf.text(`Booking receipt - ${STATUS_TEXT[receipt.status]}`, left, y);
+  y += 12;
+
+  const qrCode = await QRCode.toDataURL(receipt.bookingId, { margin: 1, width: 240 });
+  pdf.addImage(qrCode, "PNG", right - 40, 20, 40, 40);
+
+  pdf.setFontSize(11);
+  row("Event", receipt.eventName);
+  row("Date", receipt.date);
+  if (receipt.venue) {
+    row("Venue", receipt.venue);
+  }
+  row("Booking ID", receipt.bookingId);
+  row("Performance", receipt.performanceTypeName);
+  row("Participants", `${receipt.participants.join(", ")} (${receipt.participantCount})`);
+  y = Math.max(y, 65) + 6;
+
+  // Slot table
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Time slot", left, y);
+  pdf.text("Tier", left + 45, y);
+  pdf.text("Per person", left + 95, y);
+  pdf.text("Amount", right, y, { align: "right" });
+  y += 2;
+  pdf.line(left, y, right, y);
+  y += 6;
+  pdf.setFont("helvetica", "normal");
+  receipt.slots.forEach((item) => {
+    pdf.text(item.slot, left, y);
+    pdf.text(item.tierName || "-", left + 45, y);
+    pdf.text(formatRupees(item.pricePerPerson), left + 95, y);
+    pdf.text(formatRupees(item.amount), right, y, { align: "right" });
+    y += 6;
+  });
+  pdf.line(left, y - 3, right, y - 3);
+  y += 3;
+
+  if (receipt.couponCode) {
+    pdf.text(`Discount code ${receipt.couponCode}`, left, y);
+    pdf.text(`- ${formatRupees(receipt.discount || 0)}`, right, y, { align: "right" });
+    y += 6;
+  }
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Total", left, y);
+  pdf.text(formatRupees(receipt.total), right, y, { align: "right" });
+  y += 10;
+
+  pdf.setFont("helvetica", "normal");
+  row("Payment ID", receipt.paymentId || "Not paid online");
+  y += 6;
+  pdf.setFontSize(9);
+  pdf.setTextColor(100);
+  pdf.text("Show this receipt or its QR code at the registration desk.", left, y);
+
+  return pdf;
+};
+
+export const downloadReceipt = async (receipt: ReceiptDetails): Promise<void> => {
+  const pdf = await buildReceiptPdf(receipt);
+  pdf.save(`receipt-${receipt.bookingId}.pdf`);
+  console.log("🧾 Receipt downloaded for booking:", receipt.bookingId);
+};
@@ -0,0 +1,277 @@
+// The day's running order for the stage manager's schedule board. The order is derived from
+// the slot map (slots/{eventId}_{date}) and that day's confirmed bookings, so it never needs
+// to be kept by hand. Only the delay is stored, as schedule/{eventId}_{date}, and copied onto
+// each delayed booking as its estimated times (Booking.delay).
+import {
+  collection,
+  doc,
+  getDocs,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { auth, db } from "../firebase/config";
+import { eventConfig } from "../config/eventConfig";
+import { getSlotDocId, minutesToTime, timeToMinutes } from "../utils/timeUtils";
+import { Booking, getBookingStatus, getFlatBookingsForDate } from "./firebaseService";
+import { getCheckInNames } from "./checkInService";
+import { whatsAppService } from "./whatsAppService";
+
+// One item on the board: an act (consecutive slots of one booking) or a gap of open slots
+export interface ScheduleItem {
+  kind: "act" | "break";
+  bookingId?: string; // Missing for breaks and for booked slots with no confirmed booking
+  names: string[];
+  performanceTypeName?: string;
+  slots: string[];
+  start: number; // planned start, in minutes after midnight
+  end: number;
+}
+
+export interface ScheduleSettings {
+  delayMinutes: number; // How far the programme is running behind; 0 when on time
+  delayFromSlot?: string; // The delay applies from this slot onward; to the whole day when empty
+  updatedAt?: any;
+  updatedBy?: string;
+}
+
+export interface RunningOrderNow {
+  current: ScheduleItem | null;
+  next: ScheduleItem | null;
+  later: ScheduleItem[]; // Everything after next, breaks included
+}
+
+// Merge the day's slots into acts and breaks, in order. Open slots before the first act and
+// after the last one are left off.
+export const buildRunningOrder = (
+  slots: Record<string, string>,
+  bookings: Booking[],
+  slotDuration: number = eventConfig.slotDuration
+): ScheduleItem[] => {
+  const slotBookings: Record<string, Booking> = {};
+  bookings
+    .filter((booking) => getBookingStatus(booking) === "confirmed")
+    .forEach((booking) => {
+      booking.timeSlots.forEach((slot) => {
+        slotBookings[slot] = booking;
+      });
+    });
+
+  const slotLabels = Array.from(new Set([...Object.keys(slots), ...Object.keys(slotBookings)]));
+  slotLabels.sort((a, b) => timeToMinutes(a) - timeToMinutes(b));
+
+  const items: ScheduleItem[] = [];
+  slotLabels.forEach((slot) => {
+    const start = timeToMinutes(slot);
+    const booking = slotBookings[slot];
+    const last = items[items.length - 1];
+    const follows = !!last && last.end === start;
+
+    if (booking) {
+      if (follows && last.kind === "act" && last.bookingId === booking.id) {
+        last.slots.push(slot);
+        last.end = start + slotDuration;
+        return;
+      }
+      items.push({
+        kind: "act",
+        bookingId: booking.id,
+        names: getCheckInNames(booking),
+        performanceTypeName: booking.performanceTypeName || booking.performanceType,
+        slots: [slot],
+        start,
+        end: start + slotDuration,
+      });
+    } else if (slots[slot] === "booked") {
+      // Booked by hand or still syncing; show it so the order has no hole
+      items.push({ kind: "act", names: [], slots: [slot], start, end: start + slotDuration });
+    } else if (follows && last.kind === "break") {
+      last.slots.push(slot);
+      last.end = start + slotDuration;
+    } else {
+      items.push({ kind: "break", names: [], slots: [slot], start, end: start + slotDuration });
+    }
+  });
+
+  while (items.length > 0 && items[0].kind === "break") {
+    items.shift();
+  }
+  while (items.length > 0 && items[items.length - 1].kind === "break") {
+    items.pop();
+  }
+  return items;
+};
+
+const isDelayedFrom = (start: number, settings: ScheduleSettings): boolean =>
+  settings.delayMinutes > 0 &&
+  (!settings.delayFromSlot || start >= timeToMinutes(settings.delayFromSlot));
+
+// How late an item will start under the recorded delay
+export const getItemDelay = (item: ScheduleItem, settings: ScheduleSettings): number =>
+  isDelayedFrom(item.start, settings) ? settings.delayMinutes : 0;
+
+// What is on stage at a moment of the day, given how late the programme is running. Acts
+// keep their planned order, so a delay only shifts which one is current.
+export const getRunningOrderNow = (
+  items: ScheduleItem[],
+  nowMinutes: number,
+  settings: ScheduleSettings = { delayMinutes: 0 }
+): RunningOrderNow => {
+  const startsBy = (item: ScheduleItem) => item.start + getItemDelay(item, settings);
+  const current =
+    items.find(
+      (item) =>
+        item.kind === "act" &&
+        startsBy(item) <= nowMinutes &&
+        nowMinutes < item.end + getItemDelay(item, settings)
+    ) || null;
+  const nextIndex = items.findIndex(
+    (item) => item.kind === "act" && item !== current && startsBy(item) >= nowMinutes
+  );
+
+  return {
+    current,
+    next: nextIndex >= 0 ? items[nextIndex] : null,
+    later: nextIndex >= 0 ? items.slice(nextIndex + 1) : [],
+  };
+};
+
+// A booking's delay under the recorded settings, with the expected start of each delayed slot.
+// Bookings that finish before the delay starts are on time.
+export const getBookingDelay = (
+  booking: Booking,
+  settings: ScheduleSettings
+): { minutes: number; estimatedTimes: Record<string, string> } => {
+  const estimatedTimes: Record<string, string> = {};
+  booking.timeSlots.forEach((slot) => {
+    const start = timeToMinutes(slot);
+    if (isDelayedFrom(start, settings)) {
+      estimatedTimes[slot] = minutesToTime(start + settings.delayMinutes);
+    }
+  });
+  return {
+    minutes: Object.keys(estimatedTimes).length > 0 ? settings.delayMinutes : 0,
+    estimatedTimes,
+  };
+};
+
+// Dancers are messaged only when their time has moved far enough from what they were last
+// told, so nudging the delay by a few minutes doesn't send a stream of updates
+export const needsDelayNotice = (
+  booking: Booking,
+  minutes: number,
+  thresholdMinutes: number = eventConfig.delayNotifyMinutes
+): boolean => Math.abs(minutes - (booking.delay?.notifiedMinutes || 0)) >= thresholdMinutes;
+
+export const subscribeToSchedule = (
+  slotDocId: string,
+  callback: (settings: ScheduleSettings) => void
+) => {
+  return onSnapshot(doc(db, "schedule", slotDocId), (docSnap) => {
+    callback(
+      docSnap.exists()
+        ? ({ delayMinutes: 0, ...docSnap.data() } as ScheduleSettings)
+        : { delayMinutes: 0 }
+    );
+  });
+};
+
+// Record how late the day is running and store the estimated times on every affected
+// confirmed booking. Returns the bookings whose dancers should be told (see needsDelayNotice).
+export const applyScheduleDelay = async (
+  eventId: string,
+  date: string,
+  delayMinutes: number,
+  delayFromSlot: string
+): Promise<Booking[]> => {
+  const settings: ScheduleSettings = { delayMinutes, delayFromSlot };
+  const snapshot = await getDocs(query(collection(db, "bookings"), where("date", "==", date)));
+  const bookings = snapshot.docs
+    .map((docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as Booking)
+    .filter((booking) => booking.eventId === eventId && getBookingStatus(booking) === "confirmed");
+
+  const batch = writeBatch(db);
+  batch.set(
+    doc(db, "schedule", getSlotDocId(eventId, date)),
+    {
+      delayMinutes,
+      delayFromSlot,
+      updatedAt: serverTimestamp(),
+      updatedBy: auth.currentUser?.email || auth.currentUser?.uid || "",
+    },
+    { merge: true }
+  );
+
+  const toNotify: Booking[] = [];
+  bookings.forEach((booking) => {
+    const delay = getBookingDelay(booking, settings);
+    if (!booking.delay && delay.minutes === 0) {
+      return;
+    }
+    batch.update(doc(db, "bookings", booking.id!), {
+      "delay.minutes": delay.minutes,
+      "delay.estimatedTimes": delay.estimatedTimes,
+      "delay.updatedAt": serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    if (needsDelayNotice(booking, delay.minutes)) {
+      toNotify.push({ ...booking, delay: { ...booking.delay, ...delay } });
+    }
+  });
+  await batch.commit();
+
+  console.log(
+    `⏱️ ${eventId} ${date} running ${delayMinutes} minutes late from ${delayFromSlot || "the start"}`
+  );
+  return toNotify;
+};
+
+// Queue the running-late update to each booking's contact on the channel they chose, naming the
+// booking's first delayed slot, and remember which delay they were told about. Returns the
+// queued batch and how many bookings had no number or address to message.
+export const sendDelayNotices = async (
+  date: string,
+  bookings: Booking[]
+): Promise<{ batchId: string; queued: number; skipped: number }> => {
+  const rows = await getFlatBookingsForDate(date);
+  const messages = bookings.flatMap((booking) => {
+    const delay = booking.delay!;
+    const slot =
+      Object.keys(delay.estimatedTimes).sort((a, b) => timeToMinutes(a) - timeToMinutes(b))[0] ||
+      booking.timeSlots[0];
+    const row =
+      rows.find((item) => item.bookingId === booking.id && item.timeSlot === slot) ||
+      rows.find((item) => item.bookingId === booking.id);
+    return row
+      ? [
+          {
+            ...row,
+            timeSlot: slot,
+            estimatedTime: delay.estimatedTimes[slot] || slot,
+            delayMinutes: delay.minutes,
+          },
+        ]
+      : [];
+  });
+
+  const result = await whatsAppService.sendDelayUpdates(messages);
+  const skippedIds = new Set(result.skipped.map((row) => row.bookingId));
+  await Promise.all(
+    messages
+      .filter((row) => !skippedIds.has(row.bookingId))
+      .map((row) =>
+        updateDoc(doc(db, "bookings", row.bookingId), {
+          "delay.notifiedMinutes": row.delayMinutes || 0,
+        })
+      )
+  );
+
+  return {
+    batchId: result.batchId,
+    queued: result.queued,
+    skipped: bookings.length - messages.length + result.skipped.length,
+  };
+};
@@ -0,0 +1,42 @@
+// Slot change requests in slotChanges/{changeId}, created by the requestSlotChange Cloud
+// Function when a dancer moves their booking from "Find my booking" (see
+// functions/slotChanges.js). Only the Cloud Functions write them.
+import { collection, onSnapshot, orderBy, query, Timestamp } from "firebase/firestore";
+import { db } from "../firebase/config";
+import { BookingSlotPrice } from "./firebaseService";
+
+export type SlotChangeStatus =
+  | "awaiting_payment" // Dearer slots held until the difference is paid
+  | "pending_approval" // Waiting for an organizer (eventConfig.slotChangesNeedApproval)
+  | "applied"
+  | "rejected"
+  | "expired"; // Not paid in time, replaced by a newer request, or the slots were taken
+
+export interface SlotChange {
+  id: string;
+  bookingId: string;
+  eventId: string | null;
+  date: string;
+  fromSlots: string[];
+  toSlots: string[];
+  breakdown: BookingSlotPrice[];
+  amountDue: number; // in rupees
+  participantName: string;
+  status: SlotChangeStatus;
+  orderId?: string;
+  paymentId?: string;
+  refund?: { id: string; amount: number; status: "pending" | "processed" | "failed" };
+  reviewedBy?: string;
+  reason?: string;
+  createdAt?: Timestamp;
+}
+
+// Live view of every request, newest first, for the admin Slot changes tab
+export const subscribeToSlotChanges = (callback: (changes: SlotChange[]) => void) => {
+  const q = query(collection(db, "slotChanges"), orderBy("createdAt", "desc"));
+  return onSnapshot(q, (querySnapshot) => {
+    callback(
+      querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as SlotChange)
+    );
+  });
+};
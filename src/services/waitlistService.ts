@@ -0,0 +1,81 @@
+// Waitlist entries in waitlist/{entryId}, created by the joinWaitlist Cloud Function. When a slot
+// is freed, the offerFreedSlots function holds it for the earliest matching entry (see
+// functions/waitlist.js) and the dancer books it from their waitlist link.
+import {
+  collection,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+} from "firebase/firestore";
+import { db } from "../firebase/config";
+import { PricingTier } from "../config/eventConfig";
+import { releaseSlots } from "./firebaseService";
+
+export type WaitlistStatus = "waiting" | "offered" | "booked" | "lapsed" | "cancelled";
+
+// A freed slot held for the entry; the dancer books it as holdOwner until expiresAt (epoch ms)
+export interface WaitlistOffer {
+  slot: string;
+  holdOwner: string;
+  expiresAt: number;
+}
+
+export interface WaitlistEntry {
+  id: string;
+  eventId: string;
+  date: string;
+  slot?: string; // Waiting for this slot...
+  tier?: PricingTier; // ...or for any slot in this pricing tier
+  performanceType: string;
+  participantDetails: Record<string, any>;
+  contact: { name: string; phone: string; email: string };
+  status: WaitlistStatus;
+  offer?: WaitlistOffer;
+  bookingId?: string; // Set once the offered slot is booked
+  createdAt?: Timestamp;
+}
+
+// The entry ID is the dancer's key to their place in the queue, so keep the link private
+export const getWaitlistLink = (entryId: string): string =>
+  `${window.location.origin}/?waitlist=${entryId}`;
+
+export const isOfferOpen = (entry: WaitlistEntry, now = Date.now()): boolean =>
+  entry.status === "offered" && !!entry.offer && entry.offer.expiresAt > now;
+
+// Live view of one entry for the dancer's waitlist page; callback gets null if it doesn't exist.
+// Security rules allow fetching an entry by ID but not listing the collection.
+export const subscribeToWaitlistEntry = (
+  entryId: string,
+  callback: (entry: WaitlistEntry | null) => void
+) => {
+  return onSnapshot(doc(db, "waitlist", entryId), (snapshot) => {
+    callback(snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as WaitlistEntry) : null);
+  });
+};
+
+// Live view of every entry, oldest first, for the admin Waitlist tab
+export const subscribeToWaitlist = (callback: (entries: WaitlistEntry[]) => void) => {
+  const q = query(collection(db, "waitlist"), orderBy("createdAt", "asc"));
+  return onSnapshot(q, (querySnapshot) => {
+    callback(
+      querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as WaitlistEntry)
+    );
+  });
+};
+
+// Take an entry off the waitlist. A slot currently offered to it is released, which offers it
+// to the next entry.
+export const cancelWaitlistEntry = async (entry: WaitlistEntry): Promise<void> => {
+  await updateDoc(doc(db, "waitlist", entry.id), {
+    status: "cancelled",
+    updatedAt: serverTimestamp(),
+  });
+  if (entry.status === "offered" && entry.offer) {
+    await releaseSlots(entry.eventId, entry.date, [entry.offer.slot]);
+  }
+  console.log(`🗑️ Waitlist entry ${entry.id} cancelled`);
+};
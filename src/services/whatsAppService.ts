@@ -1,36 +1,46 @@
-// WhatsApp messaging service using Facebook Cloud API
+// WhatsApp messages from the admin panel, and emails to dancers who chose email. Messages are
+// personalized here and handed to the server's queue (queueMessages), which sends them with the
+// Cloud API and SMTP credentials, retries failures and records delivery; no API token or mail
+// password is ever in the browser. Free WhatsApp text only reaches dancers who wrote to us in the
+// last 24 hours; everyone else needs an approved template.
 import { FlatBooking } from "./firebaseService";
-import { eventConfig } from "../config/eventConfig";
+import { eventConfig, MessageChannel, WhatsAppTemplate } from "../config/eventConfig";
+import { MessageQueueRequest, queueMessages } from "./paymentService";
+import { TemplateComponent, TemplateComponentParameter, TemplateMessage } from "./messageService";
+import {
+  createNotificationChannels,
+  getPreferredChannel,
+  NotificationChannel,
+  QueueRequestMessage,
+} from "./notificationChannels";
 
-interface WhatsAppMessage {
-  messaging_product: string;
-  to: string;
-  type: string;
-  text: {
-    body: string;
-  };
+// An approved template and the translation to send
+export interface TemplateChoice {
+  template: WhatsAppTemplate;
+  language: string;
 }
 
-class WhatsAppService {
-  private readonly accessToken: string;
-  private readonly phoneNumberId: string;
-  private readonly apiVersion: string = "v21.0";
-  private readonly baseUrl: string;
+// What dancers who chose email get: a subject, and text to send instead of a template's preview
+export interface EmailContent {
+  subject: string;
+  text?: string;
+}
 
-  constructor() {
-    this.accessToken = process.env.REACT_APP_FACEBOOK_ACCESS_TOKEN || "";
-    this.phoneNumberId = process.env.REACT_APP_FACEBOOK_PHONE_NUMBER_ID || "";
-    this.baseUrl = `https://graph.facebook.com/${this.apiVersion}`;
+export interface QueuedBatch {
+  batchId: string; // Empty when nothing was queued
+  queued: number;
+  skipped: FlatBooking[]; // Bookings without a usable phone number or email address
+}
 
-    if (!this.accessToken || !this.phoneNumberId) {
-      console.error("Facebook WhatsApp credentials not found in environment variables");
-    }
-  }
+export const DEFAULT_EMAIL_SUBJECT = "A message from {event_name}";
+
+class WhatsAppService {
+  readonly channels: Record<MessageChannel, NotificationChannel> = createNotificationChannels(this);
 
   /**
    * Replace placeholders in message template with booking data
    */
-  private replacePlaceholders(template: string, booking: FlatBooking): string {
+  replacePlaceholders(template: string, booking: FlatBooking): string {
     let message = template;
 
     // Define placeholder mappings
@@ -45,7 +55,7 @@ class WhatsAppService {
       "{phone}":
         booking.phoneNumber || booking.participant1Phone || booking.representativePhone || "N/A",
       "{booking_id}": booking.bookingId || "N/A",
-      "{event_name}": eventConfig.eventName,
+      "{event_name}": booking.eventName || eventConfig.eventName,
       "{event_date}": booking.date || "N/A",
       "{event_time}": booking.timeSlot || "N/A",
       "{performance_type}": booking.performanceTypeName || booking.performanceType || "N/A",
@@ -67,6 +77,8 @@ class WhatsAppService {
       "{representative_phone}": booking.representativePhone || "N/A",
       "{payment_id}": booking.paymentId || "N/A",
       "{status}": booking.paymentStatus || "N/A",
+      "{estimated_time}": booking.estimatedTime || booking.timeSlot || "N/A",
+      "{delay_minutes}": booking.delayMinutes?.toString() || "0",
     };
 
     // Replace all placeholders
@@ -80,10 +92,70 @@ class WhatsAppService {
     return message;
   }
 
+  /**
+   * Template parameters may not contain new lines, tabs or more than four spaces in a row
+   */
+  private toParameterText(value: string): string {
+    return value.replace(/[\n\t]+/g, " ").replace(/ {5,}/g, "    ");
+  }
+
+  private getHeaderParameter(header: NonNullable<WhatsAppTemplate["header"]>) {
+    const media = { link: header.link };
+    const parameters: Record<typeof header.type, TemplateComponentParameter> = {
+      image: { type: "image", image: media },
+      document: { type: "document", document: media },
+      video: { type: "video", video: media },
+    };
+    return parameters[header.type];
+  }
+
+  /**
+   * Fill in an approved template for a booking: its header media and each body parameter with
+   * the placeholders replaced
+   */
+  buildTemplateMessage(choice: TemplateChoice, booking: FlatBooking): TemplateMessage {
+    const { template } = choice;
+    const components: TemplateComponent[] = [];
+    if (template.header) {
+      components.push({ type: "header", parameters: [this.getHeaderParameter(template.header)] });
+    }
+    if (template.bodyParameters.length > 0) {
+      components.push({
+        type: "body",
+        parameters: template.bodyParameters.map((parameter) => ({
+          type: "text",
+          text: this.toParameterText(this.replacePlaceholders(parameter.value, booking)),
+          ...(parameter.name ? { parameter_name: parameter.name } : {}),
+        })),
+      });
+    }
+    return { name: template.name, language: choice.language || template.languages[0], components };
+  }
+
+  /**
+   * Preview a template message: the approved text with its {{...}} variables filled in, or just
+   * the parameter values when the text isn't in settings
+   */
+  previewTemplate(choice: TemplateChoice, booking: FlatBooking): string {
+    const { template } = choice;
+    const values = template.bodyParameters.map((parameter) =>
+      this.replacePlaceholders(parameter.value, booking)
+    );
+    if (!template.text) {
+      return `[${template.name}] ${values.join(" | ")}`;
+    }
+    return template.text.replace(/\{\{\s*([a-z0-9_]+)\s*\}\}/g, (variable, key) => {
+      const index = template.bodyParameters.findIndex((parameter, position) =>
+        parameter.name ? parameter.name === key : String(position + 1) === key
+      );
+      return index >= 0 ? values[index] : variable;
+    });
+  }
+
   /**
    * Get phone number for messaging from booking data
    */
-  private getPhoneNumber(booking: FlatBooking): string | null {
+  getPhoneNumber(booking: FlatBooking): string | null {
     // Try different phone number fields based on performance type
     const phoneNumber =
       booking.phoneNumber || booking.participant1Phone || booking.representativePhone;
@@ -104,118 +176,89 @@ class WhatsAppService {
   }
 
   /**
-   * Send a single WhatsApp message
+   * The channel a booking's messages go by: the one the dancer chose when they have an address
+   * there, otherwise WhatsApp
    */
-  private async sendMessage(phoneNumber: string, message: string): Promise<boolean> {
-    try {
-      const messageData: WhatsAppMessage = {
-        messaging_product: "whatsapp",
-        to: phoneNumber,
-        type: "text",
-        text: {
-          body: message,
-        },
-      };
-
-      const response = await fetch(`${this.baseUrl}/${this.phoneNumberId}/messages`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.accessToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(messageData),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error("WhatsApp API error:", errorData);
-        return false;
-      }
-
-      const result = await response.json();
-      console.log("Message sent successfully:", result);
-      return true;
-    } catch (error) {
-      console.error("Error sending WhatsApp message:", error);
-      return false;
-    }
+  getChannel(booking: FlatBooking): NotificationChannel {
+    return getPreferredChannel(this.channels, booking);
   }
 
   /**
-   * Send batch messages to all bookings
+   * Queue a personalized message to each booking on its channel: free text with placeholders,
+   * or an approved template. Templates only go by WhatsApp; dancers who chose email get
+   * email.text, or the template's preview, under email.subject. The server sends them; follow
+   * delivery with subscribeToBatchMessages(batchId).
    */
   async sendBatchMessages(
-    messageTemplate: string,
+    message: string | TemplateChoice,
     bookings: FlatBooking[],
-    onProgress?: (sent: number, total: number, success: number, failed: number) => void
-  ): Promise<{
-    success: number;
-    failed: number;
-    results: Array<{ booking: FlatBooking; success: boolean; error?: string }>;
-  }> {
-    const results: Array<{ booking: FlatBooking; success: boolean; error?: string }> = [];
-    let successCount = 0;
-    let failedCount = 0;
+    kind: MessageQueueRequest["kind"] = "broadcast",
+    email: EmailContent = { subject: DEFAULT_EMAIL_SUBJECT }
+  ): Promise<QueuedBatch> {
+    const skipped: FlatBooking[] = [];
+    const messages: MessageQueueRequest["messages"] = [];
 
-    for (let i = 0; i < bookings.length; i++) {
-      const booking = bookings[i];
-
-      try {
-        // Get phone number
-        const phoneNumber = this.getPhoneNumber(booking);
-
-        if (!phoneNumber) {
-          results.push({
-            booking,
-            success: false,
-            error: "No valid phone number found",
-          });
-          failedCount++;
-          continue;
-        }
-
-        // Replace placeholders in message
-        const personalizedMessage = this.replacePlaceholders(messageTemplate, booking);
-
-        // Send message
-        const success = await this.sendMessage(phoneNumber, personalizedMessage);
-
-        results.push({
+    bookings.forEach((booking) => {
+      const channel = this.getChannel(booking);
+      let queued: QueueRequestMessage | null;
+      if (typeof message === "string") {
+        queued = channel.compose(booking, message, email.subject);
+      } else if (channel.id === "whatsapp") {
+        const phoneNumber = channel.getAddress(booking);
+        queued = phoneNumber
+          ? {
+              bookingId: booking.bookingId,
+              channel: "whatsapp",
+              to: phoneNumber,
+              body: this.previewTemplate(message, booking),
+              template: this.buildTemplateMessage(message, booking),
+            }
+          : null;
+      } else {
+        queued = channel.compose(
           booking,
-          success,
-          error: success ? undefined : "Failed to send message",
-        });
-
-        if (success) {
-          successCount++;
-        } else {
-          failedCount++;
-        }
-
-        // Call progress callback
-        if (onProgress) {
-          onProgress(i + 1, bookings.length, successCount, failedCount);
-        }
+          email.text || this.previewTemplate(message, booking),
+          email.subject
+        );
+      }
 
-        // Add small delay between messages to avoid rate limiting
-        if (i < bookings.length - 1) {
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
-      } catch (error) {
-        results.push({
-          booking,
-          success: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-        });
-        failedCount++;
+      if (queued) {
+        messages.push(queued);
+      } else {
+        skipped.push(booking);
       }
+    });
+
+    if (messages.length === 0) {
+      return { batchId: "", queued: 0, skipped };
     }
+    const { batchId, queued } = await queueMessages({ messages, kind });
+    return { batchId, queued, skipped };
+  }
 
-    return {
-      success: successCount,
-      failed: failedCount,
-      results,
-    };
+  /**
+   * Tell dancers their expected time after the programme started running late. Each booking
+   * carries its estimatedTime and delayMinutes. Sent on WhatsApp with
+   * eventConfig.delayWhatsAppTemplate when one is chosen, otherwise (and always by email) as
+   * eventConfig.delayMessageTemplate text.
+   */
+  async sendDelayUpdates(bookings: FlatBooking[]): Promise<QueuedBatch> {
+    const template = this.getTemplate(eventConfig.delayWhatsAppTemplate);
+    return this.sendBatchMessages(
+      template ? { template, language: template.languages[0] } : eventConfig.delayMessageTemplate,
+      bookings,
+      "delay",
+      { subject: eventConfig.delayEmailSubject, text: eventConfig.delayMessageTemplate }
+    );
+  }
+
+  /**
+   * The approved template with this name, if it is in settings
+   */
+  getTemplate(name: string): WhatsAppTemplate | undefined {
+    return name
+      ? eventConfig.whatsAppTemplates.find((template) => template.name === name)
+      : undefined;
   }
 
   /**
@@ -247,6 +290,8 @@ class WhatsAppService {
       "{representative_phone}",
       "{payment_id}",
       "{status}",
+      "{estimated_time}",
+      "{delay_minutes}",
     ];
   }
 
@@ -0,0 +1,141 @@
+// Visibility and validation of the registration form fields, driven by their FormField
+// definitions in eventConfig
+import { FormField } from "../config/eventConfig";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || String(value).trim() === "";
+
+// Fields shown for the answers so far. A showIf condition refers to an earlier field, so a field
+// is hidden whenever the field it depends on is hidden.
+export const getVisibleFields = (fields: FormField[], values: Record<string, any>): FormField[] => {
+  const visible: FormField[] = [];
+  fields.forEach((field) => {
+    const { showIf } = field;
+    const shown =
+      !showIf ||
+      (visible.some((earlier) => earlier.id === showIf.field) &&
+        showIf.equals.includes(String(values[showIf.field] ?? "")));
+    if (shown) {
+      visible.push(field);
+    }
+  });
+  return visible;
+};
+
+// The answers to submit, without those of hidden fields. Values that are not form fields (such
+// as members) are kept.
+export const getVisibleValues = (
+  fields: FormField[],
+  values: Record<string, any>
+): Record<string, any> => {
+  const visibleIds = getVisibleFields(fields, values).map((field) => field.id);
+  return Object.fromEntries(
+    Object.entries(values).filter(
+      ([id]) => visibleIds.includes(id) || !fields.some((field) => field.id === id)
+    )
+  );
+};
+
+// Whole years between a YYYY-MM-DD date of birth and today
+export const getAgeInYears = (dateOfBirth: string, today = new Date()): number => {
+  const birth = new Date(`${dateOfBirth}T00:00:00`);
+  const age = today.getFullYear() - birth.getFullYear();
+  const birthdayPassed =
+    today.getMonth() > birth.getMonth() ||
+    (today.getMonth() === birth.getMonth() && today.getDate() >= birth.getDate());
+  return birthdayPassed ? age : age - 1;
+};
+
+const describeRange = (min?: number, max?: number, unit = "") => {
+  if (min !== undefined && max !== undefined) {
+    return `between ${min} and ${max}${unit}`;
+  }
+  return min !== undefined ? `at least ${min}${unit}` : `at most ${max}${unit}`;
+};
+
+const isOutOfRange = (value: number, min?: number, max?: number) =>
+  (min !== undefined && value < min) || (max !== undefined && value > max);
+
+// Error message for a field's value, or "" when it is valid. File fields hold the uploaded
+// file's storage path here; the file itself is checked by validateFile before uploading.
+export const validateFieldValue = (field: FormField, value: unknown): string => {
+  if (isEmpty(value)) {
+    return field.required ? `${field.label} is required` : "";
+  }
+
+  const text = String(value).trim();
+  const { pattern, patternMessage, minLength, maxLength, min, max } = field.validation || {};
+
+  switch (field.type) {
+    case "email":
+      if (!EMAIL_PATTERN.test(text)) {
+        return "Please enter a valid email address";
+      }
+      break;
+    case "number":
+      if (isNaN(Number(text))) {
+        return `${field.label} must be a number`;
+      }
+      if (isOutOfRange(Number(text), min, max)) {
+        return `${field.label} must be ${describeRange(min, max)}`;
+      }
+      break;
+    case "date":
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || isNaN(Date.parse(text))) {
+        return `${field.label} must be a valid date`;
+      }
+      if (isOutOfRange(getAgeInYears(text), min, max)) {
+        return `Age must be ${describeRange(min, max, " years")}`;
+      }
+      break;
+    case "select":
+    case "radio":
+      if (!(field.options || []).includes(text)) {
+        return `Please choose one of the options for ${field.label}`;
+      }
+      break;
+    default:
+      break;
+  }
+
+  if (minLength !== undefined && text.length < minLength) {
+    return `${field.label} must be at least ${minLength} characters`;
+  }
+  if (maxLength !== undefined && text.length > maxLength) {
+    return `${field.label} must be at most ${maxLength} characters`;
+  }
+  if (pattern && !new RegExp(`^(?:${pattern})$`).test(text)) {
+    return patternMessage || `${field.label} is not in the expected format`;
+  }
+  return "";
+};
+
+// Whether a browser file matches an accept list such as "image/*,application/pdf,.docx"
+const matchesAccept = (file: File, accept: string) =>
+  accept
+    .split(",")
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean)
+    .some((type) => {
+      if (type.startsWith(".")) {
+        return file.name.toLowerCase().endsWith(type);
+      }
+      if (type.endsWith("/*")) {
+        return file.type.startsWith(type.slice(0, -1));
+      }
+      return file.type === type;
+    });
+
+// Error message for a file chosen for a file field, or "" when it can be uploaded
+export const validateFile = (field: FormField, file: File): string => {
+  if (field.accept && !matchesAccept(file, field.accept)) {
+    return `${field.label} must be one of: ${field.accept}`;
+  }
+  const maxSizeMB = field.validation?.maxFileSizeMB;
+  if (maxSizeMB !== undefined && file.size > maxSizeMB * 1024 * 1024) {
+    return `${field.label} must be smaller than ${maxSizeMB} MB`;
+  }
+  return "";
+};
@@ -0,0 +1,88 @@
+import { eventConfig, ParticipantMember, PerformanceType } from "../config/eventConfig";
+
+export const getPerformanceType = (performanceType: string): PerformanceType | undefined => {
+  return eventConfig.performanceTypes.find((type) => type.id === performanceType);
+};
+
+// Entries of the members sub-form; empty for other types and for bookings made before it
+export const getMembers = (participantDetails: Record<string, any>): ParticipantMember[] => {
+  return Array.isArray(participantDetails.members) ? participantDetails.members : [];
+};
+
+// Names of the dancers entered on the form, in order
+export const getParticipantNames = (
+  performanceType: string,
+  participantDetails: Record<string, any>
+): string[] => {
+  const type = getPerformanceType(performanceType);
+  if (!type) {
+    return [];
+  }
+
+  const { mode, nameFields } = type.participants;
+  const names =
+    mode === "members"
+      ? getMembers(participantDetails).map((member) => String(member.name || ""))
+      : nameFields.map((field) => String(participantDetails[field] || ""));
+  return names.map((name) => name.trim()).filter(Boolean);
+};
+
+// Dancers charged for. Until the names are entered this is the type's minimum.
+export const getParticipantCount = (
+  performanceType: string,
+  participantDetails: Record<string, any>
+): number => {
+  const type = getPerformanceType(performanceType);
+  if (!type) {
+    return 1;
+  }
+  return Math.max(
+    getParticipantNames(performanceType, participantDetails).length,
+    type.minParticipants
+  );
+};
+
+// "Asha & Meera" for one field per dancer, "Asha, Meera, Ravi" for members
+export const formatParticipantNames = (
+  performanceType: string,
+  participantDetails: Record<string, any>
+): string => {
+  const type = getPerformanceType(performanceType);
+  const separator = type?.participants.mode === "members" ? ", " : " & ";
+  return getParticipantNames(performanceType, participantDetails).join(separator) || "N/A";
+};
+
+export const getContactPhone = (
+  performanceType: string,
+  participantDetails: Record<string, any>
+): string => {
+  const type = getPerformanceType(performanceType);
+  return type ? participantDetails[type.participants.phoneField] || "" : "";
+};
+
+// Error message when the number of names is outside the type's limits, otherwise ""
+export const validateParticipantCount = (
+  performanceType: string,
+  participantDetails: Record<string, any>
+): string => {
+  const type = getPerformanceType(performanceType);
+  if (!type) {
+    return "";
+  }
+
+  const count = getParticipantNames(performanceType, participantDetails).length;
+  if (count >= type.minParticipants && count <= type.maxParticipants) {
+    return "";
+  }
+  return type.minParticipants === type.maxParticipants
+    ? `${type.name} needs exactly ${type.minParticipants} participant(s)`
+    : `${type.name} needs ${type.minParticipants} to ${type.maxParticipants} participants`;
+};
+
+// "1 dancer", "2 dancers", "3–12 dancers"
+export const describeParticipantLimits = (type: PerformanceType): string => {
+  if (type.minParticipants === type.maxParticipants) {
+    return `${type.minParticipants} dancer${type.minParticipants === 1 ? "" : "s"}`;
+  }
+  return `${type.minParticipants}–${type.maxParticipants} dancers`;
+};
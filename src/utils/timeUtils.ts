@@ -1,14 +1,17 @@
-import { eventConfig } from "../config/eventConfig";
+import { eventConfig, EventDay, FestivalEvent, PricingTier } from "../config/eventConfig";
 
 export interface TimeSlot {
   time: string;
   status: "available" | "booked";
 }
 
-export const generateTimeSlots = (): TimeSlot[] => {
+export const generateTimeSlots = (
+  day: EventDay,
+  slotDuration: number = eventConfig.slotDuration
+): TimeSlot[] => {
   const slots: TimeSlot[] = [];
-  const startTime = new Date(`2000-01-01T${eventConfig.startTime}:00`);
-  const endTime = new Date(`2000-01-01T${eventConfig.endTime}:00`);
+  const startTime = new Date(`2000-01-01T${day.startTime}:00`);
+  const endTime = new Date(`2000-01-01T${day.endTime}:00`);
 
   let currentTime = new Date(startTime);
 
@@ -25,7 +28,7 @@ export const generateTimeSlots = (): TimeSlot[] => {
     });
 
     // Add slot duration minutes
-    currentTime.setMinutes(currentTime.getMinutes() + eventConfig.slotDuration);
+    currentTime.setMinutes(currentTime.getMinutes() + slotDuration);
   }
 
   return slots;
@@ -58,8 +61,28 @@ export const isAdjacentSlot = (slot1: string, slot2: string): boolean => {
   return diffMinutes === eventConfig.slotDuration;
 };
 
-export const getEventDate = (): string => {
-  return eventConfig.eventDate;
+export const getEvent = (eventId: string): FestivalEvent | undefined => {
+  return eventConfig.events.find((event) => event.id === eventId);
+};
+
+export const getEventDay = (eventId: string, date: string): EventDay | undefined => {
+  return getEvent(eventId)?.days.find((day) => day.date === date);
+};
+
+// Slots are stored per event day so festivals on the same date never share slots.
+// Bookings made before events were introduced have no eventId and use slots/{date}.
+export const getSlotDocId = (eventId: string | undefined, date: string): string => {
+  return eventId ? `${eventId}_${date}` : date;
+};
+
+// "2025-08-16" -> "Saturday, 16 August 2025"
+export const formatEventDate = (date: string): string => {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-IN", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
 };
 
 // Helper function to sort time slots by time of day
@@ -88,8 +111,19 @@ export const timeToMinutes = (time: string): number => {
   return hour * 60 + minutes;
 };
 
+// Minutes after midnight back to a slot label, e.g. 1030 -> "05:10 PM"
+export const minutesToTime = (totalMinutes: number): string => {
+  const minutesInDay = ((totalMinutes % 1440) + 1440) % 1440;
+  const hour = Math.floor(minutesInDay / 60);
+  const period = hour < 12 ? "AM" : "PM";
+  const hour12 = hour % 12 === 0 ? 12 : hour % 12;
+  return `${String(hour12).padStart(2, "0")}:${String(minutesInDay % 60).padStart(2, "0")} ${period}`;
+};
+
 // Time-based pricing utilities
-export const getPricingTier = (timeSlot: string): "offPeak" | "midPeak" | "onPeak" | null => {
+export const PRICING_TIERS: PricingTier[] = ["offPeak", "midPeak", "onPeak"];
+
+export const getPricingTier = (timeSlot: string): PricingTier | null => {
   if (!eventConfig.timePricing?.enabled) {
     return null;
   }
@@ -98,26 +132,11 @@ export const getPricingTier = (timeSlot: string): "offPeak" | "midPeak" | "onPea
   const { timeRanges } = eventConfig.timePricing;
 
   // Check if time falls within any range (only if that range is configured)
-  if (
-    timeRanges.offPeak &&
-    isTimeInRange(slotTime24, timeRanges.offPeak.start, timeRanges.offPeak.end)
-  ) {
-    return "offPeak";
-  }
-  if (
-    timeRanges.midPeak &&
-    isTimeInRange(slotTime24, timeRanges.midPeak.start, timeRanges.midPeak.end)
-  ) {
-    return "midPeak";
-  }
-  if (
-    timeRanges.onPeak &&
-    isTimeInRange(slotTime24, timeRanges.onPeak.start, timeRanges.onPeak.end)
-  ) {
-    return "onPeak";
-  }
-
-  return null;
+  const tier = PRICING_TIERS.find((candidate) => {
+    const range = timeRanges[candidate];
+    return range && isTimeInRange(slotTime24, range.start, range.end);
+  });
+  return tier || null;
 };
 
 export const isTimeInRange = (time: string, start: string, end: string): boolean => {
@@ -133,58 +152,33 @@ export const convertTimeToMinutes = (time: string): number => {
   return hours * 60 + minutes;
 };
 
-export const getPriceForSlot = (timeSlot: string, performanceType: string): number => {
-  if (!eventConfig.timePricing?.enabled) {
-    // Fallback to original pricing
-    const type = eventConfig.performanceTypes.find((t) => t.id === performanceType);
-    return type?.pricePerPerson || 0;
+// Price per person for a performance type in a tier, falling back to its flat price
+export const getTierPrice = (performanceType: string, tier: PricingTier | null): number => {
+  const type = eventConfig.performanceTypes.find((t) => t.id === performanceType);
+  if (!type) {
+    return 0;
   }
 
-  const tier = getPricingTier(timeSlot);
-  if (!tier || !eventConfig.timePricing.pricing[tier]) {
-    // Fallback to original pricing if tier not found or not configured
-    const type = eventConfig.performanceTypes.find((t) => t.id === performanceType);
-    return type?.pricePerPerson || 0;
-  }
+  const tierPrice = tier ? type.tierPrices?.[tier] : undefined;
+  return tierPrice ?? type.pricePerPerson;
+};
 
-  const pricing = eventConfig.timePricing.pricing[tier]!;
-  switch (performanceType) {
-    case "solo":
-      return pricing.solo;
-    case "duet":
-      return pricing.duet;
-    case "group":
-      return pricing.group;
-    default:
-      return 0;
-  }
+export const getPriceForSlot = (timeSlot: string, performanceType: string): number => {
+  return getTierPrice(performanceType, getPricingTier(timeSlot));
 };
 
 export const getSlotColor = (timeSlot: string): string => {
-  if (!eventConfig.timePricing?.enabled) {
-    return "transparent"; // Default color when time pricing is disabled
-  }
-
   const tier = getPricingTier(timeSlot);
-  if (!tier || !eventConfig.timePricing.pricing[tier]) return "transparent";
-
-  return eventConfig.timePricing.pricing[tier]!.color;
+  // Transparent when time pricing is off or the tier has no colour
+  return (tier && eventConfig.timePricing?.colors[tier]?.color) || "transparent";
 };
 
 export const getSlotBorderColor = (timeSlot: string): string => {
-  if (!eventConfig.timePricing?.enabled) {
-    return "transparent"; // Default color when time pricing is disabled
-  }
-
   const tier = getPricingTier(timeSlot);
-  if (!tier || !eventConfig.timePricing.pricing[tier]) return "transparent";
-
-  return eventConfig.timePricing.pricing[tier]!.borderColor;
+  return (tier && eventConfig.timePricing?.colors[tier]?.borderColor) || "transparent";
 };
 
-export const getTierDisplayName = (
-  tier: "offPeak" | "midPeak" | "onPeak" | null
-): string | null => {
+export const getTierDisplayName = (tier: PricingTier | null): string | null => {
   if (!tier || !eventConfig.timePricing?.enabled) {
     return null;
   }
@@ -193,37 +187,33 @@ export const getTierDisplayName = (
   return timeRange?.displayName || null;
 };
 
-export const getPricingTierInfo = () => {
+export interface PricingTierInfo {
+  name: string;
+  timeRange: string;
+  color: string;
+  borderColor: string;
+}
+
+// Configured tiers in order of the day, for the pricing legend
+export const getPricingTierInfo = (): Partial<Record<PricingTier, PricingTierInfo>> | null => {
   if (!eventConfig.timePricing?.enabled) {
     return null;
   }
 
-  const result: Record<string, any> = {};
-
-  // Only include configured tiers
-  if (eventConfig.timePricing.timeRanges.offPeak && eventConfig.timePricing.pricing.offPeak) {
-    result.offPeak = {
-      name: eventConfig.timePricing.timeRanges.offPeak.displayName,
-      timeRange: `${eventConfig.timePricing.timeRanges.offPeak.start} - ${eventConfig.timePricing.timeRanges.offPeak.end}`,
-      pricing: eventConfig.timePricing.pricing.offPeak,
-    };
-  }
+  const { timeRanges, colors } = eventConfig.timePricing;
+  const result: Partial<Record<PricingTier, PricingTierInfo>> = {};
 
-  if (eventConfig.timePricing.timeRanges.midPeak && eventConfig.timePricing.pricing.midPeak) {
-    result.midPeak = {
-      name: eventConfig.timePricing.timeRanges.midPeak.displayName,
-      timeRange: `${eventConfig.timePricing.timeRanges.midPeak.start} - ${eventConfig.timePricing.timeRanges.midPeak.end}`,
-      pricing: eventConfig.timePricing.pricing.midPeak,
-    };
-  }
-
-  if (eventConfig.timePricing.timeRanges.onPeak && eventConfig.timePricing.pricing.onPeak) {
-    result.onPeak = {
-      name: eventConfig.timePricing.timeRanges.onPeak.displayName,
-      timeRange: `${eventConfig.timePricing.timeRanges.onPeak.start} - ${eventConfig.timePricing.timeRanges.onPeak.end}`,
-      pricing: eventConfig.timePricing.pricing.onPeak,
-    };
-  }
+  PRICING_TIERS.forEach((tier) => {
+    const range = timeRanges[tier];
+    if (range) {
+      result[tier] = {
+        name: range.displayName,
+        timeRange: `${range.start} - ${range.end}`,
+        color: colors[tier]?.color || "transparent",
+        borderColor: colors[tier]?.borderColor || "transparent",
+      };
+    }
+  });
 
   return Object.keys(result).length > 0 ? result : null;
 };